@@ -0,0 +1,119 @@
+/**
+ * Field mode service worker - keeps the app shell and map tiles available
+ * without signal. API data is cached by the app itself (see lib/offlineSync.ts),
+ * so /api requests pass straight through.
+ */
+
+const SHELL_CACHE = 'shell-v1';
+const TILE_CACHE = 'tiles-v1';
+const MAX_TILES = 4000;
+const TRIM_EVERY = 100;
+
+const isTileRequest = (url) => /(^|\.)tile\.openstreetmap\.org$/.test(url.hostname);
+// Leaflet spreads tiles over a/b/c subdomains; cache them under one key
+const tileKey = (url) => `https://tile.openstreetmap.org${url.pathname}`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.add('/')));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key !== SHELL_CACHE && key !== TILE_CACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+let tilesSinceTrim = 0;
+
+// Oldest tiles go first once the cache is full
+async function trimTiles(cache) {
+  tilesSinceTrim = 0;
+  const keys = await cache.keys();
+  const excess = keys.length - MAX_TILES;
+  for (let i = 0; i < excess; i++) {
+    await cache.delete(keys[i]);
+  }
+}
+
+async function tileFirst(request) {
+  const key = tileKey(new URL(request.url));
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(key);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(key, response.clone());
+    if (++tilesSinceTrim >= TRIM_EVERY) await trimTiles(cache);
+  }
+  return response;
+}
+
+// Pages: network first so deploys show up, cached shell when offline
+async function networkFirstPage(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put('/', response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Built assets are content-hashed, so a cached copy never goes stale
+async function cacheFirstAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (isTileRequest(url)) {
+    event.respondWith(tileFirst(request));
+  } else if (url.origin === self.location.origin && !url.pathname.startsWith('/api/')) {
+    if (request.mode === 'navigate') {
+      event.respondWith(networkFirstPage(request));
+    } else if (url.pathname.startsWith('/assets/')) {
+      event.respondWith(cacheFirstAsset(request));
+    }
+  }
+});
+
+// "Save map for offline": the page sends the tile URLs for an area
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache-tiles') return;
+  const urls = event.data.urls || [];
+  event.waitUntil((async () => {
+    const cache = await caches.open(TILE_CACHE);
+    let saved = 0;
+    for (const url of urls) {
+      try {
+        const key = tileKey(new URL(url));
+        if (!(await cache.match(key))) {
+          const response = await fetch(url, { mode: 'cors' });
+          if (response.ok) await cache.put(key, response);
+        }
+        saved++;
+      } catch {
+        // Lost signal part way; what was saved stays saved
+        break;
+      }
+    }
+    await trimTiles(cache);
+    event.source?.postMessage({ type: 'tiles-cached', saved, total: urls.length });
+  })());
+});
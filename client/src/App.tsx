@@ -15,7 +15,9 @@ import { KycImportPage } from "@/pages/kyc-import";
 import ContactsPage from "@/pages/contacts";
 import CompaniesPage from "@/pages/companies";
 import CrmPage from "@/pages/crm";
+import PipelinePage from "@/pages/pipeline";
 import DatabaseManagement from "@/pages/database-management";
+import ImportHistoryPage from "@/pages/import-history";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
 import Verify from "@/pages/verify";
@@ -47,11 +49,13 @@ function Router() {
           <Route path="/email-setup" component={EmailSetupPage} />
           <Route path="/dodge-import" component={DodgeImportPage} />
           <Route path="/crm" component={CrmPage} />
+          <Route path="/pipeline" component={PipelinePage} />
           <Route path="/contacts" component={ContactsPage} />
           <Route path="/companies/:id" component={CompaniesPage} />
           <Route path="/companies" component={CompaniesPage} />
           <Route path="/contact-import" component={ContactImportPage} />
           <Route path="/kyc-import" component={KycImportPage} />
+          <Route path="/imports" component={ImportHistoryPage} />
           <Route path="/database" component={DatabaseManagement} />
           <Route component={NotFound} />
         </>
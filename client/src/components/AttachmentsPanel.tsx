@@ -0,0 +1,169 @@
+import { useRef, useState } from "react";
+import type { AttachmentOwner, Document } from "@shared/schema";
+import { MAX_ATTACHMENT_SIZE_MB } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useAttachments,
+  useUploadAttachment,
+  useDeleteAttachment,
+  useAttachmentThumbnailUrl,
+  openAttachment,
+} from "@/hooks/useAttachments";
+import { FileText, Paperclip, Trash2, Upload } from "lucide-react";
+
+// Matches the server's allowed types; images come in as any image/* type
+const ACCEPTED_FILES = "image/*,.pdf,.doc,.docx,.xls,.xlsx,.csv,.txt";
+
+function formatFileSize(size: string) {
+  const bytes = parseInt(size, 10);
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function AttachmentPreview({ document }: { document: Document }) {
+  const { data: url } = useAttachmentThumbnailUrl(document);
+  if (url) {
+    return <img src={url} alt={document.originalName} className="h-10 w-10 rounded object-cover border border-gray-200" />;
+  }
+  return (
+    <div className="h-10 w-10 rounded bg-gray-100 flex items-center justify-center text-gray-400">
+      <FileText className="h-5 w-5" />
+    </div>
+  );
+}
+
+interface AttachmentsPanelProps {
+  owner: AttachmentOwner;
+}
+
+/**
+ * Files kept against a job, company or contact: site photos, plans, spec
+ * sheets, signed quotes.
+ */
+export function AttachmentsPanel({ owner }: AttachmentsPanelProps) {
+  const { toast } = useToast();
+  const { data: attachments = [], isLoading } = useAttachments(owner);
+  const uploadMutation = useUploadAttachment(owner);
+  const deleteMutation = useDeleteAttachment();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [uploadingCount, setUploadingCount] = useState(0);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    const tooLarge = files.filter((file) => file.size > MAX_ATTACHMENT_SIZE_MB * 1024 * 1024);
+    if (tooLarge.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "File too large",
+        description: `${tooLarge.map((file) => file.name).join(", ")} is over ${MAX_ATTACHMENT_SIZE_MB} MB`,
+      });
+    }
+    const toUpload = files.filter((file) => !tooLarge.includes(file));
+    if (toUpload.length === 0) return;
+
+    // One request per file so each image carries its own thumbnail
+    setUploadingCount(toUpload.length);
+    let uploaded = 0;
+    for (const file of toUpload) {
+      try {
+        await uploadMutation.mutateAsync(file);
+        uploaded++;
+      } catch (err) {
+        toast({ variant: "destructive", title: `Couldn't upload ${file.name}`, description: (err as Error).message });
+      }
+      setUploadingCount((count) => count - 1);
+    }
+    if (uploaded > 0) {
+      toast({ title: "Files attached", description: `${uploaded} file${uploaded === 1 ? "" : "s"} uploaded` });
+    }
+  };
+
+  const handleOpen = (document: Document) => {
+    openAttachment(document).catch((err) =>
+      toast({ variant: "destructive", title: "Error", description: (err as Error).message })
+    );
+  };
+
+  const handleDelete = (document: Document) => {
+    if (!confirm(`Delete ${document.originalName}?`)) return;
+    deleteMutation.mutate(document.id, {
+      onError: (err) => toast({ variant: "destructive", title: "Error", description: err.message }),
+    });
+  };
+
+  return (
+    <Card data-testid="attachments-panel">
+      <CardContent className="pt-4">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-sm flex items-center gap-2">
+            <Paperclip className="h-4 w-4" />
+            Files
+            {attachments.length > 0 && <Badge variant="secondary">{attachments.length}</Badge>}
+          </h4>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={ACCEPTED_FILES}
+            multiple
+            className="hidden"
+            onChange={handleFiles}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+            disabled={uploadingCount > 0}
+            data-testid="button-add-attachment"
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            {uploadingCount > 0 ? `Uploading ${uploadingCount}...` : "Add files"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 mt-2">Loading files...</p>
+        ) : attachments.length === 0 ? (
+          <p className="text-sm text-gray-500 mt-2">No files yet. Add photos, plans, spec sheets or signed quotes.</p>
+        ) : (
+          <div className="mt-2 divide-y divide-gray-100">
+            {attachments.map((document) => (
+              <div key={document.id} className="flex items-center gap-3 py-2" data-testid={`attachment-${document.id}`}>
+                <button type="button" onClick={() => handleOpen(document)} className="flex-shrink-0">
+                  <AttachmentPreview document={document} />
+                </button>
+                <div className="min-w-0 flex-1">
+                  <button
+                    type="button"
+                    onClick={() => handleOpen(document)}
+                    className="text-sm font-medium text-blue-600 hover:underline truncate block max-w-full text-left"
+                  >
+                    {document.originalName}
+                  </button>
+                  <p className="text-xs text-gray-400">
+                    {formatFileSize(document.size)}
+                    {document.createdAt && ` · ${new Date(document.createdAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => handleDelete(document)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-attachment-${document.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
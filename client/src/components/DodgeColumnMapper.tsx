@@ -0,0 +1,297 @@
+import { useState } from "react";
+import {
+  DODGE_IMPORT_FIELDS,
+  DODGE_IMPORT_FIELD_LABELS,
+  type DodgeColumnMapping,
+  type DodgeColumnPreview,
+  type DodgeImportField,
+  type DodgeMappingProfile,
+} from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useDodgeMappingProfiles,
+  useCreateDodgeMappingProfile,
+  useUpdateDodgeMappingProfile,
+  useDeleteDodgeMappingProfile,
+} from "@/hooks/useDodgeMappingProfiles";
+import { AlertTriangle, Columns, Save, Trash2 } from "lucide-react";
+
+// Radix selects can't hold an empty value
+const IGNORE = "__ignore";
+const SUGGESTED = "__suggested";
+
+function isBlank(value: unknown) {
+  return value === undefined || value === null || String(value).trim() === "";
+}
+
+function displayValue(value: unknown) {
+  return isBlank(value) ? "" : String(value).trim();
+}
+
+// Same rule as the server: the first mapped header with a value fills the field
+function mapRow(row: Record<string, unknown>, columns: DodgeColumnMapping) {
+  const mapped: Partial<Record<DodgeImportField, unknown>> = {};
+  for (const [header, field] of Object.entries(columns)) {
+    if (isBlank(mapped[field]) && !isBlank(row[header])) mapped[field] = row[header];
+  }
+  return mapped;
+}
+
+/**
+ * A saved profile's mapping, keeping only the headers this file has.
+ */
+export function profileColumnsFor(profile: DodgeMappingProfile, headers: string[]): DodgeColumnMapping {
+  return Object.fromEntries(Object.entries(profile.columns).filter(([header]) => headers.includes(header)));
+}
+
+function sameColumns(a: DodgeColumnMapping, b: DodgeColumnMapping) {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((header) => a[header] === b[header]);
+}
+
+interface DodgeColumnMapperProps {
+  preview: DodgeColumnPreview;
+  columns: DodgeColumnMapping;
+  onColumnsChange: (columns: DodgeColumnMapping) => void;
+  profileId: string | null;
+  onProfileChange: (profileId: string | null) => void;
+}
+
+/**
+ * Map each header of a Dodge export to a job field, preview the first rows
+ * and keep the mapping as a named profile for the next export.
+ */
+export function DodgeColumnMapper({ preview, columns, onColumnsChange, profileId, onProfileChange }: DodgeColumnMapperProps) {
+  const { toast } = useToast();
+  const { data: profiles = [] } = useDodgeMappingProfiles();
+  const createProfile = useCreateDodgeMappingProfile();
+  const updateProfile = useUpdateDodgeMappingProfile();
+  const deleteProfile = useDeleteDodgeMappingProfile();
+  const [profileName, setProfileName] = useState("");
+  const [isNaming, setIsNaming] = useState(false);
+
+  const { headers, sampleRows } = preview;
+  const profile = profiles.find((p) => p.id === profileId) ?? null;
+  const missingHeaders = profile ? Object.keys(profile.columns).filter((header) => !headers.includes(header)) : [];
+  const isChanged = profile ? !sameColumns(columns, profile.columns) : false;
+  const hasName = Object.values(columns).includes("name");
+  const mappedFields = DODGE_IMPORT_FIELDS.filter((field) => Object.values(columns).includes(field));
+  const previewRows = sampleRows.map((row) => mapRow(row, columns));
+
+  const sampleValue = (header: string) => {
+    const row = sampleRows.find((r) => !isBlank(r[header]));
+    return row ? displayValue(row[header]) : "";
+  };
+
+  const handleFieldChange = (header: string, value: string) => {
+    const { [header]: _previous, ...rest } = columns;
+    onColumnsChange(value === IGNORE ? rest : { ...rest, [header]: value as DodgeImportField });
+  };
+
+  const handleProfileSelect = (value: string) => {
+    if (value === SUGGESTED) {
+      onProfileChange(null);
+      onColumnsChange(preview.suggestedColumns);
+      return;
+    }
+    const selected = profiles.find((p) => p.id === value);
+    if (!selected) return;
+    onProfileChange(selected.id);
+    onColumnsChange(profileColumnsFor(selected, headers));
+  };
+
+  const showError = (err: Error) => toast({ variant: "destructive", title: "Error", description: err.message });
+
+  const handleSaveNew = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    createProfile.mutate(
+      { name, columns },
+      {
+        onSuccess: (saved) => {
+          onProfileChange(saved.id);
+          setIsNaming(false);
+          setProfileName("");
+          toast({ title: "Mapping saved", description: `Exports with these columns will use "${saved.name}"` });
+        },
+        onError: showError,
+      }
+    );
+  };
+
+  const handleUpdate = () => {
+    if (!profile) return;
+    updateProfile.mutate(
+      { id: profile.id, columns },
+      {
+        onSuccess: () => toast({ title: "Mapping updated", description: `"${profile.name}" now matches this export` }),
+        onError: showError,
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!profile || !confirm(`Delete the "${profile.name}" mapping?`)) return;
+    deleteProfile.mutate(profile.id, {
+      onSuccess: () => onProfileChange(null),
+      onError: showError,
+    });
+  };
+
+  return (
+    <Card data-testid="dodge-column-mapper">
+      <CardContent className="space-y-5 pt-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <Columns className="h-5 w-5 text-blue-600" />
+          </div>
+          <div>
+            <h2 className="font-semibold text-gray-900">Map Columns</h2>
+            <p className="text-sm text-gray-500">
+              {headers.length} columns found. Pick the job field each one fills, or ignore it.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 p-4 bg-gray-50 rounded-lg">
+          <Select value={profileId ?? SUGGESTED} onValueChange={handleProfileSelect}>
+            <SelectTrigger className="sm:w-64" data-testid="select-mapping-profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SUGGESTED}>Suggested mapping</SelectItem>
+              {profiles.map((p) => (
+                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {profile && preview.profileId === profile.id && !isChanged && (
+            <Badge variant="secondary">Matched this export</Badge>
+          )}
+          <div className="flex flex-wrap gap-2 sm:ml-auto">
+            {profile && isChanged && (
+              <Button size="sm" variant="outline" onClick={handleUpdate} disabled={!hasName || updateProfile.isPending}>
+                <Save className="h-4 w-4 mr-1" />
+                Update "{profile.name}"
+              </Button>
+            )}
+            {isNaming ? (
+              <div className="flex gap-2">
+                <Input
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSaveNew()}
+                  placeholder="Mapping name"
+                  className="h-9 w-44"
+                  autoFocus
+                  data-testid="input-mapping-name"
+                />
+                <Button size="sm" onClick={handleSaveNew} disabled={!profileName.trim() || !hasName || createProfile.isPending}>
+                  Save
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setIsNaming(false)}>
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => setIsNaming(true)} disabled={!hasName} data-testid="button-save-mapping">
+                <Save className="h-4 w-4 mr-1" />
+                Save as new mapping
+              </Button>
+            )}
+            {profile && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                onClick={handleDelete}
+                disabled={deleteProfile.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {missingHeaders.length > 0 && (
+          <Alert className="border-amber-200 bg-amber-50">
+            <AlertTriangle className="h-5 w-5 text-amber-600" />
+            <AlertTitle className="text-amber-900 font-semibold">The export layout has changed</AlertTitle>
+            <AlertDescription className="text-amber-800">
+              This file doesn't have {missingHeaders.map((header) => `"${header}"`).join(", ")} from "{profile?.name}".
+              Check the columns marked New below and update the mapping.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!hasName && (
+          <p className="text-sm text-red-600">Map a column to Project name; rows without one are skipped.</p>
+        )}
+
+        <div className="border rounded-lg divide-y max-h-96 overflow-y-auto">
+          {headers.map((header) => {
+            const isNew = profile && !(header in profile.columns);
+            return (
+              <div key={header} className="flex flex-col sm:flex-row sm:items-center gap-2 px-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900 truncate">{header}</span>
+                    {isNew && <Badge variant="outline" className="text-amber-700 border-amber-300">New</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-400 truncate">{sampleValue(header) || "No values in the first rows"}</div>
+                </div>
+                <Select value={columns[header] ?? IGNORE} onValueChange={(value) => handleFieldChange(header, value)}>
+                  <SelectTrigger className={`sm:w-56 ${columns[header] ? "" : "text-gray-400"}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={IGNORE}>Ignore</SelectItem>
+                    {DODGE_IMPORT_FIELDS.map((field) => (
+                      <SelectItem key={field} value={field}>{DODGE_IMPORT_FIELD_LABELS[field]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+
+        {mappedFields.length > 0 && previewRows.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-900">First {previewRows.length} rows with this mapping</h4>
+            <div className="border rounded-lg overflow-x-auto">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {mappedFields.map((field) => (
+                      <th key={field} className="px-3 py-2 text-left font-medium text-gray-600 whitespace-nowrap">
+                        {DODGE_IMPORT_FIELD_LABELS[field]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {previewRows.map((row, index) => (
+                    <tr key={index}>
+                      {mappedFields.map((field) => (
+                        <td key={field} className="px-3 py-2 text-gray-700 whitespace-nowrap max-w-[16rem] truncate">
+                          {displayValue(row[field]) || <span className="text-gray-300">—</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
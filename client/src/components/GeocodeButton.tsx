@@ -1,25 +1,42 @@
-import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import type { GeocodeQueueStatus } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
 import { MapPin } from "lucide-react";
 
 export function GeocodeButton() {
-  const [isGeocoding, setIsGeocoding] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Poll the background queue while it has work so progress shows without a refresh
+  const { data: status } = useQuery<GeocodeQueueStatus>({
+    queryKey: ['/api/geocode-queue'],
+    refetchInterval: (query) => {
+      const data = query.state.data;
+      return data && (data.pending > 0 || data.inFlight || data.retrying > 0) ? 3000 : false;
+    },
+  });
+  const isGeocoding = !!status && (status.pending > 0 || status.inFlight);
 
   const geocodeMutation = useMutation({
     mutationFn: async () => {
-      const response = await fetch('/api/geocode-missing', { method: 'POST' });
+      const response = await fetch('/api/geocode-missing', {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        credentials: 'include',
+      });
       if (!response.ok) throw new Error('Failed to geocode');
       return response.json();
     },
     onSuccess: (data) => {
+      queryClient.setQueryData(['/api/geocode-queue'], data.status);
       toast({
-        title: "Geocoding Complete",
-        description: data.message
+        title: data.queued > 0 ? "Geocoding Started" : "Nothing to Geocode",
+        description: data.queued > 0
+          ? `${data.message}. Pins appear on the map as they are placed.`
+          : "Every job with an address has already been looked up."
       });
-      setIsGeocoding(false);
     },
     onError: () => {
       toast({
@@ -27,23 +44,26 @@ export function GeocodeButton() {
         title: "Error",
         description: "Failed to geocode addresses"
       });
-      setIsGeocoding(false);
     }
   });
 
-  const handleGeocode = () => {
-    setIsGeocoding(true);
-    geocodeMutation.mutate();
-  };
-
   return (
-    <Button
-      onClick={handleGeocode}
-      disabled={isGeocoding || geocodeMutation.isPending}
-      data-testid="geocode-button"
-    >
-      <MapPin className="h-4 w-4 mr-2" />
-      {isGeocoding || geocodeMutation.isPending ? "Geocoding..." : "Geocode Missing Addresses"}
-    </Button>
+    <div className="space-y-2">
+      <Button
+        onClick={() => geocodeMutation.mutate()}
+        disabled={isGeocoding || geocodeMutation.isPending}
+        data-testid="geocode-button"
+      >
+        <MapPin className="h-4 w-4 mr-2" />
+        {isGeocoding || geocodeMutation.isPending ? "Geocoding..." : "Geocode Missing Addresses"}
+      </Button>
+      {status && status.processed + status.pending > 0 && (
+        <p className="text-xs text-gray-500" data-testid="geocode-progress">
+          {status.geocoded} placed, {status.failed} could not be found
+          {status.pending > 0 && `, ${status.pending} waiting`}
+          {status.retrying > 0 && `, ${status.retrying} retrying after a rate limit`}
+        </p>
+      )}
+    </div>
   );
-}
\ No newline at end of file
+}
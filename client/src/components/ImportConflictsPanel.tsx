@@ -0,0 +1,193 @@
+import { IMPORT_CONFLICT_FIELDS, type ImportConflict, type ImportConflictField } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { usePendingImportConflicts, useResolveImportConflicts } from "@/hooks/useImportConflicts";
+import { ArrowRight, Check, GitCompare, Lock, X } from "lucide-react";
+
+// Dry runs return conflicts that were never saved, so they have no id
+type ConflictRow = Pick<ImportConflict, "jobId" | "field" | "currentValue" | "incomingValue" | "userEdited"> & {
+  id?: string;
+  jobName: string;
+};
+
+function fieldLabel(field: string) {
+  return IMPORT_CONFLICT_FIELDS[field as ImportConflictField] ?? field;
+}
+
+function formatValue(field: string, value: string | null) {
+  if (!value) return "empty";
+  if (field === "projectValue" && !isNaN(parseFloat(value))) {
+    return `$${parseFloat(value).toLocaleString()}`;
+  }
+  return value;
+}
+
+function groupByJob(conflicts: ConflictRow[]) {
+  const groups = new Map<string, { jobName: string; conflicts: ConflictRow[] }>();
+  for (const conflict of conflicts) {
+    const group = groups.get(conflict.jobId) ?? { jobName: conflict.jobName, conflicts: [] };
+    group.conflicts.push(conflict);
+    groups.set(conflict.jobId, group);
+  }
+  return Array.from(groups, ([jobId, group]) => ({ jobId, ...group }));
+}
+
+interface ImportConflictsPanelProps {
+  // Limit to one import's conflicts; all pending ones otherwise
+  importRunId?: string;
+  // Conflicts a dry run found, shown without accept/reject
+  preview?: ConflictRow[];
+}
+
+/**
+ * Field values a Dodge import held back because the job already had a
+ * different one. Each can be accepted or rejected, a job at a time, or all
+ * together.
+ */
+export function ImportConflictsPanel({ importRunId, preview }: ImportConflictsPanelProps) {
+  const { toast } = useToast();
+  const { data: pending = [] } = usePendingImportConflicts(importRunId);
+  const resolveMutation = useResolveImportConflicts();
+
+  const conflicts: ConflictRow[] = preview ?? pending;
+  if (conflicts.length === 0) return null;
+
+  const groups = groupByJob(conflicts);
+  const lockedJobCount = groups.filter((group) => group.conflicts.some((c) => c.userEdited)).length;
+  const canResolve = !preview;
+
+  const resolve = (rows: ConflictRow[], decision: "accept" | "reject") => {
+    const ids = rows.map((row) => row.id).filter((id): id is string => !!id);
+    if (ids.length === 0) return;
+    resolveMutation.mutate(
+      { ids, decision },
+      {
+        onSuccess: ({ resolved }) =>
+          toast({
+            title: decision === "accept" ? "Dodge values applied" : "Current values kept",
+            description: `${resolved} field${resolved === 1 ? "" : "s"} resolved`,
+          }),
+        onError: (err) => toast({ variant: "destructive", title: "Error", description: err.message }),
+      }
+    );
+  };
+
+  return (
+    <Card data-testid="import-conflicts-panel">
+      <CardContent className="space-y-5 pt-6">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="flex items-center gap-3 flex-1">
+            <div className="p-2 bg-amber-100 rounded-lg">
+              <GitCompare className="h-5 w-5 text-amber-600" />
+            </div>
+            <div>
+              <h2 className="font-semibold text-gray-900">
+                {preview ? "Changes That Would Need Review" : "Changes to Review"} ({conflicts.length})
+              </h2>
+              <p className="text-sm text-gray-500">
+                Dodge sent values that differ from what these jobs have. Nothing changes until you accept.
+              </p>
+            </div>
+          </div>
+          {canResolve && (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => resolve(conflicts, "reject")}
+                disabled={resolveMutation.isPending}
+                data-testid="button-reject-all-conflicts"
+              >
+                <X className="h-4 w-4 mr-1" />
+                Keep all current
+              </Button>
+              <Button
+                size="sm"
+                className="bg-blue-600 hover:bg-blue-700"
+                onClick={() => resolve(conflicts, "accept")}
+                disabled={resolveMutation.isPending}
+                data-testid="button-accept-all-conflicts"
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Accept all
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {lockedJobCount > 0 && (
+          <p className="text-sm text-gray-600 flex items-center gap-2">
+            <Lock className="h-4 w-4 text-gray-400" />
+            {lockedJobCount} job{lockedJobCount === 1 ? "" : "s"} kept values you edited by hand; the value the import wanted is shown next to yours.
+          </p>
+        )}
+
+        <div className="border rounded-lg divide-y max-h-[32rem] overflow-y-auto">
+          {groups.map((group) => (
+            <div key={group.jobId} className="p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-sm text-gray-900 truncate">{group.jobName}</span>
+                {canResolve && group.conflicts.length > 1 && (
+                  <div className="flex gap-1 flex-shrink-0">
+                    <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => resolve(group.conflicts, "reject")} disabled={resolveMutation.isPending}>
+                      Keep current
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-7 text-xs text-blue-600" onClick={() => resolve(group.conflicts, "accept")} disabled={resolveMutation.isPending}>
+                      Accept job
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {group.conflicts.map((conflict) => (
+                <div
+                  key={conflict.id ?? `${conflict.jobId}-${conflict.field}`}
+                  className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm pl-3"
+                  data-testid={`import-conflict-${conflict.id ?? conflict.field}`}
+                >
+                  <div className="sm:w-28 flex-shrink-0 text-gray-500">{fieldLabel(conflict.field)}</div>
+                  <div className="flex-1 min-w-0 flex flex-wrap items-center gap-2">
+                    <span className="text-gray-700 break-words">{formatValue(conflict.field, conflict.currentValue)}</span>
+                    {conflict.userEdited && (
+                      <Badge variant="outline" className="text-xs">
+                        <Lock className="h-3 w-3 mr-1" />
+                        Your edit
+                      </Badge>
+                    )}
+                    <ArrowRight className="h-3.5 w-3.5 text-gray-400 flex-shrink-0" />
+                    <span className="font-medium text-gray-900 break-words">{formatValue(conflict.field, conflict.incomingValue)}</span>
+                  </div>
+                  {canResolve && (
+                    <div className="flex gap-1 flex-shrink-0">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0 text-gray-500 hover:text-red-600"
+                        title="Keep current value"
+                        onClick={() => resolve([conflict], "reject")}
+                        disabled={resolveMutation.isPending}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0 text-gray-500 hover:text-green-600"
+                        title="Use the Dodge value"
+                        onClick={() => resolve([conflict], "accept")}
+                        disabled={resolveMutation.isPending}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,115 @@
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { replayOutbox, resolveFailedChange } from "@/lib/offlineSync";
+import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, CloudOff, RefreshCw } from "lucide-react";
+
+const FIELD_LABELS: Record<string, string> = {
+  temperature: "Temperature",
+  visited: "Visited",
+  userNotes: "Notes",
+};
+
+/**
+ * Header badge for field mode: shows when the connection is down or changes
+ * are waiting to sync, and lets the rep settle changes the server turned down.
+ */
+export function OfflineStatus() {
+  const { toast } = useToast();
+  const { online, syncing, pending, failed } = useOfflineSync();
+
+  if (online && pending.length === 0 && failed.length === 0) return null;
+
+  const handleResolve = async (id: string, resolution: 'keep' | 'discard') => {
+    try {
+      await resolveFailedChange(id, resolution);
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const label = failed.length > 0
+    ? `${failed.length} to review`
+    : !online
+      ? pending.length > 0 ? `Offline · ${pending.length} queued` : "Offline"
+      : syncing ? "Syncing..." : `${pending.length} queued`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn(
+            "h-9 gap-1.5 rounded-lg",
+            failed.length > 0
+              ? "border-amber-300 bg-amber-50 text-amber-800 hover:bg-amber-100"
+              : "border-gray-200 text-gray-600 hover:bg-gray-50"
+          )}
+          data-testid="button-offline-status"
+        >
+          {failed.length > 0 ? (
+            <AlertTriangle className="h-3.5 w-3.5" />
+          ) : online ? (
+            <RefreshCw className={cn("h-3.5 w-3.5", syncing && "animate-spin")} />
+          ) : (
+            <CloudOff className="h-3.5 w-3.5" />
+          )}
+          <span className="text-xs">{label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[340px] p-0" align="end">
+        <div className="px-4 py-3 border-b border-gray-100">
+          <p className="text-sm font-medium text-gray-900">{online ? "Back online" : "Working offline"}</p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {online
+              ? "Queued changes are sent in the order they were made."
+              : "Jobs and contacts you have loaded stay available. Changes sync when you're back online."}
+          </p>
+        </div>
+
+        <div className="max-h-[360px] overflow-y-auto">
+          {failed.map(entry => (
+            <div key={entry.id} className="px-4 py-3 border-b border-gray-100 bg-amber-50/60" data-testid={`offline-failed-${entry.id}`}>
+              <p className="text-sm text-gray-900">{entry.description}</p>
+              <p className="text-xs text-amber-800 mt-0.5">{entry.failure?.message}</p>
+              {entry.failure?.conflict?.changes.map(change => (
+                <p key={change.field} className="text-xs text-gray-600 mt-1">
+                  {FIELD_LABELS[change.field] ?? change.field}: you saw <span className="font-medium">{change.from ?? "empty"}</span>, now <span className="font-medium">{change.to ?? "empty"}</span>
+                </p>
+              ))}
+              <div className="flex gap-2 mt-2">
+                {entry.failure?.conflict && (
+                  <Button size="sm" className="h-7 text-xs" onClick={() => handleResolve(entry.id, 'keep')}>
+                    Keep mine
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => handleResolve(entry.id, 'discard')}>
+                  {entry.failure?.conflict ? "Use theirs" : "Discard"}
+                </Button>
+              </div>
+            </div>
+          ))}
+          {pending.map(entry => (
+            <div key={entry.id} className="px-4 py-2.5 border-b border-gray-100 last:border-0">
+              <p className="text-sm text-gray-700">{entry.description}</p>
+              <p className="text-xs text-gray-400">Queued {formatDistanceToNow(new Date(entry.queuedAt), { addSuffix: true })}</p>
+            </div>
+          ))}
+        </div>
+
+        {online && pending.length > 0 && (
+          <div className="px-4 py-2.5 border-t border-gray-100">
+            <Button size="sm" variant="outline" className="h-8 w-full text-xs" onClick={() => void replayOutbox()} disabled={syncing}>
+              <RefreshCw className={cn("h-3.5 w-3.5 mr-1.5", syncing && "animate-spin")} />
+              Sync now
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
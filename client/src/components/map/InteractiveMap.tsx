@@ -2,11 +2,19 @@ import { useEffect, useRef, useState, useMemo } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useGeolocation } from "@/hooks/useGeolocation";
-import type { Job } from "@shared/schema";
+import type { Job, JobCluster, TerritoryPoint } from "@shared/schema";
+import type { PlannedRoute } from "@/hooks/useRoutePlanner";
 import { useFilterPreferences } from "@/hooks/useFilterPreferences";
+import { useRentalEquipmentPins } from "@/hooks/useRentalEquipment";
+import { useTerritories, useCreateTerritory } from "@/hooks/useTerritories";
+import { useUpdateJobLocation, useUpdateJobAddress, type MapViewportParams } from "@/hooks/useJobs";
+import { useToast } from "@/hooks/use-toast";
 import { getMergedFilterPreferences } from "@/lib/utils";
-import { Plus, Minus, Crosshair, Layers } from "lucide-react";
+import { saveMapTiles } from "@/lib/offlineSync";
+import { Plus, Minus, Crosshair, Layers, PenTool, Download } from "lucide-react";
 
 declare module 'leaflet' {
   interface Map {
@@ -14,6 +22,36 @@ declare module 'leaflet' {
   }
 }
 
+const VIEWPORT_DEBOUNCE_MS = 250;
+// New territories take the next color in turn
+const TERRITORY_COLORS = ['#2563eb', '#9333ea', '#db2777', '#0d9488', '#ca8a04', '#4f46e5'];
+// "Save for offline" downloads the visible area a few zoom levels deeper, within OSM's fair use
+const OFFLINE_EXTRA_ZOOM_LEVELS = 2;
+const OFFLINE_MAX_ZOOM = 17;
+const MAX_OFFLINE_TILES = 600;
+
+/**
+ * Tile URLs covering the visible area from the current zoom in, stopping
+ * before a level that would go over the tile budget.
+ */
+function offlineTileUrls(map: L.Map): string[] {
+  const bounds = map.getBounds();
+  const urls: string[] = [];
+  const startZoom = Math.round(map.getZoom());
+  for (let zoom = startZoom; zoom <= Math.min(startZoom + OFFLINE_EXTRA_ZOOM_LEVELS, OFFLINE_MAX_ZOOM); zoom++) {
+    const northWest = map.project(bounds.getNorthWest(), zoom).divideBy(256).floor();
+    const southEast = map.project(bounds.getSouthEast(), zoom).divideBy(256).floor();
+    const count = (southEast.x - northWest.x + 1) * (southEast.y - northWest.y + 1);
+    if (urls.length + count > MAX_OFFLINE_TILES) break;
+    for (let x = northWest.x; x <= southEast.x; x++) {
+      for (let y = northWest.y; y <= southEast.y; y++) {
+        urls.push(`https://tile.openstreetmap.org/${zoom}/${x}/${y}.png`);
+      }
+    }
+  }
+  return urls;
+}
+
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
   iconRetinaUrl: "https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon-2x.png",
@@ -23,20 +61,56 @@ L.Icon.Default.mergeOptions({
 
 interface InteractiveMapProps {
   jobs: Job[];
+  // Viewport loading: clusters drawn alongside jobs, and the area to load reported on pan/zoom
+  clusters?: JobCluster[];
+  onViewportChange?: (viewport: MapViewportParams) => void;
   selectedJob: Job | null;
   onJobSelect: (job: Job) => void;
   isLoading: boolean;
+  // Route planning: when onRouteJobToggle is set, pin clicks add/remove route stops
+  routeJobIds?: string[];
+  onRouteJobToggle?: (job: Job) => void;
+  plannedRoute?: PlannedRoute | null;
+  // Pin placement: the job's pin becomes draggable (or is placed by clicking the map)
+  pinEditJob?: Job | null;
+  onPinEditDone?: () => void;
 }
 
-export default function InteractiveMap({ jobs, selectedJob, onJobSelect, isLoading }: InteractiveMapProps) {
+export default function InteractiveMap({ jobs, clusters = [], onViewportChange, selectedJob, onJobSelect, isLoading, routeJobIds, onRouteJobToggle, plannedRoute, pinEditJob, onPinEditDone }: InteractiveMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markersRef = useRef<Map<string, L.Marker>>(new Map());
+  const routeLayerRef = useRef<L.LayerGroup | null>(null);
+  const equipmentLayerRef = useRef<L.LayerGroup | null>(null);
+  const territoryLayerRef = useRef<L.LayerGroup | null>(null);
+  const territoryDraftLayerRef = useRef<L.LayerGroup | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
+  const [showEquipment, setShowEquipment] = useState(false);
+  const pinEditLayerRef = useRef<L.Marker | null>(null);
+  const onViewportChangeRef = useRef(onViewportChange);
+  onViewportChangeRef.current = onViewportChange;
+  const [draftPoint, setDraftPoint] = useState<{ lat: number; lng: number } | null>(null);
+  const [addressSuggestion, setAddressSuggestion] = useState<{ jobId: string; address: string } | null>(null);
+  // Territory drawing: each map click adds a corner
+  const [drawingTerritory, setDrawingTerritory] = useState(false);
+  const [territoryPoints, setTerritoryPoints] = useState<TerritoryPoint[]>([]);
+  const [territoryName, setTerritoryName] = useState("");
+  const [territoryAutoTag, setTerritoryAutoTag] = useState(false);
+  const [savingTiles, setSavingTiles] = useState(false);
+  const { data: territories = [] } = useTerritories();
+  const createTerritory = useCreateTerritory();
+  const updateLocation = useUpdateJobLocation();
+  const updateAddress = useUpdateJobAddress();
+  const { toast } = useToast();
+  const { data: equipmentPins = [] } = useRentalEquipmentPins(showEquipment);
   const { location, getCurrentLocation } = useGeolocation();
   const { preferences } = useFilterPreferences();
 
   const filterPreferences = useMemo(() => getMergedFilterPreferences(preferences), [preferences]);
+  const hasApproximatePins = useMemo(
+    () => jobs.some(job => job.latitude && job.geocodePrecision === 'approximate'),
+    [jobs]
+  );
 
   useEffect(() => {
     if (!mapRef.current || mapInstanceRef.current) return;
@@ -46,13 +120,35 @@ export default function InteractiveMap({ jobs, selectedJob, onJobSelect, isLoadi
       zoomControl: false
     });
     map.on('dragstart zoomstart', () => { map._userHasInteracted = true; });
+    // Report the visible area once panning settles so only that area is loaded
+    let viewportTimer: ReturnType<typeof setTimeout> | undefined;
+    const reportViewport = () => {
+      clearTimeout(viewportTimer);
+      viewportTimer = setTimeout(() => {
+        const bounds = map.getBounds();
+        onViewportChangeRef.current?.({
+          west: bounds.getWest(),
+          south: bounds.getSouth(),
+          east: bounds.getEast(),
+          north: bounds.getNorth(),
+          zoom: map.getZoom(),
+        });
+      }, VIEWPORT_DEBOUNCE_MS);
+    };
+    map.on('moveend', reportViewport);
     L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
       attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
-      maxZoom: 19
+      maxZoom: 19,
+      // CORS tiles can be cached by the service worker for field mode
+      crossOrigin: true
     }).addTo(map);
     mapInstanceRef.current = map;
     setMapLoaded(true);
-    return () => { if (mapInstanceRef.current) { mapInstanceRef.current.remove(); mapInstanceRef.current = null; } };
+    reportViewport();
+    return () => {
+      clearTimeout(viewportTimer);
+      if (mapInstanceRef.current) { mapInstanceRef.current.remove(); mapInstanceRef.current = null; }
+    };
   }, []);
 
   useEffect(() => {
@@ -61,8 +157,11 @@ export default function InteractiveMap({ jobs, selectedJob, onJobSelect, isLoadi
     const markers = markersRef.current;
     markers.forEach(marker => map.removeLayer(marker));
     markers.clear();
+    const routeSelection = new Set(routeJobIds ?? []);
 
     jobs.forEach(job => {
+      // The pin being moved is drawn by the placement layer
+      if (job.id === pinEditJob?.id) return;
       if (job.latitude && job.longitude) {
         const lat = parseFloat(job.latitude);
         const lng = parseFloat(job.longitude);
@@ -82,8 +181,12 @@ export default function InteractiveMap({ jobs, selectedJob, onJobSelect, isLoadi
         const iconHtml = getStatusIcon(effectiveStatus, job.type);
         const markerContent = getMarkerContent(job, iconHtml);
 
+        const inRoute = routeSelection.has(job.id);
+        // City or postcode centroids get a dashed outline so reps don't drive to the wrong spot
+        const approximate = job.geocodePrecision === 'approximate';
+        const border = approximate ? 'border-dashed border-gray-800 opacity-80' : 'border-white';
         const customIcon = L.divIcon({
-          html: `<div class="relative"><div class="w-8 h-8 rounded-full border-[3px] border-white shadow-md flex items-center justify-center pin-drop" style="background-color: ${pinColor};">${markerContent}</div></div>`,
+          html: `<div class="relative"><div class="w-8 h-8 rounded-full border-[3px] ${border} shadow-md flex items-center justify-center pin-drop${inRoute ? ' ring-2 ring-blue-600 ring-offset-1' : ''}" style="background-color: ${pinColor};">${markerContent}</div></div>`,
           className: 'custom-marker',
           iconSize: [32, 32],
           iconAnchor: [16, 16]
@@ -91,31 +194,334 @@ export default function InteractiveMap({ jobs, selectedJob, onJobSelect, isLoadi
 
         const marker = L.marker([lat, lng], { icon: customIcon })
           .addTo(map)
-          .on('click', () => onJobSelect(job));
+          .on('click', () => onRouteJobToggle ? onRouteJobToggle(job) : onJobSelect(job));
 
         const value = job.projectValue ? `$${parseFloat(job.projectValue).toLocaleString()}` : '';
-        marker.bindTooltip(`${job.name}${value ? ` - ${value}` : ''}`, { direction: 'top', offset: [0, -5] });
+        const note = approximate ? ' (approximate location)' : '';
+        marker.bindTooltip(`${job.name}${value ? ` - ${value}` : ''}${note}`, { direction: 'top', offset: [0, -5] });
         markers.set(job.id, marker);
       }
     });
 
-    const validJobs = jobs.filter(job => {
-      if (!job.latitude || !job.longitude) return false;
-      const lat = parseFloat(job.latitude);
-      const lng = parseFloat(job.longitude);
-      return !isNaN(lat) && !isNaN(lng) && lat >= 32.5 && lat <= 42 && lng >= -124.5 && lng <= -114;
+    clusters.forEach(cluster => {
+      const color = (cluster.dominantTemperature && filterPreferences[cluster.dominantTemperature]?.color) || '#3b82f6';
+      const size = Math.min(56, 30 + Math.round(Math.log10(cluster.count) * 12));
+      const marker = L.marker([cluster.lat, cluster.lng], {
+        icon: L.divIcon({
+          html: `<div class="rounded-full border-[3px] border-white shadow-md flex items-center justify-center text-white text-xs font-semibold" style="width: ${size}px; height: ${size}px; background-color: ${color};">${cluster.count.toLocaleString()}</div>`,
+          className: 'cluster-marker',
+          iconSize: [size, size],
+          iconAnchor: [size / 2, size / 2]
+        })
+      })
+        .addTo(map)
+        .on('click', () => {
+          const bounds = L.latLngBounds(cluster.bounds);
+          // Jobs stacked on one address can't be separated by zooming to their bounds
+          if (bounds.getNorthEast().equals(bounds.getSouthWest())) {
+            map.setView([cluster.lat, cluster.lng], map.getZoom() + 2);
+          } else {
+            map.fitBounds(bounds, { padding: [40, 40] });
+          }
+        });
+
+      const breakdown = Object.entries(cluster.temperatureCounts)
+        .sort((a, b) => b[1] - a[1])
+        .map(([temperature, count]) => `${count} ${temperature === 'none' ? 'unvisited' : filterPreferences[temperature]?.name?.toLowerCase() ?? temperature}`)
+        .join(', ');
+      marker.bindTooltip(`${cluster.count.toLocaleString()} jobs - ${breakdown}`, { direction: 'top', offset: [0, -size / 2] });
+      markers.set(`cluster:${cluster.id}`, marker);
+    });
+  }, [jobs, clusters, mapLoaded, onJobSelect, filterPreferences, routeJobIds, onRouteJobToggle, pinEditJob]);
+
+  // Frame the first jobs and clusters loaded; after that the view is the user's.
+  // Framing only once keeps a viewport reload from moving the map again.
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !mapLoaded || map._userHasInteracted) return;
+    const points = [
+      ...jobs
+        .filter(job => job.latitude && job.longitude)
+        .map(job => [parseFloat(job.latitude!), parseFloat(job.longitude!)] as [number, number]),
+      ...clusters.flatMap(cluster => cluster.bounds),
+    ].filter(([lat, lng]) => !isNaN(lat) && !isNaN(lng) && lat >= 32.5 && lat <= 42 && lng >= -124.5 && lng <= -114);
+
+    if (points.length > 0) {
+      map._userHasInteracted = true;
+      map.fitBounds(L.latLngBounds(points), { padding: [50, 50] });
+    }
+  }, [jobs, clusters, mapLoaded]);
+
+  useEffect(() => {
+    if (!mapInstanceRef.current || !mapLoaded) return;
+    const map = mapInstanceRef.current;
+    if (routeLayerRef.current) {
+      map.removeLayer(routeLayerRef.current);
+      routeLayerRef.current = null;
+    }
+    if (!plannedRoute || plannedRoute.stops.length === 0) return;
+
+    const layer = L.layerGroup();
+    const path: L.LatLngExpression[] = [
+      [plannedRoute.origin.lat, plannedRoute.origin.lng],
+      ...plannedRoute.stops.map(stop => [stop.lat, stop.lng] as L.LatLngExpression),
+    ];
+    L.polyline(path, { color: '#2563eb', weight: 4, opacity: 0.8, dashArray: '8 6' }).addTo(layer);
+
+    L.marker([plannedRoute.origin.lat, plannedRoute.origin.lng], {
+      icon: L.divIcon({
+        html: '<div class="w-4 h-4 bg-blue-600 rounded-full border-2 border-white shadow-lg"></div>',
+        className: 'route-origin-marker',
+        iconSize: [16, 16],
+        iconAnchor: [8, 8]
+      })
+    }).addTo(layer).bindTooltip('Start', { direction: 'top' });
+
+    plannedRoute.stops.forEach(stop => {
+      const eta = new Date(stop.eta).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+      L.marker([stop.lat, stop.lng], {
+        icon: L.divIcon({
+          html: `<div class="w-5 h-5 bg-blue-600 text-white rounded-full border-2 border-white shadow-md flex items-center justify-center text-[10px] font-semibold">${stop.order}</div>`,
+          className: 'route-stop-marker',
+          iconSize: [20, 20],
+          iconAnchor: [10, 26]
+        })
+      }).addTo(layer).bindTooltip(`${stop.order}. ${stop.name} - ETA ${eta}`, { direction: 'top' });
+    });
+
+    layer.addTo(map);
+    routeLayerRef.current = layer;
+    map.fitBounds(L.latLngBounds(path), { padding: [60, 60] });
+  }, [plannedRoute, mapLoaded]);
+
+  // Where our rental units are right now, drawn as small squares so they read apart from job pins
+  useEffect(() => {
+    if (!mapInstanceRef.current || !mapLoaded) return;
+    const map = mapInstanceRef.current;
+    if (equipmentLayerRef.current) {
+      map.removeLayer(equipmentLayerRef.current);
+      equipmentLayerRef.current = null;
+    }
+    if (!showEquipment || equipmentPins.length === 0) return;
+
+    const layer = L.layerGroup();
+    equipmentPins.forEach(pin => {
+      const color = pin.status === 'maintenance' ? '#d97706' : pin.status === 'off_rent' ? '#6b7280' : '#ca8a04';
+      const tooltip = [`${pin.equipmentNumber} ${pin.model}`, pin.customerOnRent, pin.jobName].filter(Boolean).join(' - ');
+      L.marker([pin.lat, pin.lng], {
+        icon: L.divIcon({
+          html: `<div class="w-6 h-6 rounded-md border-2 border-white shadow-md flex items-center justify-center" style="background-color: ${color};"><i class="fas fa-truck text-white text-[10px]"></i></div>`,
+          className: 'equipment-marker',
+          iconSize: [24, 24],
+          iconAnchor: [12, 12]
+        }),
+        zIndexOffset: -100
+      }).addTo(layer).bindTooltip(tooltip, { direction: 'top', offset: [0, -5] });
+    });
+    layer.addTo(map);
+    equipmentLayerRef.current = layer;
+  }, [equipmentPins, showEquipment, mapLoaded]);
+
+  // Saved territories, drawn under the pins
+  useEffect(() => {
+    if (!mapInstanceRef.current || !mapLoaded) return;
+    const map = mapInstanceRef.current;
+    if (territoryLayerRef.current) {
+      map.removeLayer(territoryLayerRef.current);
+      territoryLayerRef.current = null;
+    }
+    if (territories.length === 0) return;
+
+    const layer = L.layerGroup();
+    territories.forEach(territory => {
+      L.polygon(territory.polygon, { color: territory.color, weight: 2, fillOpacity: 0.06 })
+        .addTo(layer)
+        .bindTooltip(territory.name, { sticky: true });
     });
+    layer.addTo(map);
+    territoryLayerRef.current = layer;
+  }, [territories, mapLoaded]);
+
+  // While drawing, a map click adds a corner
+  useEffect(() => {
+    if (!mapInstanceRef.current || !mapLoaded || !drawingTerritory || pinEditJob) return;
+    const map = mapInstanceRef.current;
+    const handleClick = (e: L.LeafletMouseEvent) => setTerritoryPoints(points => [...points, [e.latlng.lat, e.latlng.lng]]);
+    map.on('click', handleClick);
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+    return () => {
+      map.off('click', handleClick);
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+    };
+  }, [drawingTerritory, pinEditJob, mapLoaded]);
+
+  useEffect(() => {
+    if (!mapInstanceRef.current || !mapLoaded) return;
+    const map = mapInstanceRef.current;
+    if (territoryDraftLayerRef.current) {
+      map.removeLayer(territoryDraftLayerRef.current);
+      territoryDraftLayerRef.current = null;
+    }
+    if (!drawingTerritory || territoryPoints.length === 0) return;
 
-    if (validJobs.length > 0 && !mapInstanceRef.current._userHasInteracted) {
-      const bounds = L.latLngBounds(validJobs.map(job => [parseFloat(job.latitude!), parseFloat(job.longitude!)]));
-      map.fitBounds(bounds, { padding: [50, 50] });
+    const layer = L.layerGroup();
+    const color = TERRITORY_COLORS[territories.length % TERRITORY_COLORS.length];
+    if (territoryPoints.length >= 3) {
+      L.polygon(territoryPoints, { color, weight: 2, dashArray: '6 4', fillOpacity: 0.12, interactive: false }).addTo(layer);
+    } else {
+      L.polyline(territoryPoints, { color, weight: 2, dashArray: '6 4', interactive: false }).addTo(layer);
     }
-  }, [jobs, mapLoaded, onJobSelect, filterPreferences]);
+    territoryPoints.forEach(point => {
+      L.circleMarker(point, { radius: 4, color, weight: 2, fillColor: '#ffffff', fillOpacity: 1, interactive: false }).addTo(layer);
+    });
+    layer.addTo(map);
+    territoryDraftLayerRef.current = layer;
+  }, [drawingTerritory, territoryPoints, territories.length, mapLoaded]);
 
   useEffect(() => {
     if (!mapInstanceRef.current || !selectedJob) return;
   }, [selectedJob]);
 
+  // Start pin placement from the job's current pin, if it has one
+  useEffect(() => {
+    if (!pinEditJob) {
+      setDraftPoint(null);
+      return;
+    }
+    const lat = pinEditJob.latitude ? parseFloat(pinEditJob.latitude) : NaN;
+    const lng = pinEditJob.longitude ? parseFloat(pinEditJob.longitude) : NaN;
+    if (!isNaN(lat) && !isNaN(lng)) {
+      setDraftPoint({ lat, lng });
+      mapInstanceRef.current?.setView([lat, lng], Math.max(mapInstanceRef.current.getZoom(), 16));
+    } else {
+      setDraftPoint(null);
+    }
+  }, [pinEditJob]);
+
+  // While placing, a map click drops the pin there
+  useEffect(() => {
+    if (!mapInstanceRef.current || !mapLoaded || !pinEditJob) return;
+    const map = mapInstanceRef.current;
+    const handleClick = (e: L.LeafletMouseEvent) => setDraftPoint({ lat: e.latlng.lat, lng: e.latlng.lng });
+    map.on('click', handleClick);
+    map.getContainer().style.cursor = 'crosshair';
+    return () => {
+      map.off('click', handleClick);
+      map.getContainer().style.cursor = '';
+    };
+  }, [pinEditJob, mapLoaded]);
+
+  useEffect(() => {
+    if (!mapInstanceRef.current || !mapLoaded) return;
+    const map = mapInstanceRef.current;
+    if (pinEditLayerRef.current) {
+      map.removeLayer(pinEditLayerRef.current);
+      pinEditLayerRef.current = null;
+    }
+    if (!pinEditJob || !draftPoint) return;
+
+    const marker = L.marker([draftPoint.lat, draftPoint.lng], {
+      draggable: true,
+      zIndexOffset: 1000,
+      icon: L.divIcon({
+        html: '<div class="w-9 h-9 rounded-full border-[3px] border-white shadow-lg bg-red-600 flex items-center justify-center ring-2 ring-red-300"><i class="fas fa-arrows-up-down-left-right text-white text-xs"></i></div>',
+        className: 'pin-edit-marker',
+        iconSize: [36, 36],
+        iconAnchor: [18, 18]
+      })
+    }).addTo(map);
+    marker.on('dragend', () => {
+      const point = marker.getLatLng();
+      setDraftPoint({ lat: point.lat, lng: point.lng });
+    });
+    pinEditLayerRef.current = marker;
+  }, [pinEditJob, draftPoint, mapLoaded]);
+
+  const handleSavePin = () => {
+    if (!pinEditJob || !draftPoint) return;
+    const job = pinEditJob;
+    updateLocation.mutate(
+      { jobId: job.id, latitude: draftPoint.lat, longitude: draftPoint.lng },
+      {
+        onSuccess: ({ suggestedAddress }) => {
+          toast({ title: "Pin saved", description: "Imports and geocoding won't move it." });
+          if (suggestedAddress && suggestedAddress !== job.address) {
+            setAddressSuggestion({ jobId: job.id, address: suggestedAddress });
+          }
+          onPinEditDone?.();
+        },
+        onError: (error: Error) => {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const handleUseSuggestedAddress = () => {
+    if (!addressSuggestion) return;
+    updateAddress.mutate(
+      { jobId: addressSuggestion.jobId, address: addressSuggestion.address },
+      {
+        onSuccess: () => {
+          toast({ title: "Address updated" });
+          setAddressSuggestion(null);
+        },
+        onError: (error: Error) => {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const stopDrawingTerritory = () => {
+    setDrawingTerritory(false);
+    setTerritoryPoints([]);
+    setTerritoryName("");
+    setTerritoryAutoTag(false);
+  };
+
+  const handleSaveTerritory = () => {
+    if (territoryPoints.length < 3 || !territoryName.trim()) return;
+    createTerritory.mutate(
+      {
+        name: territoryName.trim(),
+        color: TERRITORY_COLORS[territories.length % TERRITORY_COLORS.length],
+        polygon: territoryPoints,
+        autoTagImports: territoryAutoTag,
+      },
+      {
+        onSuccess: (territory) => {
+          toast({ title: "Territory saved", description: `Filter by "${territory.name}" under Location in the sidebar.` });
+          stopDrawingTerritory();
+        },
+        onError: (error: Error) => {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const handleSaveForOffline = async () => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+    const urls = offlineTileUrls(map);
+    if (urls.length === 0) {
+      toast({ title: "Zoom in to save this area", description: "The visible area has too many map tiles to store" });
+      return;
+    }
+    setSavingTiles(true);
+    try {
+      const saved = await saveMapTiles(urls);
+      toast({ title: "Map saved for offline", description: `${saved} of ${urls.length} map tiles for this area are stored on this device` });
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSavingTiles(false);
+    }
+  };
+
   const handleZoomIn = () => mapInstanceRef.current?.zoomIn();
   const handleZoomOut = () => mapInstanceRef.current?.zoomOut();
 
@@ -195,8 +601,106 @@ export default function InteractiveMap({ jobs, selectedJob, onJobSelect, isLoadi
             <Icon className="h-4 w-4" />
           </button>
         ))}
+        <button
+          onClick={() => setShowEquipment(v => !v)}
+          title={showEquipment ? "Hide our equipment" : "Show our equipment"}
+          className={`h-9 w-9 rounded-lg shadow-md border flex items-center justify-center transition-colors ${
+            showEquipment
+              ? "bg-yellow-500 border-yellow-500 text-white hover:bg-yellow-600"
+              : "bg-white border-gray-200/60 text-gray-600 hover:text-gray-900 hover:bg-gray-50"
+          }`}
+          data-testid="button-toggle-equipment-layer"
+        >
+          <Layers className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => (drawingTerritory ? stopDrawingTerritory() : setDrawingTerritory(true))}
+          disabled={!!pinEditJob}
+          title={drawingTerritory ? "Stop drawing" : "Draw a territory"}
+          className={`h-9 w-9 rounded-lg shadow-md border flex items-center justify-center transition-colors disabled:opacity-50 ${
+            drawingTerritory
+              ? "bg-blue-600 border-blue-600 text-white hover:bg-blue-700"
+              : "bg-white border-gray-200/60 text-gray-600 hover:text-gray-900 hover:bg-gray-50"
+          }`}
+          data-testid="button-draw-territory"
+        >
+          <PenTool className="h-4 w-4" />
+        </button>
+        <button
+          onClick={handleSaveForOffline}
+          disabled={savingTiles}
+          title={savingTiles ? "Saving map..." : "Save this area for offline"}
+          className="h-9 w-9 bg-white rounded-lg shadow-md border border-gray-200/60 flex items-center justify-center text-gray-600 hover:text-gray-900 hover:bg-gray-50 transition-colors disabled:opacity-50"
+          data-testid="button-save-map-offline"
+        >
+          <Download className={`h-4 w-4 ${savingTiles ? "animate-pulse" : ""}`} />
+        </button>
       </div>
 
+      {/* Territory drawing */}
+      {drawingTerritory && !pinEditJob && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-white/95 backdrop-blur-sm px-4 py-3 rounded-xl shadow-lg border border-gray-200/60 flex flex-wrap items-center gap-3 max-w-[90%]" data-testid="territory-draw-banner">
+          <p className="text-xs text-gray-500">
+            {territoryPoints.length < 3
+              ? `Click the map to add corners (${territoryPoints.length} of at least 3)`
+              : `${territoryPoints.length} corners`}
+          </p>
+          <Input
+            value={territoryName}
+            onChange={(e) => setTerritoryName(e.target.value)}
+            placeholder="Territory name"
+            className="h-8 w-40 text-sm"
+            maxLength={100}
+            data-testid="input-territory-name"
+          />
+          <label className="flex items-center gap-1.5 text-xs text-gray-600 cursor-pointer">
+            <Checkbox checked={territoryAutoTag} onCheckedChange={(checked) => setTerritoryAutoTag(!!checked)} />
+            Tag new imports
+          </label>
+          <Button size="sm" variant="ghost" onClick={() => setTerritoryPoints(points => points.slice(0, -1))} disabled={territoryPoints.length === 0}>
+            Undo
+          </Button>
+          <Button size="sm" variant="outline" onClick={stopDrawingTerritory}>Cancel</Button>
+          <Button
+            size="sm"
+            onClick={handleSaveTerritory}
+            disabled={territoryPoints.length < 3 || !territoryName.trim() || createTerritory.isPending}
+          >
+            {createTerritory.isPending ? "Saving..." : "Save territory"}
+          </Button>
+        </div>
+      )}
+
+      {/* Pin placement */}
+      {pinEditJob && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-white/95 backdrop-blur-sm px-4 py-3 rounded-xl shadow-lg border border-gray-200/60 flex items-center gap-3 max-w-[90%]" data-testid="pin-edit-banner">
+          <p className="text-sm text-gray-700 min-w-0">
+            <span className="font-medium truncate">{pinEditJob.name}</span>
+            <span className="block text-xs text-gray-500">
+              {draftPoint ? "Drag the pin or click the map to move it" : "Click the map to place the pin"}
+            </span>
+          </p>
+          <Button size="sm" variant="outline" onClick={onPinEditDone}>Cancel</Button>
+          <Button size="sm" onClick={handleSavePin} disabled={!draftPoint || updateLocation.isPending}>
+            {updateLocation.isPending ? "Saving..." : "Save pin"}
+          </Button>
+        </div>
+      )}
+
+      {/* Address suggestion after placing a pin */}
+      {!pinEditJob && !drawingTerritory && addressSuggestion && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-white/95 backdrop-blur-sm px-4 py-3 rounded-xl shadow-lg border border-gray-200/60 flex items-center gap-3 max-w-[90%]" data-testid="address-suggestion">
+          <p className="text-sm text-gray-700 min-w-0">
+            <span className="block text-xs text-gray-500">Address at this pin</span>
+            <span className="font-medium">{addressSuggestion.address}</span>
+          </p>
+          <Button size="sm" variant="outline" onClick={() => setAddressSuggestion(null)}>Keep current</Button>
+          <Button size="sm" onClick={handleUseSuggestedAddress} disabled={updateAddress.isPending}>
+            Use this address
+          </Button>
+        </div>
+      )}
+
       {/* Legend */}
       <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm p-3 rounded-xl shadow-md border border-gray-200/60" data-testid="map-legend">
         <h4 className="text-[11px] font-semibold text-gray-500 uppercase tracking-wider mb-2">Legend</h4>
@@ -214,6 +718,18 @@ export default function InteractiveMap({ jobs, selectedJob, onJobSelect, isLoadi
               <span className="text-[11px] text-gray-600">{label}</span>
             </div>
           ))}
+          {hasApproximatePins && (
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full flex-shrink-0 border border-dashed border-gray-800" />
+              <span className="text-[11px] text-gray-600">Approximate location</span>
+            </div>
+          )}
+          {showEquipment && (
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: "#ca8a04" }} />
+              <span className="text-[11px] text-gray-600">Our equipment</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useGeolocation } from "@/hooks/useGeolocation";
+import { usePlanRoute, type PlannedRoute } from "@/hooks/useRoutePlanner";
+import type { Job } from "@shared/schema";
+import { Route, X, Trash2, Navigation, Loader2 } from "lucide-react";
+
+interface RoutePlannerPanelProps {
+  selectedJobs: Job[];
+  route: PlannedRoute | null;
+  onRouteChange: (route: PlannedRoute | null) => void;
+  onRemoveJob: (jobId: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+  onJobSelect: (job: Job) => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+export default function RoutePlannerPanel({
+  selectedJobs,
+  route,
+  onRouteChange,
+  onRemoveJob,
+  onClear,
+  onClose,
+  onJobSelect,
+}: RoutePlannerPanelProps) {
+  const { toast } = useToast();
+  const { getCurrentLocation, isLoading: locating } = useGeolocation();
+  const planRoute = usePlanRoute();
+  const [minutesPerStop, setMinutesPerStop] = useState("20");
+
+  const handlePlan = async () => {
+    const origin = await getCurrentLocation();
+    if (!origin) return;
+    planRoute.mutate(
+      {
+        origin,
+        jobIds: selectedJobs.map(job => job.id),
+        minutesPerStop: parseInt(minutesPerStop, 10) || 0,
+      },
+      {
+        onSuccess: (result) => {
+          onRouteChange(result);
+          if (result.skipped.length > 0) {
+            toast({
+              title: "Some jobs were skipped",
+              description: `${result.skipped.length} job(s) have no map location`,
+            });
+          }
+        },
+        onError: (error) => {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const jobsById = new Map(selectedJobs.map(job => [job.id, job]));
+  const isBusy = locating || planRoute.isPending;
+
+  return (
+    <div className="absolute top-4 left-4 right-16 sm:left-auto z-20 sm:w-[320px] max-h-[calc(100%-2rem)] flex flex-col bg-white rounded-xl shadow-xl border border-gray-200/60" data-testid="route-planner-panel">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+        <div className="flex items-center gap-2">
+          <Route className="h-4 w-4 text-blue-600" />
+          <h3 className="text-sm font-semibold text-gray-900">Plan Route</h3>
+        </div>
+        <Button variant="ghost" size="icon" className="h-7 w-7 rounded-lg text-gray-400 hover:text-gray-600" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {!route && (
+          <>
+            <p className="text-xs text-gray-500">
+              Click pins on the map to add stops. The route starts from your current location.
+            </p>
+            {selectedJobs.length === 0 ? (
+              <div className="text-center py-4 text-sm text-gray-400">No stops selected</div>
+            ) : (
+              <ul className="space-y-1.5">
+                {selectedJobs.map(job => (
+                  <li key={job.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate text-gray-700" title={job.name}>{job.name}</span>
+                    <button
+                      onClick={() => onRemoveJob(job.id)}
+                      className="text-gray-300 hover:text-red-500 flex-shrink-0"
+                      title="Remove stop"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex items-center gap-2">
+              <label htmlFor="minutes-per-stop" className="text-xs text-gray-500 whitespace-nowrap">Minutes per stop</label>
+              <Input
+                id="minutes-per-stop"
+                type="number"
+                min={0}
+                value={minutesPerStop}
+                onChange={(e) => setMinutesPerStop(e.target.value)}
+                className="h-8 w-20 text-sm"
+              />
+            </div>
+          </>
+        )}
+
+        {route && (
+          <>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="rounded-lg bg-blue-50 p-2">
+                <div className="text-sm font-bold text-blue-600">{route.stops.length}</div>
+                <div className="text-[10px] text-blue-500/80">Stops</div>
+              </div>
+              <div className="rounded-lg bg-blue-50 p-2">
+                <div className="text-sm font-bold text-blue-600">{route.totalMiles} mi</div>
+                <div className="text-[10px] text-blue-500/80">Distance</div>
+              </div>
+              <div className="rounded-lg bg-blue-50 p-2">
+                <div className="text-sm font-bold text-blue-600">{route.finishAt ? formatTime(route.finishAt) : '—'}</div>
+                <div className="text-[10px] text-blue-500/80">Done by</div>
+              </div>
+            </div>
+            <ol className="space-y-2">
+              {route.stops.map(stop => (
+                <li key={stop.jobId}>
+                  <button
+                    onClick={() => { const job = jobsById.get(stop.jobId); if (job) onJobSelect(job); }}
+                    className="w-full text-left flex items-start gap-2.5 rounded-lg p-2 hover:bg-gray-50"
+                  >
+                    <span className="h-5 w-5 rounded-full bg-blue-600 text-white text-[11px] font-semibold flex items-center justify-center flex-shrink-0">
+                      {stop.order}
+                    </span>
+                    <span className="min-w-0 flex-1">
+                      <span className="block text-sm font-medium text-gray-900 truncate">{stop.name}</span>
+                      <span className="block text-xs text-gray-500 truncate">{stop.address}</span>
+                      <span className="block text-xs text-gray-400 mt-0.5">
+                        {stop.legMiles} mi · ETA {formatTime(stop.eta)}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+            <p className="text-[11px] text-gray-400">
+              Straight-line distances; actual drive times will be longer.
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 px-4 py-3 border-t border-gray-100">
+        {route ? (
+          <Button variant="outline" size="sm" className="flex-1 h-8" onClick={() => onRouteChange(null)}>
+            Edit Stops
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            className="flex-1 h-8 gap-1.5 bg-blue-600 hover:bg-blue-700 text-white"
+            onClick={handlePlan}
+            disabled={selectedJobs.length === 0 || isBusy}
+          >
+            {isBusy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Navigation className="h-3.5 w-3.5" />}
+            Optimize Route
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 text-gray-500 hover:text-red-600"
+          onClick={onClear}
+          disabled={selectedJobs.length === 0}
+          title="Clear all stops"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
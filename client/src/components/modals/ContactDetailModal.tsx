@@ -12,7 +12,9 @@ import { Separator } from "@/components/ui/separator";
 import { Phone, Mail, Building2, MapPin, Calendar, FileText } from "lucide-react";
 import { Link } from "wouter";
 import { useContact, useLogInteraction } from "@/hooks/useContacts";
+import { useToast } from "@/hooks/use-toast";
 import { LogInteractionModal } from "./LogInteractionModal";
+import { AttachmentsPanel } from "@/components/AttachmentsPanel";
 import { formatDistanceToNow } from "date-fns";
 
 interface ContactDetailModalProps {
@@ -36,12 +38,18 @@ function LastInteractionBadge({ date }: { date: Date | string | null }) {
 
 export function ContactDetailModal({ contactId, isOpen, onClose }: ContactDetailModalProps) {
   const [showLogModal, setShowLogModal] = useState(false);
+  const { toast } = useToast();
   const { data: contact, isLoading } = useContact(contactId);
   const logMutation = useLogInteraction(contactId);
 
-  const handleLogInteraction = (data: { type: string; direction?: string; summary?: string; notes?: string }) => {
+  const handleLogInteraction = (data: { type: string; direction?: string; summary?: string; notes?: string; followUpInDays?: number }) => {
     logMutation.mutate(data, {
-      onSuccess: () => setShowLogModal(false),
+      onSuccess: (result) => {
+        setShowLogModal(false);
+        if (result.queued) {
+          toast({ title: "Saved offline", description: "The interaction will sync when you're back online" });
+        }
+      },
     });
   };
 
@@ -180,6 +188,8 @@ export function ContactDetailModal({ contactId, isOpen, onClose }: ContactDetail
                 </Card>
               )}
 
+              <AttachmentsPanel owner={{ contactId: contact.id }} />
+
               {contact.notes && (
                 <div className="text-sm">
                   <div className="font-medium text-gray-700 mb-1">Notes</div>
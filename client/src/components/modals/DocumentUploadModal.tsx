@@ -1,9 +1,16 @@
 import { useState, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { usePendingDocuments, useAcceptDocument, useRejectDocument } from "@/hooks/useDocumentReview";
+import { getAuthHeaders } from "@/lib/auth";
 import { cn } from "@/lib/utils";
+import type { Document, ExtractedField } from "@shared/schema";
 
 interface DocumentUploadModalProps {
   isOpen: boolean;
@@ -14,16 +21,230 @@ interface DocumentUploadModalProps {
 interface UploadResult {
   filename: string;
   success: boolean;
-  extractedData?: any;
+  document?: Document;
   error?: string;
 }
 
+// Equipment found with at least this confidence starts out ticked
+const EQUIPMENT_PRESELECT_CONFIDENCE = 0.6;
+
+function ConfidenceBadge({ confidence }: { confidence: number }) {
+  return (
+    <span
+      className={cn(
+        "text-[10px] font-medium px-1.5 py-0.5 rounded",
+        confidence >= 0.8 ? "bg-green-100 text-green-800" : confidence >= 0.5 ? "bg-amber-100 text-amber-800" : "bg-gray-100 text-gray-600"
+      )}
+    >
+      {Math.round(confidence * 100)}%
+    </span>
+  );
+}
+
+// Values found for a field; picking one fills the input above it
+function CandidateChips({ candidates, onPick, format = (value) => value }: {
+  candidates: ExtractedField[];
+  onPick: (value: string) => void;
+  format?: (value: string) => string;
+}) {
+  if (candidates.length === 0) return <p className="text-xs text-gray-400 mt-1">Nothing found</p>;
+  return (
+    <div className="flex flex-wrap gap-1.5 mt-1.5">
+      {candidates.map((candidate) => (
+        <button
+          key={candidate.value}
+          type="button"
+          title={candidate.context}
+          onClick={() => onPick(candidate.value)}
+          className="flex items-center gap-1.5 text-xs border border-gray-200 rounded-md px-2 py-1 hover:bg-gray-50"
+        >
+          <span className="truncate max-w-[260px]">{format(candidate.value)}</span>
+          <ConfidenceBadge confidence={candidate.confidence} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * What was found in one document, for the reviewer to correct and turn into
+ * a job, or reject.
+ */
+function DocumentReviewCard({ document, onAccepted }: { document: Document; onAccepted: () => void }) {
+  const { toast } = useToast();
+  const acceptMutation = useAcceptDocument();
+  const rejectMutation = useRejectDocument();
+  const extraction = document.extractedData;
+  const topAddress = extraction?.addresses[0]?.value ?? "";
+  const startDate = extraction?.dates.find((date) => date.label === "Start") ?? extraction?.dates[0];
+
+  const [name, setName] = useState(topAddress ? `Equipment Job - ${topAddress.split(",")[0]}` : "");
+  const [address, setAddress] = useState(topAddress);
+  const [contractor, setContractor] = useState(extraction?.contractors[0]?.value ?? "");
+  const [projectValue, setProjectValue] = useState(
+    extraction?.projectValues.find((value) => value.confidence >= 0.5)?.value ?? ""
+  );
+  const [date, setDate] = useState(startDate?.value ?? "");
+  const [equipmentNumbers, setEquipmentNumbers] = useState<string[]>(
+    (extraction?.equipment ?? [])
+      .filter((item) => item.confidence >= EQUIPMENT_PRESELECT_CONFIDENCE)
+      .map((item) => item.equipmentNumber)
+  );
+
+  if (!extraction) return null;
+
+  const handleAccept = () => {
+    const value = projectValue.replace(/[^\d.]/g, "");
+    acceptMutation.mutate(
+      {
+        documentId: document.id,
+        review: {
+          name: name.trim(),
+          address: address.trim(),
+          contractor: contractor.trim() || undefined,
+          projectValue: value ? parseFloat(value).toFixed(2) : undefined,
+          startDate: date ? new Date(`${date}T00:00:00`) : undefined,
+          equipment: extraction.equipment
+            .filter((item) => equipmentNumbers.includes(item.equipmentNumber))
+            .map((item) => ({
+              equipmentNumber: item.equipmentNumber,
+              attachmentNumber: item.attachmentNumber ?? undefined,
+              status: item.status,
+            })),
+        },
+      },
+      {
+        onSuccess: (job) => {
+          toast({ title: "Job created", description: `${job.name} was added from ${document.originalName}` });
+          onAccepted();
+        },
+        onError: (err) => toast({ variant: "destructive", title: "Error", description: err.message }),
+      }
+    );
+  };
+
+  const handleReject = () => {
+    rejectMutation.mutate(document.id, {
+      onSuccess: () => toast({ title: "Document rejected", description: `Nothing was created from ${document.originalName}` }),
+      onError: (err) => toast({ variant: "destructive", title: "Error", description: err.message }),
+    });
+  };
+
+  const busy = acceptMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3" data-testid={`document-review-${document.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-darktext truncate">{document.originalName}</p>
+        {document.createdAt && (
+          <span className="text-xs text-gray-400 flex-shrink-0">{new Date(document.createdAt).toLocaleDateString()}</span>
+        )}
+      </div>
+
+      <div>
+        <Label className="text-xs">Job name</Label>
+        <Input value={name} onChange={(e) => setName(e.target.value)} className="h-8 mt-1" />
+      </div>
+      <div>
+        <Label className="text-xs">Address</Label>
+        <Input value={address} onChange={(e) => setAddress(e.target.value)} className="h-8 mt-1" />
+        <CandidateChips candidates={extraction.addresses} onPick={setAddress} />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs">Contractor</Label>
+          <Input value={contractor} onChange={(e) => setContractor(e.target.value)} className="h-8 mt-1" />
+          <CandidateChips candidates={extraction.contractors} onPick={setContractor} />
+        </div>
+        <div>
+          <Label className="text-xs">Project value</Label>
+          <Input value={projectValue} onChange={(e) => setProjectValue(e.target.value)} className="h-8 mt-1" inputMode="decimal" />
+          <CandidateChips
+            candidates={extraction.projectValues}
+            onPick={setProjectValue}
+            format={(value) => `$${parseFloat(value).toLocaleString()}`}
+          />
+        </div>
+      </div>
+      <div>
+        <Label className="text-xs">Start date</Label>
+        <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="h-8 mt-1 w-44" />
+        <CandidateChips
+          candidates={extraction.dates}
+          onPick={setDate}
+          format={(value) => {
+            const found = extraction.dates.find((d) => d.value === value);
+            return `${found?.label ? `${found.label}: ` : ""}${new Date(`${value}T00:00:00`).toLocaleDateString()}`;
+          }}
+        />
+      </div>
+
+      {extraction.equipment.length > 0 && (
+        <div>
+          <Label className="text-xs">Equipment</Label>
+          <div className="space-y-1.5 mt-1.5">
+            {extraction.equipment.map((item) => (
+              <div key={item.equipmentNumber} className="flex items-center gap-2 text-sm" title={item.context}>
+                <Checkbox
+                  id={`equipment-${document.id}-${item.equipmentNumber}`}
+                  checked={equipmentNumbers.includes(item.equipmentNumber)}
+                  onCheckedChange={(checked) =>
+                    setEquipmentNumbers((prev) =>
+                      checked === true ? [...prev, item.equipmentNumber] : prev.filter((n) => n !== item.equipmentNumber)
+                    )
+                  }
+                />
+                <label htmlFor={`equipment-${document.id}-${item.equipmentNumber}`} className="font-mono">
+                  {item.equipmentNumber}
+                </label>
+                {item.attachmentNumber && <span className="text-xs text-gray-500">att. {item.attachmentNumber}</span>}
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0">{item.status}</Badge>
+                <ConfidenceBadge confidence={item.confidence} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <details className="text-xs text-gray-500">
+        <summary className="cursor-pointer">Text read from the document</summary>
+        <pre className="mt-1.5 max-h-40 overflow-y-auto whitespace-pre-wrap bg-gray-50 rounded p-2 font-sans">
+          {extraction.textPreview}
+        </pre>
+      </details>
+
+      <div className="flex justify-end gap-2 pt-1">
+        <Button
+          size="sm"
+          variant="outline"
+          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+          onClick={handleReject}
+          disabled={busy}
+          data-testid={`button-reject-document-${document.id}`}
+        >
+          Reject
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleAccept}
+          disabled={busy || !name.trim() || !address.trim()}
+          data-testid={`button-accept-document-${document.id}`}
+        >
+          {acceptMutation.isPending ? "Creating..." : "Create job"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 export default function DocumentUploadModal({ isOpen, onClose, onSuccess }: DocumentUploadModalProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadResults, setUploadResults] = useState<UploadResult[]>([]);
   const [dragActive, setDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: pendingDocuments = [] } = usePendingDocuments(isOpen);
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -54,20 +275,22 @@ export default function DocumentUploadModal({ isOpen, onClose, onSuccess }: Docu
     const allowedTypes = [
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
       'application/msword',
+      'application/pdf',
       'text/plain'
     ];
     
     const validFiles = files.filter(file => 
-      allowedTypes.includes(file.mimetype) || 
+      allowedTypes.includes(file.type) || 
       file.name.endsWith('.doc') || 
       file.name.endsWith('.docx') || 
+      file.name.endsWith('.pdf') || 
       file.name.endsWith('.txt')
     );
     
     if (validFiles.length === 0) {
       toast({
         title: "Invalid Files",
-        description: "Please upload Word documents (.doc, .docx) or text files only.",
+        description: "Please upload Word documents (.docx), PDFs or text files only.",
         variant: "destructive"
       });
       return;
@@ -76,7 +299,7 @@ export default function DocumentUploadModal({ isOpen, onClose, onSuccess }: Docu
     if (validFiles.length !== files.length) {
       toast({
         title: "Some Files Skipped",
-        description: `${files.length - validFiles.length} files were skipped. Only Word documents and text files are allowed.`,
+        description: `${files.length - validFiles.length} files were skipped. Only Word documents, PDFs and text files are allowed.`,
         variant: "destructive"
       });
     }
@@ -96,6 +319,8 @@ export default function DocumentUploadModal({ isOpen, onClose, onSuccess }: Docu
 
       const response = await fetch('/api/documents/upload', {
         method: 'POST',
+        headers: getAuthHeaders(),
+        credentials: 'include',
         body: formData
       });
 
@@ -111,10 +336,10 @@ export default function DocumentUploadModal({ isOpen, onClose, onSuccess }: Docu
 
       if (successCount > 0) {
         toast({
-          title: "Upload Successful",
-          description: `${successCount} document(s) processed successfully${errorCount > 0 ? `, ${errorCount} failed` : ''}`
+          title: "Ready for Review",
+          description: `${successCount} document(s) read${errorCount > 0 ? `, ${errorCount} failed` : ''}. Check what was found before creating jobs.`
         });
-        onSuccess();
+        queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
       }
 
       if (errorCount > 0 && successCount === 0) {
@@ -150,7 +375,7 @@ export default function DocumentUploadModal({ isOpen, onClose, onSuccess }: Docu
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="max-w-lg" data-testid="document-upload-modal">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="document-upload-modal">
         <DialogHeader>
           <DialogTitle>Upload Documents</DialogTitle>
         </DialogHeader>
@@ -174,7 +399,7 @@ export default function DocumentUploadModal({ isOpen, onClose, onSuccess }: Docu
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".doc,.docx,.txt"
+              accept=".doc,.docx,.pdf,.txt"
               onChange={handleFileInput}
               className="hidden"
               data-testid="file-input"
@@ -184,12 +409,12 @@ export default function DocumentUploadModal({ isOpen, onClose, onSuccess }: Docu
               <div className="space-y-4">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
                 <p className="text-lg font-medium text-darktext">Processing documents...</p>
-                <p className="text-sm text-gray-500">Extracting addresses and equipment information</p>
+                <p className="text-sm text-gray-500">Reading addresses, contractors, values, dates and equipment</p>
               </div>
             ) : (
               <div className="space-y-4">
                 <i className="fas fa-cloud-upload-alt text-4xl text-gray-400"></i>
-                <p className="text-lg font-medium text-darktext">Drop Word documents here</p>
+                <p className="text-lg font-medium text-darktext">Drop Word documents or PDFs here</p>
                 <p className="text-sm text-gray-500">or click to browse files</p>
                 <Button 
                   type="button"
@@ -198,7 +423,7 @@ export default function DocumentUploadModal({ isOpen, onClose, onSuccess }: Docu
                 >
                   Choose Files
                 </Button>
-                <p className="text-xs text-gray-400">Supports .doc, .docx, and .txt files</p>
+                <p className="text-xs text-gray-400">Supports .docx, .pdf, and .txt files</p>
               </div>
             )}
           </div>
@@ -224,9 +449,9 @@ export default function DocumentUploadModal({ isOpen, onClose, onSuccess }: Docu
                       )}></i>
                       <span className="truncate">{result.filename}</span>
                     </div>
-                    {result.success && result.extractedData && (
+                    {result.success && result.document?.extractedData && (
                       <div className="text-xs opacity-75">
-                        {result.extractedData.addresses?.length || 0} addresses found
+                        {result.document.extractedData.addresses.length} addresses found
                       </div>
                     )}
                     {!result.success && result.error && (
@@ -240,6 +465,18 @@ export default function DocumentUploadModal({ isOpen, onClose, onSuccess }: Docu
             </div>
           )}
 
+          {/* Review: nothing becomes a job until it has been checked */}
+          {pendingDocuments.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-darktext">
+                Waiting for Review <Badge variant="secondary" className="ml-1">{pendingDocuments.length}</Badge>
+              </h4>
+              {pendingDocuments.map((document) => (
+                <DocumentReviewCard key={document.id} document={document} onAccepted={onSuccess} />
+              ))}
+            </div>
+          )}
+
           {/* Email Integration Info */}
           <div>
             <h3 className="text-sm font-medium text-darktext mb-3">Email Integration</h3>
@@ -251,7 +488,7 @@ export default function DocumentUploadModal({ isOpen, onClose, onSuccess }: Docu
                 docs@your-tracker-domain.com
               </p>
               <p className="text-xs text-blue-600">
-                Addresses will be automatically extracted and added as job sites
+                Attachments are read and wait here for review before they become job sites
               </p>
             </div>
           </div>
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { useEquipmentReportSettings, useUpdateEquipmentReportSettings } from "@/hooks/useEquipmentReportSettings";
+import { EQUIPMENT_REPORT_COLUMNS, type EquipmentReportColumn, type EquipmentReportSettings } from "@shared/schema";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+// Statuses as they appear in the STATUS column of the branch report
+const STATUS_OPTIONS = [
+  { value: "ON-RENT", label: "On rent" },
+  { value: "OFF-RENT", label: "Off rent" },
+  { value: "DOWN", label: "Down" },
+];
+
+// Label and the header name the parser looks for by default
+const COLUMN_LABELS: Record<EquipmentReportColumn, { label: string; header: string }> = {
+  equipmentNumber: { label: "Equipment #", header: "EQ #" },
+  model: { label: "Model", header: "MODEL" },
+  serialNumber: { label: "Serial #", header: "SERIAL #" },
+  year: { label: "Year", header: "YEAR" },
+  specs: { label: "Specs", header: "SPECS" },
+  additionalSpecs: { label: "Additional specs", header: "ADD'L SPECS" },
+  customer: { label: "Customer", header: "CUSTOMER" },
+  acctMgr: { label: "Account manager", header: "ACCT MGR" },
+  location: { label: "Location", header: "LOCATION" },
+  status: { label: "Status", header: "STATUS" },
+  dateOnOffRent: { label: "Date on/off rent", header: "DATE ON/OFF RENT" },
+  daysOnOffRent: { label: "Days on/off rent", header: "DAYS ON/OFF RENT" },
+  monthlyRate: { label: "Monthly rate", header: "MONTHLY RATE" },
+};
+
+function splitList(value: string): string[] {
+  return value.split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+interface EquipmentReportSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function EquipmentReportSettingsModal({ isOpen, onClose }: EquipmentReportSettingsModalProps) {
+  const { toast } = useToast();
+  const { data: settings } = useEquipmentReportSettings();
+  const updateMutation = useUpdateEquipmentReportSettings();
+  const [accountManagers, setAccountManagers] = useState("");
+  const [statuses, setStatuses] = useState<string[]>([]);
+  const [otherStatuses, setOtherStatuses] = useState("");
+  const [columns, setColumns] = useState<Partial<Record<EquipmentReportColumn, string>>>({});
+  const [showColumns, setShowColumns] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !settings) return;
+    const presets = STATUS_OPTIONS.map((s) => s.value);
+    setAccountManagers(settings.accountManagers.join(", "));
+    setStatuses(settings.statuses.filter((s) => presets.includes(s.toUpperCase())).map((s) => s.toUpperCase()));
+    setOtherStatuses(settings.statuses.filter((s) => !presets.includes(s.toUpperCase())).join(", "));
+    setColumns(settings.columns);
+    setShowColumns(Object.keys(settings.columns).length > 0);
+  }, [isOpen, settings]);
+
+  const allStatuses = [...statuses, ...splitList(otherStatuses)];
+
+  const toggleStatus = (value: string, checked: boolean) => {
+    setStatuses((prev) => (checked ? [...prev, value] : prev.filter((s) => s !== value)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (allStatuses.length === 0) return;
+    const columnOverrides: EquipmentReportSettings["columns"] = {};
+    for (const field of EQUIPMENT_REPORT_COLUMNS) {
+      const header = columns[field]?.trim();
+      if (header) columnOverrides[field] = header;
+    }
+    updateMutation.mutate(
+      {
+        accountManagers: splitList(accountManagers),
+        statuses: allStatuses,
+        columns: columnOverrides,
+      },
+      {
+        onSuccess: () => {
+          toast({ title: "Report settings saved", description: "They apply from the next report you upload." });
+          onClose();
+        },
+        onError: (error: Error) => {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Equipment Report Settings</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="report-account-managers">Account managers</Label>
+            <Input
+              id="report-account-managers"
+              placeholder="e.g. Hudson, Martinez"
+              value={accountManagers}
+              onChange={(e) => setAccountManagers(e.target.value)}
+              data-testid="input-report-account-managers"
+            />
+            <p className="text-xs text-gray-500">
+              Comma separated; matches any part of the ACCT MGR column. Leave blank to keep every unit on the report.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Statuses to keep</Label>
+            <div className="flex flex-wrap gap-4">
+              {STATUS_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`report-status-${option.value}`}
+                    checked={statuses.includes(option.value)}
+                    onCheckedChange={(checked) => toggleStatus(option.value, checked === true)}
+                  />
+                  <Label htmlFor={`report-status-${option.value}`} className="font-normal">
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <Input
+              placeholder="Other statuses, e.g. READY, RPO"
+              value={otherStatuses}
+              onChange={(e) => setOtherStatuses(e.target.value)}
+              className="h-8 text-sm"
+            />
+            {allStatuses.length === 0 && <p className="text-xs text-red-600">Keep at least one status.</p>}
+          </div>
+
+          <div className="space-y-2">
+            <button
+              type="button"
+              className="flex items-center gap-1 text-sm font-medium text-gray-700 hover:text-gray-900"
+              onClick={() => setShowColumns((v) => !v)}
+            >
+              {showColumns ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              Column names
+            </button>
+            {showColumns && (
+              <>
+                <p className="text-xs text-gray-500">
+                  Columns are found by their header in the EQ # / MODEL row. Only fill these in if your report
+                  uses a different header name.
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {EQUIPMENT_REPORT_COLUMNS.map((field) => (
+                    <div key={field} className="space-y-1">
+                      <Label className="text-xs font-normal text-gray-600">{COLUMN_LABELS[field].label}</Label>
+                      <Input
+                        placeholder={COLUMN_LABELS[field].header}
+                        value={columns[field] ?? ""}
+                        onChange={(e) => setColumns((prev) => ({ ...prev, [field]: e.target.value }))}
+                        className="h-8 text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={allStatuses.length === 0 || updateMutation.isPending}>
+              {updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
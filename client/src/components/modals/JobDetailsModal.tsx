@@ -12,6 +12,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
   Eye, 
   EyeOff, 
@@ -30,21 +32,55 @@ import {
   CheckCircle,
   Star,
   Copy,
-  ExternalLink
+  ExternalLink,
+  History,
+  Upload,
+  Target,
+  FileDown,
+  Send,
+  Pencil,
+  Trash2,
+  Plus,
+  Truck,
+  Radar,
+  Camera,
+  Navigation
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { Job } from "@shared/schema";
 import { getAuthHeaders } from "@/lib/auth";
+import { sendOrQueue } from "@/lib/offlineSync";
 import { useFilterPreferences } from "@/hooks/useFilterPreferences";
 import { getMergedFilterPreferences } from "@/lib/utils";
 import { useJobContacts, useAssignContactToJob, useRemoveContactFromJob } from "@/hooks/useContacts";
+import { useJobHistory } from "@/hooks/useJobs";
 import { ContactPicker } from "@/components/ContactPicker";
+import { AttachmentsPanel } from "@/components/AttachmentsPanel";
+import { useJobOpportunity } from "@/hooks/useOpportunities";
+import { OpportunityModal, OPPORTUNITY_STAGES } from "./OpportunityModal";
+import { useJobQuotes, useSendQuote, useReviseQuote, useUpdateQuote, useDeleteQuote, downloadQuotePdf } from "@/hooks/useQuotes";
+import { QuoteBuilderModal } from "./QuoteBuilderModal";
+import { useJobRentalEquipment } from "@/hooks/useRentalEquipment";
+import { useTerritories } from "@/hooks/useTerritories";
+import { useSiteVisits, useCheckIn, useCheckOut, useUploadSiteVisitPhotos, useSiteVisitPhotoUrl } from "@/hooks/useSiteVisits";
+import { useGeolocation } from "@/hooks/useGeolocation";
+import { formatQuoteNumber, SITE_VISIT_ON_SITE_METERS, MAX_SITE_VISIT_PHOTOS, type QuoteWithLinks } from "@shared/schema";
 import { Link } from "wouter";
 
+// Field changes made without signal are queued and synced later
+const QUEUED_TOAST = {
+  title: "Saved offline",
+  description: "This change will sync when you're back online",
+};
+
 interface JobDetailsModalProps {
   job: Job | null;
   isOpen: boolean;
   onClose: () => void;
+  // Hands the job to the map to drag or place its pin
+  onEditLocation?: (job: Job) => void;
+  // Filters the dashboard to jobs around this one
+  onFindNearby?: (job: Job) => void;
 }
 
 function JobLinkedContacts({ jobId }: { jobId: string }) {
@@ -150,7 +186,578 @@ function JobLinkedContacts({ jobId }: { jobId: string }) {
   );
 }
 
-export function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModalProps) {
+const HISTORY_ACTION_LABELS: Record<string, string> = {
+  created: "Job created",
+  update: "Job edited",
+  notes: "Notes updated",
+  team: "Project team updated",
+  temperature: "Temperature changed",
+  visit: "Marked as visited",
+  cold: "Cold status changed",
+  favorite: "Favorite changed",
+  unlock_fields: "Fields unlocked",
+  location: "Pin moved",
+  import_merge: "Updated by Dodge import",
+  import_conflict: "Dodge value accepted",
+  import_revert: "Import reverted",
+  check_in: "Checked in on site",
+};
+
+const HISTORY_FIELD_LABELS: Record<string, string> = {
+  projectValue: "Project value",
+  userNotes: "Notes",
+  lockedFields: "Locked fields",
+  isCold: "Cold",
+  isFavorite: "Favorite",
+  temperatureSetAt: "Visit date",
+  orderedBy: "Ordered by",
+  officeContact: "Office contact",
+  externalId: "Dodge project ID",
+};
+
+function formatHistoryField(field: string) {
+  if (HISTORY_FIELD_LABELS[field]) return HISTORY_FIELD_LABELS[field];
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatHistoryValue(value: string | null) {
+  if (value === null) return "empty";
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) return new Date(value).toLocaleString();
+  return value.length > 120 ? `${value.slice(0, 120)}…` : value;
+}
+
+function JobHistoryTimeline({ jobId, enabled }: { jobId: string; enabled: boolean }) {
+  const { data: history = [], isLoading } = useJobHistory(jobId, enabled);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 py-6 text-center">Loading history...</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500 py-6 text-center">No changes recorded for this job yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-5" data-testid="job-history">
+      {history.map((entry) => {
+        const fromImport = entry.source === "dodge_import";
+        return (
+          <li key={entry.id} className="ml-5">
+            <span
+              className={`absolute -left-[9px] flex h-[18px] w-[18px] items-center justify-center rounded-full ring-4 ring-white ${
+                fromImport ? "bg-purple-100 text-purple-600" : "bg-blue-100 text-blue-600"
+              }`}
+            >
+              {fromImport ? <Upload className="h-2.5 w-2.5" /> : <User className="h-2.5 w-2.5" />}
+            </span>
+            <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5">
+              <span className="text-sm font-medium text-gray-900">
+                {HISTORY_ACTION_LABELS[entry.action] || entry.action}
+              </span>
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                {fromImport ? "Dodge import" : entry.userEmail || "User"}
+              </Badge>
+              <span className="text-xs text-gray-400">
+                {entry.changedAt ? new Date(entry.changedAt).toLocaleString() : ""}
+              </span>
+            </div>
+            {entry.changes.length > 0 && (
+              <ul className="mt-1.5 space-y-1">
+                {entry.changes.map((change, i) => (
+                  <li key={i} className="text-xs text-gray-600">
+                    <span className="font-medium text-gray-700">{formatHistoryField(change.field)}:</span>{" "}
+                    <span className="line-through text-gray-400">{formatHistoryValue(change.from)}</span>
+                    {" → "}
+                    <span>{formatHistoryValue(change.to)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function formatDistance(meters: number) {
+  const feet = meters * 3.28084;
+  return feet < 1000 ? `${Math.round(feet)} ft` : `${(meters / 1609.344).toFixed(1)} mi`;
+}
+
+function formatDuration(from: Date, to: Date) {
+  const minutes = Math.max(0, Math.round((to.getTime() - from.getTime()) / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+}
+
+function SiteVisitPhotoThumb({ photoId, filename }: { photoId: string; filename: string }) {
+  const { data: url } = useSiteVisitPhotoUrl(photoId);
+  if (!url) return <div className="h-14 w-14 rounded-md bg-gray-100 animate-pulse" />;
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer">
+      <img src={url} alt={filename} className="h-14 w-14 rounded-md object-cover border border-gray-200" />
+    </a>
+  );
+}
+
+// Check in from the job site: the GPS fix is compared with the job's pin, and
+// checking out logs the visit on the contacts the rep met
+function JobSiteVisits({ jobId }: { jobId: string }) {
+  const { toast } = useToast();
+  const { getCurrentLocation, isLoading: locating } = useGeolocation();
+  const { data: visits = [] } = useSiteVisits(jobId);
+  const { data: jobContacts = [] } = useJobContacts(jobId);
+  const checkInMutation = useCheckIn();
+  const checkOutMutation = useCheckOut(jobId);
+  const uploadMutation = useUploadSiteVisitPhotos(jobId);
+  const photoInput = React.useRef<HTMLInputElement>(null);
+  const [checkingOut, setCheckingOut] = useState(false);
+  const [visitNotes, setVisitNotes] = useState("");
+  const [contactsMet, setContactsMet] = useState<string[]>([]);
+
+  const openVisit = visits.find((v) => !v.checkedOutAt);
+
+  const handleCheckIn = async () => {
+    const position = await getCurrentLocation();
+    if (!position) return;
+    checkInMutation.mutate(
+      { jobId, latitude: position.lat, longitude: position.lng, accuracy: position.accuracy },
+      {
+        onSuccess: (visit) => {
+          toast({
+            title: "Checked in",
+            description: visit.distanceMeters != null
+              ? `${formatDistance(visit.distanceMeters)} from the job's pin`
+              : "This job has no pin, so distance wasn't recorded",
+          });
+        },
+        onError: (err) => toast({ variant: "destructive", title: "Error", description: err.message }),
+      }
+    );
+  };
+
+  const handleCheckOut = () => {
+    if (!openVisit) return;
+    checkOutMutation.mutate(
+      { visitId: openVisit.id, notes: visitNotes.trim() || undefined, contactIds: contactsMet },
+      {
+        onSuccess: () => {
+          toast({ title: "Checked out", description: "Visit logged" });
+          setCheckingOut(false);
+          setVisitNotes("");
+          setContactsMet([]);
+        },
+        onError: (err) => toast({ variant: "destructive", title: "Error", description: err.message }),
+      }
+    );
+  };
+
+  const handlePhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (!openVisit || files.length === 0) return;
+    if (openVisit.photos.length + files.length > MAX_SITE_VISIT_PHOTOS) {
+      toast({ variant: "destructive", title: "Too many photos", description: `Up to ${MAX_SITE_VISIT_PHOTOS} photos per visit` });
+      return;
+    }
+    uploadMutation.mutate(
+      { visitId: openVisit.id, files },
+      {
+        onSuccess: (photos) => toast({ title: "Photos added", description: `${photos.length} photo${photos.length === 1 ? "" : "s"} saved to this visit` }),
+        onError: (err) => toast({ variant: "destructive", title: "Error", description: err.message }),
+      }
+    );
+  };
+
+  const toggleContact = (contactId: string, checked: boolean) => {
+    setContactsMet((prev) => (checked ? [...prev, contactId] : prev.filter((id) => id !== contactId)));
+  };
+
+  return (
+    <Card data-testid="job-site-visits">
+      <CardContent className="pt-4">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-sm flex items-center gap-2">
+            <Navigation className="h-4 w-4" />
+            Site Visits
+            {visits.length > 0 && <Badge variant="secondary">{visits.length}</Badge>}
+          </h4>
+          {!openVisit && (
+            <Button
+              size="sm"
+              onClick={handleCheckIn}
+              disabled={locating || checkInMutation.isPending}
+              data-testid="button-check-in"
+            >
+              {locating ? "Locating..." : checkInMutation.isPending ? "Checking in..." : "Check in"}
+            </Button>
+          )}
+        </div>
+
+        {openVisit && (
+          <div className="mt-3 p-3 rounded-lg bg-green-50 border border-green-100">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-sm text-green-800">
+                On site since {new Date(openVisit.checkedInAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+              </span>
+              <div className="flex gap-2">
+                <input
+                  ref={photoInput}
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  multiple
+                  className="hidden"
+                  onChange={handlePhotos}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => photoInput.current?.click()}
+                  disabled={uploadMutation.isPending}
+                  data-testid="button-site-visit-photos"
+                >
+                  <Camera className="h-4 w-4 mr-1" />
+                  {uploadMutation.isPending ? "Uploading..." : "Add photos"}
+                </Button>
+                {!checkingOut && (
+                  <Button size="sm" onClick={() => setCheckingOut(true)} data-testid="button-check-out">
+                    Check out
+                  </Button>
+                )}
+              </div>
+            </div>
+            {checkingOut && (
+              <div className="mt-3 space-y-3">
+                {jobContacts.length > 0 && (
+                  <div>
+                    <p className="text-xs font-medium text-gray-700 mb-1.5">Who did you meet?</p>
+                    <div className="space-y-1.5">
+                      {jobContacts.map((cj: { id: string; contact: { id: string; fullName: string | null } }) => (
+                        <div key={cj.id} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`site-visit-contact-${cj.contact.id}`}
+                            checked={contactsMet.includes(cj.contact.id)}
+                            onCheckedChange={(checked) => toggleContact(cj.contact.id, checked === true)}
+                          />
+                          <label htmlFor={`site-visit-contact-${cj.contact.id}`} className="text-sm text-gray-700">
+                            {cj.contact.fullName || "Unknown"}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <Textarea
+                  value={visitNotes}
+                  onChange={(e) => setVisitNotes(e.target.value)}
+                  placeholder="What did you see on site?"
+                  className="min-h-[72px] bg-white"
+                  data-testid="textarea-site-visit-notes"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setCheckingOut(false)}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={handleCheckOut} disabled={checkOutMutation.isPending} data-testid="button-confirm-check-out">
+                    {checkOutMutation.isPending ? "Saving..." : "Check out"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {visits.length > 0 && (
+          <div className="mt-2 divide-y divide-gray-100">
+            {visits.map((visit) => {
+              const checkedIn = new Date(visit.checkedInAt);
+              const onSite = visit.distanceMeters != null && visit.distanceMeters <= SITE_VISIT_ON_SITE_METERS;
+              return (
+                <div key={visit.id} className="py-2" data-testid={`site-visit-${visit.id}`}>
+                  <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+                    <span className="text-gray-900">{checkedIn.toLocaleString()}</span>
+                    <span className="text-gray-500">
+                      {visit.checkedOutAt ? formatDuration(checkedIn, new Date(visit.checkedOutAt)) : "On site now"}
+                    </span>
+                    {visit.distanceMeters == null ? (
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0">No pin</Badge>
+                    ) : onSite ? (
+                      <Badge className="text-[10px] px-1.5 py-0 bg-green-100 text-green-800 hover:bg-green-100">
+                        On site · {formatDistance(visit.distanceMeters)}
+                      </Badge>
+                    ) : (
+                      <Badge className="text-[10px] px-1.5 py-0 bg-amber-100 text-amber-800 hover:bg-amber-100">
+                        {formatDistance(visit.distanceMeters)} away
+                      </Badge>
+                    )}
+                    {visit.accuracyMeters != null && (
+                      <span className="text-xs text-gray-400">±{visit.accuracyMeters} m</span>
+                    )}
+                    <span className="text-xs text-gray-400">{visit.userEmail}</span>
+                  </div>
+                  {visit.contacts.length > 0 && (
+                    <p className="text-xs text-gray-600 mt-0.5">Met {visit.contacts.map((c) => c.name).join(", ")}</p>
+                  )}
+                  {visit.notes && <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{visit.notes}</p>}
+                  {visit.photos.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {visit.photos.map((photo) => (
+                        <SiteVisitPhotoThumb key={photo.id} photoId={photo.id} filename={photo.filename} />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function JobOpportunity({ jobId, jobName }: { jobId: string; jobName: string }) {
+  const { data: opportunity, isLoading } = useJobOpportunity(jobId);
+  const [showModal, setShowModal] = useState(false);
+  const stageLabel = OPPORTUNITY_STAGES.find((s) => s.value === opportunity?.stage)?.label;
+  const revenue = opportunity?.estimatedRevenue ? parseFloat(opportunity.estimatedRevenue) : 0;
+
+  return (
+    <Card>
+      <CardContent className="pt-4">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-sm flex items-center gap-2">
+            <Target className="h-4 w-4" />
+            Sales Opportunity
+          </h4>
+          <Button
+            size="sm"
+            variant={opportunity ? "outline" : "default"}
+            onClick={() => setShowModal(true)}
+            disabled={isLoading}
+            data-testid="button-job-opportunity"
+          >
+            {opportunity ? "Edit" : "Add to Pipeline"}
+          </Button>
+        </div>
+        {opportunity && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-sm text-gray-600">
+            <Badge variant="secondary">{stageLabel}</Badge>
+            {revenue > 0 && <span>${revenue.toLocaleString()} est. revenue</span>}
+            <span>{opportunity.probability}% probability</span>
+            {opportunity.expectedCloseDate && (
+              <span>Close {new Date(opportunity.expectedCloseDate).toLocaleDateString()}</span>
+            )}
+            <Link href="/pipeline">
+              <span className="text-blue-600 hover:underline cursor-pointer">View pipeline</span>
+            </Link>
+          </div>
+        )}
+      </CardContent>
+      <OpportunityModal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        jobId={jobId}
+        jobName={jobName}
+        opportunity={opportunity ?? null}
+      />
+    </Card>
+  );
+}
+
+// Our rental units currently sitting on this job site; hidden when there are none
+function JobRentalEquipment({ jobId }: { jobId: string }) {
+  const { data: units = [] } = useJobRentalEquipment(jobId);
+  if (units.length === 0) return null;
+  const monthlyTotal = units.reduce((sum, u) => sum + (u.status === "on_rent" ? u.monthlyRate ?? 0 : 0), 0);
+
+  return (
+    <Card data-testid="job-rental-equipment">
+      <CardContent className="pt-4">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-sm flex items-center gap-2">
+            <Truck className="h-4 w-4" />
+            Our Iron on This Site
+            <Badge variant="secondary">{units.length}</Badge>
+          </h4>
+          {monthlyTotal > 0 && <span className="text-sm text-gray-600">${monthlyTotal.toLocaleString()}/mo</span>}
+        </div>
+        <div className="mt-2 divide-y divide-gray-100">
+          {units.map((unit) => (
+            <div key={unit.id} className="flex items-center gap-3 py-1.5 text-sm">
+              <span className="font-mono font-semibold text-blue-700">{unit.equipmentNumber}</span>
+              <span className="text-gray-700 truncate flex-1">{unit.model}</span>
+              <span className="text-gray-500 truncate max-w-[40%]">{unit.companyName || unit.customerOnRent || "—"}</span>
+              {unit.daysOnOffRent != null && (
+                <span className="text-xs text-gray-400 flex-shrink-0">{unit.daysOnOffRent}d</span>
+              )}
+            </div>
+          ))}
+        </div>
+        <Link href="/equipment">
+          <span className="text-xs text-blue-600 hover:underline cursor-pointer mt-1 inline-block">View fleet</span>
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
+
+const QUOTE_STATUS_CLASS: Record<QuoteWithLinks["status"], string> = {
+  draft: "bg-gray-100 text-gray-700 hover:bg-gray-100",
+  sent: "bg-blue-100 text-blue-700 hover:bg-blue-100",
+  accepted: "bg-green-100 text-green-700 hover:bg-green-100",
+  declined: "bg-red-100 text-red-700 hover:bg-red-100",
+};
+
+function JobQuotes({ jobId, jobName }: { jobId: string; jobName: string }) {
+  const { toast } = useToast();
+  const { data: quotes = [], isLoading } = useJobQuotes(jobId);
+  const sendMutation = useSendQuote();
+  const reviseMutation = useReviseQuote();
+  const updateMutation = useUpdateQuote();
+  const deleteMutation = useDeleteQuote();
+  const [builder, setBuilder] = useState<{ quote: QuoteWithLinks | null } | null>(null);
+
+  const onError = (err: Error) => toast({ variant: "destructive", title: "Error", description: err.message });
+
+  const handleDownload = async (quote: QuoteWithLinks) => {
+    try {
+      await downloadQuotePdf(quote);
+    } catch (err) {
+      onError(err instanceof Error ? err : new Error("Failed to download quote"));
+    }
+  };
+
+  const handleSend = (quote: QuoteWithLinks) => {
+    if (!window.confirm(`Email ${formatQuoteNumber(quote)} to ${quote.contactEmail ?? "the contact"}?`)) return;
+    sendMutation.mutate(quote.id, {
+      onSuccess: () => toast({ title: "Quote sent", description: "The email was logged on the contact's activity" }),
+      onError,
+    });
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-4">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-medium text-sm flex items-center gap-2">
+            <FileText className="h-4 w-4" />
+            Quotes
+          </h4>
+          <Button size="sm" variant="outline" className="gap-1.5" onClick={() => setBuilder({ quote: null })} data-testid="button-new-quote">
+            <Plus className="h-3.5 w-3.5" />
+            New Quote
+          </Button>
+        </div>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading quotes...</p>
+        ) : quotes.length === 0 ? (
+          <p className="text-sm text-gray-500">No quotes yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {quotes.map((quote) => (
+              <div
+                key={quote.id}
+                className="flex items-center justify-between gap-2 p-2 rounded-lg bg-gray-50 border border-gray-100"
+                data-testid={`quote-${quote.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{formatQuoteNumber(quote)}</span>
+                    <Badge className={`text-xs capitalize ${QUOTE_STATUS_CLASS[quote.status]}`}>{quote.status}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-0.5 truncate">
+                    ${Number(quote.total ?? 0).toLocaleString()}
+                    {quote.contactName && ` · ${quote.contactName}`}
+                    {quote.sentAt && ` · sent ${new Date(quote.sentAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button size="icon" variant="ghost" className="h-7 w-7" title="Download PDF" onClick={() => handleDownload(quote)}>
+                    <FileDown className="h-3.5 w-3.5" />
+                  </Button>
+                  {quote.status === "draft" ? (
+                    <>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" title="Edit" onClick={() => setBuilder({ quote })}>
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 text-blue-600"
+                        title="Send to contact"
+                        onClick={() => handleSend(quote)}
+                        disabled={sendMutation.isPending}
+                      >
+                        <Send className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 text-gray-400 hover:text-red-500"
+                        title="Delete draft"
+                        onClick={() => window.confirm("Delete this draft?") && deleteMutation.mutate(quote, { onError })}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      {quote.status === "sent" && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 px-2 text-xs text-green-700"
+                            onClick={() => updateMutation.mutate({ id: quote.id, status: "accepted" }, { onError })}
+                          >
+                            Accepted
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 px-2 text-xs text-red-600"
+                            onClick={() => updateMutation.mutate({ id: quote.id, status: "declined" }, { onError })}
+                          >
+                            Declined
+                          </Button>
+                        </>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 px-2 text-xs"
+                        title="Start a new version of this quote"
+                        onClick={() => reviseMutation.mutate(quote.id, { onSuccess: (rev) => setBuilder({ quote: { ...quote, ...rev } }), onError })}
+                        disabled={reviseMutation.isPending}
+                      >
+                        Revise
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      <QuoteBuilderModal
+        isOpen={!!builder}
+        onClose={() => setBuilder(null)}
+        jobId={jobId}
+        jobName={jobName}
+        quote={builder?.quote}
+      />
+    </Card>
+  );
+}
+
+export function JobDetailsModal({ job, isOpen, onClose, onEditLocation, onFindNearby }: JobDetailsModalProps) {
+  const [activeTab, setActiveTab] = useState("details");
   const [notes, setNotes] = useState(job?.userNotes || "");
   const [isEditing, setIsEditing] = useState(false);
   const [isEditingTeam, setIsEditingTeam] = useState(false);
@@ -165,6 +772,8 @@ export function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModalProps)
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { preferences } = useFilterPreferences();
+  const { data: territories = [] } = useTerritories();
+  const territory = territories.find(t => t.id === job?.territoryId);
 
   // Merge user preferences with defaults - using shared utility to ensure synchronization
   // with FilterSidebar component
@@ -175,6 +784,7 @@ export function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModalProps)
   // Update notes and team data when job changes
   React.useEffect(() => {
     if (job) {
+      setActiveTab("details");
       setNotes(job.userNotes || "");
       setIsFavorite(job.isFavorite);
       setTeamData({
@@ -251,27 +861,22 @@ export function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModalProps)
   });
 
   const updateNotesMutation = useMutation({
-    mutationFn: async ({ jobId, notes }: { jobId: string; notes: string }) => {
-      const response = await fetch(`/api/jobs/${jobId}/notes`, {
+    mutationFn: ({ jobId, notes }: { jobId: string; notes: string }) =>
+      sendOrQueue({
         method: 'PUT',
-        headers: { 
-          'Content-Type': 'application/json',
-          ...getAuthHeaders()
-        },
-        credentials: 'include',
-        body: JSON.stringify({ notes })
-      });
-      
-      if (!response.ok) {
-        if (response.status === 401) {
-          window.location.href = '/login';
-        }
-        throw new Error('Failed to update notes');
+        url: `/api/jobs/${jobId}/notes`,
+        body: { notes },
+        description: `Notes on ${job?.name ?? 'job'}`,
+        jobId,
+        base: { userNotes: job?.userNotes ?? '' },
+        optimistic: { userNotes: notes },
+      }),
+    networkMode: 'always',
+    onSuccess: (result) => {
+      if (result.queued) {
+        toast(QUEUED_TOAST);
+        return;
       }
-      
-      return response.json();
-    },
-    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
     },
     onError: () => {
@@ -284,25 +889,23 @@ export function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModalProps)
   });
 
   const updateTemperatureMutation = useMutation({
-    mutationFn: async ({ jobId, temperature }: { jobId: string; temperature: string | null }) => {
-      const response = await fetch(`/api/jobs/${jobId}/temperature`, {
+    mutationFn: ({ jobId, temperature }: { jobId: string; temperature: string | null }) =>
+      sendOrQueue({
         method: 'PATCH',
-        headers: { 
-          'Content-Type': 'application/json',
-          ...getAuthHeaders()
-        },
-        credentials: 'include',
-        body: JSON.stringify({ temperature })
-      });
-      if (!response.ok) {
-        if (response.status === 401) {
-          window.location.href = '/login';
-        }
-        throw new Error('Failed to update temperature');
+        url: `/api/jobs/${jobId}/temperature`,
+        body: { temperature },
+        description: temperature ? `${job?.name ?? 'Job'} set to ${temperature}` : `Temperature reset on ${job?.name ?? 'job'}`,
+        jobId,
+        base: { temperature: job?.temperature ?? null },
+        // Setting a temperature also marks the job visited, as the server does
+        optimistic: temperature ? { temperature, visited: true } : { temperature: null },
+      }),
+    networkMode: 'always',
+    onSuccess: (result) => {
+      if (result.queued) {
+        toast(QUEUED_TOAST);
+        return;
       }
-      return response.json();
-    },
-    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
       toast({
         title: "Success",
@@ -318,25 +921,58 @@ export function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModalProps)
     }
   });
 
-  const markVisitedMutation = useMutation({
+  // Hand a hand-placed pin back to address geocoding
+  const unlockLocationMutation = useMutation({
     mutationFn: async (jobId: string) => {
-      const response = await fetch(`/api/jobs/${jobId}/visit`, {
-        method: 'PATCH',
+      const response = await fetch(`/api/jobs/${jobId}/unlock-fields`, {
+        method: 'POST',
         headers: { 
           'Content-Type': 'application/json',
           ...getAuthHeaders()
         },
-        credentials: 'include'
+        credentials: 'include',
+        body: JSON.stringify({ fields: ['latitude', 'longitude'] })
       });
       if (!response.ok) {
         if (response.status === 401) {
           window.location.href = '/login';
         }
-        throw new Error('Failed to mark job as visited');
+        throw new Error('Failed to unlock location');
       }
       return response.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      toast({
+        title: "Success",
+        description: "The pin will be placed from the address again"
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to unlock location",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const markVisitedMutation = useMutation({
+    mutationFn: (jobId: string) =>
+      sendOrQueue({
+        method: 'PATCH',
+        url: `/api/jobs/${jobId}/visit`,
+        description: `${job?.name ?? 'Job'} marked visited`,
+        jobId,
+        base: { visited: job?.visited ?? false },
+        optimistic: { visited: true },
+      }),
+    networkMode: 'always',
+    onSuccess: (result) => {
+      if (result.queued) {
+        toast(QUEUED_TOAST);
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
       toast({
         title: "Success",
@@ -538,544 +1174,628 @@ export function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModalProps)
           Job details and project team information
         </div>
 
-        <div className="space-y-6">
-          {/* Status Badge and Dodge ID */}
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              {job.isViewed ? (
-                <Badge variant="secondary" className="bg-gray-100">
-                  <Eye className="h-3 w-3 mr-1" />
-                  Viewed
-                </Badge>
-              ) : (
-                <Badge variant="default" className="bg-blue-100 text-blue-800">
-                  <EyeOff className="h-3 w-3 mr-1" />
-                  New
-                </Badge>
-              )}
-              <Badge variant="outline">{effectiveStatus}</Badge>
-              <Badge variant="outline">{job.type}</Badge>
-            </div>
-            {job.dodgeJobId && (
-              <a
-                href={`https://www.google.com/search?q=Dodge+Data+Analytics+${encodeURIComponent(job.dodgeJobId)}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-xs text-blue-600 hover:underline cursor-pointer flex items-center gap-1"
-                title="Search for this project in Dodge Data & Analytics"
-                data-testid="dodge-id-link"
-              >
-                <FileText className="h-3 w-3" />
-                Dodge ID: {job.dodgeJobId}
-              </a>
-            )}
-          </div>
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="details" data-testid="tab-details">Details</TabsTrigger>
+            <TabsTrigger value="history" data-testid="tab-history">
+              <History className="h-3.5 w-3.5 mr-1.5" />
+              History
+            </TabsTrigger>
+          </TabsList>
 
-          {/* Location Info */}
-          <Card>
-            <CardContent className="pt-4">
-              <h4 className="font-medium mb-3 flex items-center gap-2">
-                <MapPin className="h-4 w-4" />
-                Location
-              </h4>
-              <p className="text-sm font-medium mb-1">{job.address}</p>
-              {job.latitude && job.longitude && (
-                <p className="text-xs text-gray-500 mb-3">
-                  Coordinates: {job.latitude}, {job.longitude}
-                </p>
-              )}
-              <div className="flex flex-col gap-2 mt-2">
-                {/* Google Maps */}
+          <TabsContent value="details" className="mt-4">
+            <div className="space-y-6">
+              {/* Status Badge and Dodge ID */}
+              <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
-                  <a
-                    href={`https://maps.google.com/?q=${job.latitude && job.longitude ? `${job.latitude},${job.longitude}` : encodeURIComponent(job.address)}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="inline-flex items-center gap-1.5 text-sm text-blue-600 hover:underline"
-                  >
-                    <ExternalLink className="h-3 w-3" />
-                    Google Maps
-                  </a>
-                  <button
-                    type="button"
-                    className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded border border-gray-200 hover:bg-gray-100 text-gray-600 transition-colors"
-                    onClick={() => {
-                      const url = `https://maps.google.com/?q=${job.latitude && job.longitude ? `${job.latitude},${job.longitude}` : encodeURIComponent(job.address)}`;
-                      navigator.clipboard.writeText(url);
-                      toast({ title: "Copied Google Maps link" });
-                    }}
-                  >
-                    <Copy className="h-3 w-3" />
-                    Copy
-                  </button>
+                  {job.isViewed ? (
+                    <Badge variant="secondary" className="bg-gray-100">
+                      <Eye className="h-3 w-3 mr-1" />
+                      Viewed
+                    </Badge>
+                  ) : (
+                    <Badge variant="default" className="bg-blue-100 text-blue-800">
+                      <EyeOff className="h-3 w-3 mr-1" />
+                      New
+                    </Badge>
+                  )}
+                  <Badge variant="outline">{effectiveStatus}</Badge>
+                  <Badge variant="outline">{job.type}</Badge>
                 </div>
-                {/* Apple Maps */}
-                <div className="flex items-center gap-2">
+                {job.dodgeJobId && (
                   <a
-                    href={`https://maps.apple.com/?${job.latitude && job.longitude ? `ll=${job.latitude},${job.longitude}&q=${encodeURIComponent(job.address)}` : `q=${encodeURIComponent(job.address)}`}`}
+                    href={`https://www.google.com/search?q=Dodge+Data+Analytics+${encodeURIComponent(job.dodgeJobId)}`}
                     target="_blank"
                     rel="noopener noreferrer"
-                    className="inline-flex items-center gap-1.5 text-sm text-blue-600 hover:underline"
+                    className="text-xs text-blue-600 hover:underline cursor-pointer flex items-center gap-1"
+                    title="Search for this project in Dodge Data & Analytics"
+                    data-testid="dodge-id-link"
                   >
-                    <ExternalLink className="h-3 w-3" />
-                    Apple Maps
+                    <FileText className="h-3 w-3" />
+                    Dodge ID: {job.dodgeJobId}
                   </a>
-                  <button
-                    type="button"
-                    className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded border border-gray-200 hover:bg-gray-100 text-gray-600 transition-colors"
-                    onClick={() => {
-                      const url = `https://maps.apple.com/?${job.latitude && job.longitude ? `ll=${job.latitude},${job.longitude}&q=${encodeURIComponent(job.address)}` : `q=${encodeURIComponent(job.address)}`}`;
-                      navigator.clipboard.writeText(url);
-                      toast({ title: "Copied Apple Maps link" });
-                    }}
-                  >
-                    <Copy className="h-3 w-3" />
-                    Copy
-                  </button>
-                </div>
+                )}
               </div>
-            </CardContent>
-          </Card>
-
-          {/* Project Details */}
-          <Card>
-            <CardContent className="pt-4">
-              <h4 className="font-medium mb-3">Project Details</h4>
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <label className="text-gray-500 text-xs">Valuation</label>
-                  <div className="flex items-center gap-1">
-                    <DollarSign className="h-3 w-3" />
-                    {formatCurrency(job.projectValue)}
-                  </div>
-                </div>
-                <div>
-                  <label className="text-gray-500 text-xs">County</label>
-                  <div>{job.county || "Not specified"}</div>
-                </div>
-                <div>
-                  <label className="text-gray-500 text-xs">Target Start Date</label>
-                  <div className="flex items-center gap-1">
-                    <Calendar className="h-3 w-3" />
-                    {formatDate(job.startDate)}
-                  </div>
-                </div>
-                <div>
-                  <label className="text-gray-500 text-xs">Target Completion Date</label>
-                  <div className="flex items-center gap-1">
-                    <Calendar className="h-3 w-3" />
-                    {formatDate(job.endDate)}
+
+              {/* Location Info */}
+              <Card>
+                <CardContent className="pt-4">
+                  <h4 className="font-medium mb-3 flex items-center gap-2">
+                    <MapPin className="h-4 w-4" />
+                    Location
+                  </h4>
+                  <p className="text-sm font-medium mb-1">{job.address}</p>
+                  {job.latitude && job.longitude && (
+                    <p className="text-xs text-gray-500 mb-3">
+                      Coordinates: {job.latitude}, {job.longitude}
+                      {job.geocodePrecision === 'approximate' && (
+                        <span className="ml-1 text-amber-600">(approximate - city or postcode only)</span>
+                      )}
+                    </p>
+                  )}
+                  {!job.latitude && job.geocodeFailedReason && (
+                    <p className="text-xs text-amber-600 mb-3">
+                      Not on the map: {job.geocodeFailedReason}
+                    </p>
+                  )}
+                  {(onEditLocation || (onFindNearby && job.latitude) || job.lockedFields?.includes('latitude')) && (
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      {onEditLocation && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7 text-xs"
+                          onClick={() => onEditLocation(job)}
+                          data-testid="button-edit-pin"
+                        >
+                          <MapPin className="h-3 w-3 mr-1" />
+                          {job.latitude ? "Move pin" : "Place on map"}
+                        </Button>
+                      )}
+                      {onFindNearby && job.latitude && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7 text-xs"
+                          onClick={() => onFindNearby(job)}
+                          data-testid="button-find-nearby"
+                        >
+                          <Radar className="h-3 w-3 mr-1" />
+                          Jobs near here
+                        </Button>
+                      )}
+                      {job.lockedFields?.includes('latitude') && (
+                        <>
+                          <span className="text-xs text-gray-500">Pin placed by hand</span>
+                          <button
+                            type="button"
+                            className="text-xs text-blue-600 hover:underline"
+                            onClick={() => unlockLocationMutation.mutate(job.id)}
+                            disabled={unlockLocationMutation.isPending}
+                          >
+                            Use address instead
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex flex-col gap-2 mt-2">
+                    {/* Google Maps */}
+                    <div className="flex items-center gap-2">
+                      <a
+                        href={`https://maps.google.com/?q=${job.latitude && job.longitude ? `${job.latitude},${job.longitude}` : encodeURIComponent(job.address)}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1.5 text-sm text-blue-600 hover:underline"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                        Google Maps
+                      </a>
+                      <button
+                        type="button"
+                        className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded border border-gray-200 hover:bg-gray-100 text-gray-600 transition-colors"
+                        onClick={() => {
+                          const url = `https://maps.google.com/?q=${job.latitude && job.longitude ? `${job.latitude},${job.longitude}` : encodeURIComponent(job.address)}`;
+                          navigator.clipboard.writeText(url);
+                          toast({ title: "Copied Google Maps link" });
+                        }}
+                      >
+                        <Copy className="h-3 w-3" />
+                        Copy
+                      </button>
+                    </div>
+                    {/* Apple Maps */}
+                    <div className="flex items-center gap-2">
+                      <a
+                        href={`https://maps.apple.com/?${job.latitude && job.longitude ? `ll=${job.latitude},${job.longitude}&q=${encodeURIComponent(job.address)}` : `q=${encodeURIComponent(job.address)}`}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1.5 text-sm text-blue-600 hover:underline"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                        Apple Maps
+                      </a>
+                      <button
+                        type="button"
+                        className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded border border-gray-200 hover:bg-gray-100 text-gray-600 transition-colors"
+                        onClick={() => {
+                          const url = `https://maps.apple.com/?${job.latitude && job.longitude ? `ll=${job.latitude},${job.longitude}&q=${encodeURIComponent(job.address)}` : `q=${encodeURIComponent(job.address)}`}`;
+                          navigator.clipboard.writeText(url);
+                          toast({ title: "Copied Apple Maps link" });
+                        }}
+                      >
+                        <Copy className="h-3 w-3" />
+                        Copy
+                      </button>
+                    </div>
                   </div>
-                </div>
-                {job.specialConditions && (
-                  <div className="col-span-2">
-                    <label className="text-gray-500 text-xs">Delivery System</label>
-                    <div>{job.specialConditions}</div>
+                </CardContent>
+              </Card>
+
+              {/* Project Details */}
+              <Card>
+                <CardContent className="pt-4">
+                  <h4 className="font-medium mb-3">Project Details</h4>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <label className="text-gray-500 text-xs">Valuation</label>
+                      <div className="flex items-center gap-1">
+                        <DollarSign className="h-3 w-3" />
+                        {formatCurrency(job.projectValue)}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-gray-500 text-xs">County</label>
+                      <div>{job.county || "Not specified"}</div>
+                    </div>
+                    {territory && (
+                      <div>
+                        <label className="text-gray-500 text-xs">Territory</label>
+                        <div className="flex items-center gap-1.5">
+                          <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: territory.color }} />
+                          {territory.name}
+                        </div>
+                      </div>
+                    )}
+                    <div>
+                      <label className="text-gray-500 text-xs">Target Start Date</label>
+                      <div className="flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {formatDate(job.startDate)}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-gray-500 text-xs">Target Completion Date</label>
+                      <div className="flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {formatDate(job.endDate)}
+                      </div>
+                    </div>
+                    {job.specialConditions && (
+                      <div className="col-span-2">
+                        <label className="text-gray-500 text-xs">Delivery System</label>
+                        <div>{job.specialConditions}</div>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Temperature Rating */}
-          <Card>
-            <CardContent className="pt-4">
-              <h4 className="font-medium mb-3 text-sm">Job Temperature</h4>
-              <div className="flex flex-wrap gap-2">
-                {Object.entries(filterPreferences).map(([key, filter]) => {
-                  const isSelected = job.temperature === key;
-                  // Convert hex color to rgba for hover effect
-                  const hexToRgba = (hex: string, alpha: number) => {
-                    const r = parseInt(hex.slice(1, 3), 16);
-                    const g = parseInt(hex.slice(3, 5), 16);
-                    const b = parseInt(hex.slice(5, 7), 16);
-                    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
-                  };
-                  const hoverBgColor = hexToRgba(filter.color, 0.1);
+                </CardContent>
+              </Card>
+
+              {/* Temperature Rating */}
+              <Card>
+                <CardContent className="pt-4">
+                  <h4 className="font-medium mb-3 text-sm">Job Temperature</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(filterPreferences).map(([key, filter]) => {
+                      const isSelected = job.temperature === key;
+                      // Convert hex color to rgba for hover effect
+                      const hexToRgba = (hex: string, alpha: number) => {
+                        const r = parseInt(hex.slice(1, 3), 16);
+                        const g = parseInt(hex.slice(3, 5), 16);
+                        const b = parseInt(hex.slice(5, 7), 16);
+                        return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+                      };
+                      const hoverBgColor = hexToRgba(filter.color, 0.1);
                   
-                  return (
+                      return (
+                        <Button
+                          key={key}
+                          size="sm"
+                          variant={isSelected ? 'default' : 'outline'}
+                          style={isSelected 
+                            ? { 
+                                backgroundColor: filter.color, 
+                                borderColor: filter.color, 
+                                color: 'white'
+                              }
+                            : { 
+                                borderColor: filter.color, 
+                                color: filter.color, 
+                                backgroundColor: 'transparent'
+                              }
+                          }
+                          className={isSelected ? 'hover:opacity-90' : ''}
+                          onMouseEnter={(e) => {
+                            if (!isSelected) {
+                              e.currentTarget.style.backgroundColor = hoverBgColor;
+                            }
+                          }}
+                          onMouseLeave={(e) => {
+                            if (!isSelected) {
+                              e.currentTarget.style.backgroundColor = 'transparent';
+                            }
+                          }}
+                          onClick={() => updateTemperatureMutation.mutate({ jobId: job.id, temperature: key })}
+                          disabled={updateTemperatureMutation.isPending}
+                        >
+                          {filter.name}
+                        </Button>
+                      );
+                    })}
                     <Button
-                      key={key}
                       size="sm"
-                      variant={isSelected ? 'default' : 'outline'}
-                      style={isSelected 
-                        ? { 
-                            backgroundColor: filter.color, 
-                            borderColor: filter.color, 
-                            color: 'white'
-                          }
-                        : { 
-                            borderColor: filter.color, 
-                            color: filter.color, 
-                            backgroundColor: 'transparent'
-                          }
+                      variant="outline"
+                      onClick={() => updateTemperatureMutation.mutate({ jobId: job.id, temperature: null })}
+                      disabled={
+                        updateTemperatureMutation.isPending ||
+                        !job.temperature
                       }
-                      className={isSelected ? 'hover:opacity-90' : ''}
-                      onMouseEnter={(e) => {
-                        if (!isSelected) {
-                          e.currentTarget.style.backgroundColor = hoverBgColor;
-                        }
-                      }}
-                      onMouseLeave={(e) => {
-                        if (!isSelected) {
-                          e.currentTarget.style.backgroundColor = 'transparent';
-                        }
-                      }}
-                      onClick={() => updateTemperatureMutation.mutate({ jobId: job.id, temperature: key })}
-                      disabled={updateTemperatureMutation.isPending}
                     >
-                      {filter.name}
+                      Reset
                     </Button>
-                  );
-                })}
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => updateTemperatureMutation.mutate({ jobId: job.id, temperature: null })}
-                  disabled={
-                    updateTemperatureMutation.isPending ||
-                    !job.temperature
-                  }
-                >
-                  Reset
-                </Button>
-                <Button
-                  size="sm"
-                  variant="default"
-                  onClick={() => markVisitedMutation.mutate(job.id)}
-                  disabled={markVisitedMutation.isPending}
-                  data-testid="button-visited"
-                >
-                  Visited
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Description / Additional Features */}
-          {(job.description || job.additionalFeatures) && (
-            <Card>
-              <CardContent className="pt-4">
-                <h4 className="font-medium mb-2">Description</h4>
-                <p className="text-sm text-gray-600 whitespace-pre-wrap">
-                  {job.additionalFeatures || job.description}
-                </p>
-              </CardContent>
-            </Card>
-          )}
+                    <Button
+                      size="sm"
+                      variant="default"
+                      onClick={() => markVisitedMutation.mutate(job.id)}
+                      disabled={markVisitedMutation.isPending}
+                      data-testid="button-visited"
+                    >
+                      Visited
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
 
-          {/* Project Team */}
-          <Card>
-            <CardContent className="pt-4">
-              <div className="flex items-center justify-between mb-3">
-                <h4 className="font-medium flex items-center gap-2">
-                  <User className="h-4 w-4" />
-                  Project Team
-                </h4>
-                {!isEditingTeam && (
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => setIsEditingTeam(true)}
-                    data-testid="edit-team-button"
-                  >
-                    Edit
-                  </Button>
-                )}
-              </div>
+              <JobSiteVisits jobId={job.id} />
 
-              {isEditingTeam ? (
-                <div className="space-y-3">
-                  <div>
-                    <label className="text-sm font-medium">General Contractor (GC)</label>
-                    <Input
-                      value={teamData.contractor}
-                      onChange={(e) => setTeamData({...teamData, contractor: e.target.value})}
-                      onBlur={() => handleSaveTeam()}
-                      placeholder="Enter contractor name"
-                      className="mt-1"
-                    />
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium">Owner Company</label>
-                    <Input
-                      value={teamData.owner}
-                      onChange={(e) => setTeamData({...teamData, owner: e.target.value})}
-                      onBlur={() => handleSaveTeam()}
-                      placeholder="Enter owner name"
-                      className="mt-1"
-                    />
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium">Architect</label>
-                    <Input
-                      value={teamData.architect}
-                      onChange={(e) => setTeamData({...teamData, architect: e.target.value})}
-                      onBlur={() => handleSaveTeam()}
-                      placeholder="Enter architect name"
-                      className="mt-1"
-                    />
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium">GC Contact Name</label>
-                    <Input
-                      value={teamData.officeContact}
-                      onChange={(e) => setTeamData({...teamData, officeContact: e.target.value})}
-                      onBlur={() => handleSaveTeam()}
-                      placeholder="Enter GC contact name"
-                      className="mt-1"
-                    />
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium">Ordered By</label>
-                    <Input
-                      value={teamData.orderedBy}
-                      onChange={(e) => setTeamData({...teamData, orderedBy: e.target.value})}
-                      onBlur={() => handleSaveTeam()}
-                      placeholder="Enter who ordered the project"
-                      className="mt-1"
-                    />
-                  </div>
-                </div>
-              ) : (
-                <div className="space-y-2 text-sm">
-                  <div>
-                    <span className="text-gray-500">General Contractor (GC):</span>{" "}
-                    <span className="font-medium">{job.contractor || "Not specified"}</span>
+              <JobOpportunity jobId={job.id} jobName={job.name} />
+
+              <JobQuotes jobId={job.id} jobName={job.name} />
+
+              <JobRentalEquipment jobId={job.id} />
+
+              <AttachmentsPanel owner={{ jobId: job.id }} />
+
+              {/* Description / Additional Features */}
+              {(job.description || job.additionalFeatures) && (
+                <Card>
+                  <CardContent className="pt-4">
+                    <h4 className="font-medium mb-2">Description</h4>
+                    <p className="text-sm text-gray-600 whitespace-pre-wrap">
+                      {job.additionalFeatures || job.description}
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Project Team */}
+              <Card>
+                <CardContent className="pt-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="font-medium flex items-center gap-2">
+                      <User className="h-4 w-4" />
+                      Project Team
+                    </h4>
+                    {!isEditingTeam && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setIsEditingTeam(true)}
+                        data-testid="edit-team-button"
+                      >
+                        Edit
+                      </Button>
+                    )}
                   </div>
-                  {(job.contractorPhone || job.contractorEmail || job.contractorWebsite || job.contractorContact) && (
-                    <div className="ml-4 space-y-1">
-                      {job.contractorContact && (
-                        <div>
-                          <span className="text-gray-400">Contact:</span>{" "}
-                          <span className="font-medium">{job.contractorContact}</span>
+
+                  {isEditingTeam ? (
+                    <div className="space-y-3">
+                      <div>
+                        <label className="text-sm font-medium">General Contractor (GC)</label>
+                        <Input
+                          value={teamData.contractor}
+                          onChange={(e) => setTeamData({...teamData, contractor: e.target.value})}
+                          onBlur={() => handleSaveTeam()}
+                          placeholder="Enter contractor name"
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium">Owner Company</label>
+                        <Input
+                          value={teamData.owner}
+                          onChange={(e) => setTeamData({...teamData, owner: e.target.value})}
+                          onBlur={() => handleSaveTeam()}
+                          placeholder="Enter owner name"
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium">Architect</label>
+                        <Input
+                          value={teamData.architect}
+                          onChange={(e) => setTeamData({...teamData, architect: e.target.value})}
+                          onBlur={() => handleSaveTeam()}
+                          placeholder="Enter architect name"
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium">GC Contact Name</label>
+                        <Input
+                          value={teamData.officeContact}
+                          onChange={(e) => setTeamData({...teamData, officeContact: e.target.value})}
+                          onBlur={() => handleSaveTeam()}
+                          placeholder="Enter GC contact name"
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium">Ordered By</label>
+                        <Input
+                          value={teamData.orderedBy}
+                          onChange={(e) => setTeamData({...teamData, orderedBy: e.target.value})}
+                          onBlur={() => handleSaveTeam()}
+                          placeholder="Enter who ordered the project"
+                          className="mt-1"
+                        />
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-2 text-sm">
+                      <div>
+                        <span className="text-gray-500">General Contractor (GC):</span>{" "}
+                        <span className="font-medium">{job.contractor || "Not specified"}</span>
+                      </div>
+                      {(job.contractorPhone || job.contractorEmail || job.contractorWebsite || job.contractorContact) && (
+                        <div className="ml-4 space-y-1">
+                          {job.contractorContact && (
+                            <div>
+                              <span className="text-gray-400">Contact:</span>{" "}
+                              <span className="font-medium">{job.contractorContact}</span>
+                            </div>
+                          )}
+                          {job.contractorPhone && (
+                            <div>
+                              <span className="text-gray-400">Phone:</span>{" "}
+                              <a href={`tel:${job.contractorPhone}`} className="text-blue-600 hover:underline">
+                                {job.contractorPhone}
+                              </a>
+                            </div>
+                          )}
+                          {job.contractorEmail && (
+                            <div>
+                              <span className="text-gray-400">Email:</span>{" "}
+                              <a href={`mailto:${job.contractorEmail}`} className="text-blue-600 hover:underline">
+                                {job.contractorEmail}
+                              </a>
+                            </div>
+                          )}
+                          {job.contractorWebsite && (
+                            <div>
+                              <span className="text-gray-400">Website:</span>{" "}
+                              <a href={job.contractorWebsite.startsWith('http') ? job.contractorWebsite : `https://${job.contractorWebsite}`} 
+                                 target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                                {job.contractorWebsite}
+                              </a>
+                            </div>
+                          )}
+                          {(job.contractorAddress || job.contractorCity || job.contractorCounty) && (
+                            <div>
+                              <span className="text-gray-400">Address:</span>{" "}
+                              <span className="font-medium">
+                                {[job.contractorAddress, job.contractorCity, job.contractorCounty].filter(Boolean).join(', ')}
+                              </span>
+                            </div>
+                          )}
                         </div>
                       )}
-                      {job.contractorPhone && (
-                        <div>
+                      <div>
+                        <span className="text-gray-500">Owner Company:</span>{" "}
+                        <span className="font-medium">{job.owner || "Not specified"}</span>
+                      </div>
+                      {job.ownerPhone && (
+                        <div className="ml-4">
                           <span className="text-gray-400">Phone:</span>{" "}
-                          <a href={`tel:${job.contractorPhone}`} className="text-blue-600 hover:underline">
-                            {job.contractorPhone}
+                          <a href={`tel:${job.ownerPhone}`} className="text-blue-600 hover:underline">
+                            {job.ownerPhone}
                           </a>
                         </div>
                       )}
-                      {job.contractorEmail && (
+                      {job.constructionManager && (
                         <div>
-                          <span className="text-gray-400">Email:</span>{" "}
-                          <a href={`mailto:${job.contractorEmail}`} className="text-blue-600 hover:underline">
-                            {job.contractorEmail}
-                          </a>
+                          <span className="text-gray-500">Construction Manager:</span>{" "}
+                          <span className="font-medium">{job.constructionManager}</span>
+                          {job.constructionManagerPhone && (
+                            <div className="ml-4">
+                              <span className="text-gray-400">Phone:</span>{" "}
+                              <a href={`tel:${job.constructionManagerPhone}`} className="text-blue-600 hover:underline">
+                                {job.constructionManagerPhone}
+                              </a>
+                            </div>
+                          )}
                         </div>
                       )}
-                      {job.contractorWebsite && (
+                      <div>
+                        <span className="text-gray-500">Architect:</span>{" "}
+                        <span className="font-medium">{job.architect || "Not specified"}</span>
+                      </div>
+                      {job.officeContact && (
                         <div>
-                          <span className="text-gray-400">Website:</span>{" "}
-                          <a href={job.contractorWebsite.startsWith('http') ? job.contractorWebsite : `https://${job.contractorWebsite}`} 
-                             target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
-                            {job.contractorWebsite}
-                          </a>
+                          <span className="text-gray-500">GC Contact Name:</span>{" "}
+                          <span className="font-medium">{job.officeContact}</span>
                         </div>
                       )}
-                      {(job.contractorAddress || job.contractorCity || job.contractorCounty) && (
+                      {job.orderedBy && (
                         <div>
-                          <span className="text-gray-400">Address:</span>{" "}
-                          <span className="font-medium">
-                            {[job.contractorAddress, job.contractorCity, job.contractorCounty].filter(Boolean).join(', ')}
-                          </span>
+                          <span className="text-gray-500">Ordered By:</span>{" "}
+                          <span className="font-medium">{job.orderedBy}</span>
                         </div>
                       )}
                     </div>
                   )}
-                  <div>
-                    <span className="text-gray-500">Owner Company:</span>{" "}
-                    <span className="font-medium">{job.owner || "Not specified"}</span>
-                  </div>
-                  {job.ownerPhone && (
-                    <div className="ml-4">
-                      <span className="text-gray-400">Phone:</span>{" "}
-                      <a href={`tel:${job.ownerPhone}`} className="text-blue-600 hover:underline">
-                        {job.ownerPhone}
-                      </a>
-                    </div>
-                  )}
-                  {job.constructionManager && (
-                    <div>
-                      <span className="text-gray-500">Construction Manager:</span>{" "}
-                      <span className="font-medium">{job.constructionManager}</span>
-                      {job.constructionManagerPhone && (
-                        <div className="ml-4">
-                          <span className="text-gray-400">Phone:</span>{" "}
-                          <a href={`tel:${job.constructionManagerPhone}`} className="text-blue-600 hover:underline">
-                            {job.constructionManagerPhone}
+                </CardContent>
+              </Card>
+
+              {/* Linked Contacts */}
+              <JobLinkedContacts jobId={job.id} />
+
+              {/* Contact Information */}
+              {(job.phone || job.email) && (
+                <Card>
+                  <CardContent className="pt-4">
+                    <h4 className="font-medium mb-3">Contact Information</h4>
+                    <div className="space-y-2 text-sm">
+                      {job.phone && (
+                        <div className="flex items-center gap-2">
+                          <Phone className="h-3 w-3" />
+                          <a href={`tel:${job.phone}`} className="text-blue-600 hover:underline">
+                            {job.phone}
+                          </a>
+                        </div>
+                      )}
+                      {job.email && (
+                        <div className="flex items-center gap-2">
+                          <Mail className="h-3 w-3" />
+                          <a href={`mailto:${job.email}`} className="text-blue-600 hover:underline">
+                            {job.email}
                           </a>
                         </div>
                       )}
                     </div>
-                  )}
-                  <div>
-                    <span className="text-gray-500">Architect:</span>{" "}
-                    <span className="font-medium">{job.architect || "Not specified"}</span>
-                  </div>
-                  {job.officeContact && (
-                    <div>
-                      <span className="text-gray-500">GC Contact Name:</span>{" "}
-                      <span className="font-medium">{job.officeContact}</span>
-                    </div>
-                  )}
-                  {job.orderedBy && (
-                    <div>
-                      <span className="text-gray-500">Ordered By:</span>{" "}
-                      <span className="font-medium">{job.orderedBy}</span>
-                    </div>
-                  )}
-                </div>
+                  </CardContent>
+                </Card>
               )}
-            </CardContent>
-          </Card>
-
-          {/* Linked Contacts */}
-          <JobLinkedContacts jobId={job.id} />
-
-          {/* Contact Information */}
-          {(job.phone || job.email) && (
-            <Card>
-              <CardContent className="pt-4">
-                <h4 className="font-medium mb-3">Contact Information</h4>
-                <div className="space-y-2 text-sm">
-                  {job.phone && (
-                    <div className="flex items-center gap-2">
-                      <Phone className="h-3 w-3" />
-                      <a href={`tel:${job.phone}`} className="text-blue-600 hover:underline">
-                        {job.phone}
-                      </a>
-                    </div>
-                  )}
-                  {job.email && (
-                    <div className="flex items-center gap-2">
-                      <Mail className="h-3 w-3" />
-                      <a href={`mailto:${job.email}`} className="text-blue-600 hover:underline">
-                        {job.email}
-                      </a>
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          )}
 
-          {/* Additional Project Info */}
-          {(job.notes || job.specialConditions || job.userNotes || job.workType || job.deliverySystem || job.specsAvailable || job.projectUrl) && (
-            <Card>
-              <CardContent className="pt-4">
-                <h4 className="font-medium mb-3">Additional Information</h4>
-                <div className="space-y-2 text-sm">
-                  {job.workType && (
-                    <div>
-                      <span className="text-gray-500">Work Type:</span>{" "}
-                      <span className="font-medium">{job.workType}</span>
-                    </div>
-                  )}
-                  {job.deliverySystem && (
-                    <div>
-                      <span className="text-gray-500">Delivery System:</span>{" "}
-                      <span className="font-medium">{job.deliverySystem}</span>
-                    </div>
-                  )}
-                  {job.specsAvailable && (
-                    <div>
-                      <span className="text-gray-500">Specs Available:</span>{" "}
-                      <span className="font-medium">{job.specsAvailable}</span>
-                    </div>
-                  )}
-                  {job.projectUrl && (
-                    <div>
-                      <span className="text-gray-500">Project Link:</span>{" "}
-                      <a href={job.projectUrl} target="_blank" rel="noopener noreferrer" 
-                         className="text-blue-600 hover:underline">
-                        View on Dodge Data
-                      </a>
-                    </div>
-                  )}
-                  {job.projectNumber && (
-                    <div>
-                      <span className="text-gray-500">Project Number:</span>{" "}
-                      <span className="font-medium">{job.projectNumber}</span>
-                    </div>
-                  )}
-                  {job.versionNumber && (
-                    <div>
-                      <span className="text-gray-500">Version:</span>{" "}
-                      <span className="font-medium">{job.versionNumber}</span>
+              {/* Additional Project Info */}
+              {(job.notes || job.specialConditions || job.userNotes || job.workType || job.deliverySystem || job.specsAvailable || job.projectUrl) && (
+                <Card>
+                  <CardContent className="pt-4">
+                    <h4 className="font-medium mb-3">Additional Information</h4>
+                    <div className="space-y-2 text-sm">
+                      {job.workType && (
+                        <div>
+                          <span className="text-gray-500">Work Type:</span>{" "}
+                          <span className="font-medium">{job.workType}</span>
+                        </div>
+                      )}
+                      {job.deliverySystem && (
+                        <div>
+                          <span className="text-gray-500">Delivery System:</span>{" "}
+                          <span className="font-medium">{job.deliverySystem}</span>
+                        </div>
+                      )}
+                      {job.specsAvailable && (
+                        <div>
+                          <span className="text-gray-500">Specs Available:</span>{" "}
+                          <span className="font-medium">{job.specsAvailable}</span>
+                        </div>
+                      )}
+                      {job.projectUrl && (
+                        <div>
+                          <span className="text-gray-500">Project Link:</span>{" "}
+                          <a href={job.projectUrl} target="_blank" rel="noopener noreferrer" 
+                             className="text-blue-600 hover:underline">
+                            View on Dodge Data
+                          </a>
+                        </div>
+                      )}
+                      {job.projectNumber && (
+                        <div>
+                          <span className="text-gray-500">Project Number:</span>{" "}
+                          <span className="font-medium">{job.projectNumber}</span>
+                        </div>
+                      )}
+                      {job.versionNumber && (
+                        <div>
+                          <span className="text-gray-500">Version:</span>{" "}
+                          <span className="font-medium">{job.versionNumber}</span>
+                        </div>
+                      )}
+                      {job.notes && (
+                        <div>
+                          <span className="text-gray-500">Tags:</span>{" "}
+                          <span className="font-medium">{job.notes}</span>
+                        </div>
+                      )}
+                      {job.userNotes && (
+                        <div>
+                          <span className="text-gray-500">Import Notes:</span>{" "}
+                          <span className="font-medium">{job.userNotes}</span>
+                        </div>
+                      )}
                     </div>
-                  )}
-                  {job.notes && (
-                    <div>
-                      <span className="text-gray-500">Tags:</span>{" "}
-                      <span className="font-medium">{job.notes}</span>
+                  </CardContent>
+                </Card>
+              )}
+
+              <Separator />
+
+              {/* Notes Section */}
+              <Card>
+                <CardContent className="pt-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="font-medium flex items-center gap-2">
+                      <FileText className="h-4 w-4" />
+                      Your Notes
+                    </h4>
+                    {!isEditing && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setIsEditing(true)}
+                        data-testid="edit-notes-button"
+                      >
+                        Edit
+                      </Button>
+                    )}
+                  </div>
+
+                  {isEditing ? (
+                    <div className="space-y-3">
+                      <Textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        onBlur={() => handleSaveNotes()}
+                        placeholder="Add your notes about this job..."
+                        className="min-h-[100px]"
+                        data-testid="notes-textarea"
+                      />
                     </div>
-                  )}
-                  {job.userNotes && (
-                    <div>
-                      <span className="text-gray-500">Import Notes:</span>{" "}
-                      <span className="font-medium">{job.userNotes}</span>
+                  ) : (
+                    <div className="text-sm text-gray-600">
+                      {job.userNotes || "No notes added yet"}
                     </div>
                   )}
-                </div>
-              </CardContent>
-            </Card>
-          )}
-
-          <Separator />
-
-          {/* Notes Section */}
-          <Card>
-            <CardContent className="pt-4">
-              <div className="flex items-center justify-between mb-3">
-                <h4 className="font-medium flex items-center gap-2">
-                  <FileText className="h-4 w-4" />
-                  Your Notes
-                </h4>
-                {!isEditing && (
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => setIsEditing(true)}
-                    data-testid="edit-notes-button"
-                  >
-                    Edit
-                  </Button>
-                )}
-              </div>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
 
-              {isEditing ? (
-                <div className="space-y-3">
-                  <Textarea
-                    value={notes}
-                    onChange={(e) => setNotes(e.target.value)}
-                    onBlur={() => handleSaveNotes()}
-                    placeholder="Add your notes about this job..."
-                    className="min-h-[100px]"
-                    data-testid="notes-textarea"
-                  />
-                </div>
-              ) : (
-                <div className="text-sm text-gray-600">
-                  {job.userNotes || "No notes added yet"}
-                </div>
-              )}
-            </CardContent>
-          </Card>
+          <TabsContent value="history" className="mt-4">
+            <JobHistoryTimeline jobId={job.id} enabled={activeTab === "history"} />
+          </TabsContent>
+        </Tabs>
 
-          {/* Close Button */}
-          <div className="flex justify-end pt-4">
-            <Button
-              variant="outline"
-              onClick={onClose}
-              data-testid="close-button"
-            >
-              Close
-            </Button>
-          </div>
+        {/* Close Button */}
+        <div className="flex justify-end pt-4">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            data-testid="close-button"
+          >
+            Close
+          </Button>
         </div>
       </DialogContent>
     </Dialog>
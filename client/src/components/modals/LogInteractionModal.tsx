@@ -9,6 +9,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -21,7 +22,7 @@ interface LogInteractionModalProps {
   isOpen: boolean;
   onClose: () => void;
   contactName: string;
-  onSubmit: (data: { type: string; direction?: string; summary?: string; notes?: string }) => void;
+  onSubmit: (data: { type: string; direction?: string; summary?: string; notes?: string; followUpInDays?: number }) => void;
   isPending?: boolean;
 }
 
@@ -45,10 +46,18 @@ export function LogInteractionModal({
   const [direction, setDirection] = useState("outbound");
   const [summary, setSummary] = useState("");
   const [notes, setNotes] = useState("");
+  const [createFollowUp, setCreateFollowUp] = useState(false);
+  const [followUpInDays, setFollowUpInDays] = useState(3);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit({ type, direction, summary, notes });
+    onSubmit({
+      type,
+      direction,
+      summary,
+      notes,
+      followUpInDays: createFollowUp && followUpInDays > 0 ? followUpInDays : undefined,
+    });
     setSummary("");
     setNotes("");
     onClose();
@@ -105,6 +114,23 @@ export function LogInteractionModal({
               rows={3}
             />
           </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="create-follow-up"
+              checked={createFollowUp}
+              onCheckedChange={(checked) => setCreateFollowUp(checked === true)}
+            />
+            <Label htmlFor="create-follow-up" className="font-normal">Create follow-up in</Label>
+            <Input
+              type="number"
+              min={1}
+              value={followUpInDays}
+              onChange={(e) => setFollowUpInDays(parseInt(e.target.value) || 0)}
+              disabled={!createFollowUp}
+              className="h-8 w-16"
+            />
+            <Label className="font-normal">days</Label>
+          </div>
           <div className="flex justify-end gap-2">
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useSaveJobOpportunity, useDeleteOpportunity, type OpportunityStage } from "@/hooks/useOpportunities";
+import { DEFAULT_STAGE_PROBABILITY, type Opportunity } from "@shared/schema";
+import { format } from "date-fns";
+
+export const OPPORTUNITY_STAGES: { value: OpportunityStage; label: string }[] = [
+  { value: "prospect", label: "Prospect" },
+  { value: "quoted", label: "Quoted" },
+  { value: "negotiating", label: "Negotiating" },
+  { value: "won", label: "Won" },
+  { value: "lost", label: "Lost" },
+];
+
+interface OpportunityModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  jobId: string;
+  jobName: string;
+  opportunity: Opportunity | null;
+  // Stage to preselect, e.g. when a card is dropped on the Lost column
+  initialStage?: OpportunityStage;
+}
+
+export function OpportunityModal({
+  isOpen,
+  onClose,
+  jobId,
+  jobName,
+  opportunity,
+  initialStage,
+}: OpportunityModalProps) {
+  const { toast } = useToast();
+  const saveMutation = useSaveJobOpportunity(jobId);
+  const deleteMutation = useDeleteOpportunity();
+  const [stage, setStage] = useState<OpportunityStage>("prospect");
+  const [estimatedRevenue, setEstimatedRevenue] = useState("");
+  const [probability, setProbability] = useState(DEFAULT_STAGE_PROBABILITY.prospect);
+  const [expectedCloseDate, setExpectedCloseDate] = useState("");
+  const [lostReason, setLostReason] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const nextStage = initialStage ?? opportunity?.stage ?? "prospect";
+    setStage(nextStage);
+    setEstimatedRevenue(opportunity?.estimatedRevenue ?? "");
+    setProbability(
+      initialStage && initialStage !== opportunity?.stage
+        ? DEFAULT_STAGE_PROBABILITY[initialStage]
+        : opportunity?.probability ?? DEFAULT_STAGE_PROBABILITY[nextStage]
+    );
+    setExpectedCloseDate(opportunity?.expectedCloseDate ? format(new Date(opportunity.expectedCloseDate), "yyyy-MM-dd") : "");
+    setLostReason(opportunity?.lostReason ?? "");
+  }, [isOpen, opportunity, initialStage]);
+
+  const handleStageChange = (value: string) => {
+    const next = value as OpportunityStage;
+    setStage(next);
+    setProbability(DEFAULT_STAGE_PROBABILITY[next]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const revenue = estimatedRevenue.replace(/[$,\s]/g, "");
+    saveMutation.mutate(
+      {
+        stage,
+        estimatedRevenue: revenue ? revenue : null,
+        probability: Math.min(100, Math.max(0, Math.round(probability))),
+        expectedCloseDate: expectedCloseDate ? new Date(`${expectedCloseDate}T00:00:00`).toISOString() : null,
+        lostReason: stage === "lost" ? lostReason.trim() || null : null,
+      },
+      {
+        onSuccess: () => {
+          toast({ title: opportunity ? "Opportunity updated" : "Added to pipeline" });
+          onClose();
+        },
+        onError: (error: Error) => {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const handleRemove = () => {
+    if (!opportunity || !window.confirm(`Remove "${jobName}" from the pipeline?`)) return;
+    deleteMutation.mutate(opportunity.id, {
+      onSuccess: () => {
+        toast({ title: "Removed from pipeline" });
+        onClose();
+      },
+      onError: (error: Error) => {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">
+            {opportunity ? "Opportunity" : "Add to Pipeline"}: {jobName}
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Stage</Label>
+              <Select value={stage} onValueChange={handleStageChange}>
+                <SelectTrigger data-testid="select-opportunity-stage">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OPPORTUNITY_STAGES.map((s) => (
+                    <SelectItem key={s.value} value={s.value}>
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Win probability (%)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={probability}
+                onChange={(e) => setProbability(parseInt(e.target.value) || 0)}
+                data-testid="input-opportunity-probability"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Est. rental revenue</Label>
+              <Input
+                inputMode="decimal"
+                placeholder="$0"
+                value={estimatedRevenue}
+                onChange={(e) => setEstimatedRevenue(e.target.value)}
+                data-testid="input-opportunity-revenue"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Expected close</Label>
+              <Input
+                type="date"
+                value={expectedCloseDate}
+                onChange={(e) => setExpectedCloseDate(e.target.value)}
+                data-testid="input-opportunity-close-date"
+              />
+            </div>
+          </div>
+          {stage === "lost" && (
+            <div className="space-y-2">
+              <Label>Lost reason</Label>
+              <Textarea
+                placeholder="e.g. Went with another rental house on price"
+                value={lostReason}
+                onChange={(e) => setLostReason(e.target.value)}
+                rows={2}
+                data-testid="input-opportunity-lost-reason"
+              />
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-2">
+            {opportunity ? (
+              <Button
+                type="button"
+                variant="ghost"
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                onClick={handleRemove}
+                disabled={deleteMutation.isPending}
+              >
+                Remove
+              </Button>
+            ) : (
+              <span />
+            )}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,287 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { ContactPicker } from "@/components/ContactPicker";
+import { useToast } from "@/hooks/use-toast";
+import { useCreateQuote, useUpdateQuote } from "@/hooks/useQuotes";
+import { formatQuoteNumber, quoteLineItemTotal, quoteTotal, type QuoteLineItem, type QuoteWithLinks } from "@shared/schema";
+import { Plus, Trash2, Users } from "lucide-react";
+import { format } from "date-fns";
+
+interface QuoteBuilderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  jobId: string;
+  jobName: string;
+  // Draft to edit; a new quote is started when omitted
+  quote?: QuoteWithLinks | null;
+}
+
+// Numeric fields are kept as strings while editing so partially typed values survive
+type LineItemDraft = {
+  equipmentModel: string;
+  quantity: string;
+  rentalMonths: string;
+  monthlyRate: string;
+  deliveryFee: string;
+  pickupFee: string;
+  attachments: string;
+};
+
+const EMPTY_LINE_ITEM: LineItemDraft = {
+  equipmentModel: "",
+  quantity: "1",
+  rentalMonths: "1",
+  monthlyRate: "",
+  deliveryFee: "",
+  pickupFee: "",
+  attachments: "",
+};
+
+function toDraft(item: QuoteLineItem): LineItemDraft {
+  return {
+    equipmentModel: item.equipmentModel,
+    quantity: String(item.quantity),
+    rentalMonths: String(item.rentalMonths),
+    monthlyRate: String(item.monthlyRate),
+    deliveryFee: item.deliveryFee ? String(item.deliveryFee) : "",
+    pickupFee: item.pickupFee ? String(item.pickupFee) : "",
+    attachments: item.attachments ?? "",
+  };
+}
+
+function toLineItem(draft: LineItemDraft): QuoteLineItem {
+  const num = (value: string) => {
+    const parsed = parseFloat(value.replace(/[$,\s]/g, ""));
+    return isNaN(parsed) ? 0 : parsed;
+  };
+  return {
+    equipmentModel: draft.equipmentModel.trim(),
+    quantity: Math.max(1, Math.round(num(draft.quantity))),
+    rentalMonths: num(draft.rentalMonths),
+    monthlyRate: num(draft.monthlyRate),
+    deliveryFee: num(draft.deliveryFee),
+    pickupFee: num(draft.pickupFee),
+    attachments: draft.attachments.trim() || undefined,
+  };
+}
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function QuoteBuilderModal({ isOpen, onClose, jobId, jobName, quote }: QuoteBuilderModalProps) {
+  const { toast } = useToast();
+  const createMutation = useCreateQuote();
+  const updateMutation = useUpdateQuote();
+  const [contact, setContact] = useState<{ id: string; name: string } | null>(null);
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([EMPTY_LINE_ITEM]);
+  const [notes, setNotes] = useState("");
+  const [validUntil, setValidUntil] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setContact(quote?.contactId ? { id: quote.contactId, name: quote.contactName || "Contact" } : null);
+    setLineItems(quote?.lineItems.length ? quote.lineItems.map(toDraft) : [EMPTY_LINE_ITEM]);
+    setNotes(quote?.notes ?? "");
+    setValidUntil(quote?.validUntil ? format(new Date(quote.validUntil), "yyyy-MM-dd") : "");
+  }, [isOpen, quote]);
+
+  const items = lineItems.map(toLineItem);
+  const isValid = items.length > 0 && items.every((item) => item.equipmentModel && item.rentalMonths > 0);
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const updateLineItem = (index: number, field: keyof LineItemDraft, value: string) => {
+    setLineItems((prev) => prev.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    const payload = {
+      contactId: contact?.id ?? null,
+      lineItems: items,
+      notes: notes.trim() || null,
+      validUntil: validUntil ? new Date(`${validUntil}T00:00:00`).toISOString() : null,
+    };
+    const callbacks = {
+      onSuccess: () => {
+        toast({ title: quote ? "Quote updated" : "Quote created" });
+        onClose();
+      },
+      onError: (error: Error) => {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+      },
+    };
+    if (quote) {
+      updateMutation.mutate({ id: quote.id, ...payload }, callbacks);
+    } else {
+      createMutation.mutate({ jobId, ...payload }, callbacks);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">
+            {quote ? `Edit ${formatQuoteNumber(quote)}` : "New Quote"}: {jobName}
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Contact</Label>
+              <div className="flex items-center gap-2">
+                <ContactPicker
+                  onSelect={(c) =>
+                    setContact({ id: c.id, name: c.fullName || `${c.firstName ?? ""} ${c.lastName ?? ""}`.trim() || "Contact" })
+                  }
+                  trigger={
+                    <Button type="button" variant="outline" className="flex-1 justify-start gap-1.5 font-normal">
+                      <Users className="h-3.5 w-3.5" />
+                      {contact ? contact.name : "Choose contact..."}
+                    </Button>
+                  }
+                />
+                {contact && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setContact(null)}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Valid until</Label>
+              <Input type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Line items</Label>
+            <div className="hidden md:grid grid-cols-[2fr_0.6fr_0.8fr_1fr_0.9fr_0.9fr_1fr_auto] gap-2 text-xs text-gray-500 px-1">
+              <span>Equipment model</span>
+              <span>Qty</span>
+              <span>Months</span>
+              <span>Monthly rate</span>
+              <span>Delivery</span>
+              <span>Pickup</span>
+              <span className="text-right">Line total</span>
+              <span className="w-8" />
+            </div>
+            {lineItems.map((item, index) => (
+              <div key={index} className="rounded-lg border border-gray-100 bg-gray-50/60 p-2 space-y-2">
+                <div className="grid grid-cols-2 md:grid-cols-[2fr_0.6fr_0.8fr_1fr_0.9fr_0.9fr_1fr_auto] gap-2 items-center">
+                  <Input
+                    className="col-span-2 md:col-span-1"
+                    placeholder="e.g. Genie S-65 boom"
+                    value={item.equipmentModel}
+                    onChange={(e) => updateLineItem(index, "equipmentModel", e.target.value)}
+                    data-testid={`input-quote-model-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Qty"
+                    value={item.quantity}
+                    onChange={(e) => updateLineItem(index, "quantity", e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.25"
+                    placeholder="Months"
+                    value={item.rentalMonths}
+                    onChange={(e) => updateLineItem(index, "rentalMonths", e.target.value)}
+                  />
+                  <Input
+                    inputMode="decimal"
+                    placeholder="$/month"
+                    value={item.monthlyRate}
+                    onChange={(e) => updateLineItem(index, "monthlyRate", e.target.value)}
+                  />
+                  <Input
+                    inputMode="decimal"
+                    placeholder="Delivery"
+                    value={item.deliveryFee}
+                    onChange={(e) => updateLineItem(index, "deliveryFee", e.target.value)}
+                  />
+                  <Input
+                    inputMode="decimal"
+                    placeholder="Pickup"
+                    value={item.pickupFee}
+                    onChange={(e) => updateLineItem(index, "pickupFee", e.target.value)}
+                  />
+                  <span className="text-sm font-medium text-gray-900 text-right">
+                    {formatMoney(quoteLineItemTotal(items[index]))}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-gray-400 hover:text-red-500"
+                    onClick={() => setLineItems((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={lineItems.length === 1}
+                    title="Remove line"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Input
+                  placeholder="Attachments (optional), e.g. forks, 1 yd bucket"
+                  value={item.attachments}
+                  onChange={(e) => updateLineItem(index, "attachments", e.target.value)}
+                  className="h-8 text-sm"
+                />
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-1.5"
+                onClick={() => setLineItems((prev) => [...prev, EMPTY_LINE_ITEM])}
+                data-testid="button-add-quote-line"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add line
+              </Button>
+              <div className="text-sm">
+                <span className="text-gray-500 mr-2">Total</span>
+                <span className="text-lg font-semibold text-gray-900">{formatMoney(quoteTotal(items))}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes (optional)</Label>
+            <Textarea
+              placeholder="Terms, site access, delivery window..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid || isPending} data-testid="button-save-quote">
+              {isPending ? "Saving..." : "Save Draft"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
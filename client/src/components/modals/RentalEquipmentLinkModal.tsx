@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { useToast } from "@/hooks/use-toast";
+import { useCompanies } from "@/hooks/useContacts";
+import { useJobs } from "@/hooks/useJobs";
+import { useUpdateRentalEquipmentLinks, type RentalEquipmentLinksInput } from "@/hooks/useRentalEquipment";
+import type { RentalEquipmentWithLinks } from "@shared/schema";
+import { Building, MapPin } from "lucide-react";
+
+type LinkField = "companyId" | "jobId";
+type LinkChoice = { id: string; name: string } | null;
+
+interface RentalEquipmentLinkModalProps {
+  equipment: RentalEquipmentWithLinks | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function LinkPicker({
+  placeholder,
+  icon: Icon,
+  value,
+  items,
+  isLoading,
+  search,
+  onSearchChange,
+  onSelect,
+}: {
+  placeholder: string;
+  icon: React.ElementType;
+  value: LinkChoice;
+  items: { id: string; name: string; detail?: string | null }[];
+  isLoading: boolean;
+  search?: string;
+  onSearchChange?: (value: string) => void;
+  onSelect: (choice: LinkChoice) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" className="flex-1 justify-start gap-1.5 font-normal min-w-0">
+          <Icon className="h-3.5 w-3.5 flex-shrink-0" />
+          <span className="truncate">{value ? value.name : "Not linked"}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[320px] p-0" align="start">
+        <Command shouldFilter={!onSearchChange}>
+          <CommandInput placeholder={placeholder} value={search} onValueChange={onSearchChange} />
+          <CommandList>
+            <CommandEmpty>{isLoading ? "Loading..." : "No matches."}</CommandEmpty>
+            <CommandGroup>
+              {items.map((item) => (
+                <CommandItem
+                  key={item.id}
+                  value={`${item.name} ${item.detail ?? ""} ${item.id}`}
+                  onSelect={() => {
+                    onSelect({ id: item.id, name: item.name });
+                    setOpen(false);
+                  }}
+                >
+                  <div className="flex flex-col min-w-0">
+                    <span className="font-medium truncate">{item.name}</span>
+                    {item.detail && <span className="text-xs text-gray-500 truncate">{item.detail}</span>}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function RentalEquipmentLinkModal({ equipment, isOpen, onClose }: RentalEquipmentLinkModalProps) {
+  const { toast } = useToast();
+  const updateMutation = useUpdateRentalEquipmentLinks();
+  const [jobSearch, setJobSearch] = useState("");
+  const { data: companies = [], isLoading: companiesLoading } = useCompanies();
+  const { data: jobs = [], isLoading: jobsLoading } = useJobs({ search: jobSearch || undefined });
+  const [company, setCompany] = useState<LinkChoice>(null);
+  const [job, setJob] = useState<LinkChoice>(null);
+  const [touched, setTouched] = useState<Set<LinkField>>(new Set());
+
+  useEffect(() => {
+    if (!isOpen || !equipment) return;
+    setCompany(equipment.companyId ? { id: equipment.companyId, name: equipment.companyName || "Company" } : null);
+    setJob(equipment.jobId ? { id: equipment.jobId, name: equipment.jobName || "Job" } : null);
+    setJobSearch(equipment.location ?? "");
+    setTouched(new Set());
+  }, [isOpen, equipment]);
+
+  if (!equipment) return null;
+  const locked = equipment.lockedFields || [];
+
+  const choose = (field: LinkField, choice: LinkChoice) => {
+    (field === "companyId" ? setCompany : setJob)(choice);
+    setTouched((prev) => new Set(prev).add(field));
+  };
+
+  const save = (payload: Omit<RentalEquipmentLinksInput, "id">, successTitle: string) => {
+    updateMutation.mutate(
+      { id: equipment.id, ...payload },
+      {
+        onSuccess: () => {
+          toast({ title: successTitle });
+          onClose();
+        },
+        onError: (error: Error) => {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const handleSave = () => {
+    const payload: Omit<RentalEquipmentLinksInput, "id"> = {};
+    if (touched.has("companyId")) payload.companyId = company?.id ?? null;
+    if (touched.has("jobId")) payload.jobId = job?.id ?? null;
+    save(payload, "Links saved");
+  };
+
+  const fieldRow = (field: LinkField, label: string, picker: React.ReactNode, value: LinkChoice) => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <span className="text-xs text-gray-400">{locked.includes(field) ? "Set by hand" : "Matched automatically"}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        {picker}
+        {value && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => choose(field, null)}>
+            Clear
+          </Button>
+        )}
+      </div>
+      {locked.includes(field) && (
+        <button
+          type="button"
+          className="text-xs text-blue-600 hover:underline"
+          onClick={() => save({ unlock: [field] }, "Back to automatic matching")}
+          disabled={updateMutation.isPending}
+        >
+          Use automatic matching
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">
+            Link {equipment.equipmentNumber} {equipment.model}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-xs text-gray-500">
+            Report says: {equipment.customerOnRent || "no customer"}
+            {equipment.location ? ` at ${equipment.location}` : ""}
+          </p>
+          {fieldRow(
+            "companyId",
+            "Company",
+            <LinkPicker
+              placeholder="Search companies..."
+              icon={Building}
+              value={company}
+              items={companies.map((c) => ({ id: c.id, name: c.name, detail: c.city }))}
+              isLoading={companiesLoading}
+              onSelect={(choice) => choose("companyId", choice)}
+            />,
+            company
+          )}
+          {fieldRow(
+            "jobId",
+            "Job site",
+            <LinkPicker
+              placeholder="Search jobs..."
+              icon={MapPin}
+              value={job}
+              items={jobs.slice(0, 50).map((j) => ({ id: j.id, name: j.name, detail: j.address }))}
+              isLoading={jobsLoading}
+              search={jobSearch}
+              onSearchChange={setJobSearch}
+              onSelect={(choice) => choose("jobId", choice)}
+            />,
+            job
+          )}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={touched.size === 0 || updateMutation.isPending}>
+              {updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useMemo, useRef, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
@@ -7,10 +8,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { cn, getMergedFilterPreferences } from "@/lib/utils";
 import JobCard from "./JobCard";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Settings, X, Star, ChevronDown, ChevronRight } from "lucide-react";
-import type { Job } from "@shared/schema";
+import { Settings, X, Star, ChevronDown, ChevronRight, Radar } from "lucide-react";
+import { DEFAULT_NEAR_RADIUS_MILES, type Job, type JobWithDistance, type SavedView } from "@shared/schema";
 import CompanyFilter from "./CompanyFilter";
+import TerritoryFilter from "./TerritoryFilter";
+import SavedViews from "./SavedViews";
 import { useFilterPreferences } from "@/hooks/useFilterPreferences";
+import { useJobIdsWithDueTasks } from "@/hooks/useTasks";
 import { FilterPreferencesModal } from "./FilterPreferencesModal";
 
 interface GlobalStats {
@@ -27,7 +31,8 @@ interface GlobalStats {
 interface FilterSidebarProps {
   isOpen: boolean;
   onToggle: () => void;
-  jobs: Job[];
+  jobs: JobWithDistance[];
+  visibleCount?: number; // Matching jobs in the map's view, when the list is only a page
   globalStats?: GlobalStats;
   filters: {
     status: string[];
@@ -38,15 +43,24 @@ interface FilterSidebarProps {
     hideCold?: boolean;
     county?: string;
     nearMe?: boolean;
+    nearJob?: string;
+    radius?: number;
     company?: string;
     showUnvisited?: boolean;
     showOffices?: boolean;
+    territory?: string;
   };
   onFilterChange: (filters: any) => void;
   onJobSelect: (job: Job) => void;
   isLoading: boolean;
+  search: string;
+  activeViewId: string | null;
+  onApplyView: (view: SavedView) => void;
 }
 
+const RADIUS_OPTIONS = [5, 10, 25, 50, 100];
+const NEARBY_LIST_LIMIT = 25;
+
 function SectionHeader({ title, children }: { title: string; children?: React.ReactNode }) {
   return (
     <div className="flex items-center justify-between mb-2.5">
@@ -60,11 +74,15 @@ export default function FilterSidebar({
   isOpen,
   onToggle,
   jobs,
+  visibleCount,
   globalStats,
   filters,
   onFilterChange,
   onJobSelect,
-  isLoading
+  isLoading,
+  search,
+  activeViewId,
+  onApplyView
 }: FilterSidebarProps) {
   const [valueRange, setValueRange] = useState([
     filters.minValue ? parseFloat(filters.minValue) : 100000000,
@@ -72,11 +90,24 @@ export default function FilterSidebar({
   ]);
   const debounceTimer = useRef<NodeJS.Timeout>();
   const { preferences } = useFilterPreferences();
+  const jobIdsWithDueTasks = useJobIdsWithDueTasks();
   const [showPreferencesModal, setShowPreferencesModal] = useState(false);
   const [showFavorites, setShowFavorites] = useState(true);
 
   const filterPreferences = useMemo(() => getMergedFilterPreferences(preferences), [preferences]);
 
+  // The job a "near this job" search is centered on, for its label
+  const { data: nearJob } = useQuery<Job>({
+    queryKey: ['/api/jobs', filters.nearJob],
+    enabled: !!filters.nearJob,
+  });
+  const nearActive = !!filters.nearJob || !!filters.nearMe;
+  // Results come back closest first when a near search is on
+  const nearbyJobs = useMemo(
+    () => (nearActive ? jobs.filter(job => job.distanceMiles !== undefined).slice(0, NEARBY_LIST_LIMIT) : []),
+    [jobs, nearActive]
+  );
+
   const availableCounties = useMemo(() => {
     const counties = new Set<string>();
     jobs.forEach(job => { if (job.county) counties.add(job.county); });
@@ -103,7 +134,7 @@ export default function FilterSidebar({
 
   const stats = useMemo(() => {
     const total = globalStats?.totalJobs ?? 0;
-    const visible = jobs.length;
+    const visible = visibleCount ?? jobs.length;
     const visited = globalStats?.visitedJobs ?? 0;
     const unvisited = globalStats?.unvisitedJobs ?? 0;
     const offices = globalStats?.officeJobs ?? 0;
@@ -113,7 +144,7 @@ export default function FilterSidebar({
       return acc;
     }, {} as Record<string, number>);
     return { total, visible, active: statusCounts['active'] || 0, planning: statusCounts['planning'] || 0, visited, unvisited, offices };
-  }, [jobs, globalStats]);
+  }, [jobs, visibleCount, globalStats]);
 
   const favoriteJobs = useMemo(() => {
     return [...jobs]
@@ -144,6 +175,14 @@ export default function FilterSidebar({
     return () => { if (debounceTimer.current) clearTimeout(debounceTimer.current); };
   }, []);
 
+  // Keep the slider in sync when filters are replaced wholesale (e.g. a saved view is applied)
+  useEffect(() => {
+    setValueRange([
+      filters.minValue ? parseFloat(filters.minValue) : 100000000,
+      filters.maxValue ? parseFloat(filters.maxValue) : 100000000
+    ]);
+  }, [filters.minValue, filters.maxValue]);
+
   const formatValue = (value: number) => {
     if (value >= 100000000) return `$100M+`;
     if (value >= 1000000) return `$${(value / 1000000).toFixed(0)}M`;
@@ -199,6 +238,16 @@ export default function FilterSidebar({
           </div>
         </div>
 
+        {/* Saved Views */}
+        <div className="mb-6">
+          <SavedViews
+            filters={filters}
+            search={search}
+            activeViewId={activeViewId}
+            onApplyView={onApplyView}
+          />
+        </div>
+
         {/* Filters */}
         <div className="space-y-5">
           {/* Location */}
@@ -218,6 +267,53 @@ export default function FilterSidebar({
                 ))}
               </SelectContent>
             </Select>
+            <TerritoryFilter
+              value={filters.territory || ""}
+              onChange={(territory) => handleFilterChange('territory', territory)}
+            />
+            <div className="mt-3 space-y-2">
+              {filters.nearJob ? (
+                <div className="flex items-center justify-between gap-2 rounded-lg bg-blue-50 border border-blue-100 px-2.5 py-1.5" data-testid="near-job-chip">
+                  <span className="text-xs text-blue-700 truncate">
+                    <Radar className="inline h-3 w-3 mr-1" />
+                    Near {nearJob?.name ?? "selected job"}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleFilterChange('nearJob', '')}
+                    className="text-blue-400 hover:text-blue-700 flex-shrink-0"
+                    title="Clear"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ) : (
+                <label htmlFor="near-me" className="flex items-center gap-2 cursor-pointer group">
+                  <Checkbox
+                    id="near-me"
+                    checked={!!filters.nearMe}
+                    onCheckedChange={(checked) => handleFilterChange('nearMe', !!checked)}
+                    data-testid="checkbox-near-me"
+                  />
+                  <span className="text-sm text-gray-700 group-hover:text-gray-900">Near me</span>
+                </label>
+              )}
+              {nearActive && (
+                <Select
+                  value={String(filters.radius ?? DEFAULT_NEAR_RADIUS_MILES)}
+                  onValueChange={(value) => handleFilterChange('radius', Number(value))}
+                >
+                  <SelectTrigger className="w-full h-9 rounded-lg bg-gray-50/80 border-gray-200/80 text-sm" data-testid="select-near-radius">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RADIUS_OPTIONS.map(miles => (
+                      <SelectItem key={miles} value={String(miles)}>Within {miles} miles</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
           </div>
 
           {/* Company */}
@@ -357,6 +453,23 @@ export default function FilterSidebar({
           </div>
         </div>
 
+        {/* Nearby, closest first */}
+        {nearActive && (
+          <div className="mt-6 pt-5 border-t border-gray-100">
+            <SectionHeader title="Nearby">
+              <span className="text-xs text-gray-400">{jobs.length.toLocaleString()} within {filters.radius ?? DEFAULT_NEAR_RADIUS_MILES} mi</span>
+            </SectionHeader>
+            <div className="space-y-2.5" data-testid="nearby-list">
+              {nearbyJobs.map(job => (
+                <JobCard key={job.id} job={job} onClick={() => onJobSelect(job)} hasDueTask={jobIdsWithDueTasks.has(job.id)} />
+              ))}
+              {!isLoading && nearbyJobs.length === 0 && (
+                <p className="text-sm text-gray-400 text-center py-4">No jobs within this radius</p>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Favorites */}
         <div className="mt-6 pt-5 border-t border-gray-100">
           <button
@@ -383,7 +496,7 @@ export default function FilterSidebar({
                 ))
               ) : (
                 favoriteJobs.map(job => (
-                  <JobCard key={job.id} job={job} onClick={() => onJobSelect(job)} />
+                  <JobCard key={job.id} job={job} onClick={() => onJobSelect(job)} hasDueTask={jobIdsWithDueTasks.has(job.id)} />
                 ))
               )}
               {!isLoading && favoriteJobs.length === 0 && (
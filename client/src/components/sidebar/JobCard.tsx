@@ -4,14 +4,47 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { getAuthHeaders } from "@/lib/auth";
-import type { Job } from "@shared/schema";
+import {
+  DODGE_RECENT_CHANGE_DAYS,
+  DODGE_STALE_VERSION_DAYS,
+  IMPORT_CONFLICT_FIELDS,
+  type ImportConflictField,
+  type Job,
+  type JobWithDistance,
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysSince(date: Date | string | null) {
+  return date ? (Date.now() - new Date(date).getTime()) / DAY_MS : null;
+}
+
+/**
+ * What the Dodge imports say about a job: left out of the latest export, a
+ * new version with the fields it changed, or no new version in months.
+ */
+function getDodgeUpdate(job: Job) {
+  if (job.missingFromDodgeAt) return { kind: "missing" as const };
+  const versionAge = daysSince(job.dodgeVersionAt);
+  if (versionAge === null) return null;
+  if (job.dodgeChangedFields && versionAge <= DODGE_RECENT_CHANGE_DAYS) {
+    const fields = job.dodgeChangedFields.map((field) => IMPORT_CONFLICT_FIELDS[field as ImportConflictField] ?? field);
+    return { kind: "changed" as const, fields };
+  }
+  // Only exports with version numbers say anything about how current a job is
+  if (job.versionNumber && versionAge > DODGE_STALE_VERSION_DAYS) {
+    return { kind: "stale" as const, months: Math.floor(versionAge / 30) };
+  }
+  return null;
+}
 
 interface JobCardProps {
-  job: Job;
+  job: JobWithDistance;
   onClick: () => void;
+  hasDueTask?: boolean;
 }
 
-export default function JobCard({ job, onClick }: JobCardProps) {
+export default function JobCard({ job, onClick, hasDueTask = false }: JobCardProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isFavorite, setIsFavorite] = useState(job.isFavorite);
@@ -84,6 +117,7 @@ export default function JobCard({ job, onClick }: JobCardProps) {
   };
 
   const effectiveStatus = getEffectiveStatus(job);
+  const dodgeUpdate = getDodgeUpdate(job);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -159,16 +193,49 @@ export default function JobCard({ job, onClick }: JobCardProps) {
             <Badge className={`text-xs ${getStatusColor(effectiveStatus)}`}>
               {effectiveStatus.charAt(0).toUpperCase() + effectiveStatus.slice(1)}
             </Badge>
+            {hasDueTask && (
+              <Badge className="text-xs bg-red-100 text-red-700 hover:bg-red-100" data-testid={`job-due-task-${job.id}`}>
+                <i className="fas fa-bell mr-1"></i>
+                Due today
+              </Badge>
+            )}
             {job.projectValue && (
               <span className="text-xs text-gray-500" data-testid={`job-value-${job.id}`}>
                 {formatValue(job.projectValue)}
               </span>
             )}
+            {job.distanceMiles !== undefined && (
+              <span className="text-xs font-medium text-blue-600" data-testid={`job-distance-${job.id}`}>
+                {job.distanceMiles.toFixed(1)} mi
+              </span>
+            )}
             {job.type && (
               <Badge variant="outline" className="text-xs">
                 {job.type}
               </Badge>
             )}
+            {dodgeUpdate?.kind === "changed" && (
+              <Badge
+                className="text-xs bg-purple-100 text-purple-700 hover:bg-purple-100 max-w-full truncate"
+                title={`Dodge published version ${job.versionNumber}${dodgeUpdate.fields.length > 0 ? `: ${dodgeUpdate.fields.join(", ")} changed` : ""}`}
+                data-testid={`job-dodge-changed-${job.id}`}
+              >
+                <i className="fas fa-sync-alt mr-1"></i>
+                Changed in Dodge{dodgeUpdate.fields.length > 0 && `: ${dodgeUpdate.fields.join(", ")}`}
+              </Badge>
+            )}
+            {dodgeUpdate?.kind === "missing" && (
+              <Badge variant="outline" className="text-xs text-gray-600 border-gray-300" data-testid={`job-dodge-missing-${job.id}`}>
+                <i className="fas fa-eye-slash mr-1"></i>
+                Not in latest Dodge export
+              </Badge>
+            )}
+            {dodgeUpdate?.kind === "stale" && (
+              <Badge variant="outline" className="text-xs text-amber-700 border-amber-300" data-testid={`job-dodge-stale-${job.id}`}>
+                <i className="fas fa-hourglass-half mr-1"></i>
+                No Dodge update in {dodgeUpdate.months} mo
+              </Badge>
+            )}
           </div>
         </div>
         <Button
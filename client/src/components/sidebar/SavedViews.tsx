@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useSavedViews,
+  useCreateSavedView,
+  useUpdateSavedView,
+  useDeleteSavedView,
+  buildViewShareUrl,
+} from "@/hooks/useSavedViews";
+import { cn } from "@/lib/utils";
+import type { SavedView, SavedViewFilters } from "@shared/schema";
+import { Bookmark, Plus, Star, Link2, Trash2, Check, X } from "lucide-react";
+
+interface SavedViewsProps {
+  filters: SavedViewFilters;
+  search: string;
+  activeViewId: string | null;
+  onApplyView: (view: SavedView) => void;
+}
+
+export default function SavedViews({ filters, search, activeViewId, onApplyView }: SavedViewsProps) {
+  const { toast } = useToast();
+  const { data: views = [] } = useSavedViews();
+  const createView = useCreateSavedView();
+  const updateView = useUpdateSavedView();
+  const deleteView = useDeleteSavedView();
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState("");
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    createView.mutate(
+      { name: name.trim(), filters, search, isDefault: false },
+      {
+        onSuccess: (view) => {
+          setName("");
+          setIsNaming(false);
+          onApplyView(view);
+          toast({ title: "View saved", description: `"${view.name}" is now in your saved views` });
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleToggleDefault = (view: SavedView) => {
+    updateView.mutate({ id: view.id, isDefault: !view.isDefault }, { onError });
+  };
+
+  const handleShare = async (view: SavedView) => {
+    const url = buildViewShareUrl({ name: view.name, filters: view.filters, search: view.search });
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied", description: "Anyone on the team can open this view" });
+    } catch {
+      window.prompt("Copy this link to share the view", url);
+    }
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (!window.confirm(`Delete the view "${view.name}"?`)) return;
+    deleteView.mutate(view.id, { onError });
+  };
+
+  return (
+    <div data-testid="saved-views">
+      <div className="flex items-center justify-between mb-2.5">
+        <div className="flex items-center gap-1.5">
+          <Bookmark className="h-3.5 w-3.5 text-blue-500" />
+          <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Saved Views</h3>
+        </div>
+        {!isNaming && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 gap-1 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg"
+            onClick={() => setIsNaming(true)}
+            data-testid="button-save-view"
+          >
+            <Plus className="h-3 w-3" />
+            Save current
+          </Button>
+        )}
+      </div>
+
+      {isNaming && (
+        <div className="flex items-center gap-1.5 mb-2.5">
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setIsNaming(false);
+            }}
+            placeholder='e.g. "Alameda hot >$5M"'
+            className="h-8 rounded-lg bg-gray-50/80 border-gray-200/80 text-sm"
+            data-testid="input-view-name"
+          />
+          <Button size="icon" className="h-8 w-8 rounded-lg bg-blue-600 hover:bg-blue-700 text-white flex-shrink-0" onClick={handleSave} disabled={!name.trim() || createView.isPending}>
+            <Check className="h-3.5 w-3.5" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-8 w-8 rounded-lg text-gray-400 flex-shrink-0" onClick={() => { setIsNaming(false); setName(""); }}>
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+
+      {views.length === 0 && !isNaming ? (
+        <p className="text-xs text-gray-400">Save the current filters and search to switch back to them later.</p>
+      ) : (
+        <ul className="space-y-1">
+          {views.map(view => (
+            <li
+              key={view.id}
+              className={cn(
+                "group flex items-center gap-1 rounded-lg pl-2.5 pr-1 py-1",
+                activeViewId === view.id ? "bg-blue-50" : "hover:bg-gray-50"
+              )}
+            >
+              <button
+                onClick={() => onApplyView(view)}
+                className={cn(
+                  "flex-1 min-w-0 text-left text-sm truncate",
+                  activeViewId === view.id ? "text-blue-700 font-medium" : "text-gray-700"
+                )}
+                title={view.search ? `${view.name} (search: ${view.search})` : view.name}
+              >
+                {view.name}
+              </button>
+              <button
+                onClick={() => handleToggleDefault(view)}
+                className={cn("p-1 rounded", view.isDefault ? "text-amber-500" : "text-gray-300 opacity-0 group-hover:opacity-100 hover:text-amber-500")}
+                title={view.isDefault ? "Default view (click to unset)" : "Open this view by default"}
+              >
+                <Star className={cn("h-3.5 w-3.5", view.isDefault && "fill-current")} />
+              </button>
+              <button
+                onClick={() => handleShare(view)}
+                className="p-1 rounded text-gray-300 opacity-0 group-hover:opacity-100 hover:text-blue-600"
+                title="Copy share link"
+              >
+                <Link2 className="h-3.5 w-3.5" />
+              </button>
+              <button
+                onClick={() => handleDelete(view)}
+                className="p-1 rounded text-gray-300 opacity-0 group-hover:opacity-100 hover:text-red-500"
+                title="Delete view"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
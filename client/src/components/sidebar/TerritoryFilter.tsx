@@ -0,0 +1,92 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useTerritories, useUpdateTerritory, useDeleteTerritory } from "@/hooks/useTerritories";
+import { Trash2 } from "lucide-react";
+
+interface TerritoryFilterProps {
+  value: string;
+  onChange: (territoryId: string) => void;
+}
+
+export default function TerritoryFilter({ value, onChange }: TerritoryFilterProps) {
+  const { toast } = useToast();
+  const { data: territories = [] } = useTerritories();
+  const updateTerritory = useUpdateTerritory();
+  const deleteTerritory = useDeleteTerritory();
+  const selected = territories.find(territory => territory.id === value);
+
+  if (territories.length === 0) {
+    return <p className="text-xs text-gray-400 mt-2">Draw a territory on the map to filter by it.</p>;
+  }
+
+  const handleAutoTagChange = (autoTagImports: boolean) => {
+    if (!selected) return;
+    updateTerritory.mutate(
+      { id: selected.id, autoTagImports },
+      {
+        onError: (error: Error) => {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm(`Delete the territory "${selected.name}"? Jobs inside it are not affected.`)) return;
+    deleteTerritory.mutate(selected.id, {
+      onSuccess: () => {
+        onChange('');
+        toast({ title: "Territory deleted" });
+      },
+      onError: (error: Error) => {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <Select value={value || "all"} onValueChange={(next) => onChange(next === "all" ? "" : next)}>
+        <SelectTrigger className="w-full h-9 rounded-lg bg-gray-50/80 border-gray-200/80 text-sm" data-testid="select-territory">
+          <SelectValue placeholder="All Territories" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Territories</SelectItem>
+          {territories.map(territory => (
+            <SelectItem key={territory.id} value={territory.id}>
+              <span className="flex items-center gap-2">
+                <span className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ backgroundColor: territory.color }} />
+                {territory.name}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected && (
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+            <Switch
+              checked={selected.autoTagImports}
+              onCheckedChange={handleAutoTagChange}
+              disabled={updateTerritory.isPending}
+              data-testid="switch-territory-auto-tag"
+            />
+            Tag new Dodge imports
+          </label>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-gray-400 hover:text-red-600"
+            onClick={handleDelete}
+            disabled={deleteTerritory.isPending}
+            title="Delete territory"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
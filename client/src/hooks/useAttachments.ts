@@ -0,0 +1,105 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { AttachmentOwner, Document } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+import { scaleImage } from "@/lib/images";
+
+// Previews for image attachments are drawn in the browser and uploaded with the file
+const THUMBNAIL_MAX_DIMENSION = 320;
+const THUMBNAIL_QUALITY = 0.7;
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...getAuthHeaders(), ...init.headers },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || error.message || fallbackError);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+async function fetchFileUrl(url: string, fallbackError: string): Promise<string> {
+  const response = await fetch(url, { headers: getAuthHeaders(), credentials: 'include' });
+  if (!response.ok) throw new Error(fallbackError);
+  return URL.createObjectURL(await response.blob());
+}
+
+function ownerParams(owner: AttachmentOwner): Record<string, string> {
+  return Object.fromEntries(Object.entries(owner).filter(([, id]) => !!id)) as Record<string, string>;
+}
+
+export function useAttachments(owner: AttachmentOwner) {
+  const params = ownerParams(owner);
+  return useQuery<Document[]>({
+    queryKey: ['/api/documents', params],
+    queryFn: () => request<Document[]>(`/api/documents?${new URLSearchParams(params)}`, {}, 'Failed to fetch attachments'),
+    enabled: Object.keys(params).length > 0,
+  });
+}
+
+export function useUploadAttachment(owner: AttachmentOwner) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (file.type.startsWith('image/')) {
+        const thumbnail = await scaleImage(file, THUMBNAIL_MAX_DIMENSION, THUMBNAIL_QUALITY);
+        if (thumbnail) formData.append('thumbnail', thumbnail);
+      }
+      for (const [field, id] of Object.entries(ownerParams(owner))) {
+        formData.append(field, id);
+      }
+      return request<Document>('/api/documents', { method: 'POST', body: formData }, 'Failed to upload attachment');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    },
+  });
+}
+
+export function useDeleteAttachment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => request<void>(`/api/documents/${id}`, { method: 'DELETE' }, 'Failed to delete attachment'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    },
+  });
+}
+
+/**
+ * Thumbnails need the auth header, so like site visit photos they are loaded
+ * as blobs and kept as object URLs for the session.
+ */
+export function useAttachmentThumbnailUrl(document: Document) {
+  return useQuery<string>({
+    queryKey: ['/api/documents', document.id, 'thumbnail'],
+    queryFn: () => fetchFileUrl(`/api/documents/${document.id}/thumbnail`, 'Failed to load preview'),
+    enabled: !!document.thumbnailKey,
+    staleTime: Infinity,
+    gcTime: Infinity,
+  });
+}
+
+/**
+ * Open an attachment in a new tab. The tab is opened before the download
+ * starts; browsers block windows opened after an await.
+ */
+export async function openAttachment(document: Document): Promise<void> {
+  const tab = window.open('', '_blank');
+  try {
+    const url = await fetchFileUrl(`/api/documents/${document.id}/file`, 'Failed to open file');
+    if (tab) tab.location.href = url;
+    else window.location.href = url;
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+}
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import type { Contact, Company, Job, Interaction, ContactJob } from "@shared/schema";
 import { getAuthHeaders } from "@/lib/auth";
+import { sendOrQueue } from "@/lib/offlineSync";
 
 interface ContactFilters {
   search?: string;
@@ -158,27 +159,28 @@ export function useUpdateContact(id: string | null) {
   });
 }
 
+/**
+ * Log an interaction. Without signal it is queued (see lib/offlineSync) and
+ * the result reports `queued: true`; it keeps the time it was logged.
+ */
 export function useLogInteraction(contactId: string | null) {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: async (data: { type: string; direction?: string; summary?: string; notes?: string; jobId?: string }) => {
-      const response = await fetch(`/api/contacts/${contactId}/interactions`, {
+    mutationFn: (data: { type: string; direction?: string; summary?: string; notes?: string; jobId?: string; followUpInDays?: number }) =>
+      sendOrQueue<Interaction>({
         method: "POST",
-        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify(data),
-      });
-      if (!response.ok) {
-        const err = await response.json();
-        throw new Error(err.error || "Failed to log interaction");
-      }
-      return response.json();
-    },
-    onSuccess: () => {
+        url: `/api/contacts/${contactId}/interactions`,
+        body: { ...data, occurredAt: new Date().toISOString() },
+        description: `${data.type.replace(/_/g, " ")} logged${data.summary ? `: ${data.summary}` : ""}`,
+      }),
+    networkMode: "always",
+    onSuccess: (result) => {
+      if (result.queued) return;
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/contacts", contactId] });
       queryClient.invalidateQueries({ queryKey: ["/api/interactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/crm/overview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
     },
   });
 }
@@ -0,0 +1,55 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Document, DocumentReview, Job } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+/**
+ * Processed documents waiting for someone to check what was found in them.
+ */
+export function usePendingDocuments(enabled = true) {
+  return useQuery<Document[]>({
+    queryKey: ['/api/documents', { reviewStatus: 'pending' }],
+    queryFn: () => request<Document[]>('/api/documents?reviewStatus=pending', {}, 'Failed to fetch documents'),
+    enabled,
+  });
+}
+
+export function useAcceptDocument() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ documentId, review }: { documentId: string; review: DocumentReview }) =>
+      request<Job>(`/api/documents/${documentId}/accept`, { method: 'POST', body: JSON.stringify(review) }, 'Failed to create job'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+    },
+  });
+}
+
+export function useRejectDocument() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (documentId: string) =>
+      request<void>(`/api/documents/${documentId}`, { method: 'DELETE' }, 'Failed to reject document'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    },
+  });
+}
@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { DodgeColumnPreview, DodgeMappingProfile, InsertDodgeMappingProfile } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+
+const MAPPING_PROFILES_KEY = ['/api/user/dodge-mapping-profiles'];
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...getAuthHeaders(), ...init.headers },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+  return response.json();
+}
+
+export function useDodgeMappingProfiles() {
+  return useQuery<DodgeMappingProfile[]>({
+    queryKey: MAPPING_PROFILES_KEY,
+    queryFn: () => request<DodgeMappingProfile[]>('/api/user/dodge-mapping-profiles', {}, 'Failed to fetch mapping profiles'),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateDodgeMappingProfile() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (profile: InsertDodgeMappingProfile) =>
+      request<DodgeMappingProfile>('/api/user/dodge-mapping-profiles', { method: 'POST', headers: JSON_HEADERS, body: JSON.stringify(profile) }, 'Failed to save mapping'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MAPPING_PROFILES_KEY });
+    },
+  });
+}
+
+export function useUpdateDodgeMappingProfile() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...updates }: Partial<InsertDodgeMappingProfile> & { id: string }) =>
+      request<DodgeMappingProfile>(`/api/user/dodge-mapping-profiles/${id}`, { method: 'PATCH', headers: JSON_HEADERS, body: JSON.stringify(updates) }, 'Failed to update mapping'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MAPPING_PROFILES_KEY });
+    },
+  });
+}
+
+export function useDeleteDodgeMappingProfile() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      request<{ success: boolean }>(`/api/user/dodge-mapping-profiles/${id}`, { method: 'DELETE' }, 'Failed to delete mapping'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MAPPING_PROFILES_KEY });
+    },
+  });
+}
+
+/**
+ * Upload an export to read its headers and first rows; nothing is imported.
+ */
+export function useReadDodgeColumns() {
+  return useMutation({
+    mutationFn: (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      return request<DodgeColumnPreview>('/api/import-dodge-csv/columns', { method: 'POST', body: formData }, 'Failed to read columns');
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { EquipmentReportSettings } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+  return response.json();
+}
+
+export function useEquipmentReportSettings() {
+  return useQuery<EquipmentReportSettings>({
+    queryKey: ['/api/user/equipment-report-settings'],
+    queryFn: () =>
+      request<EquipmentReportSettings>('/api/user/equipment-report-settings', {}, 'Failed to fetch report settings'),
+  });
+}
+
+export function useUpdateEquipmentReportSettings() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (settings: EquipmentReportSettings) =>
+      request<EquipmentReportSettings>(
+        '/api/user/equipment-report-settings',
+        { method: 'PUT', body: JSON.stringify(settings) },
+        'Failed to save report settings'
+      ),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['/api/user/equipment-report-settings'], settings);
+    },
+  });
+}
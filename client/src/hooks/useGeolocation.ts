@@ -4,6 +4,7 @@ import { useToast } from "./use-toast";
 interface GeolocationPosition {
   lat: number;
   lng: number;
+  accuracy?: number; // Meters, as reported by the device
 }
 
 export function useGeolocation() {
@@ -32,7 +33,8 @@ export function useGeolocation() {
         (position) => {
           const pos: GeolocationPosition = {
             lat: position.coords.latitude,
-            lng: position.coords.longitude
+            lng: position.coords.longitude,
+            accuracy: position.coords.accuracy
           };
           setLocation(pos);
           setIsLoading(false);
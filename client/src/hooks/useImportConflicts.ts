@@ -0,0 +1,50 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ImportConflictWithJob, ImportConflictResolution } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+  return response.json();
+}
+
+/**
+ * Conflicts still waiting for a decision; one import run's, or all of them.
+ */
+export function usePendingImportConflicts(importRunId?: string) {
+  const params = new URLSearchParams({ status: 'pending' });
+  if (importRunId) params.set('importRunId', importRunId);
+  return useQuery<ImportConflictWithJob[]>({
+    queryKey: ['/api/import-conflicts', { status: 'pending', importRunId }],
+    queryFn: () => request<ImportConflictWithJob[]>(`/api/import-conflicts?${params}`, {}, 'Failed to fetch import conflicts'),
+  });
+}
+
+export function useResolveImportConflicts() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (resolution: ImportConflictResolution) =>
+      request<{ resolved: number; jobIds: string[] }>(
+        '/api/import-conflicts/resolve',
+        { method: 'POST', body: JSON.stringify(resolution) },
+        'Failed to resolve conflicts'
+      ),
+    onSuccess: (_result, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/import-conflicts'] });
+      if (decision === 'accept') {
+        queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      }
+    },
+  });
+}
@@ -0,0 +1,61 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ImportRun, ImportRunWithRecords } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+
+export interface ImportRunRevertResult {
+  deleted: number;
+  restored: number;
+  kept: number;
+}
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+  return response.json();
+}
+
+export function useImportRuns() {
+  return useQuery<ImportRun[]>({
+    queryKey: ['/api/import-runs'],
+    queryFn: () => request<ImportRun[]>('/api/import-runs', {}, 'Failed to fetch import history'),
+  });
+}
+
+/**
+ * One run with every row it created or changed; only fetched once opened.
+ */
+export function useImportRun(id: string | null) {
+  return useQuery<ImportRunWithRecords>({
+    queryKey: ['/api/import-runs', id],
+    queryFn: () => request<ImportRunWithRecords>(`/api/import-runs/${id}`, {}, 'Failed to fetch import'),
+    enabled: !!id,
+  });
+}
+
+export function useRevertImportRun() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      request<ImportRunRevertResult>(`/api/import-runs/${id}/revert`, { method: 'POST' }, 'Failed to revert import'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/import-runs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/import-conflicts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/contacts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/companies'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/interactions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/crm/overview'] });
+    },
+  });
+}
@@ -1,6 +1,6 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
-import type { Job } from "@shared/schema";
+import type { Job, JobHistory, JobMapViewport, JobWithDistance } from "@shared/schema";
 import { getAuthHeaders } from "@/lib/auth";
 
 interface JobFilters {
@@ -14,20 +14,24 @@ interface JobFilters {
   hideCold?: boolean;
   county?: string;
   nearMe?: boolean;
+  nearJob?: string; // Job ID to search around instead of the rep's position
+  radius?: number; // Miles, for nearMe or nearJob
   userLat?: number;
   userLng?: number;
   company?: string;
   showUnvisited?: boolean;
   showOffices?: boolean;
+  territory?: string;
+  limit?: number; // Most recently updated first
 }
 
-export function useJobs(filters: JobFilters = {}) {
-  // Get user location if nearMe is enabled
+// The rep's position for the "near me" filter, looked up when it is switched on
+function useNearMeLocation(nearMe: boolean | undefined) {
   const [userLocation, setUserLocation] = useState<{lat: number, lng: number} | null>(null);
   const [locationLoading, setLocationLoading] = useState(false);
   
   useEffect(() => {
-    if (filters.nearMe && navigator.geolocation) {
+    if (nearMe && navigator.geolocation) {
       setLocationLoading(true);
       navigator.geolocation.getCurrentPosition(
         (position) => {
@@ -52,54 +56,73 @@ export function useJobs(filters: JobFilters = {}) {
       setUserLocation(null);
       setLocationLoading(false);
     }
-  }, [filters.nearMe]);
+  }, [nearMe]);
 
-  return useQuery<Job[]>({
-    queryKey: ['/api/jobs', filters, userLocation],
-    queryFn: async () => {
-      const params = new URLSearchParams();
-      
-      if (filters.search) params.append('search', filters.search);
-      if (filters.status?.length) params.append('status', filters.status.join(','));
-      if (filters.startDate) params.append('startDate', filters.startDate);
-      if (filters.endDate) params.append('endDate', filters.endDate);
-      if (filters.minValue) params.append('minValue', filters.minValue);
-      if (filters.maxValue) params.append('maxValue', filters.maxValue);
-      if (filters.temperature && filters.temperature.length > 0) {
-        params.append('temperature', filters.temperature.join(','));
-      } else if (filters.temperature && filters.temperature.length === 0 && filters.showUnvisited !== true) {
-        // Explicitly request no temperature matches when user deselects all temperatures
-        params.append('temperature', '__none__');
-      }
-      if (filters.hideCold === true) params.append('cold', 'false');
-      if (filters.county) params.append('county', filters.county);
-      if (filters.company) params.append('company', filters.company);
-      if (filters.showUnvisited === true) params.append('unvisited', 'true');
-      if (filters.showOffices === false) params.append('offices', 'false');
-      if (filters.showOffices === true) params.append('offices', 'true');
-      
-      // Only add location params if we have a location and nearMe is true
-      if (filters.nearMe && userLocation) {
-        params.append('nearLat', userLocation.lat.toString());
-        params.append('nearLng', userLocation.lng.toString());
-      }
+  return { userLocation, locationLoading };
+}
 
-      const url = `/api/jobs${params.toString() ? `?${params.toString()}` : ''}`;
-      const response = await fetch(url, {
-        headers: getAuthHeaders(),
-        credentials: 'include',
-      });
-      
-      if (!response.ok) {
-        if (response.status === 401) {
-          window.location.href = '/login';
-          throw new Error('Authentication required');
-        }
-        throw new Error(`Failed to fetch jobs: ${response.status} ${response.statusText}`);
-      }
-      
-      return response.json();
-    },
+function buildJobParams(filters: JobFilters, userLocation: {lat: number, lng: number} | null): URLSearchParams {
+  const params = new URLSearchParams();
+  
+  if (filters.search) params.append('search', filters.search);
+  if (filters.status?.length) params.append('status', filters.status.join(','));
+  if (filters.startDate) params.append('startDate', filters.startDate);
+  if (filters.endDate) params.append('endDate', filters.endDate);
+  if (filters.minValue) params.append('minValue', filters.minValue);
+  if (filters.maxValue) params.append('maxValue', filters.maxValue);
+  if (filters.temperature && filters.temperature.length > 0) {
+    params.append('temperature', filters.temperature.join(','));
+  } else if (filters.temperature && filters.temperature.length === 0 && filters.showUnvisited !== true) {
+    // Explicitly request no temperature matches when user deselects all temperatures
+    params.append('temperature', '__none__');
+  }
+  if (filters.hideCold === true) params.append('cold', 'false');
+  if (filters.county) params.append('county', filters.county);
+  if (filters.company) params.append('company', filters.company);
+  if (filters.showUnvisited === true) params.append('unvisited', 'true');
+  if (filters.showOffices === false) params.append('offices', 'false');
+  if (filters.showOffices === true) params.append('offices', 'true');
+  if (filters.territory) params.append('territory', filters.territory);
+  if (filters.limit) params.append('limit', filters.limit.toString());
+  
+  // "Near this job" wins over near me; location params only once we have a location
+  if (filters.nearJob) {
+    params.append('nearJob', filters.nearJob);
+  } else if (filters.nearMe && userLocation) {
+    params.append('nearLat', userLocation.lat.toString());
+    params.append('nearLng', userLocation.lng.toString());
+  }
+  if (filters.radius && (filters.nearJob || filters.nearMe)) {
+    params.append('radius', filters.radius.toString());
+  }
+  return params;
+}
+
+async function fetchJobs<T>(params: URLSearchParams): Promise<T> {
+  const url = `/api/jobs${params.toString() ? `?${params.toString()}` : ''}`;
+  const response = await fetch(url, {
+    headers: getAuthHeaders(),
+    credentials: 'include',
+  });
+  
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    throw new Error(`Failed to fetch jobs: ${response.status} ${response.statusText}`);
+  }
+  
+  return response.json();
+}
+
+export function useJobs(filters: JobFilters = {}) {
+  // Get user location if nearMe is enabled
+  const { userLocation, locationLoading } = useNearMeLocation(filters.nearMe);
+
+  return useQuery<JobWithDistance[]>({
+    queryKey: ['/api/jobs', filters, userLocation],
+    queryFn: () => fetchJobs<JobWithDistance[]>(buildJobParams(filters, userLocation)),
     staleTime: 5 * 60 * 1000, // 5 minutes
     refetchInterval: 10 * 60 * 1000, // 10 minutes
     // Wait for location if nearMe is enabled
@@ -107,6 +130,36 @@ export function useJobs(filters: JobFilters = {}) {
   });
 }
 
+export interface MapViewportParams {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+  zoom: number;
+}
+
+/**
+ * Clusters or jobs for the visible map area. The previous result stays on
+ * screen while the next pan or zoom loads.
+ */
+export function useJobMapViewport(filters: JobFilters, viewport: MapViewportParams | null) {
+  const { userLocation, locationLoading } = useNearMeLocation(filters.nearMe);
+
+  return useQuery<JobMapViewport>({
+    queryKey: ['/api/jobs', 'viewport', filters, userLocation, viewport],
+    queryFn: () => {
+      const params = buildJobParams(filters, userLocation);
+      const { west, south, east, north, zoom } = viewport!;
+      params.append('bbox', [west, south, east, north].map(value => value.toFixed(5)).join(','));
+      params.append('zoom', zoom.toString());
+      return fetchJobs<JobMapViewport>(params);
+    },
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000,
+    enabled: !!viewport && (!filters.nearMe || !locationLoading)
+  });
+}
+
 export function useSearchJobs(searchTerm: string) {
   return useQuery<Job[]>({
     queryKey: ['/api/jobs', 'dropdown-search', searchTerm],
@@ -173,3 +226,71 @@ export function useDetailedStats() {
     staleTime: 5 * 60 * 1000,
   });
 }
+
+export type JobHistoryEntry = JobHistory & { userEmail: string | null };
+
+export function useJobHistory(jobId: string | undefined, enabled = true) {
+  return useQuery<JobHistoryEntry[]>({
+    queryKey: ['/api/jobs', jobId, 'history'],
+    queryFn: async () => {
+      const response = await fetch(`/api/jobs/${jobId}/history`, {
+        headers: getAuthHeaders(),
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = '/login';
+          throw new Error('Authentication required');
+        }
+        throw new Error('Failed to fetch job history');
+      }
+      return response.json();
+    },
+    enabled: !!jobId && enabled,
+  });
+}
+
+async function sendJobUpdate<T>(url: string, body: unknown, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+  return response.json();
+}
+
+// Hand-placed pin; the server locks the coordinates and suggests the address at the new point
+export function useUpdateJobLocation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ jobId, latitude, longitude }: { jobId: string; latitude: number; longitude: number }) =>
+      sendJobUpdate<{ job: Job; suggestedAddress: string | null }>(
+        `/api/jobs/${jobId}/location`,
+        { latitude, longitude },
+        'Failed to update job location'
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+    },
+  });
+}
+
+export function useUpdateJobAddress() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ jobId, address }: { jobId: string; address: string }) =>
+      sendJobUpdate<Job>(`/api/jobs/${jobId}`, { address }, 'Failed to update job address'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+    },
+  });
+}
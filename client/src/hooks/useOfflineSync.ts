@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from "react";
+import { getSyncState, subscribeSync } from "@/lib/offlineSync";
+
+/**
+ * Connection status and the field changes waiting to sync.
+ */
+export function useOfflineSync() {
+  return useSyncExternalStore(subscribeSync, getSyncState);
+}
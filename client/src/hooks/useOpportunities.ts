@@ -0,0 +1,106 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Opportunity, OpportunityWithJob } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+
+export type OpportunityStage = Opportunity["stage"];
+
+export interface OpportunityInput {
+  stage?: OpportunityStage;
+  estimatedRevenue?: string | null;
+  probability?: number;
+  expectedCloseDate?: string | null;
+  lostReason?: string | null;
+}
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+  if (response.status === 204) return undefined as T;
+  return response.json();
+}
+
+function invalidatePipeline(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: ['/api/opportunities'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/stats/detailed'] });
+}
+
+export function useOpportunities() {
+  return useQuery<OpportunityWithJob[]>({
+    queryKey: ['/api/opportunities'],
+    queryFn: () => request<OpportunityWithJob[]>('/api/opportunities', {}, 'Failed to fetch opportunities'),
+  });
+}
+
+export function useJobOpportunity(jobId: string | undefined) {
+  return useQuery<Opportunity | null>({
+    queryKey: ['/api/jobs', jobId, 'opportunity'],
+    queryFn: () => request<Opportunity | null>(`/api/jobs/${jobId}/opportunity`, {}, 'Failed to fetch opportunity'),
+    enabled: !!jobId,
+  });
+}
+
+export function useSaveJobOpportunity(jobId: string | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: OpportunityInput) =>
+      request<Opportunity>(`/api/jobs/${jobId}/opportunity`, { method: 'PUT', body: JSON.stringify(data) }, 'Failed to save opportunity'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'opportunity'] });
+      invalidatePipeline(queryClient);
+    },
+  });
+}
+
+export function useUpdateOpportunity() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...updates }: OpportunityInput & { id: string }) =>
+      request<Opportunity>(`/api/opportunities/${id}`, { method: 'PATCH', body: JSON.stringify(updates) }, 'Failed to update opportunity'),
+    // Move the card right away so dragging between columns feels instant
+    onMutate: async ({ id, ...updates }) => {
+      await queryClient.cancelQueries({ queryKey: ['/api/opportunities'] });
+      const previous = queryClient.getQueryData<OpportunityWithJob[]>(['/api/opportunities']);
+      if (previous) {
+        queryClient.setQueryData<OpportunityWithJob[]>(
+          ['/api/opportunities'],
+          previous.map((opp) => (opp.id === id && updates.stage ? { ...opp, stage: updates.stage } : opp))
+        );
+      }
+      return { previous };
+    },
+    onError: (_error, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['/api/opportunities'], context.previous);
+      }
+    },
+    onSettled: (opportunity) => {
+      if (opportunity) {
+        queryClient.invalidateQueries({ queryKey: ['/api/jobs', opportunity.jobId, 'opportunity'] });
+      }
+      invalidatePipeline(queryClient);
+    },
+  });
+}
+
+export function useDeleteOpportunity() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      request<void>(`/api/opportunities/${id}`, { method: 'DELETE' }, 'Failed to remove opportunity'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      invalidatePipeline(queryClient);
+    },
+  });
+}
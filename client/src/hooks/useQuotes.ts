@@ -0,0 +1,112 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatQuoteNumber, type Quote, type QuoteLineItem, type QuoteWithLinks } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+
+export interface QuoteInput {
+  jobId: string;
+  contactId?: string | null;
+  lineItems: QuoteLineItem[];
+  notes?: string | null;
+  validUntil?: string | null;
+}
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+  if (response.status === 204) return undefined as T;
+  return response.json();
+}
+
+function invalidateJobQuotes(queryClient: ReturnType<typeof useQueryClient>, jobId: string) {
+  queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'quotes'] });
+}
+
+export function useJobQuotes(jobId: string | undefined) {
+  return useQuery<QuoteWithLinks[]>({
+    queryKey: ['/api/jobs', jobId, 'quotes'],
+    queryFn: () => request<QuoteWithLinks[]>(`/api/jobs/${jobId}/quotes`, {}, 'Failed to fetch quotes'),
+    enabled: !!jobId,
+  });
+}
+
+export function useCreateQuote() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: QuoteInput) =>
+      request<Quote>('/api/quotes', { method: 'POST', body: JSON.stringify(data) }, 'Failed to create quote'),
+    onSuccess: (quote) => invalidateJobQuotes(queryClient, quote.jobId),
+  });
+}
+
+export function useUpdateQuote() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...updates }: Partial<Omit<QuoteInput, 'jobId'>> & { id: string; status?: 'accepted' | 'declined' }) =>
+      request<Quote>(`/api/quotes/${id}`, { method: 'PATCH', body: JSON.stringify(updates) }, 'Failed to update quote'),
+    onSuccess: (quote) => invalidateJobQuotes(queryClient, quote.jobId),
+  });
+}
+
+export function useReviseQuote() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      request<Quote>(`/api/quotes/${id}/revise`, { method: 'POST' }, 'Failed to revise quote'),
+    onSuccess: (quote) => invalidateJobQuotes(queryClient, quote.jobId),
+  });
+}
+
+export function useSendQuote() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      request<Quote>(`/api/quotes/${id}/send`, { method: 'POST' }, 'Failed to send quote'),
+    onSuccess: (quote) => {
+      invalidateJobQuotes(queryClient, quote.jobId);
+      // Sending logs an email interaction and can advance the opportunity
+      queryClient.invalidateQueries({ queryKey: ['/api/interactions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/contacts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/crm/overview'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs', quote.jobId, 'opportunity'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/opportunities'] });
+    },
+  });
+}
+
+export function useDeleteQuote() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (quote: Quote) =>
+      request<void>(`/api/quotes/${quote.id}`, { method: 'DELETE' }, 'Failed to delete quote'),
+    onSuccess: (_data, quote) => invalidateJobQuotes(queryClient, quote.jobId),
+  });
+}
+
+export async function downloadQuotePdf(quote: Quote): Promise<void> {
+  const response = await fetch(`/api/quotes/${quote.id}/pdf`, {
+    headers: getAuthHeaders(),
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to download quote');
+  }
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `Quote-${formatQuoteNumber(quote).replace(/\s+/g, '-')}.pdf`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,66 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { RentalEquipment, RentalEquipmentPin, RentalEquipmentWithLinks } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+
+export interface RentalEquipmentLinksInput {
+  id: string;
+  companyId?: string | null;
+  jobId?: string | null;
+  unlock?: ("companyId" | "jobId")[];
+}
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+  return response.json();
+}
+
+export function useJobRentalEquipment(jobId: string | undefined) {
+  return useQuery<RentalEquipmentWithLinks[]>({
+    queryKey: ['/api/jobs', jobId, 'rental-equipment'],
+    queryFn: () =>
+      request<RentalEquipmentWithLinks[]>(`/api/jobs/${jobId}/rental-equipment`, {}, 'Failed to fetch job equipment'),
+    enabled: !!jobId,
+  });
+}
+
+export function useRentalEquipmentPins(enabled: boolean) {
+  return useQuery<RentalEquipmentPin[]>({
+    queryKey: ['/api/rental-equipment/locations'],
+    queryFn: () =>
+      request<RentalEquipmentPin[]>('/api/rental-equipment/locations', {}, 'Failed to fetch equipment locations'),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useUpdateRentalEquipmentLinks() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...links }: RentalEquipmentLinksInput) =>
+      request<RentalEquipment>(
+        `/api/rental-equipment/${id}/links`,
+        { method: 'PATCH', body: JSON.stringify(links) },
+        'Failed to update equipment links'
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rental-equipment'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/rental-equipment/locations'] });
+      // Any job's "on this site" list can change when a unit moves
+      queryClient.invalidateQueries({
+        predicate: (query) => query.queryKey[0] === '/api/jobs' && query.queryKey[2] === 'rental-equipment',
+      });
+    },
+  });
+}
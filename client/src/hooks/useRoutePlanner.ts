@@ -0,0 +1,54 @@
+import { useMutation } from "@tanstack/react-query";
+import { getAuthHeaders } from "@/lib/auth";
+
+export interface RouteStop {
+  jobId: string;
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  order: number;
+  legMiles: number;
+  cumulativeMiles: number;
+  eta: string;
+  departAt: string;
+}
+
+export interface PlannedRoute {
+  origin: { lat: number; lng: number };
+  stops: RouteStop[];
+  skipped: { jobId: string; name: string; reason: string }[];
+  totalMiles: number;
+  totalDriveMinutes: number;
+  finishAt: string | null;
+}
+
+export interface PlanRouteInput {
+  origin: { lat: number; lng: number };
+  jobIds: string[];
+  startTime?: string;
+  avgSpeedMph?: number;
+  minutesPerStop?: number;
+}
+
+export function usePlanRoute() {
+  return useMutation<PlannedRoute, Error, PlanRouteInput>({
+    mutationFn: async (input) => {
+      const response = await fetch('/api/routes/optimize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+        credentials: 'include',
+        body: JSON.stringify(input),
+      });
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = '/login';
+          throw new Error('Authentication required');
+        }
+        const error = await response.json().catch(() => ({ error: 'Failed to plan route' }));
+        throw new Error(error.error || 'Failed to plan route');
+      }
+      return response.json();
+    },
+  });
+}
@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SavedView, InsertSavedView, SavedViewFilters } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+
+const SAVED_VIEWS_KEY = ['/api/user/saved-views'];
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+  return response.json();
+}
+
+export function useSavedViews() {
+  return useQuery<SavedView[]>({
+    queryKey: SAVED_VIEWS_KEY,
+    queryFn: () => request<SavedView[]>('/api/user/saved-views', {}, 'Failed to fetch saved views'),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateSavedView() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (view: InsertSavedView) =>
+      request<SavedView>('/api/user/saved-views', { method: 'POST', body: JSON.stringify(view) }, 'Failed to save view'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SAVED_VIEWS_KEY });
+    },
+  });
+}
+
+export function useUpdateSavedView() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...updates }: Partial<InsertSavedView> & { id: string }) =>
+      request<SavedView>(`/api/user/saved-views/${id}`, { method: 'PATCH', body: JSON.stringify(updates) }, 'Failed to update view'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SAVED_VIEWS_KEY });
+    },
+  });
+}
+
+export function useDeleteSavedView() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      request<{ success: boolean }>(`/api/user/saved-views/${id}`, { method: 'DELETE' }, 'Failed to delete view'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SAVED_VIEWS_KEY });
+    },
+  });
+}
+
+export interface SharedView {
+  name?: string;
+  filters: SavedViewFilters;
+  search: string;
+}
+
+/**
+ * Build a dashboard URL that carries a view in the `view` query param, so it
+ * can be opened by anyone without the view being saved on their account.
+ */
+export function buildViewShareUrl(view: SharedView): string {
+  const payload = btoa(unescape(encodeURIComponent(JSON.stringify(view))));
+  return `${window.location.origin}/?view=${encodeURIComponent(payload)}`;
+}
+
+export function parseSharedView(search: string): SharedView | null {
+  const payload = new URLSearchParams(search).get('view');
+  if (!payload) return null;
+  try {
+    const view = JSON.parse(decodeURIComponent(escape(atob(payload))));
+    if (!view || typeof view !== 'object' || !view.filters || !Array.isArray(view.filters.status)) return null;
+    return { name: view.name, filters: view.filters, search: typeof view.search === 'string' ? view.search : '' };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,123 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SiteVisit, SiteVisitPhotoInfo, SiteVisitWithDetails } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+import { scaleImage } from "@/lib/images";
+
+// Photos are shrunk in the browser so uploads from a job site stay small
+const PHOTO_MAX_DIMENSION = 1600;
+const PHOTO_QUALITY = 0.8;
+
+export interface CheckInInput {
+  jobId: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+export interface CheckOutInput {
+  visitId: string;
+  notes?: string;
+  contactIds: string[];
+}
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+  return response.json();
+}
+
+export function useSiteVisits(jobId: string | undefined) {
+  return useQuery<SiteVisitWithDetails[]>({
+    queryKey: ['/api/jobs', jobId, 'site-visits'],
+    queryFn: () => request<SiteVisitWithDetails[]>(`/api/jobs/${jobId}/site-visits`, {}, 'Failed to fetch site visits'),
+    enabled: !!jobId,
+  });
+}
+
+export function useCheckIn() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ jobId, ...position }: CheckInInput) =>
+      request<SiteVisit>(`/api/jobs/${jobId}/check-in`, { method: 'POST', body: JSON.stringify(position) }, 'Failed to check in'),
+    // Checking in marks the job visited, so every job query refreshes along with the visit list
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+    },
+  });
+}
+
+export function useCheckOut(jobId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ visitId, ...checkOut }: CheckOutInput) =>
+      request<SiteVisit>(`/api/site-visits/${visitId}/check-out`, { method: 'POST', body: JSON.stringify(checkOut) }, 'Failed to check out'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'site-visits'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/contacts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/interactions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/crm/overview'] });
+    },
+  });
+}
+
+export function useUploadSiteVisitPhotos(jobId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ visitId, files }: { visitId: string; files: File[] }) => {
+      const formData = new FormData();
+      const shrunk = await Promise.all(files.map(file => scaleImage(file, PHOTO_MAX_DIMENSION, PHOTO_QUALITY)));
+      // Formats the browser can't decode are uploaded as they are
+      shrunk.forEach((file, i) => formData.append('photos', file ?? files[i]));
+      const response = await fetch(`/api/site-visits/${visitId}/photos`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        credentials: 'include',
+        body: formData,
+      });
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = '/login';
+          throw new Error('Authentication required');
+        }
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to upload photos');
+      }
+      return response.json() as Promise<SiteVisitPhotoInfo[]>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'site-visits'] });
+    },
+  });
+}
+
+/**
+ * Photos need the auth header, so they are loaded as blobs and shown through
+ * object URLs. Each URL is kept for the session rather than made again on
+ * every render of the visit list.
+ */
+export function useSiteVisitPhotoUrl(photoId: string) {
+  return useQuery<string>({
+    queryKey: ['/api/site-visit-photos', photoId],
+    queryFn: async () => {
+      const response = await fetch(`/api/site-visit-photos/${photoId}`, {
+        headers: getAuthHeaders(),
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to load photo');
+      return URL.createObjectURL(await response.blob());
+    },
+    staleTime: Infinity,
+    gcTime: Infinity,
+  });
+}
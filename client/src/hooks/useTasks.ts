@@ -0,0 +1,139 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Task, TaskWithLinks } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+
+export interface TaskFilters {
+  status?: "open" | "done" | "snoozed";
+  jobId?: string;
+  contactId?: string;
+  companyId?: string;
+  dueBefore?: string;
+  dueToday?: boolean; // Due by the end of today, worked out at each fetch
+  limit?: number;
+}
+
+// Due-today lists refetch on this interval so they roll over at midnight
+const DUE_TODAY_REFETCH_MS = 15 * 60 * 1000;
+
+export interface TaskInput {
+  title: string;
+  notes?: string | null;
+  dueDate: string;
+  priority?: "low" | "medium" | "high";
+  jobId?: string | null;
+  contactId?: string | null;
+  companyId?: string | null;
+}
+
+export function endOfToday(): Date {
+  const end = new Date();
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+export function useTasks(filters: TaskFilters = {}) {
+  return useQuery<TaskWithLinks[]>({
+    queryKey: ["/api/tasks", filters],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filters.status) params.append("status", filters.status);
+      if (filters.jobId) params.append("jobId", filters.jobId);
+      if (filters.contactId) params.append("contactId", filters.contactId);
+      if (filters.companyId) params.append("companyId", filters.companyId);
+      const dueBefore = filters.dueToday ? endOfToday().toISOString() : filters.dueBefore;
+      if (dueBefore) params.append("dueBefore", dueBefore);
+      if (filters.limit) params.append("limit", String(filters.limit));
+
+      const url = `/api/tasks${params.toString() ? `?${params.toString()}` : ""}`;
+      const response = await fetch(url, {
+        headers: getAuthHeaders(),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = "/login";
+          throw new Error("Authentication required");
+        }
+        throw new Error("Failed to fetch tasks");
+      }
+      return response.json();
+    },
+    refetchInterval: filters.dueToday ? DUE_TODAY_REFETCH_MS : false,
+  });
+}
+
+/**
+ * Ids of jobs with an open task due today or overdue, for badges on job cards.
+ */
+export function useJobIdsWithDueTasks() {
+  const { data: dueTasks = [] } = useTasks({ status: "open", dueToday: true });
+  return useMemo(
+    () => new Set(dueTasks.filter((t) => t.jobId).map((t) => t.jobId as string)),
+    [dueTasks]
+  );
+}
+
+export function useCreateTask() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: TaskInput) => {
+      const response = await fetch("/api/tasks", {
+        method: "POST",
+        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const err = await response.json();
+        throw new Error(err.error || "Failed to create task");
+      }
+      return response.json() as Promise<Task>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+}
+
+export function useUpdateTask() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<TaskInput> & { id: string; status?: Task["status"]; snoozedUntil?: string | null }) => {
+      const response = await fetch(`/api/tasks/${id}`, {
+        method: "PATCH",
+        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(updates),
+      });
+      if (!response.ok) {
+        const err = await response.json();
+        throw new Error(err.error || "Failed to update task");
+      }
+      return response.json() as Promise<Task>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+}
+
+export function useDeleteTask() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/tasks/${id}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to delete task");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+}
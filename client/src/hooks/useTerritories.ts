@@ -0,0 +1,71 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Territory, TerritoryPoint } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
+
+export interface TerritoryInput {
+  name: string;
+  color?: string;
+  polygon: TerritoryPoint[];
+  autoTagImports?: boolean;
+}
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      window.location.href = '/login';
+      throw new Error('Authentication required');
+    }
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+export function useTerritories() {
+  return useQuery<Territory[]>({
+    queryKey: ['/api/territories'],
+    queryFn: () => request<Territory[]>('/api/territories', {}, 'Failed to fetch territories'),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateTerritory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (territory: TerritoryInput) =>
+      request<Territory>('/api/territories', { method: 'POST', body: JSON.stringify(territory) }, 'Failed to save territory'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/territories'] });
+    },
+  });
+}
+
+export function useUpdateTerritory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...updates }: Partial<TerritoryInput> & { id: string }) =>
+      request<Territory>(`/api/territories/${id}`, { method: 'PATCH', body: JSON.stringify(updates) }, 'Failed to update territory'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/territories'] });
+      // A reshaped territory changes which jobs the territory filter matches
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+    },
+  });
+}
+
+export function useDeleteTerritory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      request<void>(`/api/territories/${id}`, { method: 'DELETE' }, 'Failed to delete territory'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/territories'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+    },
+  });
+}
@@ -1,3 +1,5 @@
+import { clearOfflineData } from './offlineSync';
+
 const TOKEN_KEY = 'auth_token';
 
 export function getToken(): string | null {
@@ -40,7 +42,9 @@ export async function login(email: string, password: string): Promise<{ success:
   }
 }
 
-export function logout(): void {
+export async function logout(): Promise<void> {
+  // Cached jobs and unsent changes belong to the user logging out
+  await clearOfflineData();
   removeToken();
   window.location.href = '/login';
 }
@@ -0,0 +1,59 @@
+// IndexedDB storage for field mode: cached query data and the outbox of
+// changes waiting to sync. Both stores key records by their `id`.
+
+const DB_NAME = 'field-mode';
+const DB_VERSION = 1;
+
+export type OfflineStoreName = 'queries' | 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('queries')) db.createObjectStore('queries', { keyPath: 'id' });
+        if (!db.objectStoreNames.contains('outbox')) db.createObjectStore('outbox', { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  name: OfflineStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(name, mode);
+    const request = run(transaction.objectStore(name));
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function getAllRecords<T>(name: OfflineStoreName): Promise<T[]> {
+  return withStore<T[]>(name, 'readonly', store => store.getAll());
+}
+
+export async function deleteRecord(name: OfflineStoreName, id: string): Promise<void> {
+  await withStore(name, 'readwrite', store => { store.delete(id); });
+}
+
+export async function putRecords<T extends { id: string }>(name: OfflineStoreName, records: T[]): Promise<void> {
+  await withStore(name, 'readwrite', store => { records.forEach(record => store.put(record)); });
+}
+
+export async function clearRecords(name: OfflineStoreName): Promise<void> {
+  await withStore(name, 'readwrite', store => { store.clear(); });
+}
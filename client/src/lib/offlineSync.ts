@@ -0,0 +1,373 @@
+import type { Query, QueryKey } from "@tanstack/react-query";
+import type { Job, OfflineConflict } from "@shared/schema";
+import { queryClient } from "./queryClient";
+import { getAuthHeaders } from "./auth";
+import { getAllRecords, putRecords, deleteRecord, clearRecords } from "./offlineStore";
+
+// Field mode: the data reps need on a job site is kept in IndexedDB so the
+// dashboard opens without signal, and field changes made offline wait in an
+// outbox that is replayed against the normal routes once the connection is back.
+
+// Map viewports and search-as-you-type results are not kept; offline the map
+// draws the cached job list instead
+const PERSISTED_QUERY_ROOTS = new Set([
+  '/api/jobs',
+  '/api/contacts',
+  '/api/territories',
+  '/api/saved-views',
+  '/api/stats',
+  '/api/user/filter-preferences',
+]);
+const SKIPPED_JOB_QUERIES = new Set(['viewport', 'dropdown-search']);
+const PERSIST_DEBOUNCE_MS = 1000;
+const MAX_CACHE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface PersistedQuery {
+  id: string;
+  queryKey: QueryKey;
+  data: unknown;
+  updatedAt: number;
+}
+
+export interface OutboxEntry {
+  id: string;
+  method: 'POST' | 'PUT' | 'PATCH';
+  url: string;
+  body: Record<string, unknown>;
+  description: string;
+  jobId?: string;
+  queuedAt: string;
+  // Set when the server turned the change down on replay; it waits for the rep to decide
+  failure?: {
+    message: string;
+    conflict?: OfflineConflict;
+  };
+}
+
+export interface SyncState {
+  online: boolean;
+  syncing: boolean;
+  pending: OutboxEntry[];
+  failed: OutboxEntry[];
+}
+
+export interface FieldChange {
+  method: OutboxEntry['method'];
+  url: string;
+  body?: Record<string, unknown>;
+  description: string;
+  jobId?: string;
+  // The values the rep saw before editing; the server checks them on replay
+  base?: Partial<Job>;
+  // Applied to cached copies of the job when the change is queued
+  optimistic?: Partial<Job>;
+}
+
+export type FieldChangeResult<T> = { queued: true } | { queued: false; data: T };
+
+let entries: OutboxEntry[] = [];
+let state: SyncState = { online: navigator.onLine, syncing: false, pending: [], failed: [] };
+const listeners = new Set<() => void>();
+
+function emit(changes: Partial<SyncState> = {}) {
+  state = {
+    ...state,
+    ...changes,
+    pending: entries.filter(entry => !entry.failure),
+    failed: entries.filter(entry => entry.failure),
+  };
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeSync(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getSyncState(): SyncState {
+  return state;
+}
+
+async function saveEntry(entry: OutboxEntry) {
+  const index = entries.findIndex(existing => existing.id === entry.id);
+  entries = index === -1
+    ? [...entries, entry]
+    : entries.map(existing => (existing.id === entry.id ? entry : existing));
+  emit();
+  await putRecords('outbox', [entry]);
+}
+
+async function removeEntry(id: string) {
+  entries = entries.filter(entry => entry.id !== id);
+  emit();
+  await deleteRecord('outbox', id);
+}
+
+function sendRequest(method: string, url: string, body: Record<string, unknown>): Promise<Response> {
+  return fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+    credentials: 'include',
+    body: JSON.stringify(body),
+  });
+}
+
+function patchJob(value: unknown, jobId: string, patch: Partial<Job>): unknown {
+  if (Array.isArray(value)) return value.map(item => patchJob(item, jobId, patch));
+  if (value && typeof value === 'object' && (value as Job).id === jobId) return { ...value, ...patch };
+  return value;
+}
+
+/**
+ * Show a queued change on every cached copy of the job until it syncs.
+ */
+function patchCachedJob(jobId: string, patch: Partial<Job>) {
+  queryClient.setQueriesData({ queryKey: ['/api/jobs'] }, (old: unknown) => patchJob(old, jobId, patch));
+}
+
+async function queueChange(change: FieldChange) {
+  // PUT and PATCH set a value, so a later edit replaces an earlier one still
+  // waiting. It keeps the earlier snapshot: that is what the server had before
+  // any of the offline edits. POSTs each create something and always queue.
+  const existing = change.method === 'POST'
+    ? undefined
+    : entries.find(entry => !entry.failure && entry.method === change.method && entry.url === change.url);
+  const base = existing?.body.offlineBase ?? change.base;
+
+  await saveEntry({
+    id: existing?.id ?? crypto.randomUUID(),
+    method: change.method,
+    url: change.url,
+    body: { ...change.body, ...(base ? { offlineBase: base } : {}) },
+    description: change.description,
+    jobId: change.jobId,
+    queuedAt: existing?.queuedAt ?? new Date().toISOString(),
+  });
+  if (change.jobId && change.optimistic) {
+    patchCachedJob(change.jobId, change.optimistic);
+  }
+}
+
+/**
+ * Send a field change now, or queue it when there is no connection. Server
+ * errors are thrown as usual; only a request that never got through is queued.
+ */
+export async function sendOrQueue<T = unknown>(change: FieldChange): Promise<FieldChangeResult<T>> {
+  if (navigator.onLine) {
+    let response: Response | null = null;
+    try {
+      response = await sendRequest(change.method, change.url, change.body ?? {});
+    } catch (error) {
+      // fetch rejects with a TypeError when the request never reached the server
+      if (!(error instanceof TypeError)) throw error;
+    }
+    if (response) {
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = '/login';
+          throw new Error('Authentication required');
+        }
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to save: ${response.status}`);
+      }
+      return { queued: false, data: await response.json() };
+    }
+  }
+  await queueChange(change);
+  return { queued: true };
+}
+
+let replaying: Promise<void> | null = null;
+
+async function runReplay() {
+  const queue = entries.filter(entry => !entry.failure);
+  if (queue.length === 0 || !navigator.onLine) return;
+
+  emit({ syncing: true });
+  let settled = 0;
+  for (const entry of queue) {
+    let response: Response;
+    try {
+      response = await sendRequest(entry.method, entry.url, entry.body);
+    } catch {
+      // Signal dropped again; the rest waits for the next try
+      break;
+    }
+    if (response.status === 401) {
+      window.location.href = '/login';
+      break;
+    }
+    // Server trouble is not the rep's problem to resolve; try again later
+    if (response.status >= 500) break;
+
+    settled++;
+    if (response.ok) {
+      await removeEntry(entry.id);
+    } else {
+      const body = await response.json().catch(() => ({}));
+      await saveEntry({
+        ...entry,
+        failure: {
+          message: body.error || `Could not be saved (${response.status})`,
+          conflict: response.status === 409 ? body : undefined,
+        },
+      });
+    }
+  }
+  // Synced changes may have moved jobs between filters, stats and contact timelines
+  if (settled > 0) {
+    queryClient.invalidateQueries();
+  }
+}
+
+/**
+ * Send everything waiting in the outbox, oldest first. Calls while a replay
+ * is running share it.
+ */
+export function replayOutbox(): Promise<void> {
+  if (!replaying) {
+    replaying = runReplay()
+      .catch(error => console.error('Error syncing offline changes:', error))
+      .finally(() => {
+        replaying = null;
+        emit({ syncing: false });
+      });
+  }
+  return replaying;
+}
+
+/**
+ * Settle a change the server turned down: "keep" sends it again without the
+ * conflict check so it overwrites the other edit, "discard" drops it.
+ */
+export async function resolveFailedChange(id: string, resolution: 'keep' | 'discard'): Promise<void> {
+  const entry = entries.find(existing => existing.id === id);
+  if (!entry) return;
+
+  if (resolution === 'discard') {
+    await removeEntry(id);
+    // Undo the optimistic copy
+    if (entry.jobId) queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+    return;
+  }
+  const { offlineBase: _base, ...body } = entry.body;
+  await saveEntry({ ...entry, body, failure: undefined });
+  await replayOutbox();
+}
+
+function isPersistedQuery(query: Query): boolean {
+  const [root, second] = query.queryKey;
+  if (typeof root !== 'string' || !PERSISTED_QUERY_ROOTS.has(root)) return false;
+  if (root === '/api/jobs' && typeof second === 'string' && SKIPPED_JOB_QUERIES.has(second)) return false;
+  return query.state.status === 'success' && query.state.data !== undefined;
+}
+
+const dirtyQueries = new Map<string, Query>();
+let persistTimer: ReturnType<typeof setTimeout> | undefined;
+
+function schedulePersist(query: Query) {
+  dirtyQueries.set(query.queryHash, query);
+  clearTimeout(persistTimer);
+  persistTimer = setTimeout(() => {
+    const records: PersistedQuery[] = Array.from(dirtyQueries.values()).map(dirty => ({
+      id: dirty.queryHash,
+      queryKey: dirty.queryKey,
+      data: dirty.state.data,
+      updatedAt: dirty.state.dataUpdatedAt,
+    }));
+    dirtyQueries.clear();
+    putRecords('queries', records).catch(error => console.error('Error saving offline data:', error));
+  }, PERSIST_DEBOUNCE_MS);
+}
+
+async function hydrateQueries() {
+  const records = await getAllRecords<PersistedQuery>('queries');
+  const cutoff = Date.now() - MAX_CACHE_AGE_MS;
+  for (const record of records) {
+    if (record.updatedAt < cutoff) {
+      void deleteRecord('queries', record.id);
+      continue;
+    }
+    // The app is already running, so a query may have loaded fresh data first
+    const current = queryClient.getQueryState(record.queryKey);
+    if (current && current.dataUpdatedAt >= record.updatedAt) continue;
+    queryClient.setQueryData(record.queryKey, record.data, { updatedAt: record.updatedAt });
+    // Cached data covers the time without signal; online, each query still loads fresh on first use
+    if (navigator.onLine) {
+      void queryClient.invalidateQueries({ queryKey: record.queryKey, exact: true, refetchType: 'none' });
+    }
+  }
+}
+
+/**
+ * Load cached data and the outbox, then keep both in step. Call once, after
+ * the first render so opening the app never waits on IndexedDB; cached
+ * queries fill in as soon as they're read.
+ */
+export async function startOfflineSync(): Promise<void> {
+  try {
+    await hydrateQueries();
+    const stored = await getAllRecords<OutboxEntry>('outbox');
+    entries = stored.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+    emit();
+  } catch (error) {
+    // Some private browsing modes refuse IndexedDB; the app still works online
+    console.error('Offline storage unavailable:', error);
+  }
+
+  queryClient.getQueryCache().subscribe(event => {
+    if (event.type === 'updated' && event.action.type === 'success' && isPersistedQuery(event.query)) {
+      schedulePersist(event.query);
+    }
+  });
+  window.addEventListener('online', () => {
+    emit({ online: true });
+    void replayOutbox();
+  });
+  window.addEventListener('offline', () => emit({ online: false }));
+  void replayOutbox();
+}
+
+/**
+ * Forget cached data and unsent changes, e.g. on logout.
+ */
+export async function clearOfflineData(): Promise<void> {
+  entries = [];
+  emit();
+  dirtyQueries.clear();
+  clearTimeout(persistTimer);
+  await Promise.all([clearRecords('queries'), clearRecords('outbox')]);
+}
+
+/**
+ * Ask the service worker to download map tiles so an area can be viewed
+ * without signal. Resolves with how many tiles were saved.
+ */
+export function saveMapTiles(urls: string[]): Promise<number> {
+  const worker = navigator.serviceWorker?.controller;
+  if (!worker) {
+    return Promise.reject(new Error('Offline maps are not available until the app has been reloaded once'));
+  }
+  return new Promise(resolve => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== 'tiles-cached') return;
+      navigator.serviceWorker.removeEventListener('message', handleMessage);
+      resolve(event.data.saved);
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    worker.postMessage({ type: 'cache-tiles', urls });
+  });
+}
+
+/**
+ * Register the field mode service worker. Production only: in development
+ * Vite serves modules that must not be cached.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
@@ -1,5 +1,11 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { registerServiceWorker, startOfflineSync } from "./lib/offlineSync";
 import "./index.css";
 
+registerServiceWorker();
+
 createRoot(document.getElementById("root")!).render(<App />);
+
+// Cached field data fills in once read, so the dashboard still opens without signal
+void startOfflineSync();
@@ -1,4 +1,5 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useJobStats, useDetailedStats } from "@/hooks/useJobs";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -10,7 +11,13 @@ import {
   TrendingUp,
   CalendarDays,
   BarChart3,
+  Target,
+  Trophy,
+  Truck,
+  Clock,
+  Timer,
 } from "lucide-react";
+import type { EquipmentAnalytics, TerritoryStats } from "@shared/schema";
 import { Link } from "wouter";
 import {
   BarChart,
@@ -44,6 +51,14 @@ const STATUS_COLORS: Record<string, string> = {
   pending: "#8b5cf6",
 };
 
+const STAGE_COLORS: Record<string, string> = {
+  prospect: "#94a3b8",
+  quoted: "#3b82f6",
+  negotiating: "#f59e0b",
+  won: "#22c55e",
+  lost: "#ef4444",
+};
+
 const TYPE_COLORS: Record<string, string> = {
   commercial: "#3b82f6",
   residential: "#f59e0b",
@@ -130,10 +145,160 @@ function CustomTooltip({ active, payload, label }: any) {
   );
 }
 
+// Shows unit counts and average days alongside revenue for fleet charts
+function FleetTooltip({ active, payload, label }: any) {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+  return (
+    <div className="bg-white px-3 py-2 rounded-lg shadow-lg border border-gray-100 text-sm">
+      <p className="font-medium text-gray-900">{label}</p>
+      <p className="text-xs mt-0.5 text-gray-700">Monthly revenue: ${point.revenue.toLocaleString()}</p>
+      <p className="text-xs mt-0.5 text-gray-500">Units: {point.units}</p>
+      {point.avgDays != null && <p className="text-xs mt-0.5 text-gray-500">Avg days on rent: {point.avgDays}</p>}
+    </div>
+  );
+}
+
+function FleetAnalytics() {
+  const { data: fleet, isLoading: loading } = useQuery<EquipmentAnalytics>({
+    queryKey: ["/api/rental-equipment/analytics"],
+  });
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 md:px-6 py-6 space-y-6">
+      {/* KPI Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <KpiCard
+          label="Units on Rent"
+          value={fleet?.unitsOnRent?.toLocaleString() ?? "—"}
+          icon={Truck}
+          color="#3b82f6"
+          loading={loading}
+        />
+        <KpiCard
+          label="Monthly Rental Revenue"
+          value={fleet ? formatCurrency(fleet.monthlyRevenue) : "—"}
+          icon={DollarSign}
+          color="#22c55e"
+          loading={loading}
+        />
+        <KpiCard
+          label="Avg Days on Rent"
+          value={fleet?.avgDaysOnRent?.toLocaleString() ?? "—"}
+          icon={Clock}
+          color="#f59e0b"
+          loading={loading}
+        />
+        <KpiCard
+          label="Long Rentals"
+          value={fleet?.longRentUnits?.length.toLocaleString() ?? "—"}
+          icon={Timer}
+          color="#ef4444"
+          subtitle="At or near 90 / 180 / 365 days"
+          loading={loading}
+        />
+      </div>
+
+      {/* Revenue Trend */}
+      <ChartCard title="On-Rent Revenue Over Time">
+        {loading ? (
+          <Skeleton className="h-[260px] w-full rounded-lg" />
+        ) : (fleet?.revenueTrend.length ?? 0) < 2 ? (
+          <p className="text-sm text-gray-400 text-center py-16">
+            The trend fills in as daily equipment reports are processed.
+          </p>
+        ) : (
+          <ResponsiveContainer width="100%" height={260}>
+            <AreaChart data={fleet?.revenueTrend ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+              <defs>
+                <linearGradient id="colorFleetRevenue" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#22c55e" stopOpacity={0.15} />
+                  <stop offset="95%" stopColor="#22c55e" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="date" tick={{ fontSize: 11, fill: "#9ca3af" }} />
+              <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} tickFormatter={(v) => formatCurrency(v)} />
+              <Tooltip content={<FleetTooltip />} />
+              <Area
+                type="monotone"
+                dataKey="revenue"
+                name="Monthly Revenue"
+                stroke="#22c55e"
+                strokeWidth={2}
+                fill="url(#colorFleetRevenue)"
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        )}
+      </ChartCard>
+
+      {/* Revenue by Customer + Model Family */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {([
+          { title: "Monthly Revenue by Customer (Top 10)", data: fleet?.revenueByCustomer, color: "#6366f1" },
+          { title: "Monthly Revenue by Model Family (Top 10)", data: fleet?.revenueByModelFamily, color: "#14b8a6" },
+        ]).map((chart) => (
+          <ChartCard key={chart.title} title={chart.title}>
+            {loading ? (
+              <Skeleton className="h-[300px] w-full rounded-lg" />
+            ) : !chart.data?.length ? (
+              <p className="text-sm text-gray-400 text-center py-16">No equipment on rent</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={chart.data} layout="vertical" margin={{ top: 0, right: 20, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" horizontal={false} />
+                  <XAxis type="number" tick={{ fontSize: 11, fill: "#9ca3af" }} tickFormatter={(v) => formatCurrency(v)} />
+                  <YAxis type="category" dataKey="name" width={110} tick={{ fontSize: 11, fill: "#6b7280" }} />
+                  <Tooltip content={<FleetTooltip />} />
+                  <Bar dataKey="revenue" name="Monthly Revenue" fill={chart.color} radius={[0, 4, 4, 0]} barSize={16} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </ChartCard>
+        ))}
+      </div>
+
+      {/* Long rentals */}
+      <ChartCard title="Long Rentals">
+        {loading ? (
+          <Skeleton className="h-[160px] w-full rounded-lg" />
+        ) : !fleet?.longRentUnits.length ? (
+          <p className="text-sm text-gray-400 text-center py-4">No units near a long-rent mark</p>
+        ) : (
+          <div className="divide-y divide-gray-100 max-h-[360px] overflow-y-auto">
+            {fleet.longRentUnits.map((unit) => (
+              <div key={unit.id} className="flex items-center gap-3 py-2">
+                <span className="font-mono text-sm font-semibold text-blue-700 w-24 flex-shrink-0">{unit.equipmentNumber}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-700 truncate">{unit.model}</p>
+                  <p className="text-xs text-gray-400 truncate">{unit.customer || "Unknown customer"}</p>
+                </div>
+                <span className="text-xs text-gray-500 flex-shrink-0">
+                  {unit.monthlyRate != null ? `$${unit.monthlyRate.toLocaleString()}/mo` : "—"}
+                </span>
+                <div className="text-right w-32 flex-shrink-0">
+                  <p className="text-sm font-semibold text-gray-900">{unit.daysOnRent} days</p>
+                  <p className={`text-xs ${unit.daysToThreshold > 0 ? "text-amber-600" : "text-red-600"}`}>
+                    {unit.daysToThreshold > 0
+                      ? `${unit.threshold}-day mark in ${unit.daysToThreshold}d`
+                      : `Past ${unit.threshold} days`}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </ChartCard>
+    </div>
+  );
+}
+
 export default function Analytics() {
   const { data: stats, isLoading: statsLoading } = useJobStats();
   const { data: detailed, isLoading: detailedLoading } = useDetailedStats();
   const loading = statsLoading || detailedLoading;
+  const [view, setView] = useState<"jobs" | "fleet">("jobs");
 
   const visitRate = useMemo(() => {
     if (!detailed?.visitCoverage) return 0;
@@ -156,504 +321,586 @@ export default function Analytics() {
               <div className="w-px h-6 bg-gray-200" />
               <h1 className="text-lg font-semibold text-gray-900 tracking-tight">Analytics</h1>
             </div>
+            <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
+              {([
+                { value: "jobs", label: "Jobs" },
+                { value: "fleet", label: "Fleet" },
+              ] as const).map((option) => (
+                <Button
+                  key={option.value}
+                  variant="ghost"
+                  size="sm"
+                  className={`h-7 px-3 rounded-md ${view === option.value ? "bg-white shadow-sm text-gray-900" : "text-gray-500"}`}
+                  onClick={() => setView(option.value)}
+                  data-testid={`analytics-view-${option.value}`}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
           </div>
         </div>
       </header>
 
-      <div className="max-w-7xl mx-auto px-4 md:px-6 py-6 space-y-6">
-        {/* KPI Cards */}
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
-          <KpiCard
-            label="Total Jobs"
-            value={stats?.totalJobs?.toLocaleString() ?? "—"}
-            icon={Briefcase}
-            color="#3b82f6"
-            loading={loading}
-          />
-          <KpiCard
-            label="Pipeline Value"
-            value={stats?.totalValue ? formatCurrency(stats.totalValue) : "—"}
-            icon={DollarSign}
-            color="#22c55e"
-            loading={loading}
-          />
-          <KpiCard
-            label="Visit Rate"
-            value={`${visitRate}%`}
-            icon={Eye}
-            color="#8b5cf6"
-            subtitle={detailed ? `${detailed.visitCoverage.visited} of ${detailed.visitCoverage.visited + detailed.visitCoverage.unvisited}` : undefined}
-            loading={loading}
-          />
-          <KpiCard
-            label="Active Jobs"
-            value={stats?.activeJobs?.toLocaleString() ?? "—"}
-            icon={TrendingUp}
-            color="#f59e0b"
-            loading={loading}
-          />
-          <KpiCard
-            label="Avg Job Value"
-            value={detailed?.avgJobValue ? formatCurrency(detailed.avgJobValue) : "—"}
-            icon={BarChart3}
-            color="#6366f1"
-            loading={loading}
-          />
-          <KpiCard
-            label="Jobs This Month"
-            value={detailed?.jobsThisMonth?.toLocaleString() ?? "—"}
-            icon={CalendarDays}
-            color="#14b8a6"
-            loading={loading}
-          />
-        </div>
-
-        {/* Charts Row 1 */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          {/* Jobs by County */}
-          <ChartCard title="Jobs by County (Top 15)">
-            {loading ? (
-              <Skeleton className="h-[300px] w-full rounded-lg" />
-            ) : (
-              <ResponsiveContainer width="100%" height={300}>
-                <BarChart
-                  data={detailed?.jobsByCounty ?? []}
-                  layout="vertical"
-                  margin={{ top: 0, right: 20, left: 0, bottom: 0 }}
-                >
-                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" horizontal={false} />
-                  <XAxis type="number" tick={{ fontSize: 11, fill: "#9ca3af" }} />
-                  <YAxis
-                    type="category"
-                    dataKey="name"
-                    width={110}
-                    tick={{ fontSize: 11, fill: "#6b7280" }}
-                  />
-                  <Tooltip content={<CustomTooltip />} />
-                  <Bar dataKey="count" name="Jobs" fill="#3b82f6" radius={[0, 4, 4, 0]} barSize={16} />
-                </BarChart>
-              </ResponsiveContainer>
-            )}
-          </ChartCard>
-
-          {/* Temperature Distribution */}
-          <ChartCard title="Temperature Distribution">
-            {loading ? (
-              <Skeleton className="h-[300px] w-full rounded-lg" />
-            ) : (
-              <div className="flex items-center">
-                <ResponsiveContainer width="60%" height={300}>
-                  <PieChart>
-                    <Pie
-                      data={detailed?.jobsByTemperature?.filter((d: any) => d.count > 0) ?? []}
-                      cx="50%"
-                      cy="50%"
-                      innerRadius={60}
-                      outerRadius={100}
-                      paddingAngle={3}
-                      dataKey="count"
-                      nameKey="name"
-                    >
-                      {(detailed?.jobsByTemperature ?? []).filter((d: any) => d.count > 0).map((entry: any) => (
-                        <Cell key={entry.name} fill={TEMP_COLORS[entry.name] || "#94a3b8"} />
-                      ))}
-                    </Pie>
-                    <Tooltip content={<CustomTooltip />} />
-                  </PieChart>
-                </ResponsiveContainer>
-                <div className="flex-1 space-y-3 pl-2">
-                  {(detailed?.jobsByTemperature ?? []).filter((d: any) => d.count > 0).map((entry: any) => (
-                    <div key={entry.name} className="flex items-center gap-2">
-                      <div
-                        className="h-3 w-3 rounded-full flex-shrink-0"
-                        style={{ backgroundColor: TEMP_COLORS[entry.name] || "#94a3b8" }}
-                      />
-                      <span className="text-sm text-gray-600 capitalize">{entry.name}</span>
-                      <span className="text-sm font-semibold text-gray-900 ml-auto">{entry.count}</span>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-          </ChartCard>
-        </div>
-
-        {/* Charts Row 2 */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          {/* Jobs Over Time */}
-          <ChartCard title="Jobs Added Over Time">
-            {loading ? (
-              <Skeleton className="h-[260px] w-full rounded-lg" />
-            ) : (
-              <ResponsiveContainer width="100%" height={260}>
-                <AreaChart data={detailed?.monthlyJobs ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
-                  <defs>
-                    <linearGradient id="colorCount" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.15} />
-                      <stop offset="95%" stopColor="#3b82f6" stopOpacity={0} />
-                    </linearGradient>
-                  </defs>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                  <XAxis dataKey="month" tick={{ fontSize: 11, fill: "#9ca3af" }} />
-                  <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} />
-                  <Tooltip content={<CustomTooltip />} />
-                  <Area
-                    type="monotone"
-                    dataKey="count"
-                    name="Jobs"
-                    stroke="#3b82f6"
-                    strokeWidth={2}
-                    fill="url(#colorCount)"
-                  />
-                </AreaChart>
-              </ResponsiveContainer>
-            )}
-          </ChartCard>
+      {view === "fleet" ? (
+        <FleetAnalytics />
+      ) : (
+        <div className="max-w-7xl mx-auto px-4 md:px-6 py-6 space-y-6">
+          {/* KPI Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <KpiCard
+              label="Total Jobs"
+              value={stats?.totalJobs?.toLocaleString() ?? "—"}
+              icon={Briefcase}
+              color="#3b82f6"
+              loading={loading}
+            />
+            <KpiCard
+              label="Dodge Project Value"
+              value={stats?.totalValue ? formatCurrency(stats.totalValue) : "—"}
+              icon={DollarSign}
+              color="#22c55e"
+              loading={loading}
+            />
+            <KpiCard
+              label="Weighted Pipeline"
+              value={detailed ? formatCurrency(detailed.weightedPipeline) : "—"}
+              icon={Target}
+              color="#0ea5e9"
+              subtitle={detailed ? `of ${formatCurrency(detailed.openPipelineValue)} open revenue` : undefined}
+              loading={loading}
+            />
+            <KpiCard
+              label="Win Rate"
+              value={detailed ? `${detailed.winRate}%` : "—"}
+              icon={Trophy}
+              color="#10b981"
+              subtitle={detailed ? `${formatCurrency(detailed.wonRevenue)} won` : undefined}
+              loading={loading}
+            />
+            <KpiCard
+              label="Visit Rate"
+              value={`${visitRate}%`}
+              icon={Eye}
+              color="#8b5cf6"
+              subtitle={detailed ? `${detailed.visitCoverage.visited} of ${detailed.visitCoverage.visited + detailed.visitCoverage.unvisited}` : undefined}
+              loading={loading}
+            />
+            <KpiCard
+              label="Active Jobs"
+              value={stats?.activeJobs?.toLocaleString() ?? "—"}
+              icon={TrendingUp}
+              color="#f59e0b"
+              loading={loading}
+            />
+            <KpiCard
+              label="Avg Job Value"
+              value={detailed?.avgJobValue ? formatCurrency(detailed.avgJobValue) : "—"}
+              icon={BarChart3}
+              color="#6366f1"
+              loading={loading}
+            />
+            <KpiCard
+              label="Jobs This Month"
+              value={detailed?.jobsThisMonth?.toLocaleString() ?? "—"}
+              icon={CalendarDays}
+              color="#14b8a6"
+              loading={loading}
+            />
+          </div>
 
-          {/* Pipeline Value by Status */}
-          <ChartCard title="Pipeline Value by Status">
+          {/* Opportunity Pipeline */}
+          <ChartCard title="Opportunity Pipeline by Stage">
             {loading ? (
               <Skeleton className="h-[260px] w-full rounded-lg" />
             ) : (
               <ResponsiveContainer width="100%" height={260}>
-                <BarChart data={detailed?.pipelineByStatus?.filter((d: any) => d.value > 0) ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+                <BarChart data={detailed?.pipelineByStage ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
                   <XAxis dataKey="name" tick={{ fontSize: 11, fill: "#9ca3af" }} />
                   <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} tickFormatter={(v) => formatCurrency(v)} />
                   <Tooltip content={<CustomTooltip />} />
-                  <Bar dataKey="value" name="Pipeline Value" radius={[4, 4, 0, 0]} barSize={48}>
-                    {(detailed?.pipelineByStatus ?? []).filter((d: any) => d.value > 0).map((entry: any) => (
-                      <Cell key={entry.name} fill={STATUS_COLORS[entry.name] || "#94a3b8"} />
+                  <Bar dataKey="value" name="Est. Revenue" radius={[4, 4, 0, 0]} barSize={40}>
+                    {(detailed?.pipelineByStage ?? []).map((entry: any) => (
+                      <Cell key={entry.name} fill={STAGE_COLORS[entry.name] || "#94a3b8"} fillOpacity={0.35} />
+                    ))}
+                  </Bar>
+                  <Bar dataKey="weighted" name="Weighted" radius={[4, 4, 0, 0]} barSize={40}>
+                    {(detailed?.pipelineByStage ?? []).map((entry: any) => (
+                      <Cell key={entry.name} fill={STAGE_COLORS[entry.name] || "#94a3b8"} />
                     ))}
                   </Bar>
                 </BarChart>
               </ResponsiveContainer>
             )}
           </ChartCard>
-        </div>
 
-        {/* Row 3: Jobs by Type + Jobs by Status */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          <ChartCard title="Jobs by Type">
-            {loading ? (
-              <Skeleton className="h-[300px] w-full rounded-lg" />
-            ) : (
-              <div className="flex items-center">
-                <ResponsiveContainer width="60%" height={300}>
-                  <PieChart>
-                    <Pie
-                      data={detailed?.jobsByType?.filter((d: any) => d.count > 0) ?? []}
-                      cx="50%"
-                      cy="50%"
-                      innerRadius={60}
-                      outerRadius={100}
-                      paddingAngle={3}
-                      dataKey="count"
-                      nameKey="name"
-                    >
-                      {(detailed?.jobsByType ?? []).filter((d: any) => d.count > 0).map((entry: any) => (
-                        <Cell key={entry.name} fill={TYPE_COLORS[entry.name] || "#94a3b8"} />
-                      ))}
-                    </Pie>
+          {/* Charts Row 1 */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {/* Jobs by County */}
+            <ChartCard title="Jobs by County (Top 15)">
+              {loading ? (
+                <Skeleton className="h-[300px] w-full rounded-lg" />
+              ) : (
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart
+                    data={detailed?.jobsByCounty ?? []}
+                    layout="vertical"
+                    margin={{ top: 0, right: 20, left: 0, bottom: 0 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" horizontal={false} />
+                    <XAxis type="number" tick={{ fontSize: 11, fill: "#9ca3af" }} />
+                    <YAxis
+                      type="category"
+                      dataKey="name"
+                      width={110}
+                      tick={{ fontSize: 11, fill: "#6b7280" }}
+                    />
                     <Tooltip content={<CustomTooltip />} />
-                  </PieChart>
+                    <Bar dataKey="count" name="Jobs" fill="#3b82f6" radius={[0, 4, 4, 0]} barSize={16} />
+                  </BarChart>
                 </ResponsiveContainer>
-                <div className="flex-1 space-y-3 pl-2">
-                  {(detailed?.jobsByType ?? []).filter((d: any) => d.count > 0).map((entry: any) => (
-                    <div key={entry.name} className="flex items-center gap-2">
-                      <div
-                        className="h-3 w-3 rounded-full flex-shrink-0"
-                        style={{ backgroundColor: TYPE_COLORS[entry.name] || "#94a3b8" }}
-                      />
-                      <span className="text-sm text-gray-600 capitalize">{entry.name}</span>
-                      <span className="text-sm font-semibold text-gray-900 ml-auto">{entry.count}</span>
-                    </div>
-                  ))}
+              )}
+            </ChartCard>
+
+            {/* Temperature Distribution */}
+            <ChartCard title="Temperature Distribution">
+              {loading ? (
+                <Skeleton className="h-[300px] w-full rounded-lg" />
+              ) : (
+                <div className="flex items-center">
+                  <ResponsiveContainer width="60%" height={300}>
+                    <PieChart>
+                      <Pie
+                        data={detailed?.jobsByTemperature?.filter((d: any) => d.count > 0) ?? []}
+                        cx="50%"
+                        cy="50%"
+                        innerRadius={60}
+                        outerRadius={100}
+                        paddingAngle={3}
+                        dataKey="count"
+                        nameKey="name"
+                      >
+                        {(detailed?.jobsByTemperature ?? []).filter((d: any) => d.count > 0).map((entry: any) => (
+                          <Cell key={entry.name} fill={TEMP_COLORS[entry.name] || "#94a3b8"} />
+                        ))}
+                      </Pie>
+                      <Tooltip content={<CustomTooltip />} />
+                    </PieChart>
+                  </ResponsiveContainer>
+                  <div className="flex-1 space-y-3 pl-2">
+                    {(detailed?.jobsByTemperature ?? []).filter((d: any) => d.count > 0).map((entry: any) => (
+                      <div key={entry.name} className="flex items-center gap-2">
+                        <div
+                          className="h-3 w-3 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: TEMP_COLORS[entry.name] || "#94a3b8" }}
+                        />
+                        <span className="text-sm text-gray-600 capitalize">{entry.name}</span>
+                        <span className="text-sm font-semibold text-gray-900 ml-auto">{entry.count}</span>
+                      </div>
+                    ))}
+                  </div>
                 </div>
-              </div>
-            )}
-          </ChartCard>
+              )}
+            </ChartCard>
+          </div>
 
-          <ChartCard title="Jobs by Status">
-            {loading ? (
-              <Skeleton className="h-[300px] w-full rounded-lg" />
-            ) : (
-              <div className="flex items-center">
-                <ResponsiveContainer width="60%" height={300}>
-                  <PieChart>
-                    <Pie
-                      data={detailed?.jobsByStatus?.filter((d: any) => d.count > 0) ?? []}
-                      cx="50%"
-                      cy="50%"
-                      innerRadius={60}
-                      outerRadius={100}
-                      paddingAngle={3}
+          {/* Charts Row 2 */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {/* Jobs Over Time */}
+            <ChartCard title="Jobs Added Over Time">
+              {loading ? (
+                <Skeleton className="h-[260px] w-full rounded-lg" />
+              ) : (
+                <ResponsiveContainer width="100%" height={260}>
+                  <AreaChart data={detailed?.monthlyJobs ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+                    <defs>
+                      <linearGradient id="colorCount" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.15} />
+                        <stop offset="95%" stopColor="#3b82f6" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="month" tick={{ fontSize: 11, fill: "#9ca3af" }} />
+                    <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <Area
+                      type="monotone"
                       dataKey="count"
-                      nameKey="name"
-                    >
-                      {(detailed?.jobsByStatus ?? []).filter((d: any) => d.count > 0).map((entry: any) => (
+                      name="Jobs"
+                      stroke="#3b82f6"
+                      strokeWidth={2}
+                      fill="url(#colorCount)"
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              )}
+            </ChartCard>
+
+            {/* Pipeline Value by Status */}
+            <ChartCard title="Pipeline Value by Status">
+              {loading ? (
+                <Skeleton className="h-[260px] w-full rounded-lg" />
+              ) : (
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart data={detailed?.pipelineByStatus?.filter((d: any) => d.value > 0) ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="name" tick={{ fontSize: 11, fill: "#9ca3af" }} />
+                    <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} tickFormatter={(v) => formatCurrency(v)} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <Bar dataKey="value" name="Pipeline Value" radius={[4, 4, 0, 0]} barSize={48}>
+                      {(detailed?.pipelineByStatus ?? []).filter((d: any) => d.value > 0).map((entry: any) => (
                         <Cell key={entry.name} fill={STATUS_COLORS[entry.name] || "#94a3b8"} />
                       ))}
-                    </Pie>
-                    <Tooltip content={<CustomTooltip />} />
-                  </PieChart>
+                    </Bar>
+                  </BarChart>
                 </ResponsiveContainer>
-                <div className="flex-1 space-y-3 pl-2">
-                  {(detailed?.jobsByStatus ?? []).filter((d: any) => d.count > 0).map((entry: any) => (
-                    <div key={entry.name} className="flex items-center gap-2">
-                      <div
-                        className="h-3 w-3 rounded-full flex-shrink-0"
-                        style={{ backgroundColor: STATUS_COLORS[entry.name] || "#94a3b8" }}
-                      />
-                      <span className="text-sm text-gray-600 capitalize">{entry.name}</span>
-                      <span className="text-sm font-semibold text-gray-900 ml-auto">{entry.count}</span>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-          </ChartCard>
-        </div>
+              )}
+            </ChartCard>
+          </div>
 
-        {/* Row 4: Value Distribution + Avg Value by Type */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          <ChartCard title="Job Value Distribution">
-            {loading ? (
-              <Skeleton className="h-[260px] w-full rounded-lg" />
-            ) : (
-              <ResponsiveContainer width="100%" height={260}>
-                <BarChart data={detailed?.valueDistribution?.filter((d: any) => d.count > 0) ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                  <XAxis dataKey="name" tick={{ fontSize: 10, fill: "#9ca3af" }} />
-                  <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} />
-                  <Tooltip content={<CustomTooltip />} />
-                  <Bar dataKey="count" name="Jobs" fill="#6366f1" radius={[4, 4, 0, 0]} barSize={40} />
-                </BarChart>
-              </ResponsiveContainer>
-            )}
-          </ChartCard>
+          {/* Row 3: Jobs by Type + Jobs by Status */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <ChartCard title="Jobs by Type">
+              {loading ? (
+                <Skeleton className="h-[300px] w-full rounded-lg" />
+              ) : (
+                <div className="flex items-center">
+                  <ResponsiveContainer width="60%" height={300}>
+                    <PieChart>
+                      <Pie
+                        data={detailed?.jobsByType?.filter((d: any) => d.count > 0) ?? []}
+                        cx="50%"
+                        cy="50%"
+                        innerRadius={60}
+                        outerRadius={100}
+                        paddingAngle={3}
+                        dataKey="count"
+                        nameKey="name"
+                      >
+                        {(detailed?.jobsByType ?? []).filter((d: any) => d.count > 0).map((entry: any) => (
+                          <Cell key={entry.name} fill={TYPE_COLORS[entry.name] || "#94a3b8"} />
+                        ))}
+                      </Pie>
+                      <Tooltip content={<CustomTooltip />} />
+                    </PieChart>
+                  </ResponsiveContainer>
+                  <div className="flex-1 space-y-3 pl-2">
+                    {(detailed?.jobsByType ?? []).filter((d: any) => d.count > 0).map((entry: any) => (
+                      <div key={entry.name} className="flex items-center gap-2">
+                        <div
+                          className="h-3 w-3 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: TYPE_COLORS[entry.name] || "#94a3b8" }}
+                        />
+                        <span className="text-sm text-gray-600 capitalize">{entry.name}</span>
+                        <span className="text-sm font-semibold text-gray-900 ml-auto">{entry.count}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </ChartCard>
 
-          <ChartCard title="Avg Value by Type">
-            {loading ? (
-              <Skeleton className="h-[260px] w-full rounded-lg" />
-            ) : (
-              <ResponsiveContainer width="100%" height={260}>
-                <BarChart data={detailed?.avgValueByType ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                  <XAxis dataKey="name" tick={{ fontSize: 11, fill: "#9ca3af" }} />
-                  <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} tickFormatter={(v) => formatCurrency(v)} />
-                  <Tooltip content={<CustomTooltip />} />
-                  <Bar dataKey="value" name="Avg Value" radius={[4, 4, 0, 0]} barSize={48}>
-                    {(detailed?.avgValueByType ?? []).map((entry: any) => (
-                      <Cell key={entry.name} fill={TYPE_COLORS[entry.name] || "#94a3b8"} />
+            <ChartCard title="Jobs by Status">
+              {loading ? (
+                <Skeleton className="h-[300px] w-full rounded-lg" />
+              ) : (
+                <div className="flex items-center">
+                  <ResponsiveContainer width="60%" height={300}>
+                    <PieChart>
+                      <Pie
+                        data={detailed?.jobsByStatus?.filter((d: any) => d.count > 0) ?? []}
+                        cx="50%"
+                        cy="50%"
+                        innerRadius={60}
+                        outerRadius={100}
+                        paddingAngle={3}
+                        dataKey="count"
+                        nameKey="name"
+                      >
+                        {(detailed?.jobsByStatus ?? []).filter((d: any) => d.count > 0).map((entry: any) => (
+                          <Cell key={entry.name} fill={STATUS_COLORS[entry.name] || "#94a3b8"} />
+                        ))}
+                      </Pie>
+                      <Tooltip content={<CustomTooltip />} />
+                    </PieChart>
+                  </ResponsiveContainer>
+                  <div className="flex-1 space-y-3 pl-2">
+                    {(detailed?.jobsByStatus ?? []).filter((d: any) => d.count > 0).map((entry: any) => (
+                      <div key={entry.name} className="flex items-center gap-2">
+                        <div
+                          className="h-3 w-3 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: STATUS_COLORS[entry.name] || "#94a3b8" }}
+                        />
+                        <span className="text-sm text-gray-600 capitalize">{entry.name}</span>
+                        <span className="text-sm font-semibold text-gray-900 ml-auto">{entry.count}</span>
+                      </div>
                     ))}
-                  </Bar>
-                </BarChart>
-              </ResponsiveContainer>
-            )}
-          </ChartCard>
-        </div>
+                  </div>
+                </div>
+              )}
+            </ChartCard>
+          </div>
 
-        {/* Row 5: Top Counties by Value + Top Cities */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          <ChartCard title="Top Counties by Pipeline Value">
-            {loading ? (
-              <Skeleton className="h-[300px] w-full rounded-lg" />
-            ) : (
-              <ResponsiveContainer width="100%" height={300}>
-                <BarChart
-                  data={detailed?.valueByCounty ?? []}
-                  layout="vertical"
-                  margin={{ top: 0, right: 20, left: 0, bottom: 0 }}
-                >
-                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" horizontal={false} />
-                  <XAxis type="number" tick={{ fontSize: 11, fill: "#9ca3af" }} tickFormatter={(v) => formatCurrency(v)} />
-                  <YAxis
-                    type="category"
-                    dataKey="name"
-                    width={110}
-                    tick={{ fontSize: 11, fill: "#6b7280" }}
-                  />
-                  <Tooltip content={<CustomTooltip />} />
-                  <Bar dataKey="value" name="Pipeline Value" fill="#22c55e" radius={[0, 4, 4, 0]} barSize={16} />
-                </BarChart>
-              </ResponsiveContainer>
-            )}
-          </ChartCard>
+          {/* Row 4: Value Distribution + Avg Value by Type */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <ChartCard title="Job Value Distribution">
+              {loading ? (
+                <Skeleton className="h-[260px] w-full rounded-lg" />
+              ) : (
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart data={detailed?.valueDistribution?.filter((d: any) => d.count > 0) ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="name" tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                    <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <Bar dataKey="count" name="Jobs" fill="#6366f1" radius={[4, 4, 0, 0]} barSize={40} />
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </ChartCard>
 
-          <ChartCard title="Top Cities (Top 15)">
-            {loading ? (
-              <Skeleton className="h-[300px] w-full rounded-lg" />
-            ) : (
-              <ResponsiveContainer width="100%" height={300}>
-                <BarChart
-                  data={detailed?.jobsByCity ?? []}
-                  layout="vertical"
-                  margin={{ top: 0, right: 20, left: 0, bottom: 0 }}
-                >
-                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" horizontal={false} />
-                  <XAxis type="number" tick={{ fontSize: 11, fill: "#9ca3af" }} />
-                  <YAxis
-                    type="category"
-                    dataKey="name"
-                    width={110}
-                    tick={{ fontSize: 11, fill: "#6b7280" }}
-                  />
-                  <Tooltip content={<CustomTooltip />} />
-                  <Bar dataKey="count" name="Jobs" fill="#f59e0b" radius={[0, 4, 4, 0]} barSize={16} />
-                </BarChart>
-              </ResponsiveContainer>
-            )}
-          </ChartCard>
-        </div>
+            <ChartCard title="Avg Value by Type">
+              {loading ? (
+                <Skeleton className="h-[260px] w-full rounded-lg" />
+              ) : (
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart data={detailed?.avgValueByType ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="name" tick={{ fontSize: 11, fill: "#9ca3af" }} />
+                    <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} tickFormatter={(v) => formatCurrency(v)} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <Bar dataKey="value" name="Avg Value" radius={[4, 4, 0, 0]} barSize={48}>
+                      {(detailed?.avgValueByType ?? []).map((entry: any) => (
+                        <Cell key={entry.name} fill={TYPE_COLORS[entry.name] || "#94a3b8"} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </ChartCard>
+          </div>
 
-        {/* Row 6: Visit Coverage + Top Contractors */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          <ChartCard title="Visit Coverage">
-            {loading ? (
-              <Skeleton className="h-[160px] w-full rounded-lg" />
-            ) : (
-              <div className="space-y-5">
-                <div>
-                  <div className="flex items-center justify-between mb-2">
-                    <span className="text-sm text-gray-600">Visited</span>
-                    <span className="text-sm font-semibold text-gray-900">{visitRate}%</span>
+          {/* Territories drawn on the map */}
+          {(detailed?.territoryStats?.length ?? 0) > 0 && (
+            <ChartCard title="Territories">
+              <div className="divide-y divide-gray-100">
+                {(detailed.territoryStats as TerritoryStats[]).map((territory) => (
+                  <div key={territory.id} className="flex items-center gap-3 py-2">
+                    <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: territory.color }} />
+                    <span className="flex-1 min-w-0 text-sm font-medium text-gray-700 truncate">{territory.name}</span>
+                    <span className="text-xs text-gray-500 w-20 text-right flex-shrink-0">{territory.jobCount.toLocaleString()} jobs</span>
+                    <span className="text-xs text-gray-500 w-20 text-right flex-shrink-0">{territory.activeCount.toLocaleString()} active</span>
+                    <span className="text-sm font-semibold text-gray-900 w-24 text-right flex-shrink-0">
+                      {formatCurrency(territory.pipelineValue)}
+                    </span>
                   </div>
-                  <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
-                    <div
-                      className="h-full rounded-full bg-gradient-to-r from-blue-500 to-blue-600 transition-all duration-700"
-                      style={{ width: `${visitRate}%` }}
+                ))}
+              </div>
+            </ChartCard>
+          )}
+
+          {/* Row 5: Top Counties by Value + Top Cities */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <ChartCard title="Top Counties by Pipeline Value">
+              {loading ? (
+                <Skeleton className="h-[300px] w-full rounded-lg" />
+              ) : (
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart
+                    data={detailed?.valueByCounty ?? []}
+                    layout="vertical"
+                    margin={{ top: 0, right: 20, left: 0, bottom: 0 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" horizontal={false} />
+                    <XAxis type="number" tick={{ fontSize: 11, fill: "#9ca3af" }} tickFormatter={(v) => formatCurrency(v)} />
+                    <YAxis
+                      type="category"
+                      dataKey="name"
+                      width={110}
+                      tick={{ fontSize: 11, fill: "#6b7280" }}
                     />
+                    <Tooltip content={<CustomTooltip />} />
+                    <Bar dataKey="value" name="Pipeline Value" fill="#22c55e" radius={[0, 4, 4, 0]} barSize={16} />
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </ChartCard>
+
+            <ChartCard title="Top Cities (Top 15)">
+              {loading ? (
+                <Skeleton className="h-[300px] w-full rounded-lg" />
+              ) : (
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart
+                    data={detailed?.jobsByCity ?? []}
+                    layout="vertical"
+                    margin={{ top: 0, right: 20, left: 0, bottom: 0 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" horizontal={false} />
+                    <XAxis type="number" tick={{ fontSize: 11, fill: "#9ca3af" }} />
+                    <YAxis
+                      type="category"
+                      dataKey="name"
+                      width={110}
+                      tick={{ fontSize: 11, fill: "#6b7280" }}
+                    />
+                    <Tooltip content={<CustomTooltip />} />
+                    <Bar dataKey="count" name="Jobs" fill="#f59e0b" radius={[0, 4, 4, 0]} barSize={16} />
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </ChartCard>
+          </div>
+
+          {/* Row 6: Visit Coverage + Top Contractors */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <ChartCard title="Visit Coverage">
+              {loading ? (
+                <Skeleton className="h-[160px] w-full rounded-lg" />
+              ) : (
+                <div className="space-y-5">
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm text-gray-600">Visited</span>
+                      <span className="text-sm font-semibold text-gray-900">{visitRate}%</span>
+                    </div>
+                    <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full rounded-full bg-gradient-to-r from-blue-500 to-blue-600 transition-all duration-700"
+                        style={{ width: `${visitRate}%` }}
+                      />
+                    </div>
                   </div>
-                </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="bg-blue-50 rounded-lg p-3 text-center">
-                    <p className="text-2xl font-bold text-blue-600">{detailed?.visitCoverage?.visited ?? 0}</p>
-                    <p className="text-xs text-blue-500 mt-0.5">Visited</p>
-                  </div>
-                  <div className="bg-gray-50 rounded-lg p-3 text-center">
-                    <p className="text-2xl font-bold text-gray-600">{detailed?.visitCoverage?.unvisited ?? 0}</p>
-                    <p className="text-xs text-gray-500 mt-0.5">Unvisited</p>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="bg-blue-50 rounded-lg p-3 text-center">
+                      <p className="text-2xl font-bold text-blue-600">{detailed?.visitCoverage?.visited ?? 0}</p>
+                      <p className="text-xs text-blue-500 mt-0.5">Visited</p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3 text-center">
+                      <p className="text-2xl font-bold text-gray-600">{detailed?.visitCoverage?.unvisited ?? 0}</p>
+                      <p className="text-xs text-gray-500 mt-0.5">Unvisited</p>
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
-          </ChartCard>
+              )}
+            </ChartCard>
 
-          <ChartCard title="Top Contractors">
-            {loading ? (
-              <Skeleton className="h-[160px] w-full rounded-lg" />
-            ) : (
-              <div className="space-y-2.5 max-h-[220px] overflow-y-auto">
-                {(detailed?.topContractors ?? []).map((contractor: any, i: number) => (
-                  <div key={contractor.name} className="flex items-center gap-3">
-                    <span className="text-xs text-gray-400 w-5 text-right">{i + 1}</span>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm text-gray-700 truncate">{contractor.name}</p>
+            <ChartCard title="Top Contractors">
+              {loading ? (
+                <Skeleton className="h-[160px] w-full rounded-lg" />
+              ) : (
+                <div className="space-y-2.5 max-h-[220px] overflow-y-auto">
+                  {(detailed?.topContractors ?? []).map((contractor: any, i: number) => (
+                    <div key={contractor.name} className="flex items-center gap-3">
+                      <span className="text-xs text-gray-400 w-5 text-right">{i + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-700 truncate">{contractor.name}</p>
+                      </div>
+                      <span className="text-sm font-semibold text-gray-900 flex-shrink-0">{contractor.count}</span>
                     </div>
-                    <span className="text-sm font-semibold text-gray-900 flex-shrink-0">{contractor.count}</span>
-                  </div>
-                ))}
-                {(!detailed?.topContractors || detailed.topContractors.length === 0) && (
-                  <p className="text-sm text-gray-400 text-center py-4">No contractor data</p>
-                )}
-              </div>
-            )}
-          </ChartCard>
-        </div>
+                  ))}
+                  {(!detailed?.topContractors || detailed.topContractors.length === 0) && (
+                    <p className="text-sm text-gray-400 text-center py-4">No contractor data</p>
+                  )}
+                </div>
+              )}
+            </ChartCard>
+          </div>
 
-        {/* Row 7: Top Owners + Top Architects */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          <ChartCard title="Top Owners">
-            {loading ? (
-              <Skeleton className="h-[160px] w-full rounded-lg" />
-            ) : (
-              <div className="space-y-2.5 max-h-[220px] overflow-y-auto">
-                {(detailed?.topOwners ?? []).map((owner: any, i: number) => (
-                  <div key={owner.name} className="flex items-center gap-3">
-                    <span className="text-xs text-gray-400 w-5 text-right">{i + 1}</span>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm text-gray-700 truncate">{owner.name}</p>
+          {/* Row 7: Top Owners + Top Architects */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <ChartCard title="Top Owners">
+              {loading ? (
+                <Skeleton className="h-[160px] w-full rounded-lg" />
+              ) : (
+                <div className="space-y-2.5 max-h-[220px] overflow-y-auto">
+                  {(detailed?.topOwners ?? []).map((owner: any, i: number) => (
+                    <div key={owner.name} className="flex items-center gap-3">
+                      <span className="text-xs text-gray-400 w-5 text-right">{i + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-700 truncate">{owner.name}</p>
+                      </div>
+                      <span className="text-sm font-semibold text-gray-900 flex-shrink-0">{owner.count}</span>
                     </div>
-                    <span className="text-sm font-semibold text-gray-900 flex-shrink-0">{owner.count}</span>
-                  </div>
-                ))}
-                {(!detailed?.topOwners || detailed.topOwners.length === 0) && (
-                  <p className="text-sm text-gray-400 text-center py-4">No owner data</p>
-                )}
-              </div>
-            )}
-          </ChartCard>
+                  ))}
+                  {(!detailed?.topOwners || detailed.topOwners.length === 0) && (
+                    <p className="text-sm text-gray-400 text-center py-4">No owner data</p>
+                  )}
+                </div>
+              )}
+            </ChartCard>
 
-          <ChartCard title="Top Architects">
-            {loading ? (
-              <Skeleton className="h-[160px] w-full rounded-lg" />
-            ) : (
-              <div className="space-y-2.5 max-h-[220px] overflow-y-auto">
-                {(detailed?.topArchitects ?? []).map((architect: any, i: number) => (
-                  <div key={architect.name} className="flex items-center gap-3">
-                    <span className="text-xs text-gray-400 w-5 text-right">{i + 1}</span>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm text-gray-700 truncate">{architect.name}</p>
+            <ChartCard title="Top Architects">
+              {loading ? (
+                <Skeleton className="h-[160px] w-full rounded-lg" />
+              ) : (
+                <div className="space-y-2.5 max-h-[220px] overflow-y-auto">
+                  {(detailed?.topArchitects ?? []).map((architect: any, i: number) => (
+                    <div key={architect.name} className="flex items-center gap-3">
+                      <span className="text-xs text-gray-400 w-5 text-right">{i + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-700 truncate">{architect.name}</p>
+                      </div>
+                      <span className="text-sm font-semibold text-gray-900 flex-shrink-0">{architect.count}</span>
                     </div>
-                    <span className="text-sm font-semibold text-gray-900 flex-shrink-0">{architect.count}</span>
-                  </div>
-                ))}
-                {(!detailed?.topArchitects || detailed.topArchitects.length === 0) && (
-                  <p className="text-sm text-gray-400 text-center py-4">No architect data</p>
-                )}
-              </div>
-            )}
-          </ChartCard>
-        </div>
+                  ))}
+                  {(!detailed?.topArchitects || detailed.topArchitects.length === 0) && (
+                    <p className="text-sm text-gray-400 text-center py-4">No architect data</p>
+                  )}
+                </div>
+              )}
+            </ChartCard>
+          </div>
 
-        {/* Row 8: Cumulative Growth + Temperature by Value */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          <ChartCard title="Cumulative Job Growth">
-            {loading ? (
-              <Skeleton className="h-[260px] w-full rounded-lg" />
-            ) : (
-              <ResponsiveContainer width="100%" height={260}>
-                <LineChart data={detailed?.cumulativeJobs ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                  <XAxis dataKey="month" tick={{ fontSize: 11, fill: "#9ca3af" }} />
-                  <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} />
-                  <Tooltip content={<CustomTooltip />} />
-                  <Line
-                    type="monotone"
-                    dataKey="total"
-                    name="Total Jobs"
-                    stroke="#6366f1"
-                    strokeWidth={2}
-                    dot={{ r: 3, fill: "#6366f1" }}
-                    activeDot={{ r: 5 }}
-                  />
-                </LineChart>
-              </ResponsiveContainer>
-            )}
-          </ChartCard>
+          {/* Row 8: Cumulative Growth + Temperature by Value */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <ChartCard title="Cumulative Job Growth">
+              {loading ? (
+                <Skeleton className="h-[260px] w-full rounded-lg" />
+              ) : (
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart data={detailed?.cumulativeJobs ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="month" tick={{ fontSize: 11, fill: "#9ca3af" }} />
+                    <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <Line
+                      type="monotone"
+                      dataKey="total"
+                      name="Total Jobs"
+                      stroke="#6366f1"
+                      strokeWidth={2}
+                      dot={{ r: 3, fill: "#6366f1" }}
+                      activeDot={{ r: 5 }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </ChartCard>
 
-          <ChartCard title="Pipeline Value by Temperature">
-            {loading ? (
-              <Skeleton className="h-[260px] w-full rounded-lg" />
-            ) : (
-              <ResponsiveContainer width="100%" height={260}>
-                <BarChart data={detailed?.valueByTemperature ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                  <XAxis dataKey="name" tick={{ fontSize: 11, fill: "#9ca3af" }} />
-                  <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} tickFormatter={(v) => formatCurrency(v)} />
-                  <Tooltip content={<CustomTooltip />} />
-                  <Bar dataKey="value" name="Pipeline Value" radius={[4, 4, 0, 0]} barSize={48}>
-                    {(detailed?.valueByTemperature ?? []).map((entry: any) => (
-                      <Cell key={entry.name} fill={TEMP_COLORS[entry.name] || "#94a3b8"} />
-                    ))}
-                  </Bar>
-                </BarChart>
-              </ResponsiveContainer>
-            )}
-          </ChartCard>
+            <ChartCard title="Pipeline Value by Temperature">
+              {loading ? (
+                <Skeleton className="h-[260px] w-full rounded-lg" />
+              ) : (
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart data={detailed?.valueByTemperature ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="name" tick={{ fontSize: 11, fill: "#9ca3af" }} />
+                    <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} tickFormatter={(v) => formatCurrency(v)} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <Bar dataKey="value" name="Pipeline Value" radius={[4, 4, 0, 0]} barSize={48}>
+                      {(detailed?.valueByTemperature ?? []).map((entry: any) => (
+                        <Cell key={entry.name} fill={TEMP_COLORS[entry.name] || "#94a3b8"} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </ChartCard>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
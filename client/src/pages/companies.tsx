@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Link, useRoute } from "wouter";
 import { useCompanies, useCompany } from "@/hooks/useContacts";
 import { ContactDetailModal } from "@/components/modals/ContactDetailModal";
+import { AttachmentsPanel } from "@/components/AttachmentsPanel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
@@ -186,6 +187,8 @@ function CompanyDetail() {
         <div className="py-12 text-center text-gray-500">Company not found</div>
       )}
 
+      {company && <AttachmentsPanel owner={{ companyId: company.id }} />}
+
       <ContactDetailModal
         contactId={selectedContactId}
         isOpen={showContactModal}
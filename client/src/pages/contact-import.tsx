@@ -4,7 +4,7 @@ import { Link, useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Upload, Users, CheckCircle, AlertCircle, XCircle, ChevronDown, X } from "lucide-react";
+import { Upload, Users, CheckCircle, AlertCircle, XCircle, ChevronDown, X, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { getAuthHeaders } from "@/lib/auth";
 
@@ -151,6 +151,12 @@ export function ContactImportPage() {
               <p className="text-xs text-gray-500 -mt-0.5">Import contacts from VCF (vCard) file</p>
             </div>
           </div>
+          <Button asChild variant="ghost" size="sm" className="ml-auto text-gray-600" data-testid="link-import-history">
+            <Link href="/imports">
+              <History className="h-4 w-4 mr-1" />
+              Import history
+            </Link>
+          </Button>
         </div>
       </div>
 
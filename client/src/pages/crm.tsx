@@ -2,6 +2,8 @@ import { useState, useMemo } from "react";
 import { Link } from "wouter";
 import { useInteractions, useCrmOverview } from "@/hooks/useCRM";
 import { useCompanies } from "@/hooks/useContacts";
+import { useTasks, useCreateTask, useUpdateTask, useDeleteTask } from "@/hooks/useTasks";
+import { useToast } from "@/hooks/use-toast";
 import { ContactDetailModal } from "@/components/modals/ContactDetailModal";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -39,8 +41,14 @@ import {
   Calendar,
   Phone,
   Mail,
+  CheckCircle2,
+  Clock,
+  ListTodo,
+  Plus,
+  Trash2,
 } from "lucide-react";
-import { formatDistanceToNow, format } from "date-fns";
+import { formatDistanceToNow, format, addDays, isToday, isPast, startOfDay } from "date-fns";
+import type { TaskWithLinks } from "@shared/schema";
 
 function formatCurrency(value: number): string {
   if (value >= 1_000_000_000) return `$${(value / 1_000_000_000).toFixed(1)}B`;
@@ -111,6 +119,175 @@ function getInteractionBadgeClass(type: string): string {
   }
 }
 
+const PRIORITY_BADGE_CLASS: Record<string, string> = {
+  high: "bg-red-100 text-red-700 hover:bg-red-100",
+  medium: "bg-amber-100 text-amber-700 hover:bg-amber-100",
+  low: "bg-gray-100 text-gray-600 hover:bg-gray-100",
+};
+
+function TaskDueLabel({ task }: { task: TaskWithLinks }) {
+  const due = new Date(task.dueDate);
+  if (isToday(due)) return <span className="text-xs font-medium text-amber-600">Due today</span>;
+  if (isPast(due)) {
+    return <span className="text-xs font-medium text-red-600">Overdue · {format(due, "MMM d")}</span>;
+  }
+  return <span className="text-xs text-gray-500">Due {format(due, "MMM d")}</span>;
+}
+
+function MyTasksPanel({ onOpenContact }: { onOpenContact: (contactId: string) => void }) {
+  const { toast } = useToast();
+  const { data: tasks = [], isLoading } = useTasks({ status: "open" });
+  const createTask = useCreateTask();
+  const updateTask = useUpdateTask();
+  const deleteTask = useDeleteTask();
+  const [title, setTitle] = useState("");
+  const [dueDate, setDueDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [priority, setPriority] = useState<"low" | "medium" | "high">("medium");
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const handleAdd = () => {
+    if (!title.trim() || !dueDate) return;
+    createTask.mutate(
+      // Parse as local midnight so the task lands on the picked day
+      { title: title.trim(), dueDate: new Date(`${dueDate}T00:00:00`).toISOString(), priority },
+      {
+        onSuccess: () => setTitle(""),
+        onError,
+      }
+    );
+  };
+
+  const handleSnooze = (task: TaskWithLinks, days: number) => {
+    const snoozedUntil = startOfDay(addDays(new Date(), days)).toISOString();
+    updateTask.mutate({ id: task.id, status: "snoozed", snoozedUntil }, { onError });
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <ListTodo className="h-5 w-5 text-blue-600" />
+          <h2 className="font-semibold text-gray-900">My Tasks</h2>
+          {tasks.length > 0 && <Badge variant="secondary">{tasks.length}</Badge>}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+            placeholder="Add a task..."
+            className="flex-1"
+            data-testid="input-task-title"
+          />
+          <Input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="sm:w-40"
+            data-testid="input-task-due"
+          />
+          <Select value={priority} onValueChange={(v) => setPriority(v as typeof priority)}>
+            <SelectTrigger className="sm:w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="high">High</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="low">Low</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAdd} disabled={!title.trim() || !dueDate || createTask.isPending} className="gap-1.5" data-testid="button-add-task">
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : tasks.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">Nothing due. Log an interaction to schedule a follow-up.</p>
+        ) : (
+          <div className="space-y-2">
+            {tasks.map((task) => (
+              <div
+                key={task.id}
+                className="flex items-center gap-3 p-3 rounded-lg border bg-white hover:border-blue-200 transition-colors"
+                data-testid={`task-${task.id}`}
+              >
+                <button
+                  onClick={() => updateTask.mutate({ id: task.id, status: "done" }, { onError })}
+                  className="text-gray-300 hover:text-green-600 transition-colors"
+                  title="Mark done"
+                >
+                  <CheckCircle2 className="h-5 w-5" />
+                </button>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900 truncate">{task.title}</span>
+                    <Badge className={PRIORITY_BADGE_CLASS[task.priority]}>{task.priority}</Badge>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-0.5 mt-0.5">
+                    <TaskDueLabel task={task} />
+                    {task.contactId && task.contactName && (
+                      <button
+                        onClick={() => onOpenContact(task.contactId!)}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        {task.contactName}
+                      </button>
+                    )}
+                    {task.companyId && task.companyName && (
+                      <Link href={`/companies/${task.companyId}`}>
+                        <span className="text-xs text-gray-500 hover:text-blue-600 cursor-pointer">{task.companyName}</span>
+                      </Link>
+                    )}
+                    {task.jobName && (
+                      <span className="text-xs text-gray-500 flex items-center gap-0.5">
+                        <MapPin className="h-3 w-3" />
+                        {task.jobName}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Select onValueChange={(v) => handleSnooze(task, Number(v))}>
+                    <SelectTrigger className="h-8 w-[110px] text-xs" title="Snooze">
+                      <Clock className="h-3.5 w-3.5 mr-1" />
+                      <SelectValue placeholder="Snooze" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">1 day</SelectItem>
+                      <SelectItem value="3">3 days</SelectItem>
+                      <SelectItem value="7">1 week</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-gray-400 hover:text-red-500"
+                    onClick={() => deleteTask.mutate(task.id, { onError })}
+                    title="Delete task"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function CrmPage() {
   const [activeTab, setActiveTab] = useState("activity");
   const [selectedContactId, setSelectedContactId] = useState<string | null>(null);
@@ -265,6 +442,8 @@ export default function CrmPage() {
           />
         </div>
 
+        <MyTasksPanel onOpenContact={handleOpenContact} />
+
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
           <TabsList className="bg-white border border-gray-200">
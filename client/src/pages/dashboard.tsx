@@ -1,12 +1,16 @@
 import { useState, useMemo, useRef, useCallback, useEffect } from "react";
 import { MapContainer } from "@/components/ui/map-container";
 import InteractiveMap from "@/components/map/InteractiveMap";
+import RoutePlannerPanel from "@/components/map/RoutePlannerPanel";
 import FilterSidebar from "@/components/sidebar/FilterSidebar";
 import AddJobModal from "@/components/modals/AddJobModal";
+import DocumentUploadModal from "@/components/modals/DocumentUploadModal";
 import { JobDetailsModal } from "@/components/modals/JobDetailsModal";
+import { OfflineStatus } from "@/components/OfflineStatus";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { useJobs, useJobStats, useSearchJobs } from "@/hooks/useJobs";
+import { useJobs, useJobStats, useSearchJobs, useJobMapViewport, type MapViewportParams } from "@/hooks/useJobs";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
 import { useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -17,6 +21,7 @@ import {
   LogOut,
   FileSpreadsheet,
   BarChart3,
+  Columns3,
   Building2,
   LayoutDashboard,
   MoreVertical,
@@ -24,18 +29,48 @@ import {
   MapPin,
   Truck,
   Users,
+  Route,
+  FileText,
 } from "lucide-react";
-import { Link, useLocation } from "wouter";
+import { Link } from "wouter";
 import { cn } from "@/lib/utils";
 import type { Job } from "@shared/schema";
-import { getAuthHeaders } from "@/lib/auth";
+import { getAuthHeaders, logout } from "@/lib/auth";
+import type { PlannedRoute } from "@/hooks/useRoutePlanner";
+import { useSavedViews, parseSharedView } from "@/hooks/useSavedViews";
+import { DEFAULT_NEAR_RADIUS_MILES, type SavedViewFilters } from "@shared/schema";
+
+const DEFAULT_FILTERS = {
+  status: ['active'] as string[],
+  startDate: '',
+  minValue: '100000000',
+  maxValue: '100000000',
+  temperature: undefined as string[] | undefined,
+  hideCold: false,
+  county: '',
+  nearMe: false,
+  nearJob: '',
+  radius: DEFAULT_NEAR_RADIUS_MILES,
+  company: '',
+  showUnvisited: true,
+  showOffices: true,
+  territory: ''
+};
+
+// The sidebar lists the most recently updated matches; the map loads by viewport
+const JOB_LIST_LIMIT = 500;
 
 export default function Dashboard() {
   const [selectedJob, setSelectedJob] = useState<Job | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showDocumentModal, setShowDocumentModal] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [showJobDetails, setShowJobDetails] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
+  const [routeMode, setRouteMode] = useState(false);
+  const [routeJobs, setRouteJobs] = useState<Job[]>([]);
+  const [plannedRoute, setPlannedRoute] = useState<PlannedRoute | null>(null);
+  const [pinEditJob, setPinEditJob] = useState<Job | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [searchOpen, setSearchOpen] = useState(false);
   const [searchFocused, setSearchFocused] = useState(false);
@@ -43,31 +78,45 @@ export default function Dashboard() {
   const searchContainerRef = useRef<HTMLDivElement>(null);
   const mobileSearchContainerRef = useRef<HTMLDivElement>(null);
   const [debouncedSearch, setDebouncedSearch] = useState("");
-  const [, setLocation] = useLocation();
-  const [filters, setFilters] = useState({
-    status: ['active'] as string[],
-    startDate: '',
-    minValue: '100000000',
-    maxValue: '100000000',
-    temperature: undefined as string[] | undefined,
-    hideCold: false,
-    county: '',
-    nearMe: false,
-    company: '',
-    showUnvisited: true,
-    showOffices: true
-  });
+  const [filters, setFilters] = useState(DEFAULT_FILTERS);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const viewInitializedRef = useRef(false);
+  const { data: savedViews } = useSavedViews();
 
   const handleSearchChange = useCallback((value: string) => {
     setSearchQuery(value);
+    setActiveViewId(null);
     if (searchTimerRef.current) clearTimeout(searchTimerRef.current);
     searchTimerRef.current = setTimeout(() => {
       setDebouncedSearch(value);
     }, 300);
   }, []);
 
+  const applyView = useCallback((view: { id?: string; filters: SavedViewFilters; search: string }) => {
+    setFilters({ ...DEFAULT_FILTERS, ...view.filters });
+    setSearchQuery(view.search);
+    setDebouncedSearch(view.search);
+    setActiveViewId(view.id ?? null);
+  }, []);
+
+  // A shared view in the URL wins; otherwise open the user's default view once per visit
+  useEffect(() => {
+    if (viewInitializedRef.current) return;
+    const sharedView = parseSharedView(window.location.search);
+    if (sharedView) {
+      viewInitializedRef.current = true;
+      applyView(sharedView);
+      window.history.replaceState(null, '', window.location.pathname);
+      return;
+    }
+    if (!savedViews) return;
+    viewInitializedRef.current = true;
+    const defaultView = savedViews.find(view => view.isDefault);
+    if (defaultView) applyView(defaultView);
+  }, [savedViews, applyView]);
+
   const modifiedFilters = useMemo(() => {
-    const newFilters = { ...filters, search: debouncedSearch || undefined };
+    const newFilters = { ...filters, search: debouncedSearch || undefined, limit: JOB_LIST_LIMIT };
     if (filters.status.includes('active')) {
       const statusSet = new Set(filters.status);
       statusSet.add('planning');
@@ -77,6 +126,13 @@ export default function Dashboard() {
   }, [filters, debouncedSearch]);
 
   const { data: fetchedJobs = [], isLoading, isFetching, refetch } = useJobs(modifiedFilters);
+
+  // The map loads only what is in view; the server applies the same status rules as the list below
+  const [mapViewport, setMapViewport] = useState<MapViewportParams | null>(null);
+  const mapFilters = useMemo(() => ({ ...filters, search: debouncedSearch || undefined }), [filters, debouncedSearch]);
+  const { data: mapData } = useJobMapViewport(mapFilters, mapViewport);
+  // Viewport results aren't kept for field mode; offline the map draws the cached list
+  const { online, pending: pendingChanges } = useOfflineSync();
   const { data: searchResults = [], isFetching: isSearching } = useSearchJobs(debouncedSearch);
   const { data: globalStats } = useJobStats();
 
@@ -151,9 +207,10 @@ export default function Dashboard() {
   };
 
   const handleLogout = () => {
-    localStorage.removeItem('authToken');
-    setLocation('/login');
-    toast({ title: "Logged Out", description: "You have been successfully logged out" });
+    if (pendingChanges.length > 0 && !window.confirm(`${pendingChanges.length} change(s) made offline have not synced yet and will be lost. Log out anyway?`)) {
+      return;
+    }
+    void logout();
   };
 
   const handleJobSelect = (job: Job) => {
@@ -163,12 +220,43 @@ export default function Dashboard() {
     setTimeout(() => setShowJobDetails(true), 50);
   };
 
+  const handleEditLocation = (job: Job) => {
+    setShowJobDetails(false);
+    setSelectedJob(null);
+    setPinEditJob(job);
+  };
+
+  const handleFindNearby = (job: Job) => {
+    setShowJobDetails(false);
+    setSelectedJob(null);
+    setFilters(prev => ({ ...prev, nearJob: job.id, nearMe: false }));
+    setActiveViewId(null);
+    setSidebarOpen(true);
+  };
+
   const handleFilterChange = (newFilters: typeof filters) => {
     setFilters(newFilters);
+    setActiveViewId(null);
   };
 
   const toggleSidebar = () => setSidebarOpen(!sidebarOpen);
 
+  const toggleRouteMode = () => {
+    if (routeMode) {
+      setRouteJobs([]);
+      setPlannedRoute(null);
+    }
+    setRouteMode(!routeMode);
+  };
+
+  const handleRouteJobToggle = useCallback((job: Job) => {
+    setRouteJobs(prev => prev.some(j => j.id === job.id)
+      ? prev.filter(j => j.id !== job.id)
+      : [...prev, job]);
+  }, []);
+
+  const routeJobIds = useMemo(() => routeJobs.map(job => job.id), [routeJobs]);
+
   return (
     <div className="bg-neutral font-sans min-h-screen" data-testid="dashboard">
       {/* Header */}
@@ -264,6 +352,7 @@ export default function Dashboard() {
 
             {/* Desktop Actions */}
             <div className="hidden lg:flex items-center gap-2">
+              <OfflineStatus />
               <Button
                 variant={sidebarOpen ? "default" : "outline"}
                 size="sm"
@@ -296,6 +385,12 @@ export default function Dashboard() {
                   Companies
                 </Button>
               </Link>
+              <Link href="/pipeline">
+                <Button variant="outline" size="sm" className="h-9 gap-1.5 rounded-lg border-gray-200 hover:bg-gray-50">
+                  <Columns3 className="h-3.5 w-3.5" />
+                  Pipeline
+                </Button>
+              </Link>
               <Link href="/analytics">
                 <Button variant="outline" size="sm" className="h-9 gap-1.5 rounded-lg border-gray-200 hover:bg-gray-50">
                   <BarChart3 className="h-3.5 w-3.5" />
@@ -308,12 +403,36 @@ export default function Dashboard() {
                   Import
                 </Button>
               </Link>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowDocumentModal(true)}
+                className="h-9 gap-1.5 rounded-lg border-gray-200 hover:bg-gray-50"
+                data-testid="button-open-documents"
+              >
+                <FileText className="h-3.5 w-3.5" />
+                Documents
+              </Button>
               <Link href="/equipment">
                 <Button variant="outline" size="sm" className="h-9 gap-1.5 rounded-lg border-gray-200 hover:bg-gray-50">
                   <Truck className="h-3.5 w-3.5" />
                   Equipment
                 </Button>
               </Link>
+              <Button
+                variant={routeMode ? "default" : "outline"}
+                size="sm"
+                onClick={toggleRouteMode}
+                className={cn(
+                  "h-9 gap-1.5 rounded-lg transition-all",
+                  routeMode
+                    ? "bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
+                    : "border-gray-200 hover:bg-gray-50"
+                )}
+              >
+                <Route className="h-3.5 w-3.5" />
+                Plan Route
+              </Button>
               <Button
                 size="sm"
                 className="h-9 gap-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
@@ -335,6 +454,7 @@ export default function Dashboard() {
 
             {/* Mobile Controls */}
             <div className="flex items-center gap-1.5 lg:hidden">
+              <OfflineStatus />
               <Button
                 size="sm"
                 variant="ghost"
@@ -480,6 +600,15 @@ export default function Dashboard() {
                   Companies
                 </button>
               </Link>
+              <Link href="/pipeline">
+                <button
+                  onClick={() => setShowMobileMenu(false)}
+                  className="w-full text-left px-3 py-2.5 hover:bg-gray-50 rounded-lg flex items-center gap-3 text-sm text-gray-700"
+                >
+                  <Columns3 className="h-4 w-4 text-gray-400" />
+                  Pipeline
+                </button>
+              </Link>
               <Link href="/analytics">
                 <button
                   onClick={() => setShowMobileMenu(false)}
@@ -498,6 +627,13 @@ export default function Dashboard() {
                   Import CSV
                 </button>
               </Link>
+              <button
+                onClick={() => { setShowDocumentModal(true); setShowMobileMenu(false); }}
+                className="w-full text-left px-3 py-2.5 hover:bg-gray-50 rounded-lg flex items-center gap-3 text-sm text-gray-700"
+              >
+                <FileText className="h-4 w-4 text-gray-400" />
+                Documents
+              </button>
               <Link href="/equipment">
                 <button
                   onClick={() => setShowMobileMenu(false)}
@@ -507,6 +643,13 @@ export default function Dashboard() {
                   Equipment
                 </button>
               </Link>
+              <button
+                onClick={() => { toggleRouteMode(); setShowMobileMenu(false); }}
+                className="w-full text-left px-3 py-2.5 hover:bg-gray-50 rounded-lg flex items-center gap-3 text-sm text-gray-700"
+              >
+                <Route className="h-4 w-4 text-gray-400" />
+                {routeMode ? "Exit Route Planner" : "Plan Route"}
+              </button>
               <div className="border-t border-gray-100 my-1.5" />
               <button
                 onClick={() => { handleLogout(); setShowMobileMenu(false); }}
@@ -537,11 +680,15 @@ export default function Dashboard() {
               isOpen={sidebarOpen}
               onToggle={toggleSidebar}
               jobs={jobs}
+              visibleCount={online ? mapData?.total : undefined}
               globalStats={globalStats}
               filters={filters}
               onFilterChange={handleFilterChange}
               onJobSelect={handleJobSelect}
               isLoading={isLoading}
+              search={searchQuery}
+              activeViewId={activeViewId}
+              onApplyView={applyView}
             />
           </div>
         )}
@@ -550,13 +697,32 @@ export default function Dashboard() {
         <main className="flex-1 min-w-0 relative z-0">
           <MapContainer className="h-full w-full">
             <InteractiveMap
-              jobs={jobs}
+              jobs={online ? mapData?.jobs ?? [] : jobs}
+              clusters={online ? mapData?.clusters : undefined}
+              onViewportChange={setMapViewport}
               selectedJob={selectedJob}
               onJobSelect={handleJobSelect}
               isLoading={isLoading}
+              routeJobIds={routeMode ? routeJobIds : undefined}
+              onRouteJobToggle={routeMode && !plannedRoute ? handleRouteJobToggle : undefined}
+              plannedRoute={routeMode ? plannedRoute : null}
+              pinEditJob={pinEditJob}
+              onPinEditDone={() => setPinEditJob(null)}
             />
           </MapContainer>
 
+          {routeMode && (
+            <RoutePlannerPanel
+              selectedJobs={routeJobs}
+              route={plannedRoute}
+              onRouteChange={setPlannedRoute}
+              onRemoveJob={(jobId) => setRouteJobs(prev => prev.filter(job => job.id !== jobId))}
+              onClear={() => { setRouteJobs([]); setPlannedRoute(null); }}
+              onClose={toggleRouteMode}
+              onJobSelect={handleJobSelect}
+            />
+          )}
+
           {/* Mobile FAB */}
           <div className="lg:hidden fixed bottom-6 right-6 z-30 flex flex-col gap-3">
             {!sidebarOpen && (
@@ -598,12 +764,20 @@ export default function Dashboard() {
         job={selectedJob}
         isOpen={showJobDetails && !!selectedJob}
         onClose={() => { setShowJobDetails(false); setSelectedJob(null); }}
+        onEditLocation={handleEditLocation}
+        onFindNearby={handleFindNearby}
       />
       <AddJobModal
         isOpen={showAddModal}
         onClose={() => setShowAddModal(false)}
         onSuccess={() => { setShowAddModal(false); refetch(); }}
       />
+
+      <DocumentUploadModal
+        isOpen={showDocumentModal}
+        onClose={() => setShowDocumentModal(false)}
+        onSuccess={() => refetch()}
+      />
     </div>
   );
 }
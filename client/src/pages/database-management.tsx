@@ -4,8 +4,10 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { Database, Trash2, AlertTriangle, BarChart3 } from "lucide-react";
+import { Database, Trash2, AlertTriangle, BarChart3, History } from "lucide-react";
 import { GeocodeButton } from "@/components/GeocodeButton";
+import { getAuthHeaders } from "@/lib/auth";
+import { Link } from "wouter";
 
 interface DatabaseStats {
   totalJobs: string;
@@ -21,7 +23,7 @@ export default function DatabaseManagement() {
 
   const fetchStatsMutation = useMutation({
     mutationFn: async () => {
-      const response = await fetch('/api/debug/job-count');
+      const response = await fetch('/api/debug/job-count', { headers: getAuthHeaders() });
       if (!response.ok) throw new Error('Failed to fetch statistics');
       return response.json();
     },
@@ -39,7 +41,7 @@ export default function DatabaseManagement() {
 
   const clearDatabaseMutation = useMutation({
     mutationFn: async () => {
-      const response = await fetch('/api/debug/clear-jobs', { method: 'DELETE' });
+      const response = await fetch('/api/debug/clear-jobs', { method: 'DELETE', headers: getAuthHeaders() });
       if (!response.ok) throw new Error('Failed to clear database');
       return response.json();
     },
@@ -123,14 +125,20 @@ export default function DatabaseManagement() {
               Clear Database
             </CardTitle>
             <CardDescription>
-              Remove all job data from the database (useful for fresh CSV imports)
+              Remove all your job data from the database (useful for fresh CSV imports)
             </CardDescription>
           </CardHeader>
           <CardContent>
             <Alert className="mb-4">
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
-                <strong>Warning:</strong> This action cannot be undone. All jobs, including your viewing status and notes, will be permanently deleted.
+                <strong>Warning:</strong> This action cannot be undone. All your jobs, including your viewing status and notes, will be permanently deleted.
+                To undo a single bad spreadsheet, revert it from{" "}
+                <Link href="/imports" className="underline">
+                  <History className="inline h-3.5 w-3.5 mr-0.5" />
+                  import history
+                </Link>{" "}
+                instead.
               </AlertDescription>
             </Alert>
 
@@ -6,23 +6,32 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Upload, FileSpreadsheet, CheckCircle, AlertCircle, Eye, AlertTriangle, XCircle, FileCheck, Zap, Shield, ChevronDown, X } from "lucide-react";
+import { Upload, FileSpreadsheet, CheckCircle, AlertCircle, Eye, AlertTriangle, XCircle, FileCheck, Zap, Shield, ChevronDown, X, Users, History, SearchX } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { getAuthHeaders } from "@/lib/auth";
+import type { DodgeColumnMapping, DodgeColumnPreview, ImportConflict, SkippedLockedJob } from "@shared/schema";
+import { useDodgeMappingProfiles, useReadDodgeColumns } from "@/hooks/useDodgeMappingProfiles";
+import { DodgeColumnMapper } from "@/components/DodgeColumnMapper";
+import { ImportConflictsPanel } from "@/components/ImportConflictsPanel";
 
 interface ImportResults {
+  importRunId?: string;
   imported: number;
   updated: number;
   skipped: number;
   unchanged?: number;
   errors: string[];
+  companiesCreated?: number;
+  contactsCreated?: number;
+  contactsLinked?: number;
+  missing?: number;
   dryRun?: boolean;
   details?: {
     inserted?: any[];
     updated_unlocked?: any[];
-    skipped_locked?: any[];
+    skipped_locked?: SkippedLockedJob[];
     unchanged?: any[];
-    conflicts?: any[];
+    conflicts?: (Omit<ImportConflict, "id"> & { id?: string; jobName: string })[];
   };
 }
 
@@ -30,6 +39,9 @@ export function DodgeImportPage() {
   const [file, setFile] = useState<File | null>(null);
   const [dryRun, setDryRun] = useState(true);
   const [results, setResults] = useState<ImportResults | null>(null);
+  const [columnPreview, setColumnPreview] = useState<DodgeColumnPreview | null>(null);
+  const [columns, setColumns] = useState<DodgeColumnMapping>({});
+  const [profileId, setProfileId] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [showHowItWorks, setShowHowItWorks] = useState(false);
   const [showCsvFormat, setShowCsvFormat] = useState(false);
@@ -38,11 +50,14 @@ export function DodgeImportPage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
+  const { data: profiles = [] } = useDodgeMappingProfiles();
+  const readColumnsMutation = useReadDodgeColumns();
 
   const importMutation = useMutation({
-    mutationFn: async ({ file, dryRun }: { file: File; dryRun: boolean }) => {
+    mutationFn: async ({ file, dryRun, columns }: { file: File; dryRun: boolean; columns: DodgeColumnMapping }) => {
       const formData = new FormData();
       formData.append('file', file);
+      formData.append('columns', JSON.stringify(columns));
       
       const url = dryRun 
         ? '/api/import-dodge-csv?dryRun=true'
@@ -93,11 +108,39 @@ export function DodgeImportPage() {
     }
   });
 
+  // Read the headers straight away so the columns can be mapped before importing
+  const selectFile = (selectedFile: File) => {
+    setFile(selectedFile);
+    setResults(null);
+    setColumnPreview(null);
+    readColumnsMutation.mutate(selectedFile, {
+      onSuccess: (preview) => {
+        const profile = profiles.find(p => p.id === preview.profileId);
+        setColumnPreview(preview);
+        setProfileId(profile?.id ?? null);
+        setColumns(profile ? profile.columns : preview.suggestedColumns);
+      },
+      onError: (error) => {
+        toast({
+          variant: "destructive",
+          title: "Couldn't read the file",
+          description: error.message,
+        });
+      }
+    });
+  };
+
+  const clearFile = () => {
+    setFile(null);
+    setResults(null);
+    setColumnPreview(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
-      setFile(selectedFile);
-      setResults(null);
+      selectFile(selectedFile);
     }
   };
 
@@ -114,12 +157,7 @@ export function DodgeImportPage() {
                          fileName.endsWith('.xls');
       
       if (isValidFile) {
-        setFile(droppedFile);
-        setResults(null);
-        toast({
-          title: "File ready",
-          description: `${droppedFile.name} is ready to import`,
-        });
+        selectFile(droppedFile);
       } else {
         toast({
           variant: "destructive",
@@ -150,9 +188,11 @@ export function DodgeImportPage() {
     setIsDragging(true);
   };
 
+  const hasNameColumn = Object.values(columns).includes('name');
+
   const handleImport = () => {
-    if (file) {
-      importMutation.mutate({ file, dryRun });
+    if (file && columnPreview) {
+      importMutation.mutate({ file, dryRun, columns });
     }
   };
 
@@ -172,6 +212,12 @@ export function DodgeImportPage() {
               <p className="text-xs text-gray-500 -mt-0.5">Import jobs from Dodge Data CSV exports</p>
             </div>
           </div>
+          <Button asChild variant="ghost" size="sm" className="ml-auto text-gray-600" data-testid="link-import-history">
+            <Link href="/imports">
+              <History className="h-4 w-4 mr-1" />
+              Import history
+            </Link>
+          </Button>
         </div>
       </div>
 
@@ -224,9 +270,7 @@ export function DodgeImportPage() {
                     className="text-xs text-gray-400 hover:text-red-500"
                     onClick={(e) => {
                       e.stopPropagation();
-                      setFile(null);
-                      setResults(null);
-                      if (fileInputRef.current) fileInputRef.current.value = '';
+                      clearFile();
                     }}
                   >
                     <X className="h-3 w-3 mr-1" />
@@ -268,7 +312,7 @@ export function DodgeImportPage() {
               </div>
               <Button
                 onClick={handleImport}
-                disabled={!file || importMutation.isPending}
+                disabled={!file || !columnPreview || !hasNameColumn || importMutation.isPending}
                 size="lg"
                 className={`
                   min-w-[180px] font-semibold
@@ -298,6 +342,13 @@ export function DodgeImportPage() {
               </Button>
             </div>
 
+            {readColumnsMutation.isPending && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                Reading columns...
+              </div>
+            )}
+
             {importMutation.isPending && (
               <div className="flex items-center gap-2 text-sm text-gray-600">
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
@@ -307,6 +358,17 @@ export function DodgeImportPage() {
           </CardContent>
         </Card>
 
+        {/* Column Mapping */}
+        {columnPreview && (
+          <DodgeColumnMapper
+            preview={columnPreview}
+            columns={columns}
+            onColumnsChange={setColumns}
+            profileId={profileId}
+            onProfileChange={setProfileId}
+          />
+        )}
+
         {/* Import Results */}
         {results && (
           <Card>
@@ -371,6 +433,27 @@ export function DodgeImportPage() {
                 </div>
               </div>
 
+              {(results.companiesCreated || results.contactsCreated || results.contactsLinked) ? (
+                <div className="flex items-center gap-2 p-4 bg-gray-50 rounded-lg text-sm text-gray-700">
+                  <Users className="h-4 w-4 text-gray-500 flex-shrink-0" />
+                  <span>
+                    CRM: {results.companiesCreated ?? 0} companies and {results.contactsCreated ?? 0} contacts
+                    {results.dryRun ? " would be added" : " added"}, {results.contactsLinked ?? 0} job links
+                    {results.dryRun ? " would be made" : " made"}
+                  </span>
+                </div>
+              ) : null}
+
+              {results.missing ? (
+                <div className="flex items-center gap-2 p-4 bg-gray-50 rounded-lg text-sm text-gray-700" data-testid="text-missing-from-export">
+                  <SearchX className="h-4 w-4 text-gray-500 flex-shrink-0" />
+                  <span>
+                    {results.missing} job{results.missing === 1 ? "" : "s"} imported before in these counties {results.missing === 1 ? "isn't" : "aren't"} in
+                    this export and {results.dryRun ? "would be" : results.missing === 1 ? "is now" : "are now"} marked "Not in latest Dodge export"
+                  </span>
+                </div>
+              ) : null}
+
               {results.errors.length > 0 && (
                 <div className="space-y-3">
                   <div className="flex items-center gap-2 text-red-700 font-semibold">
@@ -397,6 +480,13 @@ export function DodgeImportPage() {
           </Card>
         )}
 
+        {/* Conflicts held back for review; a dry run only shows what it found */}
+        {results?.dryRun ? (
+          <ImportConflictsPanel preview={results.details?.conflicts ?? []} />
+        ) : (
+          <ImportConflictsPanel importRunId={results?.importRunId} />
+        )}
+
         {/* How Duplicate Handling Works - Collapsible */}
         <div className="bg-white rounded-lg border">
           <button
@@ -428,7 +518,7 @@ export function DodgeImportPage() {
                     </div>
                     <span className="font-medium text-sm text-gray-900">Preserve Tracking</span>
                   </div>
-                  <p className="text-sm text-gray-600">Keeps your viewed status, notes, and custom data intact</p>
+                  <p className="text-sm text-gray-600">Keeps your viewed status, notes, and custom data intact; changed values wait for your review</p>
                 </div>
                 <div className="rounded-lg border p-4">
                   <div className="flex items-center gap-2 mb-2">
@@ -458,6 +548,9 @@ export function DodgeImportPage() {
           </button>
           {showCsvFormat && (
             <div className="border-t px-4 pb-4 pt-4">
+              <p className="text-sm text-gray-600 mb-4">
+                These headers are recognized automatically. Columns with other names can be mapped after upload.
+              </p>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                 <div>
                   <h4 className="text-sm font-medium text-gray-900 mb-3">Required</h4>
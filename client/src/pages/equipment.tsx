@@ -13,11 +13,21 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import type { RentalEquipment } from "@shared/schema";
+import type { RentalEquipment, RentalEquipmentChange, RentalEquipmentChanges, RentalEquipmentWithLinks } from "@shared/schema";
 import { Link } from "wouter";
-import { Calendar, Wrench } from "lucide-react";
+import { Calendar, Wrench, ArrowUpRight, ArrowDownRight, ArrowRightLeft, DollarSign, RefreshCw, Settings, Link2 } from "lucide-react";
 import { DownDayModal } from "@/components/modals/DownDayModal";
 import { ServiceCallModal } from "@/components/modals/ServiceCallModal";
+import { EquipmentReportSettingsModal } from "@/components/modals/EquipmentReportSettingsModal";
+import { RentalEquipmentLinkModal } from "@/components/modals/RentalEquipmentLinkModal";
+import { useEquipmentReportSettings } from "@/hooks/useEquipmentReportSettings";
+import { getAuthHeaders } from "@/lib/auth";
+
+const STATUS_BADGES: Record<RentalEquipment["status"], { label: string; className: string }> = {
+  on_rent: { label: "On rent", className: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  off_rent: { label: "Off rent", className: "bg-gray-100 text-gray-600 border-gray-200" },
+  maintenance: { label: "Down", className: "bg-amber-50 text-amber-700 border-amber-200" },
+};
 
 export default function Equipment() {
   const [file, setFile] = useState<File | null>(null);
@@ -25,6 +35,8 @@ export default function Equipment() {
   const [dragOver, setDragOver] = useState(false);
   const [downDayEquipment, setDownDayEquipment] = useState<RentalEquipment | null>(null);
   const [serviceCallEquipment, setServiceCallEquipment] = useState<RentalEquipment | null>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [linkEquipment, setLinkEquipment] = useState<RentalEquipmentWithLinks | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -33,19 +45,33 @@ export default function Equipment() {
     data: equipment = [],
     isLoading,
     error,
-  } = useQuery<RentalEquipment[]>({
+  } = useQuery<RentalEquipmentWithLinks[]>({
     queryKey: ["/api/rental-equipment"],
   });
 
+  const { data: changes } = useQuery<RentalEquipmentChanges>({
+    queryKey: ["/api/rental-equipment/changes"],
+  });
+
+  const { data: reportSettings } = useEquipmentReportSettings();
+  const fleetName = reportSettings?.accountManagers.length
+    ? `${reportSettings.accountManagers.join(", ")} fleet`
+    : "Branch fleet";
+
   const processEmailMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
       formData.append("file", file);
       const response = await fetch("/api/process-equipment-email", {
         method: "POST",
+        headers: getAuthHeaders(),
+        credentials: "include",
         body: formData,
       });
-      if (!response.ok) throw new Error("Failed to process equipment file");
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to process equipment file");
+      }
       return response.json();
     },
     onSuccess: (data) => {
@@ -54,14 +80,17 @@ export default function Equipment() {
         description: `${data.count} equipment records processed`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/rental-equipment"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rental-equipment/changes"] });
       setFile(null);
       if (fileInputRef.current) fileInputRef.current.value = "";
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         variant: "destructive",
         title: "Upload Failed",
-        description: "Could not process the equipment file. Check the format.",
+        description: error.message === "Failed to process equipment email"
+          ? "Could not process the equipment file. Check the format."
+          : error.message,
       });
     },
   });
@@ -92,12 +121,14 @@ export default function Equipment() {
   }, [equipment, search]);
 
   const stats = useMemo(() => {
-    const customers = new Set(equipment.map((e) => e.customerOnRent).filter(Boolean));
-    const totalRate = equipment.reduce((sum, e) => sum + (e.monthlyRate ?? 0), 0);
-    const daysArr = equipment.map((e) => e.daysOnOffRent).filter((d): d is number => d != null);
+    // Off-rent and down units can be on the list too; only on-rent units earn
+    const onRent = equipment.filter((e) => e.status === "on_rent");
+    const customers = new Set(onRent.map((e) => e.customerOnRent).filter(Boolean));
+    const totalRate = onRent.reduce((sum, e) => sum + (e.monthlyRate ?? 0), 0);
+    const daysArr = onRent.map((e) => e.daysOnOffRent).filter((d): d is number => d != null);
     const avgDays = daysArr.length ? Math.round(daysArr.reduce((a, b) => a + b, 0) / daysArr.length) : 0;
     return {
-      total: equipment.length,
+      total: onRent.length,
       customers: customers.size,
       totalRate,
       avgDays,
@@ -168,14 +199,26 @@ export default function Equipment() {
             </Link>
             <div>
               <h1 className="text-lg font-semibold text-gray-900">Equipment Tracker</h1>
-              <p className="text-xs text-gray-500 -mt-0.5">Hudson's On-Rent Fleet</p>
+              <p className="text-xs text-gray-500 -mt-0.5">{fleetName}</p>
             </div>
           </div>
-          {equipment.length > 0 && (
-            <Badge variant="outline" className="bg-emerald-50 text-emerald-700 border-emerald-200 font-semibold text-sm px-3 py-1">
-              {equipment.length} Active
-            </Badge>
-          )}
+          <div className="flex items-center gap-2">
+            {equipment.length > 0 && (
+              <Badge variant="outline" className="bg-emerald-50 text-emerald-700 border-emerald-200 font-semibold text-sm px-3 py-1">
+                {stats.total} On Rent
+              </Badge>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1.5"
+              onClick={() => setSettingsOpen(true)}
+              data-testid="button-report-settings"
+            >
+              <Settings className="h-4 w-4" />
+              Report Settings
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -276,6 +319,9 @@ export default function Equipment() {
           </div>
         )}
 
+        {/* Day-over-day changes */}
+        {changes?.previousReportDate && <ChangesCard changes={changes} />}
+
         {/* Equipment table */}
         {isLoading ? (
           <Card>
@@ -296,7 +342,8 @@ export default function Equipment() {
                 <div>
                   <p className="text-lg font-medium text-gray-700">No Equipment Data Yet</p>
                   <p className="text-sm text-gray-400 mt-1 max-w-sm">
-                    Upload your daily equipment status spreadsheet above to see your on-rent fleet at a glance.
+                    Upload your daily equipment status spreadsheet above to see your fleet at a glance.
+                    Use Report Settings to choose your account managers and statuses.
                   </p>
                 </div>
               </div>
@@ -307,7 +354,7 @@ export default function Equipment() {
             <CardHeader className="pb-4">
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
                 <CardTitle className="text-base font-semibold text-gray-900">
-                  On-Rent Equipment
+                  Equipment
                 </CardTitle>
                 <div className="relative max-w-xs w-full">
                   <svg className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
@@ -347,6 +394,15 @@ export default function Equipment() {
                         >
                           <TableCell className="font-mono font-bold text-blue-700 text-sm">
                             {item.equipmentNumber}
+                            {item.status !== "on_rent" && (
+                              <Badge
+                                variant="outline"
+                                className={`ml-2 font-sans font-medium text-[10px] px-1.5 py-0 ${STATUS_BADGES[item.status].className}`}
+                                title={item.statusText ?? undefined}
+                              >
+                                {STATUS_BADGES[item.status].label}
+                              </Badge>
+                            )}
                           </TableCell>
                           <TableCell>
                             <div>
@@ -361,8 +417,20 @@ export default function Equipment() {
                             <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${badgeColor(cust)}`}>
                               {cust}
                             </span>
+                            {item.companyName && (
+                              <p className="text-xs text-gray-400 mt-0.5 truncate max-w-[180px]" title="Linked company">
+                                {item.companyName}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-600">
+                            {item.location || "—"}
+                            {item.jobName && (
+                              <p className="text-xs text-blue-600 mt-0.5 truncate max-w-[200px]" title="Linked job">
+                                {item.jobName}
+                              </p>
+                            )}
                           </TableCell>
-                          <TableCell className="text-sm text-gray-600">{item.location || "—"}</TableCell>
                           <TableCell className="text-sm text-gray-600">
                             {item.dateOnOffRent || "—"}
                           </TableCell>
@@ -396,6 +464,16 @@ export default function Equipment() {
                                 <Calendar className="h-3.5 w-3.5" />
                                 Down Day
                               </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 gap-1 text-gray-600 hover:text-gray-900 hover:bg-gray-50"
+                                onClick={() => setLinkEquipment(item)}
+                                title="Link to company and job"
+                              >
+                                <Link2 className="h-3.5 w-3.5" />
+                                Link
+                              </Button>
                             </div>
                           </TableCell>
                         </TableRow>
@@ -419,7 +497,7 @@ export default function Equipment() {
                     Showing <strong className="text-gray-700">{filtered.length}</strong> of {equipment.length} pieces
                   </span>
                   <span className="text-gray-500">
-                    Total: <strong className="text-gray-900">${filtered.reduce((s, e) => s + (e.monthlyRate ?? 0), 0).toLocaleString()}</strong>/mo
+                    On rent: <strong className="text-gray-900">${filtered.filter((e) => e.status === "on_rent").reduce((s, e) => s + (e.monthlyRate ?? 0), 0).toLocaleString()}</strong>/mo
                   </span>
                 </div>
               )}
@@ -438,10 +516,79 @@ export default function Equipment() {
         isOpen={!!serviceCallEquipment}
         onClose={() => setServiceCallEquipment(null)}
       />
+      <EquipmentReportSettingsModal isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
+      <RentalEquipmentLinkModal
+        equipment={linkEquipment}
+        isOpen={!!linkEquipment}
+        onClose={() => setLinkEquipment(null)}
+      />
     </div>
   );
 }
 
+const CHANGE_GROUPS: {
+  type: RentalEquipmentChange["type"];
+  label: string;
+  icon: React.ElementType;
+  className: string;
+}[] = [
+  { type: "on_rent", label: "Went on rent", icon: ArrowUpRight, className: "text-emerald-600 bg-emerald-50" },
+  { type: "off_rent", label: "Came off rent", icon: ArrowDownRight, className: "text-rose-600 bg-rose-50" },
+  { type: "status_changed", label: "Status changed", icon: RefreshCw, className: "text-sky-600 bg-sky-50" },
+  { type: "customer_changed", label: "Moved customer", icon: ArrowRightLeft, className: "text-violet-600 bg-violet-50" },
+  { type: "rate_changed", label: "Rate changed", icon: DollarSign, className: "text-amber-600 bg-amber-50" },
+];
+
+function ChangesCard({ changes }: { changes: RentalEquipmentChanges }) {
+  return (
+    <Card data-testid="equipment-changes">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold text-gray-900">
+          Changes since {changes.previousReportDate}
+          <span className="ml-2 text-sm font-normal text-gray-500">
+            {changes.changes.length === 0 ? "No changes on the latest report" : `${changes.changes.length} changes`}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      {changes.changes.length > 0 && (
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {CHANGE_GROUPS.map((group) => {
+            const items = changes.changes.filter((c) => c.type === group.type);
+            if (items.length === 0) return null;
+            const Icon = group.icon;
+            return (
+              <div key={group.type}>
+                <div className="flex items-center gap-2 mb-2">
+                  <span className={`w-6 h-6 rounded-md flex items-center justify-center ${group.className}`}>
+                    <Icon className="h-3.5 w-3.5" />
+                  </span>
+                  <span className="text-sm font-medium text-gray-700">{group.label}</span>
+                  <Badge variant="secondary" className="text-xs">{items.length}</Badge>
+                </div>
+                <ul className="space-y-1">
+                  {items.map((c) => (
+                    <li key={`${c.type}-${c.equipmentNumber}`} className="text-sm text-gray-600 flex flex-wrap gap-x-2">
+                      <span className="font-mono font-semibold text-blue-700">{c.equipmentNumber}</span>
+                      <span className="text-gray-500">{c.model}</span>
+                      {c.type === "on_rent" && c.to && <span>→ {c.to}</span>}
+                      {c.type === "off_rent" && c.from && <span>from {c.from}</span>}
+                      {(c.type === "status_changed" || c.type === "customer_changed" || c.type === "rate_changed") && (
+                        <span>
+                          {c.from ?? "—"} → {c.to ?? "—"}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
 function StatCard({
   label,
   value,
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import {
+  IMPORT_RUN_COUNT_LABELS,
+  IMPORT_SOURCE_LABELS,
+  type ImportRun,
+  type ImportRunRecordWithLabel,
+} from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useImportRun, useImportRuns, useRevertImportRun } from "@/hooks/useImportRuns";
+import { ChevronDown, ChevronRight, FileSpreadsheet, History, Loader2, Undo2, Users } from "lucide-react";
+
+const STATUS_BADGES: Record<ImportRun["status"], { label: string; className: string }> = {
+  running: { label: "Running", className: "bg-blue-100 text-blue-700" },
+  completed: { label: "Completed", className: "bg-green-100 text-green-700" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700" },
+  reverted: { label: "Reverted", className: "bg-gray-100 text-gray-600" },
+};
+
+const ENTITY_LABELS: Record<ImportRunRecordWithLabel["entityType"], string> = {
+  job: "Job",
+  company: "Company",
+  contact: "Contact",
+  interaction: "Interaction",
+  contact_job: "Job link",
+};
+
+// Records listed per run before the rest are summarized
+const RECORD_LIST_LIMIT = 200;
+
+function formatPrevious(value: unknown) {
+  if (value === null || value === undefined || value === "") return "empty";
+  if (Array.isArray(value)) return value.join(", ") || "empty";
+  return String(value);
+}
+
+function RunRecords({ runId }: { runId: string }) {
+  const { data: run, isLoading, error } = useImportRun(runId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500 py-2">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading rows...
+      </div>
+    );
+  }
+  if (error || !run) return <p className="text-sm text-red-600 py-2">Failed to load this import's rows</p>;
+  if (run.records.length === 0) return <p className="text-sm text-gray-500 py-2">This import didn't create or change anything.</p>;
+
+  const shown = run.records.slice(0, RECORD_LIST_LIMIT);
+  return (
+    <div className="border rounded-lg divide-y max-h-96 overflow-y-auto">
+      {shown.map((record) => (
+        <div key={record.id} className="px-3 py-2 text-sm flex flex-col gap-1" data-testid={`import-record-${record.id}`}>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-xs">{ENTITY_LABELS[record.entityType]}</Badge>
+            <span className={`truncate ${record.label ? "text-gray-900" : "text-gray-400 italic"}`}>
+              {record.label ?? "No longer exists"}
+            </span>
+            <span className="ml-auto text-xs text-gray-500 flex-shrink-0">
+              {record.action === "created" ? "Created" : "Updated"}
+            </span>
+          </div>
+          {record.action === "updated" && record.previousValues && (
+            <div className="pl-2 text-xs text-gray-500 space-y-0.5">
+              {Object.entries(record.previousValues).map(([field, previous]) => (
+                <div key={field} className="break-words">
+                  {field}: was <span className="text-gray-700">{formatPrevious(previous)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      {run.records.length > shown.length && (
+        <div className="px-3 py-2 text-xs text-gray-500">...and {run.records.length - shown.length} more</div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Every Dodge, KYC and VCF import with what it did. An import can be
+ * reverted: rows it created are deleted and fields it changed are put back.
+ */
+export default function ImportHistoryPage() {
+  const { toast } = useToast();
+  const { data: runs = [], isLoading } = useImportRuns();
+  const revertMutation = useRevertImportRun();
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+
+  const handleRevert = (run: ImportRun) => {
+    const name = run.fileName || IMPORT_SOURCE_LABELS[run.source];
+    if (!confirm(`Revert "${name}"? Jobs, companies and contacts it created will be deleted, along with anything added to them since, and fields it changed will be put back.`)) {
+      return;
+    }
+    revertMutation.mutate(run.id, {
+      onSuccess: ({ deleted, restored, kept }) =>
+        toast({
+          title: "Import reverted",
+          description: `${deleted} row${deleted === 1 ? "" : "s"} deleted, ${restored} field${restored === 1 ? "" : "s"} restored` +
+            (kept > 0 ? `; ${kept} edited since the import kept as they are` : ""),
+        }),
+      onError: (err) => toast({ variant: "destructive", title: "Error", description: err.message }),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-slate-50">
+      <div className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <button className="text-gray-400 hover:text-gray-600 transition-colors">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
+              </button>
+            </Link>
+            <div>
+              <h1 className="text-lg font-semibold text-gray-900">Import History</h1>
+              <p className="text-xs text-gray-500 -mt-0.5">Every spreadsheet and contact file imported, and what it changed</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4 max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : runs.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-gray-500">
+              <History className="h-8 w-8 mx-auto mb-3 text-gray-300" />
+              No imports yet. Dodge exports, sales logs and contact files show up here once imported.
+            </CardContent>
+          </Card>
+        ) : (
+          runs.map((run) => {
+            const status = STATUS_BADGES[run.status];
+            const isOpen = openRunId === run.id;
+            const counts = Object.entries(run.counts).filter(([, value]) => value > 0);
+            const SourceIcon = run.source === "dodge" ? FileSpreadsheet : Users;
+            return (
+              <Card key={run.id} data-testid={`import-run-${run.id}`}>
+                <CardContent className="pt-6 space-y-3">
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <div className="flex items-center gap-3 flex-1 min-w-0">
+                      <div className="p-2 bg-blue-100 rounded-lg flex-shrink-0">
+                        <SourceIcon className="h-5 w-5 text-blue-600" />
+                      </div>
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-gray-900 truncate">
+                            {run.fileName || IMPORT_SOURCE_LABELS[run.source]}
+                          </span>
+                          <Badge variant="outline" className={`border-transparent ${status.className}`}>{status.label}</Badge>
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {IMPORT_SOURCE_LABELS[run.source]}
+                          {run.createdAt && ` · ${format(new Date(run.createdAt), "MMM d, yyyy h:mm a")}`}
+                          {run.revertedAt && ` · reverted ${format(new Date(run.revertedAt), "MMM d, yyyy h:mm a")}`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setOpenRunId(isOpen ? null : run.id)}
+                        data-testid={`button-import-run-details-${run.id}`}
+                      >
+                        {isOpen ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                        Rows
+                      </Button>
+                      {run.status !== "reverted" && run.status !== "running" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => handleRevert(run)}
+                          disabled={revertMutation.isPending}
+                          data-testid={`button-revert-import-${run.id}`}
+                        >
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Revert
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {counts.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {counts.map(([key, value]) => (
+                        <Badge key={key} variant="secondary" className="font-normal">
+                          {IMPORT_RUN_COUNT_LABELS[key] ?? key}: {value}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
+                  {isOpen && <RunRecords runId={run.id} />}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
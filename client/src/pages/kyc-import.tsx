@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Upload, FileSpreadsheet, CheckCircle, AlertCircle, Eye, AlertTriangle, XCircle, ChevronDown, X, Phone } from "lucide-react";
+import { Upload, FileSpreadsheet, CheckCircle, AlertCircle, Eye, AlertTriangle, XCircle, ChevronDown, X, Phone, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { getAuthHeaders } from "@/lib/auth";
 
@@ -158,6 +158,12 @@ export function KycImportPage() {
               <p className="text-xs text-gray-500 -mt-0.5">Import contacts, companies, and interactions from KYC Master spreadsheet</p>
             </div>
           </div>
+          <Button asChild variant="ghost" size="sm" className="ml-auto text-gray-600" data-testid="link-import-history">
+            <Link href="/imports">
+              <History className="h-4 w-4 mr-1" />
+              Import history
+            </Link>
+          </Button>
         </div>
       </div>
 
@@ -0,0 +1,217 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { useOpportunities, useUpdateOpportunity, type OpportunityStage } from "@/hooks/useOpportunities";
+import { OpportunityModal, OPPORTUNITY_STAGES } from "@/components/modals/OpportunityModal";
+import { useToast } from "@/hooks/use-toast";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import type { OpportunityWithJob } from "@shared/schema";
+import { Columns3, Calendar, HardHat } from "lucide-react";
+import { format, isPast } from "date-fns";
+
+const STAGE_ACCENTS: Record<OpportunityStage, string> = {
+  prospect: "border-t-slate-400",
+  quoted: "border-t-blue-500",
+  negotiating: "border-t-amber-500",
+  won: "border-t-green-500",
+  lost: "border-t-red-500",
+};
+
+function formatCurrency(value: number): string {
+  if (value >= 1_000_000_000) return `$${(value / 1_000_000_000).toFixed(1)}B`;
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `$${(value / 1_000).toFixed(0)}K`;
+  return `$${value.toLocaleString()}`;
+}
+
+function revenueOf(opp: OpportunityWithJob): number {
+  const val = opp.estimatedRevenue ? parseFloat(opp.estimatedRevenue) : 0;
+  return isNaN(val) ? 0 : val;
+}
+
+function OpportunityCard({
+  opportunity,
+  onOpen,
+}: {
+  opportunity: OpportunityWithJob;
+  onOpen: () => void;
+}) {
+  const revenue = revenueOf(opportunity);
+  const closeDate = opportunity.expectedCloseDate ? new Date(opportunity.expectedCloseDate) : null;
+  const isOpenStage = opportunity.stage !== "won" && opportunity.stage !== "lost";
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", opportunity.id);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onClick={onOpen}
+      className="bg-white rounded-lg border border-gray-200 p-3 shadow-sm hover:border-blue-300 hover:shadow cursor-grab active:cursor-grabbing"
+      data-testid={`opportunity-card-${opportunity.id}`}
+    >
+      <p className="text-sm font-medium text-gray-900 line-clamp-2">{opportunity.jobName}</p>
+      {opportunity.contractor && (
+        <p className="text-xs text-gray-500 mt-1 truncate flex items-center gap-1">
+          <HardHat className="h-3 w-3 flex-shrink-0" />
+          {opportunity.contractor}
+        </p>
+      )}
+      <div className="flex items-center justify-between mt-2 text-xs">
+        <span className="font-semibold text-gray-900">{revenue > 0 ? formatCurrency(revenue) : "—"}</span>
+        <span className="text-gray-500">{opportunity.probability}%</span>
+      </div>
+      {closeDate && (
+        <p
+          className={cn(
+            "text-xs mt-1 flex items-center gap-1",
+            isOpenStage && isPast(closeDate) ? "text-red-600" : "text-gray-500"
+          )}
+        >
+          <Calendar className="h-3 w-3" />
+          Close {format(closeDate, "MMM d, yyyy")}
+        </p>
+      )}
+      {opportunity.stage === "lost" && opportunity.lostReason && (
+        <p className="text-xs text-gray-500 mt-1 italic line-clamp-2">{opportunity.lostReason}</p>
+      )}
+    </div>
+  );
+}
+
+export default function PipelinePage() {
+  const { toast } = useToast();
+  const { data: opportunities = [], isLoading } = useOpportunities();
+  const updateMutation = useUpdateOpportunity();
+  const [dragOverStage, setDragOverStage] = useState<OpportunityStage | null>(null);
+  const [editing, setEditing] = useState<{ opportunity: OpportunityWithJob; initialStage?: OpportunityStage } | null>(null);
+
+  const columns = useMemo(
+    () =>
+      OPPORTUNITY_STAGES.map((stage) => {
+        const items = opportunities.filter((o) => o.stage === stage.value);
+        const total = items.reduce((sum, o) => sum + revenueOf(o), 0);
+        const weighted = items.reduce((sum, o) => sum + revenueOf(o) * (o.probability / 100), 0);
+        return { ...stage, items, total, weighted };
+      }),
+    [opportunities]
+  );
+
+  const handleDrop = (stage: OpportunityStage, opportunityId: string) => {
+    setDragOverStage(null);
+    const opportunity = opportunities.find((o) => o.id === opportunityId);
+    if (!opportunity || opportunity.stage === stage) return;
+
+    // Ask why before marking a deal lost
+    if (stage === "lost") {
+      setEditing({ opportunity, initialStage: "lost" });
+      return;
+    }
+    updateMutation.mutate(
+      { id: opportunity.id, stage },
+      {
+        onError: (error: Error) => {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-slate-50">
+      <header className="bg-white/80 backdrop-blur-lg border-b border-gray-200/60 sticky top-0 z-50">
+        <div className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-3 py-4">
+            <Link href="/">
+              <button className="text-gray-400 hover:text-gray-600 transition-colors">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+              </button>
+            </Link>
+            <div className="flex items-center gap-2">
+              <div className="h-9 w-9 rounded-lg bg-blue-100 flex items-center justify-center">
+                <Columns3 className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <h1 className="text-lg font-semibold text-gray-900">Pipeline</h1>
+                <p className="text-xs text-gray-500">Drag deals between stages. Add jobs from the job details panel.</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="grid grid-flow-col auto-cols-[minmax(240px,1fr)] gap-4 overflow-x-auto pb-4">
+          {columns.map((column) => (
+            <div
+              key={column.value}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+                if (dragOverStage !== column.value) setDragOverStage(column.value);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragOverStage(null);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(column.value, e.dataTransfer.getData("text/plain"));
+              }}
+              className={cn(
+                "flex flex-col rounded-xl border border-t-4 bg-gray-50/80 min-h-[60vh] transition-colors",
+                STAGE_ACCENTS[column.value],
+                dragOverStage === column.value && "bg-blue-50 border-blue-200"
+              )}
+              data-testid={`pipeline-column-${column.value}`}
+            >
+              <div className="px-3 py-2.5 border-b border-gray-200/70">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-sm font-semibold text-gray-800">{column.label}</h2>
+                  <span className="text-xs font-medium text-gray-500 bg-white rounded-full px-2 py-0.5 border">
+                    {column.items.length}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {formatCurrency(column.total)}
+                  {column.value !== "won" && column.value !== "lost" && (
+                    <span className="text-gray-400"> · {formatCurrency(Math.round(column.weighted))} weighted</span>
+                  )}
+                </p>
+              </div>
+              <div className="flex-1 p-2 space-y-2">
+                {isLoading ? (
+                  <>
+                    <Skeleton className="h-20 w-full rounded-lg" />
+                    <Skeleton className="h-20 w-full rounded-lg" />
+                  </>
+                ) : (
+                  column.items.map((opportunity) => (
+                    <OpportunityCard
+                      key={opportunity.id}
+                      opportunity={opportunity}
+                      onOpen={() => setEditing({ opportunity })}
+                    />
+                  ))
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {editing && (
+        <OpportunityModal
+          isOpen={!!editing}
+          onClose={() => setEditing(null)}
+          jobId={editing.opportunity.jobId}
+          jobName={editing.opportunity.jobName}
+          opportunity={editing.opportunity}
+          initialStage={editing.initialStage}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+-- Add saved dashboard filter views to users table
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "saved_views" json;
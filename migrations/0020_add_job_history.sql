@@ -0,0 +1,16 @@
+-- Create job change history (audit trail) table
+CREATE TYPE "public"."job_change_source" AS ENUM('user', 'dodge_import');--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "job_history" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" varchar NOT NULL,
+	"user_id" varchar,
+	"source" "job_change_source" DEFAULT 'user' NOT NULL,
+	"action" text NOT NULL,
+	"changes" json DEFAULT '[]'::json NOT NULL,
+	"changed_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+
+ALTER TABLE "job_history" ADD CONSTRAINT "job_history_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "job_history" ADD CONSTRAINT "job_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "job_history_job_id_idx" ON "job_history" ("job_id", "changed_at");
@@ -0,0 +1,26 @@
+-- Create follow-up tasks and reminders
+CREATE TYPE "public"."task_priority" AS ENUM('low', 'medium', 'high');--> statement-breakpoint
+CREATE TYPE "public"."task_status" AS ENUM('open', 'done', 'snoozed');--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "tasks" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"title" text NOT NULL,
+	"notes" text,
+	"due_date" timestamp NOT NULL,
+	"priority" "task_priority" DEFAULT 'medium' NOT NULL,
+	"status" "task_status" DEFAULT 'open' NOT NULL,
+	"snoozed_until" timestamp,
+	"completed_at" timestamp,
+	"job_id" varchar,
+	"contact_id" varchar,
+	"company_id" varchar,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_contact_id_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tasks_user_due_idx" ON "tasks" ("user_id", "status", "due_date");
@@ -0,0 +1,21 @@
+-- Create per-job sales opportunities for the pipeline board
+CREATE TYPE "public"."opportunity_stage" AS ENUM('prospect', 'quoted', 'negotiating', 'won', 'lost');--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "opportunities" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" varchar NOT NULL,
+	"user_id" varchar,
+	"stage" "opportunity_stage" DEFAULT 'prospect' NOT NULL,
+	"estimated_revenue" numeric(12, 2),
+	"probability" integer DEFAULT 10 NOT NULL,
+	"expected_close_date" timestamp,
+	"lost_reason" text,
+	"stage_changed_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "opportunities_job_id_unique" UNIQUE("job_id")
+);--> statement-breakpoint
+
+ALTER TABLE "opportunities" ADD CONSTRAINT "opportunities_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "opportunities" ADD CONSTRAINT "opportunities_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "opportunities_user_stage_idx" ON "opportunities" ("user_id", "stage");
@@ -0,0 +1,25 @@
+-- Create versioned rental equipment quotes on jobs
+CREATE TYPE "public"."quote_status" AS ENUM('draft', 'sent', 'accepted', 'declined');--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "quotes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"job_id" varchar NOT NULL,
+	"contact_id" varchar,
+	"quote_number" integer NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"status" "quote_status" DEFAULT 'draft' NOT NULL,
+	"line_items" json DEFAULT '[]'::json NOT NULL,
+	"notes" text,
+	"valid_until" timestamp,
+	"total" numeric(12, 2),
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_contact_id_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "quotes_user_number_version_idx" ON "quotes" ("user_id", "quote_number", "version");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "quotes_job_idx" ON "quotes" ("job_id");
@@ -0,0 +1,20 @@
+-- Keep rental equipment rows across daily reports (upsert by equipment number) and snapshot each report
+DELETE FROM "rental_equipment" a USING "rental_equipment" b
+WHERE a."equipment_number" = b."equipment_number"
+  AND (a."last_updated", a."id") < (b."last_updated", b."id");--> statement-breakpoint
+ALTER TABLE "rental_equipment" ADD CONSTRAINT "rental_equipment_equipment_number_unique" UNIQUE("equipment_number");--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "rental_equipment_snapshots" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"report_date" text NOT NULL,
+	"equipment_number" text NOT NULL,
+	"model" text NOT NULL,
+	"customer_on_rent" text,
+	"acct_mgr" text,
+	"location" text,
+	"date_on_off_rent" text,
+	"days_on_off_rent" integer,
+	"monthly_rate" integer,
+	"created_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "rental_equipment_snapshots_date_number_idx" ON "rental_equipment_snapshots" ("report_date", "equipment_number");
@@ -0,0 +1,21 @@
+-- Per-rep equipment report settings: each rep keeps their own fleet parsed from the shared branch report
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "equipment_report_settings" json;--> statement-breakpoint
+
+ALTER TABLE "rental_equipment" ADD COLUMN IF NOT EXISTS "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "rental_equipment" ADD COLUMN IF NOT EXISTS "status_text" text;--> statement-breakpoint
+ALTER TABLE "rental_equipment" ADD COLUMN IF NOT EXISTS "in_latest_report" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "rental_equipment_snapshots" ADD COLUMN IF NOT EXISTS "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "rental_equipment_snapshots" ADD COLUMN IF NOT EXISTS "status" "rental_status" DEFAULT 'on_rent' NOT NULL;--> statement-breakpoint
+
+-- Existing rows were parsed with the default (single rep) settings; give them to the first account
+UPDATE "rental_equipment" SET "user_id" = (SELECT "id" FROM "users" ORDER BY "created_at" LIMIT 1) WHERE "user_id" IS NULL;--> statement-breakpoint
+UPDATE "rental_equipment_snapshots" SET "user_id" = (SELECT "id" FROM "users" ORDER BY "created_at" LIMIT 1) WHERE "user_id" IS NULL;--> statement-breakpoint
+UPDATE "rental_equipment" SET "in_latest_report" = false WHERE "status" = 'off_rent';--> statement-breakpoint
+
+ALTER TABLE "rental_equipment" ADD CONSTRAINT "rental_equipment_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rental_equipment_snapshots" ADD CONSTRAINT "rental_equipment_snapshots_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+
+ALTER TABLE "rental_equipment" DROP CONSTRAINT IF EXISTS "rental_equipment_equipment_number_unique";--> statement-breakpoint
+ALTER TABLE "rental_equipment" ADD CONSTRAINT "rental_equipment_user_number_unique" UNIQUE("user_id", "equipment_number");--> statement-breakpoint
+DROP INDEX IF EXISTS "rental_equipment_snapshots_date_number_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "rental_equipment_snapshots_user_date_number_idx" ON "rental_equipment_snapshots" ("user_id", "report_date", "equipment_number");
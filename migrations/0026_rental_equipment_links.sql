@@ -0,0 +1,10 @@
+-- Link rental units to the company they are on rent to and the job site they are sitting on
+ALTER TABLE "rental_equipment" ADD COLUMN IF NOT EXISTS "company_id" varchar;--> statement-breakpoint
+ALTER TABLE "rental_equipment" ADD COLUMN IF NOT EXISTS "job_id" varchar;--> statement-breakpoint
+ALTER TABLE "rental_equipment" ADD COLUMN IF NOT EXISTS "latitude" numeric(10, 8);--> statement-breakpoint
+ALTER TABLE "rental_equipment" ADD COLUMN IF NOT EXISTS "longitude" numeric(11, 8);--> statement-breakpoint
+ALTER TABLE "rental_equipment" ADD COLUMN IF NOT EXISTS "geocoded_location" text;--> statement-breakpoint
+ALTER TABLE "rental_equipment" ADD COLUMN IF NOT EXISTS "locked_fields" json DEFAULT '[]'::json NOT NULL;--> statement-breakpoint
+ALTER TABLE "rental_equipment" ADD CONSTRAINT "rental_equipment_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rental_equipment" ADD CONSTRAINT "rental_equipment_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "rental_equipment_job_id_idx" ON "rental_equipment" ("job_id");
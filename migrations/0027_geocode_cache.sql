@@ -0,0 +1,22 @@
+-- Persistent geocode cache and per-job geocode accuracy
+CREATE TYPE "public"."geocode_source" AS ENUM('google', 'nominatim', 'manual');--> statement-breakpoint
+CREATE TYPE "public"."geocode_precision" AS ENUM('rooftop', 'street', 'approximate');--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "geocode_cache" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"address_key" text NOT NULL,
+	"address" text NOT NULL,
+	"latitude" numeric(10, 8),
+	"longitude" numeric(11, 8),
+	"source" "geocode_source",
+	"precision" "geocode_precision",
+	"failed_reason" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "geocode_cache_address_key_unique" UNIQUE("address_key")
+);--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "geocode_source" "geocode_source";--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "geocode_precision" "geocode_precision";--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "geocode_failed_reason" text;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "geocoded_at" timestamp;--> statement-breakpoint
+-- Existing pins came from a live lookup of unknown accuracy
+UPDATE "jobs" SET "geocoded_at" = now() WHERE "latitude" IS NOT NULL AND "geocoded_at" IS NULL;
@@ -0,0 +1,15 @@
+-- Named territory polygons drawn on the map, and the territory an import was tagged with
+CREATE TABLE IF NOT EXISTS "territories" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"name" text NOT NULL,
+	"color" text DEFAULT '#2563eb' NOT NULL,
+	"polygon" json NOT NULL,
+	"auto_tag_imports" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+ALTER TABLE "territories" ADD CONSTRAINT "territories_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "territory_id" varchar;--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_territory_id_territories_id_fk" FOREIGN KEY ("territory_id") REFERENCES "public"."territories"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "jobs_territory_id_idx" ON "jobs" ("territory_id");
@@ -0,0 +1,32 @@
+-- Site visit check-ins with the device position, photos, and the interactions logged for them
+CREATE TABLE IF NOT EXISTS "site_visits" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"job_id" varchar NOT NULL,
+	"checked_in_at" timestamp DEFAULT now() NOT NULL,
+	"checked_out_at" timestamp,
+	"latitude" numeric(10, 8) NOT NULL,
+	"longitude" numeric(11, 8) NOT NULL,
+	"accuracy_meters" integer,
+	"distance_meters" integer,
+	"notes" text,
+	"created_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "site_visit_photos" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"site_visit_id" varchar NOT NULL,
+	"user_id" varchar,
+	"filename" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"data" bytea NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+ALTER TABLE "site_visits" ADD CONSTRAINT "site_visits_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "site_visits" ADD CONSTRAINT "site_visits_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "site_visit_photos" ADD CONSTRAINT "site_visit_photos_site_visit_id_site_visits_id_fk" FOREIGN KEY ("site_visit_id") REFERENCES "public"."site_visits"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "site_visit_photos" ADD CONSTRAINT "site_visit_photos_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN IF NOT EXISTS "site_visit_id" varchar;--> statement-breakpoint
+ALTER TABLE "interactions" ADD CONSTRAINT "interactions_site_visit_id_site_visits_id_fk" FOREIGN KEY ("site_visit_id") REFERENCES "public"."site_visits"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "site_visits_job_id_idx" ON "site_visits" ("job_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "site_visit_photos_site_visit_id_idx" ON "site_visit_photos" ("site_visit_id");
@@ -0,0 +1,15 @@
+-- Documents get an owner and can be attached to a job, company or contact, with the file kept in the file store
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "job_id" varchar;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "company_id" varchar;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "contact_id" varchar;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "storage_key" text;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "thumbnail_key" text;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_contact_id_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "documents_user_id_idx" ON "documents" ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "documents_job_id_idx" ON "documents" ("job_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "documents_company_id_idx" ON "documents" ("company_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "documents_contact_id_idx" ON "documents" ("contact_id");
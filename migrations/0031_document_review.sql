@@ -0,0 +1,4 @@
+-- Processed documents are staged for review instead of creating jobs straight away
+CREATE TYPE "public"."document_review_status" AS ENUM('pending', 'accepted');--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "review_status" "document_review_status";--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "documents_review_status_idx" ON "documents" ("user_id", "review_status");
@@ -0,0 +1,2 @@
+-- Saved Dodge import column mappings, auto-selected when a new export has the same headers
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "dodge_mapping_profiles" json;
@@ -0,0 +1,19 @@
+-- Field-level conflicts from Dodge re-imports, held for review instead of overwriting or skipping
+CREATE TYPE "public"."import_conflict_status" AS ENUM('pending', 'accepted', 'rejected');--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "import_conflicts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"job_id" varchar NOT NULL,
+	"import_run_id" varchar NOT NULL,
+	"field" text NOT NULL,
+	"current_value" text,
+	"incoming_value" text,
+	"user_edited" boolean DEFAULT false NOT NULL,
+	"status" "import_conflict_status" DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"resolved_at" timestamp
+);--> statement-breakpoint
+ALTER TABLE "import_conflicts" ADD CONSTRAINT "import_conflicts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_conflicts" ADD CONSTRAINT "import_conflicts_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "import_conflicts_user_status_idx" ON "import_conflicts" ("user_id", "status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "import_conflicts_job_field_idx" ON "import_conflicts" ("job_id", "field");
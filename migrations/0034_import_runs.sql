@@ -0,0 +1,30 @@
+-- Import runs record what each Dodge, KYC and VCF import created or changed so it can be reverted
+CREATE TYPE "public"."import_source" AS ENUM('dodge', 'kyc', 'vcf');--> statement-breakpoint
+CREATE TYPE "public"."import_run_status" AS ENUM('running', 'completed', 'failed', 'reverted');--> statement-breakpoint
+CREATE TYPE "public"."import_record_entity" AS ENUM('job', 'company', 'contact', 'interaction', 'contact_job');--> statement-breakpoint
+CREATE TYPE "public"."import_record_action" AS ENUM('created', 'updated');--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "import_runs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"source" "import_source" NOT NULL,
+	"file_name" text,
+	"counts" json DEFAULT '{}'::json NOT NULL,
+	"status" "import_run_status" DEFAULT 'running' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"finished_at" timestamp,
+	"reverted_at" timestamp
+);--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "import_run_records" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"import_run_id" varchar NOT NULL,
+	"entity_type" "import_record_entity" NOT NULL,
+	"entity_id" varchar NOT NULL,
+	"action" "import_record_action" NOT NULL,
+	"previous_values" json,
+	"imported_values" json,
+	"created_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+ALTER TABLE "import_runs" ADD CONSTRAINT "import_runs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_run_records" ADD CONSTRAINT "import_run_records_import_run_id_import_runs_id_fk" FOREIGN KEY ("import_run_id") REFERENCES "public"."import_runs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "import_runs_user_created_idx" ON "import_runs" ("user_id", "created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "import_run_records_run_idx" ON "import_run_records" ("import_run_id");
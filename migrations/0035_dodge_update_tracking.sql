@@ -0,0 +1,6 @@
+-- Track Dodge version changes per job and jobs left out of the latest export for their county
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "dodge_version_at" timestamp;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "dodge_changed_fields" json;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "missing_from_dodge_at" timestamp;--> statement-breakpoint
+-- Imported jobs start from the version they have now
+UPDATE "jobs" SET "dodge_version_at" = COALESCE("last_imported_at", "created_at") WHERE "last_imported_at" IS NOT NULL;
@@ -0,0 +1,5 @@
+-- Maintenance set by hand is now recorded as a "status" lock. Units in maintenance
+-- that the report doesn't show as down were set by a rep, so they keep it.
+UPDATE "rental_equipment"
+SET "locked_fields" = ("locked_fields"::jsonb || '["status"]'::jsonb)::json
+WHERE "status" = 'maintenance' AND UPPER(COALESCE("status_text", '')) NOT LIKE '%DOWN%';
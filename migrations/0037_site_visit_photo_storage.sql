@@ -0,0 +1,4 @@
+-- Site visit photos move to the file store; the row keeps only the key. Photos
+-- already in the database are moved at startup, then their bytes are cleared.
+ALTER TABLE "site_visit_photos" ADD COLUMN IF NOT EXISTS "storage_key" text;--> statement-breakpoint
+ALTER TABLE "site_visit_photos" ALTER COLUMN "data" DROP NOT NULL;
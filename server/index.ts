@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { runMigrations } from "./db";
+import { moveSiteVisitPhotosToFileStorage } from "./services/photoStorageService";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -48,6 +49,8 @@ app.use((req, res, next) => {
   try {
     console.log("Running database migrations...");
     await runMigrations();
+    const movedPhotos = await moveSiteVisitPhotosToFileStorage();
+    if (movedPhotos > 0) console.log(`Moved ${movedPhotos} site visit photos to file storage`);
     console.log("Migrations completed, starting server...");
   } catch (error) {
     console.error("Database migration failed:", error);
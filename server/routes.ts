@@ -1,22 +1,34 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertJobSchema, insertEquipmentSchema, insertDocumentSchema, insertCompanySchema, insertContactSchema, insertContactJobSchema, insertInteractionSchema, jobs, type Job, DEFAULT_FILTER_PREFERENCES, type FilterPreferences } from "@shared/schema";
-import { eq, desc, and, or, gte, lte, sql, count, asc, isNotNull } from "drizzle-orm";
+import { insertJobSchema, insertEquipmentSchema, insertDocumentSchema, insertCompanySchema, insertContactSchema, insertContactJobSchema, insertInteractionSchema, jobs, type Job, DEFAULT_FILTER_PREFERENCES, type FilterPreferences, insertSavedViewSchema, updateSavedViewSchema, type SavedView, insertTaskSchema, type Task, insertOpportunitySchema, type Opportunity, DEFAULT_STAGE_PROBABILITY, type Contact, type InsertInteraction, insertQuoteSchema, type Quote, type QuoteWithLinks, quoteTotal, formatQuoteNumber, equipmentReportSettingsSchema, DEFAULT_EQUIPMENT_REPORT_SETTINGS, rentalEquipmentLinksSchema, jobLocationSchema, insertTerritorySchema, type TerritoryStats, type TerritoryPoint, MAX_NEAR_RADIUS_MILES, siteVisitCheckInSchema, siteVisitCheckOutSchema, MAX_SITE_VISIT_PHOTOS, attachmentOwnerSchema, type AttachmentOwner, MAX_ATTACHMENT_SIZE_MB, documentReviewSchema, dodgeColumnMappingSchema, insertDodgeMappingProfileSchema, type DodgeMappingProfile, importConflictResolutionSchema } from "@shared/schema";
+import { eq, desc, and, or, gte, lte, sql, count, asc, isNotNull, isNull } from "drizzle-orm";
 import { rentalEquipment } from "@shared/schema";
 import { db } from "./db";
 import { authenticate, AuthRequest, hashPassword, verifyPassword, generateToken, createInitialUser } from "./auth";
 import authRoutes from "./authRoutes";
 
 import { documentProcessor } from "./services/documentProcessor";
-import { emailProcessor } from "./services/emailProcessor";
+import { fileStorage, attachmentKey } from "./services/fileStorage";
+import { emailProcessor, ReportFormatError } from "./services/emailProcessor";
 import { emailWebhookService } from "./services/emailWebhookService";
 import { csvImportService } from "./services/csvImportService";
+import { resolveImportConflicts } from "./services/importConflictService";
+import { revertImportRun } from "./services/importRunService";
 import { importKycCsv } from "./services/kycImportService";
 import { generateDownDayPdf } from "./services/downDayPdfService";
+import { generateQuotePdf } from "./services/quotePdfService";
 import { emailService } from "./services/emailService";
-import { geocodeAddress } from "./services/geocodingService";
+import { geocodeAddress, lookupGeocode, reverseGeocode } from "./services/geocodingService";
+import { geocodeFieldsFor, geocodeQueue } from "./services/geocodeQueueService";
+import { planRoute, haversineMiles } from "./services/routePlannerService";
+import { recordJobChange, recordJobCreated } from "./services/jobHistoryService";
+import { checkOfflineConflict } from "./services/offlineSyncService";
+import { getEquipmentAnalytics } from "./services/equipmentAnalyticsService";
+import { pointInPolygon } from "./services/territoryService";
+import { linkRentalEquipment } from "./services/equipmentLinkService";
 import multer from 'multer';
+import { randomUUID } from "crypto";
 
 
 // Configure multer for file uploads
@@ -29,13 +41,14 @@ const upload = multer({
     const allowedTypes = [
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
       'application/msword',
+      'application/pdf',
       'text/plain'
     ];
     
     if (allowedTypes.includes(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only Word documents and text files are allowed.'));
+      cb(new Error('Invalid file type. Only Word documents, PDFs and text files are allowed.'));
     }
   }
 });
@@ -78,6 +91,46 @@ const uploadVcf = multer({
   },
 });
 
+// SVG is an image type that can carry script, so uploads take raster images only
+const isRasterImage = (mimetype: string) => mimetype.startsWith('image/') && mimetype !== 'image/svg+xml';
+
+// Configure multer for site visit photos (the browser shrinks them before upload)
+const uploadPhotos = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024, files: MAX_SITE_VISIT_PHOTOS }, // 10MB each
+  fileFilter: (req, file, cb) => {
+    if (isRasterImage(file.mimetype)) cb(null, true);
+    else cb(new Error('Invalid file type. Only images are allowed.'));
+  },
+});
+
+// Configure multer for job, company and contact attachments
+const ATTACHMENT_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain',
+  'text/csv',
+];
+const uploadAttachment = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_SIZE_MB * 1024 * 1024, files: 2 }, // The file and its thumbnail
+  fileFilter: (req, file, cb) => {
+    if (isRasterImage(file.mimetype) || ATTACHMENT_TYPES.includes(file.mimetype)) cb(null, true);
+    else cb(new Error('Invalid file type. Only images, PDFs, Word, Excel and text files are allowed.'));
+  },
+});
+
+const METERS_PER_MILE = 1609.344;
+
+function formatTimeOnSite(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Health check endpoint for deployment
   app.get("/health", (req, res) => {
@@ -212,6 +265,136 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ error: 'Failed to update filter preferences' });
     }
   });
+
+  // Saved dashboard views
+  app.get("/api/user/saved-views", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const views = await storage.getSavedViews(req.userId!);
+      res.json(views);
+    } catch (error) {
+      console.error('Get saved views error:', error);
+      res.status(500).json({ error: 'Failed to get saved views' });
+    }
+  });
+
+  app.post("/api/user/saved-views", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertSavedViewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid view', details: parsed.error.message });
+      }
+
+      const views = await storage.getSavedViews(req.userId!);
+      if (views.some(v => v.name.toLowerCase() === parsed.data.name.toLowerCase())) {
+        return res.status(400).json({ error: `A view named "${parsed.data.name}" already exists` });
+      }
+
+      const view: SavedView = { ...parsed.data, id: randomUUID(), createdAt: new Date().toISOString() };
+      // Only one view can be the default
+      const updated = view.isDefault ? views.map(v => ({ ...v, isDefault: false })) : views;
+      await storage.updateSavedViews(req.userId!, [...updated, view]);
+      res.status(201).json(view);
+    } catch (error) {
+      console.error('Create saved view error:', error);
+      res.status(500).json({ error: 'Failed to save view' });
+    }
+  });
+
+  app.patch("/api/user/saved-views/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = updateSavedViewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid view', details: parsed.error.message });
+      }
+
+      const views = await storage.getSavedViews(req.userId!);
+      const existing = views.find(v => v.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'View not found' });
+      }
+      const { name } = parsed.data;
+      if (name && views.some(v => v.id !== existing.id && v.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(400).json({ error: `A view named "${name}" already exists` });
+      }
+
+      const view: SavedView = { ...existing, ...parsed.data };
+      const updated = views.map(v => {
+        if (v.id === view.id) return view;
+        return view.isDefault ? { ...v, isDefault: false } : v;
+      });
+      await storage.updateSavedViews(req.userId!, updated);
+      res.json(view);
+    } catch (error) {
+      console.error('Update saved view error:', error);
+      res.status(500).json({ error: 'Failed to update view' });
+    }
+  });
+
+  app.delete("/api/user/saved-views/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const views = await storage.getSavedViews(req.userId!);
+      if (!views.some(v => v.id === req.params.id)) {
+        return res.status(404).json({ error: 'View not found' });
+      }
+      await storage.updateSavedViews(req.userId!, views.filter(v => v.id !== req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete saved view error:', error);
+      res.status(500).json({ error: 'Failed to delete view' });
+    }
+  });
+
+  // Territories drawn on the map
+  app.get("/api/territories", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const list = await storage.getTerritories(req.userId);
+      res.json(list);
+    } catch (error) {
+      console.error("Error fetching territories:", error);
+      res.status(500).json({ error: "Failed to fetch territories" });
+    }
+  });
+
+  app.post("/api/territories", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertTerritorySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid territory", details: parsed.error.message });
+      }
+      const territory = await storage.createTerritory({ ...parsed.data, userId: req.userId! });
+      res.status(201).json(territory);
+    } catch (error) {
+      console.error("Error creating territory:", error);
+      res.status(500).json({ error: "Failed to create territory" });
+    }
+  });
+
+  app.patch("/api/territories/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertTerritorySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid territory", details: parsed.error.message });
+      }
+      const territory = await storage.updateTerritory(req.params.id, parsed.data, req.userId);
+      if (!territory) return res.status(404).json({ error: "Territory not found" });
+      res.json(territory);
+    } catch (error) {
+      console.error("Error updating territory:", error);
+      res.status(500).json({ error: "Failed to update territory" });
+    }
+  });
+
+  // Jobs tagged with the territory keep their pins; only the tag is cleared
+  app.delete("/api/territories/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const deleted = await storage.deleteTerritory(req.params.id, req.userId);
+      if (!deleted) return res.status(404).json({ error: "Territory not found" });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting territory:", error);
+      res.status(500).json({ error: "Failed to delete territory" });
+    }
+  });
   
   // Job routes (protected)
   app.get("/api/jobs", authenticate, async (req: AuthRequest, res) => {
@@ -230,10 +413,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
         company,
         nearLat,
         nearLng,
+        nearJob,
+        radius,
         unvisited,
-        offices
+        offices,
+        territory,
+        bbox,
+        zoom,
+        limit,
+        offset
       } = req.query;
 
+      const radiusMiles = radius !== undefined ? Number(radius) : undefined;
+      if (radiusMiles !== undefined && !(radiusMiles > 0 && radiusMiles <= MAX_NEAR_RADIUS_MILES)) {
+        return res.status(400).json({ error: `radius must be between 0 and ${MAX_NEAR_RADIUS_MILES} miles` });
+      }
+
+      // "Near this job": search around another job's pin instead of the rep's position
+      let near = {
+        lat: nearLat ? parseFloat(nearLat as string) : undefined,
+        lng: nearLng ? parseFloat(nearLng as string) : undefined,
+      };
+      if (nearJob) {
+        const center = await storage.getJobById(nearJob as string, req.userId);
+        if (!center) {
+          return res.status(404).json({ error: 'Job not found' });
+        }
+        if (!center.latitude || !center.longitude) {
+          return res.status(400).json({ error: 'That job is not on the map yet' });
+        }
+        near = { lat: parseFloat(center.latitude), lng: parseFloat(center.longitude) };
+      }
+
+      // Territory filter: jobs whose pin falls inside the territory's polygon
+      let territoryPolygon: TerritoryPoint[] | undefined;
+      if (territory) {
+        const found = await storage.getTerritoryById(territory as string, req.userId);
+        if (!found) {
+          return res.status(404).json({ error: 'Territory not found' });
+        }
+        territoryPolygon = found.polygon;
+      }
+
       const filters = {
         search: search as string | undefined,
         status: status ? (status as string).split(',') : undefined,
@@ -246,13 +467,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         cold: cold === 'false' ? false : cold === 'true' ? true : undefined,
         county: county as string | undefined,
         company: company as string | undefined,
-        nearLat: nearLat ? parseFloat(nearLat as string) : undefined,
-        nearLng: nearLng ? parseFloat(nearLng as string) : undefined,
+        nearLat: near.lat,
+        nearLng: near.lng,
+        radiusMiles,
         unvisited: unvisited === 'true' ? true : undefined,
         offices: offices === 'false' ? false : offices === 'true' ? true : undefined,
+        territoryPolygon,
         userId: req.userId,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        offset: offset ? parseInt(offset as string, 10) : undefined,
       };
 
+      // Map viewport: bbox=west,south,east,north returns clusters or jobs for that area only
+      if (bbox !== undefined) {
+        const [west, south, east, north] = String(bbox).split(',').map(Number);
+        const zoomLevel = Number(zoom);
+        if ([west, south, east, north, zoomLevel].some(value => !Number.isFinite(value)) || west > east || south > north) {
+          return res.status(400).json({ error: 'bbox must be west,south,east,north and zoom a number' });
+        }
+        const viewport = await storage.getJobMapViewport(filters, { west, south, east, north, zoom: Math.round(zoomLevel) });
+        return res.json(viewport);
+      }
+
       const jobs = await storage.searchJobs(filters);
       res.json(jobs);
     } catch (error) {
@@ -282,16 +518,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const jobData = insertJobSchema.parse(req.body);
       jobData.userId = req.userId;
       
-      // Geocode address if provided
+      // Geocode address if provided; rate-limited lookups are retried in the background
+      let retryGeocode = false;
       if (jobData.address && !jobData.latitude && !jobData.longitude) {
-        const coordinates = await geocodeAddress(jobData.address);
-        if (coordinates) {
-          jobData.latitude = coordinates.lat.toString();
-          jobData.longitude = coordinates.lng.toString();
+        const outcome = await lookupGeocode(jobData.address);
+        retryGeocode = !outcome.ok && outcome.retryable;
+        if (!retryGeocode) {
+          Object.assign(jobData, geocodeFieldsFor(outcome));
         }
       }
       
       const job = await storage.createJob({ ...jobData, isCustom: true });
+      await recordJobCreated(job, { userId: req.userId, source: 'user' });
+      if (retryGeocode) {
+        geocodeQueue.enqueue([job.id]);
+      }
       res.status(201).json(job);
     } catch (error) {
       console.error('Error creating job:', error);
@@ -307,12 +548,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const updates = insertJobSchema.partial().parse(req.body);
       
-      // Re-geocode if address changed
-      if (updates.address && (!updates.latitude || !updates.longitude)) {
-        const coordinates = await geocodeAddress(updates.address);
-        if (coordinates) {
-          updates.latitude = coordinates.lat.toString();
-          updates.longitude = coordinates.lng.toString();
+      const existingJob = await storage.getJobById(req.params.id, req.userId);
+      if (!existingJob) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      
+      // Re-geocode if address changed (or the job was never placed), unless the pin was placed by hand
+      let retryGeocode = false;
+      if (updates.address && (!updates.latitude || !updates.longitude) &&
+          !existingJob.lockedFields?.includes('latitude') &&
+          (updates.address !== existingJob.address || !existingJob.latitude)) {
+        const outcome = await lookupGeocode(updates.address);
+        retryGeocode = !outcome.ok && outcome.retryable;
+        if (!retryGeocode) {
+          Object.assign(updates, geocodeFieldsFor(outcome));
         }
       }
       
@@ -320,6 +569,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!job) {
         return res.status(404).json({ error: 'Job not found' });
       }
+      if (retryGeocode) {
+        geocodeQueue.enqueue([job.id]);
+      }
+      await recordJobChange(existingJob, updates, { userId: req.userId, source: 'user', action: 'update' });
       res.json(job);
     } catch (error) {
       console.error('Error updating job:', error);
@@ -374,7 +627,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Document processing routes
-  app.post("/api/documents/upload", upload.array('documents', 10), async (req, res) => {
+  app.post("/api/documents/upload", authenticate, upload.array('documents', 10), async (req: AuthRequest, res) => {
     try {
       if (!req.files || !Array.isArray(req.files)) {
         return res.status(400).json({ error: 'No files uploaded' });
@@ -383,18 +636,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const results = [];
       for (const file of req.files) {
         try {
-          const extractedData = await documentProcessor.processDocument({
+          const document = await documentProcessor.processDocument({
             filename: `${Date.now()}-${file.originalname}`,
             originalName: file.originalname,
             mimeType: file.mimetype,
             size: file.size.toString(),
-            buffer: file.buffer
+            buffer: file.buffer,
+            userId: req.userId
           });
           
           results.push({
             filename: file.originalname,
             success: true,
-            extractedData
+            document
           });
         } catch (error) {
           results.push({
@@ -414,7 +668,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/documents", authenticate, async (req: AuthRequest, res) => {
     try {
-      const documents = await storage.getAllDocuments();
+      const { jobId, companyId, contactId, reviewStatus } = req.query;
+      const documents = await storage.getAllDocuments(req.userId, {
+        jobId: typeof jobId === 'string' ? jobId : undefined,
+        companyId: typeof companyId === 'string' ? companyId : undefined,
+        contactId: typeof contactId === 'string' ? contactId : undefined,
+        reviewStatus: reviewStatus === 'pending' || reviewStatus === 'accepted' ? reviewStatus : undefined,
+      });
       res.json(documents);
     } catch (error) {
       console.error('Error fetching documents:', error);
@@ -422,6 +682,144 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Create a job from a processed document once the reviewer has checked what was found.
+  // Rejecting a document is a plain DELETE /api/documents/:id.
+  app.post("/api/documents/:id/accept", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const validation = documentReviewSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid review', details: validation.error.message });
+      }
+      const document = await storage.getDocumentById(req.params.id, req.userId);
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+      if (document.reviewStatus !== 'pending') {
+        return res.status(409).json({ error: 'This document has already been reviewed' });
+      }
+      const job = await documentProcessor.acceptExtraction(document, validation.data, req.userId!);
+      if (!job) {
+        return res.status(409).json({ error: 'This document has already been reviewed' });
+      }
+      res.status(201).json(job);
+    } catch (error) {
+      console.error('Error accepting document:', error);
+      res.status(500).json({ error: 'Failed to create job from document' });
+    }
+  });
+
+  // Attachments: files kept against a job, company or contact
+  const findAttachmentOwner = async (owner: AttachmentOwner, userId?: string) => {
+    if (owner.jobId) return storage.getJobById(owner.jobId, userId);
+    if (owner.companyId) return storage.getCompanyById(owner.companyId, userId);
+    return storage.getContactById(owner.contactId!, userId);
+  };
+
+  app.post("/api/documents", authenticate, uploadAttachment.fields([{ name: 'file', maxCount: 1 }, { name: 'thumbnail', maxCount: 1 }]), async (req: AuthRequest, res) => {
+    try {
+      const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+      const file = files?.file?.[0];
+      const thumbnail = files?.thumbnail?.[0];
+      if (!file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+      const validation = attachmentOwnerSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid attachment', details: validation.error.message });
+      }
+      const owner = validation.data;
+      if (!(await findAttachmentOwner(owner, req.userId))) {
+        return res.status(404).json({ error: 'Job, company or contact not found' });
+      }
+
+      const id = randomUUID();
+      const storageKey = attachmentKey(req.userId!, id, file.originalname);
+      // Previews come from the browser, which can draw the image; only images get one
+      const thumbnailKey = thumbnail && file.mimetype.startsWith('image/')
+        ? attachmentKey(req.userId!, id, '.jpg', '-thumb')
+        : null;
+
+      await fileStorage.put(storageKey, file.buffer, file.mimetype);
+      if (thumbnailKey) await fileStorage.put(thumbnailKey, thumbnail!.buffer, 'image/jpeg');
+
+      try {
+        const document = await storage.createDocument({
+          ...owner,
+          userId: req.userId,
+          filename: storageKey.split('/').pop()!,
+          originalName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size.toString(),
+          storageKey,
+          thumbnailKey,
+        });
+        res.status(201).json(document);
+      } catch (error) {
+        // Don't leave files behind that no row points to
+        await Promise.all([storageKey, thumbnailKey].filter(Boolean).map(key => fileStorage.delete(key!).catch(() => {})));
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      res.status(500).json({ error: 'Failed to upload attachment' });
+    }
+  });
+
+  const sendStoredFile = async (res: Response, key: string, contentType: string) => {
+    const data = await fileStorage.get(key);
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Cache-Control", "private, max-age=86400");
+    res.send(data);
+  };
+
+  app.get("/api/documents/:id/file", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const document = await storage.getDocumentById(req.params.id, req.userId);
+      if (!document?.storageKey) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+      // Only PDFs and raster images open in the browser; anything else stored before is downloaded
+      const viewable = document.mimeType === 'application/pdf' || isRasterImage(document.mimeType);
+      const disposition = req.query.download || !viewable ? 'attachment' : 'inline';
+      res.setHeader("Content-Disposition", `${disposition}; filename*=UTF-8''${encodeURIComponent(document.originalName)}`);
+      await sendStoredFile(res, document.storageKey, document.mimeType);
+    } catch (error) {
+      console.error('Error fetching attachment:', error);
+      res.status(500).json({ error: 'Failed to fetch file' });
+    }
+  });
+
+  app.get("/api/documents/:id/thumbnail", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const document = await storage.getDocumentById(req.params.id, req.userId);
+      if (!document?.thumbnailKey) {
+        return res.status(404).json({ error: 'Thumbnail not found' });
+      }
+      await sendStoredFile(res, document.thumbnailKey, 'image/jpeg');
+    } catch (error) {
+      console.error('Error fetching thumbnail:', error);
+      res.status(500).json({ error: 'Failed to fetch thumbnail' });
+    }
+  });
+
+  app.delete("/api/documents/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const document = await storage.deleteDocument(req.params.id, req.userId);
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+      const keys = [document.storageKey, document.thumbnailKey].filter((key): key is string => !!key);
+      await Promise.all(keys.map(key =>
+        fileStorage.delete(key).catch(error => console.error(`Error deleting stored file ${key}:`, error))
+      ));
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      res.status(500).json({ error: 'Failed to delete document' });
+    }
+  });
+
 
 
   // Statistics route
@@ -669,6 +1067,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }, 0);
       const avgJobValue = nonOfficeJobs.length > 0 ? Math.round(totalValue / nonOfficeJobs.length) : 0;
 
+      // Opportunity pipeline (our estimated revenue, weighted by win probability)
+      const opportunityList = await storage.getOpportunities(req.userId);
+      const stageMap: Record<string, { count: number; value: number; weighted: number }> = {
+        prospect: { count: 0, value: 0, weighted: 0 },
+        quoted: { count: 0, value: 0, weighted: 0 },
+        negotiating: { count: 0, value: 0, weighted: 0 },
+        won: { count: 0, value: 0, weighted: 0 },
+        lost: { count: 0, value: 0, weighted: 0 },
+      };
+      opportunityList.forEach(opp => {
+        const val = opp.estimatedRevenue ? parseFloat(opp.estimatedRevenue) : 0;
+        const revenue = isNaN(val) ? 0 : val;
+        stageMap[opp.stage].count++;
+        stageMap[opp.stage].value += revenue;
+        stageMap[opp.stage].weighted += revenue * (opp.probability / 100);
+      });
+      const pipelineByStage = Object.entries(stageMap)
+        .map(([name, { count, value, weighted }]) => ({ name, count, value, weighted: Math.round(weighted) }));
+      const openStages = ['prospect', 'quoted', 'negotiating'];
+      const openPipelineValue = openStages.reduce((sum, stage) => sum + stageMap[stage].value, 0);
+      const weightedPipeline = Math.round(openStages.reduce((sum, stage) => sum + stageMap[stage].weighted, 0));
+      const closedCount = stageMap.won.count + stageMap.lost.count;
+      const winRate = closedCount > 0 ? Math.round((stageMap.won.count / closedCount) * 100) : 0;
+
+      // Jobs and open project value inside each territory (a job in overlapping territories counts in each)
+      const territoryList = await storage.getTerritories(req.userId);
+      const territoryStats: TerritoryStats[] = territoryList.map(territory => {
+        const stats: TerritoryStats = { id: territory.id, name: territory.name, color: territory.color, jobCount: 0, activeCount: 0, pipelineValue: 0 };
+        nonOfficeJobs.forEach(job => {
+          if (!job.latitude || !job.longitude) return;
+          if (!pointInPolygon(parseFloat(job.latitude), parseFloat(job.longitude), territory.polygon)) return;
+          stats.jobCount++;
+          if (job.status === 'active') stats.activeCount++;
+          const val = job.projectValue ? parseFloat(job.projectValue) : 0;
+          if (!isNaN(val) && job.status !== 'completed') stats.pipelineValue += val;
+        });
+        return stats;
+      });
+
       res.json({
         jobsByCounty,
         jobsByTemperature,
@@ -688,6 +1125,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         valueByTemperature,
         jobsThisMonth,
         avgJobValue,
+        pipelineByStage,
+        openPipelineValue,
+        weightedPipeline,
+        winRate,
+        wonRevenue: stageMap.won.value,
+        territoryStats,
       });
     } catch (error) {
       console.error('Error fetching detailed stats:', error);
@@ -715,10 +1158,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Route planner - order selected job visits from the rep's current position
+  app.post("/api/routes/optimize", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const { origin, jobIds, startTime, avgSpeedMph, minutesPerStop } = req.body as {
+        origin?: { lat: number; lng: number };
+        jobIds?: string[];
+        startTime?: string;
+        avgSpeedMph?: number;
+        minutesPerStop?: number;
+      };
+
+      if (!origin || typeof origin.lat !== 'number' || typeof origin.lng !== 'number') {
+        return res.status(400).json({ error: 'Origin with lat and lng is required' });
+      }
+      if (!Array.isArray(jobIds) || jobIds.length === 0) {
+        return res.status(400).json({ error: 'At least one job is required' });
+      }
+      if (jobIds.length > 50) {
+        return res.status(400).json({ error: 'A route can include at most 50 jobs' });
+      }
+      if (!jobIds.every(id => typeof id === 'string')) {
+        return res.status(400).json({ error: 'Job ids must be strings' });
+      }
+      const start = startTime ? new Date(startTime) : undefined;
+      if (start && isNaN(start.getTime())) {
+        return res.status(400).json({ error: 'startTime must be a valid date' });
+      }
+
+      const routeJobs = await storage.getJobsByIds(jobIds, req.userId);
+      const route = planRoute(origin, routeJobs, {
+        startTime: start,
+        avgSpeedMph: typeof avgSpeedMph === 'number' ? avgSpeedMph : undefined,
+        minutesPerStop: typeof minutesPerStop === 'number' ? minutesPerStop : undefined,
+      });
+
+      res.json(route);
+    } catch (error) {
+      console.error('Route planning error:', error);
+      res.status(500).json({ error: 'Failed to plan route' });
+    }
+  });
+
+  // Equipment report settings: which account managers, statuses and columns to read from the branch report
+  app.get("/api/user/equipment-report-settings", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const settings = await storage.getEquipmentReportSettings(req.userId!);
+      res.json(settings ?? DEFAULT_EQUIPMENT_REPORT_SETTINGS);
+    } catch (error) {
+      console.error("Error fetching equipment report settings:", error);
+      res.status(500).json({ error: "Failed to fetch equipment report settings" });
+    }
+  });
+
+  app.put("/api/user/equipment-report-settings", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = equipmentReportSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid equipment report settings", details: parsed.error.message });
+      }
+
+      await storage.updateEquipmentReportSettings(req.userId!, parsed.data);
+      res.json(parsed.data);
+    } catch (error) {
+      console.error("Error updating equipment report settings:", error);
+      res.status(500).json({ error: "Failed to update equipment report settings" });
+    }
+  });
+
   // Equipment rental routes
-  app.get("/api/rental-equipment", async (req, res) => {
+  app.get("/api/rental-equipment", authenticate, async (req: AuthRequest, res) => {
     try {
-      const equipment = await emailProcessor.getCurrentRentalStatus();
+      const equipment = await emailProcessor.getCurrentRentalStatus(req.userId!);
       res.json(equipment);
     } catch (error) {
       console.error("Error fetching rental equipment:", error);
@@ -726,6 +1237,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // What changed between the latest two daily equipment reports
+  app.get("/api/rental-equipment/changes", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const changes = await emailProcessor.getChangesSinceLastReport(req.userId!);
+      res.json(changes);
+    } catch (error) {
+      console.error("Error fetching rental equipment changes:", error);
+      res.status(500).json({ error: "Failed to fetch equipment changes" });
+    }
+  });
+
+  // Fleet revenue by customer and model family, long rentals and revenue trend
+  app.get("/api/rental-equipment/analytics", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const analytics = await getEquipmentAnalytics(req.userId!);
+      res.json(analytics);
+    } catch (error) {
+      console.error("Error fetching equipment analytics:", error);
+      res.status(500).json({ error: "Failed to fetch equipment analytics" });
+    }
+  });
+
+  // Fleet pins for the map layer
+  app.get("/api/rental-equipment/locations", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const pins = await emailProcessor.getRentalEquipmentPins(req.userId!);
+      res.json(pins);
+    } catch (error) {
+      console.error("Error fetching rental equipment locations:", error);
+      res.status(500).json({ error: "Failed to fetch equipment locations" });
+    }
+  });
+
+  // Our units sitting on a job site
+  app.get("/api/jobs/:id/rental-equipment", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const job = await storage.getJobById(req.params.id, req.userId);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      const units = await emailProcessor.getRentalEquipmentByJob(job.id, req.userId!);
+      res.json(units);
+    } catch (error) {
+      console.error("Error fetching job rental equipment:", error);
+      res.status(500).json({ error: "Failed to fetch job equipment" });
+    }
+  });
+
+  // Manually link a unit to a company and/or job; hand-set links are kept on later reports
+  app.patch("/api/rental-equipment/:id/links", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = rentalEquipmentLinksSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid equipment links", details: parsed.error.message });
+      }
+      const { companyId, jobId, unlock = [] } = parsed.data;
+
+      const [unit] = await db
+        .select()
+        .from(rentalEquipment)
+        .where(and(eq(rentalEquipment.id, req.params.id), eq(rentalEquipment.userId, req.userId!)));
+      if (!unit) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (companyId && !(await storage.getCompanyById(companyId, req.userId))) {
+        return res.status(400).json({ error: "Company not found" });
+      }
+      if (jobId && !(await storage.getJobById(jobId, req.userId))) {
+        return res.status(400).json({ error: "Job not found" });
+      }
+
+      const lockedFields = new Set(unit.lockedFields || []);
+      const updates: Partial<typeof rentalEquipment.$inferInsert> = {};
+      if (companyId !== undefined) {
+        updates.companyId = companyId;
+        lockedFields.add("companyId");
+      }
+      if (jobId !== undefined) {
+        updates.jobId = jobId;
+        lockedFields.add("jobId");
+      }
+      unlock.forEach(field => lockedFields.delete(field));
+
+      const [updated] = await db
+        .update(rentalEquipment)
+        .set({ ...updates, lockedFields: Array.from(lockedFields), lastUpdated: new Date() })
+        .where(eq(rentalEquipment.id, unit.id))
+        .returning();
+
+      // Unlocked links go back to automatic matching right away
+      if (unlock.length > 0) {
+        await linkRentalEquipment(req.userId!, unit.id);
+        const [relinked] = await db.select().from(rentalEquipment).where(eq(rentalEquipment.id, unit.id));
+        return res.json(relinked);
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating rental equipment links:", error);
+      res.status(500).json({ error: "Failed to update equipment links" });
+    }
+  });
+
   // PATCH rental equipment status (e.g. mark as maintenance)
   app.patch("/api/rental-equipment/:id", authenticate, async (req: AuthRequest, res) => {
     try {
@@ -737,16 +1350,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid status. Must be on_rent, off_rent, or maintenance." });
       }
 
+      const [unit] = await db
+        .select()
+        .from(rentalEquipment)
+        .where(and(eq(rentalEquipment.id, id), eq(rentalEquipment.userId, req.userId!)));
+      if (!unit) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+
+      // Maintenance set by hand holds through report refreshes; any other status hands it back to the report
+      const lockedFields = new Set(unit.lockedFields || []);
+      if (status === "maintenance") {
+        lockedFields.add("status");
+      } else {
+        lockedFields.delete("status");
+      }
+
       const [updated] = await db
         .update(rentalEquipment)
-        .set({ status, lastUpdated: new Date() })
-        .where(eq(rentalEquipment.id, id))
+        .set({ status, lockedFields: Array.from(lockedFields), lastUpdated: new Date() })
+        .where(eq(rentalEquipment.id, unit.id))
         .returning();
 
-      if (!updated) {
-        return res.status(404).json({ error: "Equipment not found" });
-      }
-
       res.json(updated);
     } catch (error) {
       console.error("Error updating rental equipment status:", error);
@@ -760,7 +1385,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       const { dates, reason, sendEmail } = req.body as { dates: string[]; reason: string; sendEmail?: boolean };
 
-      const [equipment] = await db.select().from(rentalEquipment).where(eq(rentalEquipment.id, id));
+      const [equipment] = await db
+        .select()
+        .from(rentalEquipment)
+        .where(and(eq(rentalEquipment.id, id), eq(rentalEquipment.userId, req.userId!)));
       if (!equipment) {
         return res.status(404).json({ error: "Equipment not found" });
       }
@@ -789,15 +1417,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Process equipment status email (Excel file)
-  app.post("/api/process-equipment-email", uploadExcel.single('file'), async (req, res) => {
+  app.post("/api/process-equipment-email", authenticate, uploadExcel.single('file'), async (req: AuthRequest, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
       }
 
-      const count = await emailProcessor.processEquipmentStatusExcel(req.file.buffer);
+      const count = await emailProcessor.processEquipmentStatusExcel(req.file.buffer, req.userId!);
       res.json({ success: true, count, message: `Processed ${count} equipment records` });
     } catch (error) {
+      // Header and column-mapping problems are worth showing so the rep can fix their settings
+      if (error instanceof ReportFormatError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Error processing equipment email:", error);
       res.status(500).json({ error: "Failed to process equipment email" });
     }
@@ -832,6 +1464,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Headers and first rows of a Dodge export, for mapping columns before the import
+  app.post("/api/import-dodge-csv/columns", authenticate, uploadExcel.single('file'), async (req: AuthRequest, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No CSV file uploaded" });
+      }
+
+      const profiles = await storage.getDodgeMappingProfiles(req.userId!);
+      res.json(csvImportService.readDodgeColumns(req.file.buffer, profiles));
+    } catch (error) {
+      console.error("Error reading Dodge CSV columns:", error);
+      res.status(500).json({ error: "Failed to read CSV columns" });
+    }
+  });
+
   // CSV import routes for Dodge Data with dry-run support
   app.post("/api/import-dodge-csv", authenticate, uploadExcel.single('file'), async (req: AuthRequest, res) => {
     try {
@@ -839,12 +1486,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "No CSV file uploaded" });
       }
 
+      // The column mapping comes as a JSON form field alongside the file
+      let columns;
+      if (req.body.columns) {
+        let raw: unknown;
+        try {
+          raw = JSON.parse(req.body.columns);
+        } catch {
+          return res.status(400).json({ error: "Invalid column mapping" });
+        }
+        const parsed = dodgeColumnMappingSchema.safeParse(raw);
+        if (!parsed.success) {
+          return res.status(400).json({ error: "Invalid column mapping", details: parsed.error.message });
+        }
+        columns = parsed.data;
+      }
+
       const dryRun = req.query.dryRun === 'true';
-      const results = await csvImportService.importDodgeCSV(req.file.buffer, req.userId, dryRun);
+      const results = await csvImportService.importDodgeCSV(req.file.buffer, req.userId, dryRun, columns, req.file.originalname);
       
       const message = dryRun 
-        ? `Dry-run completed: ${results.imported} would be imported, ${results.updated} would be updated, ${results.unchanged} unchanged, ${results.skipped} skipped`
-        : `Import completed: ${results.imported} new jobs, ${results.updated} updated, ${results.unchanged} unchanged, ${results.skipped} skipped`;
+        ? `Dry-run completed: ${results.imported} would be imported, ${results.updated} would be updated, ${results.unchanged} unchanged, ${results.skipped} skipped, ${results.missing} no longer in Dodge`
+        : `Import completed: ${results.imported} new jobs, ${results.updated} updated, ${results.unchanged} unchanged, ${results.skipped} skipped, ${results.conflicts} changes to review, ${results.missing} no longer in Dodge`;
       
       res.json({ 
         success: true,
@@ -861,35 +1524,186 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Companies routes
-  app.get("/api/companies", authenticate, async (req: AuthRequest, res) => {
+  // Field conflicts held back by Dodge re-imports
+  app.get("/api/import-conflicts", authenticate, async (req: AuthRequest, res) => {
     try {
-      const { search, type } = req.query;
-      const list = search || type
-        ? await storage.searchCompanies({ search: search as string, type: type as string, userId: req.userId! })
-        : await storage.getCompanies(req.userId);
-      res.json(list);
+      const { status, importRunId, jobId } = req.query;
+      if (status && !['pending', 'accepted', 'rejected'].includes(status as string)) {
+        return res.status(400).json({ error: "status must be pending, accepted or rejected" });
+      }
+      const conflicts = await storage.getImportConflicts({
+        userId: req.userId!,
+        status: status as 'pending' | 'accepted' | 'rejected' | undefined,
+        importRunId: importRunId as string | undefined,
+        jobId: jobId as string | undefined,
+      });
+      res.json(conflicts);
     } catch (error) {
-      console.error("Error fetching companies:", error);
-      res.status(500).json({ error: "Failed to fetch companies" });
+      console.error("Error fetching import conflicts:", error);
+      res.status(500).json({ error: "Failed to fetch import conflicts" });
     }
   });
 
-  app.post("/api/companies", authenticate, async (req: AuthRequest, res) => {
+  app.post("/api/import-conflicts/resolve", authenticate, async (req: AuthRequest, res) => {
     try {
-      const data = insertCompanySchema.parse(req.body);
-      const company = await storage.createCompany({ ...data, userId: req.userId! });
-      res.status(201).json(company);
+      const parsed = importConflictResolutionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid resolution", details: parsed.error.message });
+      }
+
+      const result = await resolveImportConflicts(parsed.data, req.userId!);
+      res.json(result);
     } catch (error) {
-      console.error("Error creating company:", error);
-      res.status(500).json({ error: "Failed to create company" });
+      console.error("Error resolving import conflicts:", error);
+      res.status(500).json({ error: "Failed to resolve import conflicts" });
     }
   });
 
-  app.get("/api/companies/:id", authenticate, async (req: AuthRequest, res) => {
+  // Import history: every Dodge, KYC and VCF import, newest first
+  app.get("/api/import-runs", authenticate, async (req: AuthRequest, res) => {
     try {
-      const company = await storage.getCompanyById(req.params.id, req.userId);
-      if (!company) return res.status(404).json({ error: "Company not found" });
+      const runs = await storage.getImportRuns(req.userId!);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching import runs:", error);
+      res.status(500).json({ error: "Failed to fetch import history" });
+    }
+  });
+
+  app.get("/api/import-runs/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const run = await storage.getImportRunById(req.params.id, req.userId);
+      if (!run) return res.status(404).json({ error: "Import not found" });
+      const records = await storage.getImportRunRecords(run.id);
+      res.json({ ...run, records });
+    } catch (error) {
+      console.error("Error fetching import run:", error);
+      res.status(500).json({ error: "Failed to fetch import" });
+    }
+  });
+
+  // Delete what the import created and put back the fields it changed
+  app.post("/api/import-runs/:id/revert", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const run = await storage.getImportRunById(req.params.id, req.userId);
+      if (!run) return res.status(404).json({ error: "Import not found" });
+      if (run.status === "reverted") {
+        return res.status(409).json({ error: "This import has already been reverted" });
+      }
+      if (run.status === "running") {
+        return res.status(409).json({ error: "This import is still running" });
+      }
+
+      const result = await revertImportRun(run, req.userId!);
+      res.json(result);
+    } catch (error) {
+      console.error("Error reverting import run:", error);
+      res.status(500).json({ error: "Failed to revert import" });
+    }
+  });
+
+  // Saved Dodge column mappings
+  app.get("/api/user/dodge-mapping-profiles", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const profiles = await storage.getDodgeMappingProfiles(req.userId!);
+      res.json(profiles);
+    } catch (error) {
+      console.error('Get Dodge mapping profiles error:', error);
+      res.status(500).json({ error: 'Failed to get mapping profiles' });
+    }
+  });
+
+  app.post("/api/user/dodge-mapping-profiles", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertDodgeMappingProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid mapping profile', details: parsed.error.message });
+      }
+
+      const profiles = await storage.getDodgeMappingProfiles(req.userId!);
+      if (profiles.some(p => p.name.toLowerCase() === parsed.data.name.toLowerCase())) {
+        return res.status(400).json({ error: `A mapping named "${parsed.data.name}" already exists` });
+      }
+
+      const now = new Date().toISOString();
+      const profile: DodgeMappingProfile = { ...parsed.data, id: randomUUID(), createdAt: now, updatedAt: now };
+      await storage.updateDodgeMappingProfiles(req.userId!, [...profiles, profile]);
+      res.status(201).json(profile);
+    } catch (error) {
+      console.error('Create Dodge mapping profile error:', error);
+      res.status(500).json({ error: 'Failed to save mapping profile' });
+    }
+  });
+
+  app.patch("/api/user/dodge-mapping-profiles/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertDodgeMappingProfileSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid mapping profile', details: parsed.error.message });
+      }
+
+      const profiles = await storage.getDodgeMappingProfiles(req.userId!);
+      const existing = profiles.find(p => p.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Mapping profile not found' });
+      }
+      const { name } = parsed.data;
+      if (name && profiles.some(p => p.id !== existing.id && p.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(400).json({ error: `A mapping named "${name}" already exists` });
+      }
+
+      const profile: DodgeMappingProfile = { ...existing, ...parsed.data, updatedAt: new Date().toISOString() };
+      await storage.updateDodgeMappingProfiles(req.userId!, profiles.map(p => p.id === profile.id ? profile : p));
+      res.json(profile);
+    } catch (error) {
+      console.error('Update Dodge mapping profile error:', error);
+      res.status(500).json({ error: 'Failed to update mapping profile' });
+    }
+  });
+
+  app.delete("/api/user/dodge-mapping-profiles/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const profiles = await storage.getDodgeMappingProfiles(req.userId!);
+      if (!profiles.some(p => p.id === req.params.id)) {
+        return res.status(404).json({ error: 'Mapping profile not found' });
+      }
+      await storage.updateDodgeMappingProfiles(req.userId!, profiles.filter(p => p.id !== req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete Dodge mapping profile error:', error);
+      res.status(500).json({ error: 'Failed to delete mapping profile' });
+    }
+  });
+
+  // Companies routes
+  app.get("/api/companies", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const { search, type } = req.query;
+      const list = search || type
+        ? await storage.searchCompanies({ search: search as string, type: type as string, userId: req.userId! })
+        : await storage.getCompanies(req.userId);
+      res.json(list);
+    } catch (error) {
+      console.error("Error fetching companies:", error);
+      res.status(500).json({ error: "Failed to fetch companies" });
+    }
+  });
+
+  app.post("/api/companies", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const data = insertCompanySchema.parse(req.body);
+      const company = await storage.createCompany({ ...data, userId: req.userId! });
+      res.status(201).json(company);
+    } catch (error) {
+      console.error("Error creating company:", error);
+      res.status(500).json({ error: "Failed to create company" });
+    }
+  });
+
+  app.get("/api/companies/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const company = await storage.getCompanyById(req.params.id, req.userId);
+      if (!company) return res.status(404).json({ error: "Company not found" });
       const companyContacts = await storage.getContactsByCompany(req.params.id, req.userId);
       const companyInteractions = await storage.getInteractions({ companyId: req.params.id, userId: req.userId, limit: 50 });
       res.json({ ...company, contacts: companyContacts, interactions: companyInteractions });
@@ -1035,26 +1849,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Log an interaction with a contact and roll it up to the contact's and company's last touch
+  const logContactInteraction = async (contact: Contact, data: InsertInteraction, userId: string) => {
+    const interaction = await storage.createInteraction({
+      ...data,
+      userId,
+      contactId: contact.id,
+      companyId: contact.companyId ?? undefined,
+    });
+    await storage.updateContact(contact.id, {
+      lastInteractionAt: interaction.occurredAt || new Date(),
+      lastInteractionType: interaction.type,
+    }, userId);
+    if (contact.companyId) {
+      await storage.updateCompany(contact.companyId, {
+        lastInteractionAt: interaction.occurredAt || new Date(),
+        lastInteractionType: interaction.type,
+      }, userId);
+    }
+    return interaction;
+  };
+
   app.post("/api/contacts/:id/interactions", authenticate, async (req: AuthRequest, res) => {
     try {
-      const data = insertInteractionSchema.parse(req.body);
+      const parsed = insertInteractionSchema.safeParse({ ...req.body, occurredAt: req.body.occurredAt || undefined });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid interaction", details: parsed.error.message });
+      }
+      const data = parsed.data;
+      const followUpInDays = req.body.followUpInDays !== undefined ? parseInt(req.body.followUpInDays, 10) : null;
       const contact = await storage.getContactById(req.params.id, req.userId);
       if (!contact) return res.status(404).json({ error: "Contact not found" });
-      const interaction = await storage.createInteraction({
-        ...data,
-        userId: req.userId!,
-        contactId: req.params.id,
-        companyId: contact.companyId ?? undefined,
-      });
-      await storage.updateContact(req.params.id, {
-        lastInteractionAt: interaction.occurredAt || new Date(),
-        lastInteractionType: interaction.type,
-      }, req.userId);
-      if (contact.companyId) {
-        await storage.updateCompany(contact.companyId, {
-          lastInteractionAt: interaction.occurredAt || new Date(),
-          lastInteractionType: interaction.type,
-        }, req.userId);
+      const interaction = await logContactInteraction(contact, data, req.userId!);
+      // Optional follow-up task, e.g. "call back in 3 days"
+      if (followUpInDays && followUpInDays > 0) {
+        const dueDate = new Date();
+        dueDate.setDate(dueDate.getDate() + followUpInDays);
+        const contactName = contact.fullName || `${contact.firstName ?? ""} ${contact.lastName ?? ""}`.trim() || "contact";
+        await storage.createTask({
+          userId: req.userId!,
+          title: `Follow up with ${contactName}`,
+          notes: interaction.summary || null,
+          dueDate,
+          priority: "medium",
+          status: "open",
+          contactId: contact.id,
+          companyId: contact.companyId ?? null,
+          jobId: interaction.jobId ?? null,
+        });
       }
       res.status(201).json(interaction);
     } catch (error) {
@@ -1085,12 +1927,393 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Task routes (follow-ups and reminders)
+  app.get("/api/tasks", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const { status, jobId, contactId, companyId, dueBefore, limit } = req.query;
+      const filters: Parameters<typeof storage.getTasks>[0] = { userId: req.userId };
+      if (status === "open" || status === "done" || status === "snoozed") filters.status = status;
+      if (jobId) filters.jobId = jobId as string;
+      if (contactId) filters.contactId = contactId as string;
+      if (companyId) filters.companyId = companyId as string;
+      if (dueBefore) filters.dueBefore = new Date(dueBefore as string);
+      if (limit) filters.limit = parseInt(limit as string, 10);
+      const list = await storage.getTasks(filters);
+      res.json(list);
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+      res.status(500).json({ error: "Failed to fetch tasks" });
+    }
+  });
+
+  app.post("/api/tasks", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertTaskSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid task", details: parsed.error.message });
+      }
+      const data = parsed.data;
+      if (data.jobId && !(await storage.getJobById(data.jobId, req.userId))) {
+        return res.status(400).json({ error: "Job not found" });
+      }
+      if (data.contactId && !(await storage.getContactById(data.contactId, req.userId))) {
+        return res.status(400).json({ error: "Contact not found" });
+      }
+      if (data.companyId && !(await storage.getCompanyById(data.companyId, req.userId))) {
+        return res.status(400).json({ error: "Company not found" });
+      }
+      const task = await storage.createTask({ ...data, userId: req.userId! });
+      res.status(201).json(task);
+    } catch (error) {
+      console.error("Error creating task:", error);
+      res.status(500).json({ error: "Failed to create task" });
+    }
+  });
+
+  app.patch("/api/tasks/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertTaskSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid task", details: parsed.error.message });
+      }
+      const updates: Partial<Task> = { ...parsed.data };
+      if (updates.jobId && !(await storage.getJobById(updates.jobId, req.userId))) {
+        return res.status(400).json({ error: "Job not found" });
+      }
+      if (updates.contactId && !(await storage.getContactById(updates.contactId, req.userId))) {
+        return res.status(400).json({ error: "Contact not found" });
+      }
+      if (updates.companyId && !(await storage.getCompanyById(updates.companyId, req.userId))) {
+        return res.status(400).json({ error: "Company not found" });
+      }
+      if (updates.status === "done") {
+        updates.completedAt = new Date();
+      } else if (updates.status === "open") {
+        updates.completedAt = null;
+        updates.snoozedUntil = null;
+      } else if (updates.status === "snoozed" && !updates.snoozedUntil) {
+        return res.status(400).json({ error: "snoozedUntil is required to snooze a task" });
+      }
+      const task = await storage.updateTask(req.params.id, updates, req.userId);
+      if (!task) return res.status(404).json({ error: "Task not found" });
+      res.json(task);
+    } catch (error) {
+      console.error("Error updating task:", error);
+      res.status(500).json({ error: "Failed to update task" });
+    }
+  });
+
+  app.delete("/api/tasks/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const deleted = await storage.deleteTask(req.params.id, req.userId);
+      if (!deleted) return res.status(404).json({ error: "Task not found" });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      res.status(500).json({ error: "Failed to delete task" });
+    }
+  });
+
+  // Opportunity routes (sales pipeline)
+  // Moving to a new stage resets probability to the stage default unless one is
+  // given, and a lost reason only applies while the deal is lost.
+  const applyStageChange = (updates: Partial<Opportunity>, current?: Opportunity) => {
+    if (!updates.stage || updates.stage === current?.stage) return updates;
+    return {
+      ...updates,
+      probability: updates.probability ?? DEFAULT_STAGE_PROBABILITY[updates.stage],
+      lostReason: updates.stage === "lost" ? updates.lostReason ?? current?.lostReason ?? null : null,
+      stageChangedAt: new Date(),
+    };
+  };
+
+  app.get("/api/opportunities", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const list = await storage.getOpportunities(req.userId);
+      res.json(list);
+    } catch (error) {
+      console.error("Error fetching opportunities:", error);
+      res.status(500).json({ error: "Failed to fetch opportunities" });
+    }
+  });
+
+  app.get("/api/jobs/:id/opportunity", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const opportunity = await storage.getOpportunityByJobId(req.params.id, req.userId);
+      res.json(opportunity ?? null);
+    } catch (error) {
+      console.error("Error fetching job opportunity:", error);
+      res.status(500).json({ error: "Failed to fetch opportunity" });
+    }
+  });
+
+  // Create the job's opportunity, or update it if one already exists
+  app.put("/api/jobs/:id/opportunity", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertOpportunitySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid opportunity", details: parsed.error.message });
+      }
+      const job = await storage.getJobById(req.params.id, req.userId);
+      if (!job) return res.status(404).json({ error: "Job not found" });
+
+      const existing = await storage.getOpportunityByJobId(job.id, req.userId);
+      if (existing) {
+        const updated = await storage.updateOpportunity(existing.id, applyStageChange(parsed.data, existing), req.userId);
+        return res.json(updated);
+      }
+
+      const stage = parsed.data.stage ?? "prospect";
+      const created = await storage.createOpportunity({
+        ...parsed.data,
+        stage,
+        probability: parsed.data.probability ?? DEFAULT_STAGE_PROBABILITY[stage],
+        lostReason: stage === "lost" ? parsed.data.lostReason ?? null : null,
+        jobId: job.id,
+        userId: req.userId,
+      });
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error saving opportunity:", error);
+      res.status(500).json({ error: "Failed to save opportunity" });
+    }
+  });
+
+  app.patch("/api/opportunities/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertOpportunitySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid opportunity", details: parsed.error.message });
+      }
+      const current = await storage.getOpportunityById(req.params.id, req.userId);
+      if (!current) return res.status(404).json({ error: "Opportunity not found" });
+      const updated = await storage.updateOpportunity(current.id, applyStageChange(parsed.data, current), req.userId);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating opportunity:", error);
+      res.status(500).json({ error: "Failed to update opportunity" });
+    }
+  });
+
+  app.delete("/api/opportunities/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const deleted = await storage.deleteOpportunity(req.params.id, req.userId);
+      if (!deleted) return res.status(404).json({ error: "Opportunity not found" });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting opportunity:", error);
+      res.status(500).json({ error: "Failed to delete opportunity" });
+    }
+  });
+
+  // Quote routes (rental equipment quotes on a job)
+  const buildQuotePdf = async (quote: QuoteWithLinks, userId?: string) => {
+    const job = await storage.getJobById(quote.jobId, userId);
+    const contact = quote.contactId ? await storage.getContactById(quote.contactId, userId) : undefined;
+    const company = contact?.companyId ? await storage.getCompanyById(contact.companyId, userId) : undefined;
+    return generateQuotePdf({
+      quoteNumber: formatQuoteNumber(quote),
+      date: quote.sentAt ?? quote.createdAt ?? new Date(),
+      validUntil: quote.validUntil,
+      customerName: quote.contactName || job?.contractor || "Customer",
+      companyName: company?.name ?? null,
+      jobName: quote.jobName,
+      jobAddress: job?.address ?? "",
+      lineItems: quote.lineItems,
+      notes: quote.notes,
+    });
+  };
+
+  app.get("/api/jobs/:id/quotes", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const list = await storage.getQuotesByJob(req.params.id, req.userId);
+      res.json(list);
+    } catch (error) {
+      console.error("Error fetching quotes:", error);
+      res.status(500).json({ error: "Failed to fetch quotes" });
+    }
+  });
+
+  app.post("/api/quotes", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertQuoteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid quote", details: parsed.error.message });
+      }
+      const data = parsed.data;
+      if (!(await storage.getJobById(data.jobId, req.userId))) {
+        return res.status(400).json({ error: "Job not found" });
+      }
+      if (data.contactId && !(await storage.getContactById(data.contactId, req.userId))) {
+        return res.status(400).json({ error: "Contact not found" });
+      }
+      const quote = await storage.createQuote({
+        ...data,
+        userId: req.userId,
+        quoteNumber: await storage.getNextQuoteNumber(req.userId),
+        total: quoteTotal(data.lineItems).toFixed(2),
+      });
+      res.status(201).json(quote);
+    } catch (error) {
+      console.error("Error creating quote:", error);
+      res.status(500).json({ error: "Failed to create quote" });
+    }
+  });
+
+  // Drafts can be edited freely; once sent, only the customer's answer can be recorded
+  app.patch("/api/quotes/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const { status, ...fields } = req.body;
+      const parsed = insertQuoteSchema.omit({ jobId: true }).partial().safeParse(fields);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid quote", details: parsed.error.message });
+      }
+      const current = await storage.getQuoteById(req.params.id, req.userId);
+      if (!current) return res.status(404).json({ error: "Quote not found" });
+
+      const updates: Partial<Quote> = {};
+      if (Object.keys(parsed.data).length > 0) {
+        if (current.status !== "draft") {
+          return res.status(409).json({ error: "Only draft quotes can be edited. Create a revision instead." });
+        }
+        if (parsed.data.contactId && !(await storage.getContactById(parsed.data.contactId, req.userId))) {
+          return res.status(400).json({ error: "Contact not found" });
+        }
+        Object.assign(updates, parsed.data);
+        if (parsed.data.lineItems) updates.total = quoteTotal(parsed.data.lineItems).toFixed(2);
+      }
+      if (status !== undefined) {
+        if (status !== "accepted" && status !== "declined") {
+          return res.status(400).json({ error: "Status can only be set to accepted or declined" });
+        }
+        if (current.status === "draft") {
+          return res.status(409).json({ error: "Send the quote before recording the customer's answer" });
+        }
+        updates.status = status;
+      }
+
+      const quote = await storage.updateQuote(current.id, updates, req.userId);
+      res.json(quote);
+    } catch (error) {
+      console.error("Error updating quote:", error);
+      res.status(500).json({ error: "Failed to update quote" });
+    }
+  });
+
+  // Start a new draft version of a quote, keeping the same quote number
+  app.post("/api/quotes/:id/revise", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const current = await storage.getQuoteById(req.params.id, req.userId);
+      if (!current) return res.status(404).json({ error: "Quote not found" });
+      if (current.status === "draft") {
+        return res.status(409).json({ error: "Drafts can be edited directly. Only sent or answered quotes can be revised." });
+      }
+      const versions = (await storage.getQuotesByJob(current.jobId, req.userId)).filter(
+        (q) => q.quoteNumber === current.quoteNumber
+      );
+      if (versions.some((q) => q.status === "draft")) {
+        return res.status(409).json({ error: "This quote already has a draft revision" });
+      }
+      const latestVersion = Math.max(...versions.map((q) => q.version));
+      const revision = await storage.createQuote({
+        userId: req.userId,
+        jobId: current.jobId,
+        contactId: current.contactId,
+        quoteNumber: current.quoteNumber,
+        version: latestVersion + 1,
+        lineItems: current.lineItems,
+        notes: current.notes,
+        validUntil: current.validUntil,
+        total: current.total,
+      });
+      res.status(201).json(revision);
+    } catch (error) {
+      console.error("Error revising quote:", error);
+      res.status(500).json({ error: "Failed to revise quote" });
+    }
+  });
+
+  app.get("/api/quotes/:id/pdf", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const quote = await storage.getQuoteById(req.params.id, req.userId);
+      if (!quote) return res.status(404).json({ error: "Quote not found" });
+      const pdfBuffer = await buildQuotePdf(quote, req.userId);
+      const filename = formatQuoteNumber(quote).replace(/\s+/g, "-");
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="Quote-${filename}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Error generating quote PDF:", error);
+      res.status(500).json({ error: "Failed to generate quote PDF" });
+    }
+  });
+
+  // Email the quote PDF to its contact, mark it sent and log the email on the contact
+  app.post("/api/quotes/:id/send", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const quote = await storage.getQuoteById(req.params.id, req.userId);
+      if (!quote) return res.status(404).json({ error: "Quote not found" });
+      if (quote.status !== "draft") {
+        return res.status(409).json({ error: "This quote version has already been sent" });
+      }
+      if (quote.lineItems.length === 0) {
+        return res.status(400).json({ error: "Add at least one line item before sending" });
+      }
+      const contact = quote.contactId ? await storage.getContactById(quote.contactId, req.userId) : undefined;
+      const to = contact?.emailPrimary || contact?.emailSecondary;
+      if (!contact || !to) {
+        return res.status(400).json({ error: "Pick a contact with an email address to send this quote" });
+      }
+
+      const sentAt = new Date();
+      const quoteNumber = formatQuoteNumber(quote);
+      const pdfBuffer = await buildQuotePdf({ ...quote, sentAt }, req.userId);
+      await emailService.sendQuote(pdfBuffer, to, quoteNumber, quote.jobName);
+
+      const updated = await storage.updateQuote(quote.id, { status: "sent", sentAt }, req.userId);
+      await logContactInteraction(contact, {
+        type: "email",
+        direction: "outbound",
+        jobId: quote.jobId,
+        summary: `Sent quote ${quoteNumber}`,
+        notes: `Quote total $${Number(quote.total ?? 0).toLocaleString("en-US", { minimumFractionDigits: 2 })}`,
+        occurredAt: sentAt,
+      }, req.userId!);
+
+      // A sent quote moves a prospect forward on the pipeline board
+      const opportunity = await storage.getOpportunityByJobId(quote.jobId, req.userId);
+      if (opportunity?.stage === "prospect") {
+        await storage.updateOpportunity(opportunity.id, applyStageChange({ stage: "quoted" }, opportunity), req.userId);
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error sending quote:", error);
+      res.status(500).json({ error: "Failed to send quote" });
+    }
+  });
+
+  app.delete("/api/quotes/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const quote = await storage.getQuoteById(req.params.id, req.userId);
+      if (!quote) return res.status(404).json({ error: "Quote not found" });
+      if (quote.status !== "draft") {
+        return res.status(409).json({ error: "Sent quotes are kept for the record and cannot be deleted" });
+      }
+      await storage.deleteQuote(quote.id, req.userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting quote:", error);
+      res.status(500).json({ error: "Failed to delete quote" });
+    }
+  });
+
   // VCF import - will be implemented in Phase 3
   app.post("/api/import-contacts-vcf", authenticate, uploadVcf.single("file"), async (req: AuthRequest, res) => {
     try {
       if (!req.file) return res.status(400).json({ error: "No VCF file uploaded" });
       const vcfImportService = (await import("./services/vcfImportService")).default;
-      const results = await vcfImportService.importVcf(req.file.buffer, req.userId!);
+      const results = await vcfImportService.importVcf(req.file.buffer, req.userId!, req.file.originalname);
       res.json({ success: true, results });
     } catch (error) {
       console.error("Error importing VCF:", error);
@@ -1106,7 +2329,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       if (!req.file) return res.status(400).json({ error: "No CSV file uploaded" });
       const dryRun = req.query.dryRun === "true";
-      const results = await importKycCsv(req.file.buffer, req.userId!, dryRun);
+      const results = await importKycCsv(req.file.buffer, req.userId!, dryRun, req.file.originalname);
       const message = dryRun
         ? `Dry-run completed: ${results.companiesCreated} companies, ${results.contactsCreated} contacts, ${results.interactionsCreated} interactions would be created`
         : `Import completed: ${results.companiesCreated} companies, ${results.contactsCreated} contacts, ${results.interactionsCreated} interactions`;
@@ -1156,19 +2379,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'Job not found' });
       }
       
-      const lockedFields = currentJob.lockedFields || [];
+      const lockedFields = [...(currentJob.lockedFields || [])];
       if (!lockedFields.includes('userNotes')) {
         lockedFields.push('userNotes');
       }
       
+      const updates = {
+        userNotes: notes || '',
+        lockedFields: lockedFields
+      };
+      
+      // Changes replayed from field mode must not overwrite someone else's edit
+      const conflict = checkOfflineConflict(currentJob, req.body?.offlineBase, updates);
+      if (conflict) {
+        return res.status(409).json(conflict);
+      }
+      
       await db
         .update(jobs)
-        .set({
-          userNotes: notes || '',
-          lockedFields: lockedFields
-        })
+        .set(updates)
         .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
       
+      await recordJobChange(currentJob, updates, { userId: req.userId, source: 'user', action: 'notes' });
       res.json({ success: true });
     } catch (error) {
       console.error("Error updating job notes:", error);
@@ -1191,7 +2423,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'Job not found' });
       }
       
-      const lockedFields = currentJob.lockedFields || [];
+      const lockedFields = [...(currentJob.lockedFields || [])];
       const fieldsToLock = ['contractor', 'owner', 'architect', 'orderedBy', 'officeContact'];
       
       fieldsToLock.forEach(field => {
@@ -1200,18 +2432,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
       
+      const updates = {
+        contractor,
+        owner,
+        architect,
+        orderedBy,
+        officeContact,
+        lockedFields
+      };
+      
       await db
         .update(jobs)
-        .set({
-          contractor,
-          owner,
-          architect,
-          orderedBy,
-          officeContact,
-          lockedFields
-        })
+        .set(updates)
         .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
       
+      await recordJobChange(currentJob, updates, { userId: req.userId, source: 'user', action: 'team' });
       res.json({ success: true });
     } catch (error) {
       console.error("Error updating job team:", error);
@@ -1219,6 +2454,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Place a job's pin by hand; the coordinates are locked so imports and geocoding leave them alone
+  app.put("/api/jobs/:id/location", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = jobLocationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid location', details: parsed.error.message });
+      }
+      const { latitude, longitude } = parsed.data;
+
+      const [currentJob] = await db
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
+
+      if (!currentJob) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      const lockedFields = [...(currentJob.lockedFields || [])];
+      for (const field of ['latitude', 'longitude']) {
+        if (!lockedFields.includes(field)) {
+          lockedFields.push(field);
+        }
+      }
+
+      const updates = {
+        latitude: latitude.toString(),
+        longitude: longitude.toString(),
+        geocodeSource: 'manual' as const,
+        geocodePrecision: 'rooftop' as const,
+        geocodeFailedReason: null,
+        geocodedAt: new Date(),
+        lockedFields
+      };
+
+      const [job] = await db
+        .update(jobs)
+        .set(updates)
+        .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)))
+        .returning();
+
+      await recordJobChange(currentJob, updates, { userId: req.userId, source: 'user', action: 'location' });
+
+      // Offer the address at the new pin; the rep decides whether to use it
+      const suggestedAddress = await reverseGeocode(latitude, longitude);
+      res.json({ job, suggestedAddress });
+    } catch (error) {
+      console.error("Error updating job location:", error);
+      res.status(500).json({ error: "Failed to update job location" });
+    }
+  });
+
   // Unlock fields for job - allows CSV imports to update them again
   app.post("/api/jobs/:id/unlock-fields", authenticate, async (req: AuthRequest, res) => {
     try {
@@ -1248,6 +2535,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .set({ lockedFields })
         .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
       
+      await recordJobChange(currentJob, { lockedFields }, { userId: req.userId, source: 'user', action: 'unlock_fields' });
+
+      // A hand-placed pin handed back to geocoding is looked up again from the address
+      if (currentJob.lockedFields?.includes('latitude') && !lockedFields.includes('latitude')) {
+        geocodeQueue.enqueue([currentJob.id]);
+      }
       res.json({ success: true, lockedFields });
     } catch (error) {
       console.error("Error unlocking fields:", error);
@@ -1258,6 +2551,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Mark job as cold
   app.post("/api/jobs/:id/cold", authenticate, async (req: AuthRequest, res) => {
     try {
+      const [currentJob] = await db
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
+      
+      if (!currentJob) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      
       await db
         .update(jobs)
         .set({
@@ -1265,6 +2567,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
         .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
       
+      await recordJobChange(currentJob, { isCold: true }, { userId: req.userId, source: 'user', action: 'cold' });
       res.json({ success: true });
     } catch (error) {
       console.error("Error marking job as cold:", error);
@@ -1275,6 +2578,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Unmark job as cold
   app.delete("/api/jobs/:id/cold", authenticate, async (req: AuthRequest, res) => {
     try {
+      const [currentJob] = await db
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
+      
+      if (!currentJob) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      
       await db
         .update(jobs)
         .set({
@@ -1282,6 +2594,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
         .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
       
+      await recordJobChange(currentJob, { isCold: false }, { userId: req.userId, source: 'user', action: 'cold' });
       res.json({ success: true });
     } catch (error) {
       console.error("Error unmarking job as cold:", error);
@@ -1292,6 +2605,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Mark job as favorite
   app.post("/api/jobs/:id/favorite", authenticate, async (req: AuthRequest, res) => {
     try {
+      const [currentJob] = await db
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
+      
+      if (!currentJob) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      
       await db
         .update(jobs)
         .set({
@@ -1299,6 +2621,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
         .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
       
+      await recordJobChange(currentJob, { isFavorite: true }, { userId: req.userId, source: 'user', action: 'favorite' });
       res.json({ success: true });
     } catch (error) {
       console.error("Error marking job as favorite:", error);
@@ -1309,6 +2632,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Unmark job as favorite
   app.delete("/api/jobs/:id/favorite", authenticate, async (req: AuthRequest, res) => {
     try {
+      const [currentJob] = await db
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
+      
+      if (!currentJob) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      
       await db
         .update(jobs)
         .set({
@@ -1316,6 +2648,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
         .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
       
+      await recordJobChange(currentJob, { isFavorite: false }, { userId: req.userId, source: 'user', action: 'favorite' });
       res.json({ success: true });
     } catch (error) {
       console.error("Error unmarking job as favorite:", error);
@@ -1335,14 +2668,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'Job not found' });
       }
       
+      const updates = {
+        visited: true,
+        temperatureSetAt: new Date()
+      };
+      
+      // Changes replayed from field mode must not overwrite someone else's edit
+      const conflict = checkOfflineConflict(currentJob, req.body?.offlineBase, updates);
+      if (conflict) {
+        return res.status(409).json(conflict);
+      }
+      
       await db
         .update(jobs)
-        .set({
-          visited: true,
-          temperatureSetAt: new Date()
-        })
+        .set(updates)
         .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
       
+      await recordJobChange(currentJob, updates, { userId: req.userId, source: 'user', action: 'visit' });
       res.json({ success: true });
     } catch (error) {
       console.error("Error marking job as visited:", error);
@@ -1384,11 +2726,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updateData.temperatureSetAt = new Date();
       }
       
+      // Changes replayed from field mode must not overwrite someone else's edit
+      const conflict = checkOfflineConflict(currentJob, req.body?.offlineBase, updateData);
+      if (conflict) {
+        return res.status(409).json(conflict);
+      }
+      
       await db
         .update(jobs)
         .set(updateData)
         .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
       
+      await recordJobChange(currentJob, updateData, { userId: req.userId, source: 'user', action: 'temperature' });
       res.json({ success: true });
     } catch (error) {
       console.error("Error updating job temperature:", error);
@@ -1396,13 +2745,201 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Site visits: check-ins with the device position as proof, photos, and time on site
+  app.get("/api/jobs/:id/site-visits", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const job = await storage.getJobById(req.params.id, req.userId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      const visits = await storage.getSiteVisits(job.id);
+      res.json(visits);
+    } catch (error) {
+      console.error("Error fetching site visits:", error);
+      res.status(500).json({ error: "Failed to fetch site visits" });
+    }
+  });
+
+  app.post("/api/jobs/:id/check-in", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = siteVisitCheckInSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid check-in position', details: parsed.error.message });
+      }
+
+      const [currentJob] = await db
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.id, req.params.id), eq(jobs.userId, req.userId!)));
+      
+      if (!currentJob) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      const visits = await storage.getSiteVisits(currentJob.id, req.userId);
+      const openVisit = visits.find(visit => !visit.checkedOutAt);
+      if (openVisit) {
+        return res.status(409).json({ error: 'You are already checked in here', visit: openVisit });
+      }
+
+      const { latitude, longitude, accuracy } = parsed.data;
+      const distanceMeters = currentJob.latitude && currentJob.longitude
+        ? Math.round(haversineMiles(
+            { lat: latitude, lng: longitude },
+            { lat: parseFloat(currentJob.latitude), lng: parseFloat(currentJob.longitude) }
+          ) * METERS_PER_MILE)
+        : null;
+      const visit = await storage.createSiteVisit({
+        userId: req.userId!,
+        jobId: currentJob.id,
+        latitude: latitude.toString(),
+        longitude: longitude.toString(),
+        accuracyMeters: accuracy !== undefined ? Math.round(accuracy) : null,
+        distanceMeters,
+      });
+
+      // A check-in is a visit, same as the quick "Visited" button
+      const updates = {
+        visited: true,
+        temperatureSetAt: new Date()
+      };
+      
+      await db
+        .update(jobs)
+        .set(updates)
+        .where(and(eq(jobs.id, currentJob.id), eq(jobs.userId, req.userId!)));
+      
+      await recordJobChange(currentJob, updates, { userId: req.userId, source: 'user', action: 'check_in' });
+      res.status(201).json(visit);
+    } catch (error) {
+      console.error("Error checking in:", error);
+      res.status(500).json({ error: "Failed to check in" });
+    }
+  });
+
+  // Check out: closes the visit and logs a site_visit interaction for each contact met
+  app.post("/api/site-visits/:id/check-out", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = siteVisitCheckOutSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid check-out', details: parsed.error.message });
+      }
+
+      const visit = await storage.getSiteVisitById(req.params.id, req.userId);
+      if (!visit) {
+        return res.status(404).json({ error: 'Site visit not found' });
+      }
+      if (visit.checkedOutAt) {
+        return res.status(409).json({ error: 'Already checked out of this visit' });
+      }
+
+      const job = await storage.getJobById(visit.jobId, req.userId);
+      const contactsMet = (await Promise.all(parsed.data.contactIds.map(id => storage.getContactById(id, req.userId))))
+        .filter((contact): contact is Contact => !!contact);
+
+      const checkedOutAt = new Date();
+      const minutes = Math.max(1, Math.round((checkedOutAt.getTime() - visit.checkedInAt.getTime()) / 60000));
+      const notes = parsed.data.notes?.trim() || null;
+      const updated = await storage.updateSiteVisit(visit.id, { checkedOutAt, notes }, req.userId);
+
+      const interaction: InsertInteraction = {
+        type: 'site_visit',
+        direction: 'outbound',
+        summary: `Site visit at ${job?.name ?? 'job'} (${formatTimeOnSite(minutes)} on site)`,
+        notes,
+        jobId: visit.jobId,
+        siteVisitId: visit.id,
+        occurredAt: visit.checkedInAt,
+      };
+      if (contactsMet.length > 0) {
+        for (const contact of contactsMet) {
+          await logContactInteraction(contact, interaction, req.userId!);
+        }
+      } else {
+        await storage.createInteraction({ ...interaction, userId: req.userId! });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error checking out:", error);
+      res.status(500).json({ error: "Failed to check out" });
+    }
+  });
+
+  app.post("/api/site-visits/:id/photos", authenticate, uploadPhotos.array('photos', MAX_SITE_VISIT_PHOTOS), async (req: AuthRequest, res) => {
+    try {
+      const visit = await storage.getSiteVisitById(req.params.id, req.userId);
+      if (!visit) {
+        return res.status(404).json({ error: 'Site visit not found' });
+      }
+      const files = req.files as Express.Multer.File[] | undefined;
+      if (!files || files.length === 0) {
+        return res.status(400).json({ error: 'No photos uploaded' });
+      }
+
+      const photos = [];
+      for (const file of files) {
+        const id = randomUUID();
+        const storageKey = attachmentKey(req.userId!, id, file.originalname);
+        await fileStorage.put(storageKey, file.buffer, file.mimetype);
+        try {
+          photos.push(await storage.addSiteVisitPhoto({
+            id,
+            siteVisitId: visit.id,
+            userId: req.userId!,
+            filename: file.originalname,
+            mimeType: file.mimetype,
+            size: file.size,
+            storageKey,
+          }));
+        } catch (error) {
+          await fileStorage.delete(storageKey).catch(() => {});
+          throw error;
+        }
+      }
+      res.status(201).json(photos);
+    } catch (error) {
+      console.error("Error uploading site visit photos:", error);
+      res.status(500).json({ error: "Failed to upload photos" });
+    }
+  });
+
+  app.get("/api/site-visit-photos/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const photo = await storage.getSiteVisitPhoto(req.params.id, req.userId);
+      if (!photo?.storageKey) {
+        return res.status(404).json({ error: 'Photo not found' });
+      }
+      if (!isRasterImage(photo.mimeType)) res.setHeader("Content-Disposition", "attachment");
+      await sendStoredFile(res, photo.storageKey, photo.mimeType);
+    } catch (error) {
+      console.error("Error fetching site visit photo:", error);
+      res.status(500).json({ error: "Failed to fetch photo" });
+    }
+  });
+
+  // Job change history (audit trail)
+  app.get("/api/jobs/:id/history", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const job = await storage.getJobById(req.params.id, req.userId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      const history = await storage.getJobHistory(job.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching job history:", error);
+      res.status(500).json({ error: "Failed to fetch job history" });
+    }
+  });
+
   const httpServer = createServer(app);
   // Debug endpoint to check database status
-  app.get('/api/debug/job-count', async (req, res) => {
+  app.get('/api/debug/job-count', authenticate, async (req: AuthRequest, res) => {
     try {
-      const totalJobs = await db.select({ count: sql`count(*)` }).from(jobs);
-      const jobsWithDodgeId = await db.select({ count: sql`count(*)` }).from(jobs).where(isNotNull(jobs.dodgeJobId));
-      const viewedJobs = await db.select({ count: sql`count(*)` }).from(jobs).where(eq(jobs.isViewed, true));
+      const ownJobs = eq(jobs.userId, req.userId!);
+      const totalJobs = await db.select({ count: sql`count(*)` }).from(jobs).where(ownJobs);
+      const jobsWithDodgeId = await db.select({ count: sql`count(*)` }).from(jobs).where(and(ownJobs, isNotNull(jobs.dodgeJobId)));
+      const viewedJobs = await db.select({ count: sql`count(*)` }).from(jobs).where(and(ownJobs, eq(jobs.isViewed, true)));
       
       res.json({
         totalJobs: totalJobs[0].count,
@@ -1415,13 +2952,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Clear all jobs endpoint for testing
-  app.delete('/api/debug/clear-jobs', async (req, res) => {
+  // Clear the signed-in user's jobs; a single bad import is undone from import history instead
+  app.delete('/api/debug/clear-jobs', authenticate, async (req: AuthRequest, res) => {
     try {
-      const result = await db.delete(jobs);
+      const result = await db.delete(jobs).where(eq(jobs.userId, req.userId!));
       res.json({ 
         success: true, 
-        message: 'All jobs cleared from database',
+        message: 'All your jobs cleared from database',
         deletedCount: result.rowCount || 0
       });
     } catch (error) {
@@ -1430,68 +2967,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Geocode missing coordinates
-  app.post('/api/geocode-missing', async (req, res) => {
+  // Queue jobs without coordinates for background geocoding
+  app.post('/api/geocode-missing', authenticate, async (req: AuthRequest, res) => {
     try {
-      const { type, limit } = req.query;
-      const batchLimit = Math.min(parseInt((limit as string) || '50', 10) || 50, 500);
+      const { type, limit, retryFailed } = req.query;
+      const batchLimit = Math.min(parseInt((limit as string) || '1000', 10) || 1000, 10000);
 
       const conditions = [
+        eq(jobs.userId, req.userId!),
         sql`${jobs.latitude} IS NULL AND ${jobs.address} IS NOT NULL`
       ];
 
+      // Addresses that already failed stay failed unless asked to try again
+      if (retryFailed !== 'true') {
+        conditions.push(isNull(jobs.geocodeFailedReason));
+      }
+
       if (type && typeof type === 'string') {
         conditions.push(eq(jobs.type, type));
       }
 
       const jobsWithoutCoords = await db
-        .select()
+        .select({ id: jobs.id })
         .from(jobs)
         .where(and(...conditions))
-        .limit(batchLimit); // Process in batches to avoid API limits
+        .limit(batchLimit);
 
-      console.log(`Found ${jobsWithoutCoords.length} jobs without coordinates`);
+      const queued = geocodeQueue.enqueue(jobsWithoutCoords.map(job => job.id));
+      console.log(`Queued ${queued} of ${jobsWithoutCoords.length} jobs without coordinates for geocoding`);
 
-      let geocoded = 0;
-      let failed = 0;
-
-      for (const job of jobsWithoutCoords) {
-        if (job.address) {
-          try {
-            const coords = await geocodeAddress(job.address);
-            if (coords) {
-              await db
-                .update(jobs)
-                .set({
-                  latitude: coords.lat.toString(),
-                  longitude: coords.lng.toString()
-                })
-                .where(eq(jobs.id, job.id));
-              geocoded++;
-            } else {
-              failed++;
-            }
-            // Add delay to avoid rate limiting
-            await new Promise(resolve => setTimeout(resolve, 200));
-          } catch (error) {
-            console.error(`Failed to geocode job ${job.id}:`, error);
-            failed++;
-          }
-        }
-      }
-
-      res.json({
+      res.status(202).json({
         success: true,
-        message: `Geocoding completed: ${geocoded} successful, ${failed} failed`,
-        geocoded,
-        failed,
-        remaining: jobsWithoutCoords.length === batchLimit ? 'More jobs may need geocoding' : 'All jobs processed'
+        message: `Queued ${queued} jobs for geocoding`,
+        queued,
+        status: await geocodeQueue.getStatusFor(req.userId!)
       });
     } catch (error) {
-      console.error('Error geocoding jobs:', error);
+      console.error('Error queueing geocoding:', error);
       res.status(500).json({ error: 'Failed to geocode jobs' });
     }
   });
 
+  app.get('/api/geocode-queue', authenticate, async (req: AuthRequest, res) => {
+    try {
+      res.json(await geocodeQueue.getStatusFor(req.userId!));
+    } catch (error) {
+      console.error('Error fetching geocode queue status:', error);
+      res.status(500).json({ error: 'Failed to fetch geocoding status' });
+    }
+  });
+
   return httpServer;
 }
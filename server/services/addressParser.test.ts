@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatAddress, normalizeAddress, parseAddress } from "./addressParser";
+
+// Street lines as they appear in Dodge exports
+describe("parseAddress", () => {
+  it("reads Dodge's comma-separated city, state and ZIP", () => {
+    assert.deepEqual(parseAddress("1455 Market St, San Francisco, CA, 94103"), {
+      number: "1455",
+      predirectional: null,
+      street: "Market",
+      suffix: "ST",
+      postdirectional: null,
+      unit: null,
+      city: "San Francisco",
+      state: "CA",
+      zip: "94103",
+    });
+  });
+
+  it("reads city, state and ZIP+4 in one part", () => {
+    const parsed = parseAddress("2000 Powell St, Emeryville, CA 94608-1804");
+    assert.equal(parsed.city, "Emeryville");
+    assert.equal(parsed.state, "CA");
+    assert.equal(parsed.zip, "94608");
+  });
+
+  it("keeps unit words that are part of the street name", () => {
+    const parsed = parseAddress("1 Space Park Dr, Redondo Beach, CA 90278");
+    assert.equal(parsed.number, "1");
+    assert.equal(parsed.street, "Space Park");
+    assert.equal(parsed.suffix, "DR");
+    assert.equal(parsed.unit, null);
+    assert.equal(normalizeAddress("1 Space Park Dr, Redondo Beach, CA 90278"), "1 space park dr|redondo beach|ca|90278");
+
+    for (const [address, street] of [
+      ["400 Floor Ave, Sacramento, CA 95814", "Floor"],
+      ["75 Room Rd, Fresno, CA 93721", "Room"],
+      ["3100 Building Way, Oakland, CA 94612", "Building"],
+      ["18 Unit Ln, Stockton, CA 95202", "Unit"],
+      ["5 Park Space Rd, Modesto, CA 95354", "Park Space"],
+    ]) {
+      const parsed = parseAddress(address);
+      assert.equal(parsed.street, street, address);
+      assert.equal(parsed.unit, null, address);
+    }
+  });
+
+  it("reads a unit after the street suffix", () => {
+    const parsed = parseAddress("350 Mission St Fl 10, San Francisco, CA 94105");
+    assert.equal(parsed.street, "Mission");
+    assert.equal(parsed.suffix, "ST");
+    assert.equal(parsed.unit, "FL 10");
+  });
+
+  it("reads a unit after a postdirectional", () => {
+    const parsed = parseAddress("800 Main St N Suite B, Salinas, CA 93901");
+    assert.equal(parsed.postdirectional, "N");
+    assert.equal(parsed.unit, "STE B");
+  });
+
+  it("reads a unit in its own comma-separated part", () => {
+    const parsed = parseAddress("2600 Camino Ramon, Building 2, San Ramon, CA 94583");
+    assert.equal(parsed.street, "Camino Ramon");
+    assert.equal(parsed.unit, "BLDG 2");
+    assert.equal(parsed.city, "San Ramon");
+  });
+
+  it("reads a unit after #", () => {
+    assert.equal(parseAddress("1200 Folsom Blvd #4, Sacramento, CA 95811").unit, "#4");
+    assert.equal(parseAddress("1200 Folsom Blvd# 4, Sacramento, CA 95811").unit, "#4");
+  });
+
+  it("reads a numbered unit on a street without a suffix", () => {
+    const parsed = parseAddress("1500 Broadway Ste 200, Oakland, CA 94612");
+    assert.equal(parsed.street, "Broadway");
+    assert.equal(parsed.unit, "STE 200");
+  });
+
+  it("reads directionals", () => {
+    const parsed = parseAddress("100 N First St, San Jose, CA 95113");
+    assert.equal(parsed.predirectional, "N");
+    assert.equal(parsed.street, "First");
+    assert.equal(parsed.suffix, "ST");
+  });
+
+  it("keeps a lone directional or suffix as the street name", () => {
+    assert.equal(parseAddress("1010 N St, Sacramento, CA 95814").street, "N");
+    assert.equal(parseAddress("100 Park, Fresno, CA 93721").street, "Park");
+  });
+});
+
+describe("normalizeAddress", () => {
+  it("matches the same address written differently", () => {
+    assert.equal(normalizeAddress("1234 Mission Str., Ste 200"), normalizeAddress("1234 MISSION STREET #200"));
+    assert.equal(
+      normalizeAddress("2000 Powell Street, Emeryville, California, 94608"),
+      normalizeAddress("2000 Powell St, Emeryville, CA 94608-1804"),
+    );
+  });
+
+  it("tells apart streets that only look alike", () => {
+    assert.notEqual(normalizeAddress("1 Space Park Dr, Redondo Beach, CA 90278"), normalizeAddress("1 Park Dr, Redondo Beach, CA 90278"));
+  });
+});
+
+describe("formatAddress", () => {
+  it("spells out the suffix for geocoding", () => {
+    assert.equal(formatAddress(parseAddress("800 Main St N Suite B, Salinas, CA 93901")), "800 Main Street N STE B, Salinas, CA 93901");
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Address Parser - Splits US street addresses into parts and normalizes them
+ * with the USPS street suffix, directional and unit designator tables, so
+ * "1234 Mission Str., Ste 200" and "1234 MISSION STREET #200" compare equal.
+ *
+ * Matching is token based: a suffix is only recognized as a whole word at the
+ * end of the street, never inside a name like "Pinecrest".
+ */
+
+export interface ParsedAddress {
+  number: string | null;      // House number or range, e.g. "1500" or "1500-1520"
+  predirectional: string | null; // USPS abbreviation, e.g. "N"
+  street: string | null;      // Street name without suffix or directionals, as written
+  suffix: string | null;      // USPS abbreviation, e.g. "AVE"
+  postdirectional: string | null;
+  unit: string | null;        // Designator and number, e.g. "STE 200"
+  city: string | null;
+  state: string | null;       // Two-letter code
+  zip: string | null;         // Five-digit ZIP
+}
+
+// USPS Publication 28 street suffixes: standard abbreviation -> [full name, common variants]
+const SUFFIXES: Record<string, [string, string[]]> = {
+  ALY: ["Alley", ["ALLEE", "ALLEY", "ALLY"]],
+  AVE: ["Avenue", ["AV", "AVEN", "AVENU", "AVENUE", "AVN", "AVNUE"]],
+  BLVD: ["Boulevard", ["BOUL", "BOULEVARD", "BOULV"]],
+  CIR: ["Circle", ["CIRC", "CIRCL", "CIRCLE", "CRCL", "CRCLE"]],
+  CT: ["Court", ["COURT", "CRT"]],
+  CTR: ["Center", ["CEN", "CENT", "CENTER", "CENTR", "CENTRE", "CNTER", "CNTR"]],
+  CV: ["Cove", ["COVE"]],
+  CYN: ["Canyon", ["CANYN", "CANYON", "CNYN"]],
+  DR: ["Drive", ["DRIV", "DRIVE", "DRV"]],
+  EXPY: ["Expressway", ["EXP", "EXPR", "EXPRESS", "EXPRESSWAY", "EXPW"]],
+  FWY: ["Freeway", ["FREEWAY", "FREEWY", "FRWAY", "FRWY"]],
+  HTS: ["Heights", ["HEIGHTS", "HT"]],
+  HWY: ["Highway", ["HIGHWAY", "HIGHWY", "HIWAY", "HIWY", "HWAY"]],
+  LN: ["Lane", ["LANE"]],
+  LNDG: ["Landing", ["LANDING", "LNDNG"]],
+  LOOP: ["Loop", ["LOOPS"]],
+  PARK: ["Park", ["PRK"]],
+  PKWY: ["Parkway", ["PARKWAY", "PARKWY", "PKWAY", "PKY"]],
+  PL: ["Place", ["PLACE"]],
+  PLZ: ["Plaza", ["PLAZA", "PLZA"]],
+  PT: ["Point", ["POINT"]],
+  RD: ["Road", ["ROAD"]],
+  RDG: ["Ridge", ["RDGE", "RIDGE"]],
+  ROW: ["Row", []],
+  RUN: ["Run", []],
+  SQ: ["Square", ["SQR", "SQRE", "SQU", "SQUARE"]],
+  ST: ["Street", ["STR", "STREET", "STRT"]],
+  TER: ["Terrace", ["TERR", "TERRACE"]],
+  TRL: ["Trail", ["TRAIL", "TRAILS", "TRLS"]],
+  VIS: ["Vista", ["VIST", "VISTA", "VST", "VSTA"]],
+  WALK: ["Walk", ["WALKS"]],
+  WAY: ["Way", ["WY"]],
+  XING: ["Crossing", ["CROSSING", "CRSSNG"]],
+};
+
+const DIRECTIONALS: Record<string, string> = {
+  N: "N", NORTH: "N",
+  S: "S", SOUTH: "S",
+  E: "E", EAST: "E",
+  W: "W", WEST: "W",
+  NE: "NE", NORTHEAST: "NE",
+  NW: "NW", NORTHWEST: "NW",
+  SE: "SE", SOUTHEAST: "SE",
+  SW: "SW", SOUTHWEST: "SW",
+};
+
+const UNIT_DESIGNATORS: Record<string, string> = {
+  APT: "APT", APARTMENT: "APT",
+  BLDG: "BLDG", BUILDING: "BLDG",
+  FL: "FL", FLOOR: "FL",
+  RM: "RM", ROOM: "RM",
+  SPC: "SPC", SPACE: "SPC",
+  STE: "STE", SUITE: "STE",
+  UNIT: "UNIT",
+  "#": "#",
+};
+
+const STATES: Record<string, string> = {
+  ALABAMA: "AL", ALASKA: "AK", ARIZONA: "AZ", ARKANSAS: "AR", CALIFORNIA: "CA", COLORADO: "CO",
+  CONNECTICUT: "CT", DELAWARE: "DE", FLORIDA: "FL", GEORGIA: "GA", HAWAII: "HI", IDAHO: "ID",
+  ILLINOIS: "IL", INDIANA: "IN", IOWA: "IA", KANSAS: "KS", KENTUCKY: "KY", LOUISIANA: "LA",
+  MAINE: "ME", MARYLAND: "MD", MASSACHUSETTS: "MA", MICHIGAN: "MI", MINNESOTA: "MN",
+  MISSISSIPPI: "MS", MISSOURI: "MO", MONTANA: "MT", NEBRASKA: "NE", NEVADA: "NV",
+  "NEW HAMPSHIRE": "NH", "NEW JERSEY": "NJ", "NEW MEXICO": "NM", "NEW YORK": "NY",
+  "NORTH CAROLINA": "NC", "NORTH DAKOTA": "ND", OHIO: "OH", OKLAHOMA: "OK", OREGON: "OR",
+  PENNSYLVANIA: "PA", "RHODE ISLAND": "RI", "SOUTH CAROLINA": "SC", "SOUTH DAKOTA": "SD",
+  TENNESSEE: "TN", TEXAS: "TX", UTAH: "UT", VERMONT: "VT", VIRGINIA: "VA", WASHINGTON: "WA",
+  "WEST VIRGINIA": "WV", WISCONSIN: "WI", WYOMING: "WY", "DISTRICT OF COLUMBIA": "DC",
+};
+const STATE_CODES = new Set(Object.values(STATES));
+
+const SUFFIX_LOOKUP = new Map<string, string>();
+for (const [abbr, [full, variants]] of Object.entries(SUFFIXES)) {
+  SUFFIX_LOOKUP.set(abbr, abbr);
+  SUFFIX_LOOKUP.set(full.toUpperCase(), abbr);
+  variants.forEach(variant => SUFFIX_LOOKUP.set(variant, abbr));
+}
+
+const ZIP_PATTERN = /^(\d{5})(?:-?\d{4})?$/;
+const NUMBER_PATTERN = /^\d+[A-Z]?(?:-\d+[A-Z]?)?$|^\d+\s?1\/2$/i;
+
+function stripPunctuation(token: string): string {
+  return token.replace(/[.,]/g, "");
+}
+
+function normalizeState(value: string): string | null {
+  const upper = value.trim().toUpperCase();
+  if (STATE_CODES.has(upper)) return upper;
+  return STATES[upper] ?? null;
+}
+
+function tokenize(text: string): string[] {
+  return text.replace(/#\s*/g, " # ").split(/\s+/).map(stripPunctuation).filter(Boolean);
+}
+
+/**
+ * Whether the token at `index` starts the unit. Words like Space, Floor or
+ * Building also name streets ("1 Space Park Dr"), so a designator only counts
+ * after "#", at the start of a comma-separated part, after the street suffix
+ * (and any directional behind it), or right before a numbered value that ends
+ * the line ("1500 Broadway Ste 200").
+ */
+function isUnitStart(tokens: string[], index: number, partStarts: Set<number>): boolean {
+  const designator = UNIT_DESIGNATORS[tokens[index].toUpperCase()];
+  // A designator with nothing after it is part of the name
+  if (!designator || index === 0 || index === tokens.length - 1) return false;
+  if (designator === "#" || partStarts.has(index)) return true;
+  // "5 Park Space Rd": the word after is the street's own suffix
+  if (SUFFIX_LOOKUP.has(tokens[index + 1].toUpperCase())) return false;
+
+  const previous = tokens[index - 1].toUpperCase();
+  if (SUFFIX_LOOKUP.has(previous)) return true;
+  if (DIRECTIONALS[previous] && index > 1 && SUFFIX_LOOKUP.has(tokens[index - 2].toUpperCase())) return true;
+  return index === tokens.length - 2 && /\d/.test(tokens[index + 1]);
+}
+
+function isUnitPart(part: string): boolean {
+  const tokens = tokenize(part);
+  return tokens.length > 1 && !!UNIT_DESIGNATORS[tokens[0].toUpperCase()] && /\d/.test(part);
+}
+
+/**
+ * Split the street line into number, directionals, name, suffix and unit.
+ * The line comes as its comma-separated parts, since a comma also marks
+ * where a unit can start ("1234 Main St, Ste 200").
+ */
+function parseStreetLine(parts: string[], parsed: ParsedAddress): void {
+  let tokens: string[] = [];
+  const partStarts = new Set<number>();
+  for (const part of parts) {
+    if (tokens.length > 0) partStarts.add(tokens.length);
+    tokens.push(...tokenize(part));
+  }
+
+  // Unit: from its designator to the end of the line
+  const unitIndex = tokens.findIndex((_token, i) => isUnitStart(tokens, i, partStarts));
+  if (unitIndex > 0) {
+    const designator = UNIT_DESIGNATORS[tokens[unitIndex].toUpperCase()];
+    const value = tokens.slice(unitIndex + 1).join(" ").toUpperCase();
+    parsed.unit = designator === "#" ? `#${value}` : `${designator} ${value}`;
+    tokens = tokens.slice(0, unitIndex);
+  }
+
+  if (tokens.length > 1 && NUMBER_PATTERN.test(tokens[0])) {
+    parsed.number = tokens.shift()!.toUpperCase();
+  }
+
+  // Directionals only count when a street name is left over ("N St" is a street called N)
+  if (tokens.length > 2 && DIRECTIONALS[tokens[0].toUpperCase()]) {
+    parsed.predirectional = DIRECTIONALS[tokens.shift()!.toUpperCase()];
+  }
+  if (tokens.length > 2 && DIRECTIONALS[tokens[tokens.length - 1].toUpperCase()]) {
+    parsed.postdirectional = DIRECTIONALS[tokens.pop()!.toUpperCase()];
+  }
+
+  // A lone word is the name even if it looks like a suffix ("100 Park")
+  if (tokens.length > 1) {
+    const suffix = SUFFIX_LOOKUP.get(tokens[tokens.length - 1].toUpperCase());
+    if (suffix) {
+      parsed.suffix = suffix;
+      tokens.pop();
+    }
+  }
+
+  parsed.street = tokens.length > 0 ? tokens.join(" ") : null;
+}
+
+/**
+ * Parse a one-line address. Comma-separated trailing parts are read as city,
+ * state and ZIP in the order Dodge exports them ("Street, City, ST, 94103"),
+ * and "City, ST 94103" works too.
+ */
+export function parseAddress(address: string): ParsedAddress {
+  const parsed: ParsedAddress = {
+    number: null,
+    predirectional: null,
+    street: null,
+    suffix: null,
+    postdirectional: null,
+    unit: null,
+    city: null,
+    state: null,
+    zip: null,
+  };
+
+  const parts = address.split(",").map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) return parsed;
+
+  // Peel ZIP and state off the end, whether they share a part or not
+  let last = parts[parts.length - 1];
+  const zipMatch = last.match(/(?:^|\s)(\d{5}(?:-?\d{4})?)$/);
+  if (parts.length > 1 && zipMatch && ZIP_PATTERN.test(zipMatch[1])) {
+    parsed.zip = zipMatch[1].slice(0, 5);
+    last = last.slice(0, last.length - zipMatch[0].length).trim();
+    if (last) {
+      parts[parts.length - 1] = last;
+    } else {
+      parts.pop();
+    }
+  }
+
+  if (parts.length > 1) {
+    const state = normalizeState(parts[parts.length - 1]);
+    if (state) {
+      parsed.state = state;
+      parts.pop();
+    }
+  }
+
+  // "Ste 200" after the street is its unit, not a city
+  if (parts.length > 1 && !isUnitPart(parts[parts.length - 1])) {
+    parsed.city = parts.pop()!.replace(/\s+/g, " ");
+  }
+
+  parseStreetLine(parts, parsed);
+  return parsed;
+}
+
+/**
+ * Format for geocoding: suffixes spelled out, directionals abbreviated.
+ */
+export function formatAddress(parsed: ParsedAddress): string {
+  const street = [
+    parsed.number,
+    parsed.predirectional,
+    parsed.street,
+    parsed.suffix ? SUFFIXES[parsed.suffix][0] : null,
+    parsed.postdirectional,
+    parsed.unit,
+  ].filter(Boolean).join(" ");
+  const stateZip = [parsed.state, parsed.zip].filter(Boolean).join(" ");
+  return [street, parsed.city, stateZip].filter(Boolean).join(", ");
+}
+
+/**
+ * Canonical comparison key: lowercased USPS form with the parts that vary
+ * between exports (unit designator, ZIP+4, punctuation) normalized away.
+ */
+export function normalizeAddress(address: string): string {
+  const parsed = parseAddress(address);
+  const street = [
+    parsed.number,
+    parsed.predirectional,
+    parsed.street,
+    parsed.suffix,
+    parsed.postdirectional,
+    parsed.unit?.replace(/^(?:#|\S+ )/, ""), // "#200", "Ste 200" and "Unit 200" are the same suite
+  ].filter(Boolean).join(" ");
+  return [street, parsed.city, parsed.state, parsed.zip]
+    .map(part => (part ?? "").toLowerCase().replace(/\s+/g, " ").trim())
+    .join("|");
+}
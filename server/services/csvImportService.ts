@@ -1,44 +1,89 @@
 import { db } from "../db";
-import { jobs, type Job, type InsertJob } from "@shared/schema";
-import { eq, and, or, sql } from "drizzle-orm";
+import { jobs, importConflicts, type Job, type InsertJob, type Territory, type InsertImportConflict, type ImportConflictField, type SkippedLockedJob, type DodgeImportField, type DodgeColumnMapping, type DodgeColumnPreview, type DodgeMappingProfile } from "@shared/schema";
+import { eq, and, or, sql, inArray, isNotNull, isNull } from "drizzle-orm";
 import * as XLSX from "xlsx";
-import { geocodeAddress } from "./geocodingService";
-
-interface DodgeCSVRow {
-  'Project Name'?: string;
-  'Project Description'?: string;
-  'Address'?: string;
-  'City'?: string;
-  'State'?: string;
-  'ZIP'?: string;
-  'Project Value'?: string;
-  'Project Type'?: string;
-  'Start Date'?: string;
-  'End Date'?: string;
-  'Owner'?: string;
-  'Contractor'?: string;
-  'Architect'?: string;
-  'Engineer'?: string;
-  'Phone'?: string;
-  'Email'?: string;
-  'Status'?: string;
-  'Project ID'?: string;
-  'County'?: string;
-  [key: string]: any; // Allow for flexible column names
-}
+import { randomUUID } from "crypto";
+import { getCachedGeocode } from "./geocodingService";
+import { normalizeAddress } from "./addressParser";
+import { geocodeFieldsFor, geocodeQueue } from "./geocodeQueueService";
+import { recordJobChange, recordJobCreated, stringifyValue } from "./jobHistoryService";
+import { findTerritoryAt, getAutoTagTerritories } from "./territoryService";
+import { DodgeCrmLinker, type DodgeParty } from "./dodgeCrmService";
+import { startImportRun, type ImportRunRecorder } from "./importRunService";
+
+// A spreadsheet row read through the column mapping
+type DodgeRow = Partial<Record<DodgeImportField, any>>;
+
+/**
+ * Headers seen in past Dodge exports for each field, in order of preference.
+ * Used to suggest a mapping when no saved profile fits the file.
+ */
+const DODGE_COLUMN_ALIASES: Record<DodgeImportField, string[]> = {
+  name: ['Project Name (Link)', 'Project Name', 'Name'],
+  description: ['Comments', 'Project Description'],
+  address: ['Address'],
+  city: ['City'],
+  state: ['State'],
+  zip: ['Zip Code', 'ZIP'],
+  county: ['County'],
+  projectId: ['Project ID', 'Dodge Report Number'],
+  projectValue: ['Valuation', 'Low Value', 'High Value'],
+  projectType: ['Primary Project Type', 'Project Type(s)'],
+  status: ['Status'],
+  workType: ['Work Type'],
+  startDate: ['Target Start Date', 'Start Date', 'Bid Date'],
+  endDate: ['Target Completion Date', 'End Date', 'Completion Date'],
+  contractor: ['GC: Company Name', 'Contractor'],
+  contractorPhone: ['GC: Company Phone'],
+  contractorAddress: ['GC: Company Address'],
+  contractorCity: ['GC: Company City'],
+  contractorCounty: ['GC: Company County'],
+  contractorEmail: ['GC: Company Email'],
+  contractorWebsite: ['GC: Company Website'],
+  contractorContact: ['GC: Contact Name'],
+  owner: ['Owner: Company Name', 'Owner Name (Link)', 'Owner'],
+  ownerPhone: ['Owner: Company Phone'],
+  architect: ['Architect: Company Name', 'Architect Name (Link)', 'Architect'],
+  constructionManager: ['Construction Manager: Company Name'],
+  constructionManagerPhone: ['Construction Manager: Company Phone'],
+  phone: ['Phone'],
+  email: ['Email'],
+  orderedBy: ['Ordered By'],
+  deliverySystem: ['Delivery System'],
+  specsAvailable: ['Specs Available'],
+  projectUrl: ['Project URL'],
+  versionNumber: ['Version Number'],
+  projectNumber: ['Project Number'],
+  additionalFeatures: ['Additional Features'],
+  tags: ['Tags (Private)', 'Tags (Shared)', 'Tags'],
+  userNotes: ['User Notes'],
+};
+
+// Rows sent back with the headers so the mapping can be previewed
+const PREVIEW_ROW_COUNT = 5;
+
+// Conflicts are only saved on a real import; a dry run returns them without ids
+type ImportConflictEntry = InsertImportConflict & { jobName: string };
 
 interface ImportResult {
+  importRunId: string;
   imported: number;
   updated: number;
   skipped: number;
   unchanged: number;
+  conflicts: number; // Field values held for review
+  missing: number; // Jobs imported before in this export's counties that it no longer lists
   errors: string[];
+  // CRM records made from the companies and people on each row
+  companiesCreated: number;
+  contactsCreated: number;
+  contactsLinked: number;
   details?: {
     inserted?: Job[];
     updated_unlocked?: Job[];
-    skipped_locked?: Job[];
+    skipped_locked?: SkippedLockedJob[];
     unchanged?: Job[];
-    conflicts?: any[];
+    conflicts?: ImportConflictEntry[];
   };
 }
 
@@ -48,9 +93,23 @@ export class CSVImportService {
   private readonly protectedFields = ['isCold', 'userNotes', 'temperature', 'isViewed'];
   
   /**
-   * Generate dedupe key for a job
+   * Generate dedupe key for a job. The address part is the parsed, USPS
+   * normalized form so suffix, unit and ZIP+4 differences between exports
+   * still match.
    */
   private generateDedupeKey(name: string, address: string, county?: string): string {
+    return [
+      name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim(),
+      normalizeAddress(address),
+      (county || '').toLowerCase().trim()
+    ].join('|');
+  }
+
+  /**
+   * Dedupe key as built before address normalization; still stored on jobs
+   * that haven't been re-imported since.
+   */
+  private generateLegacyDedupeKey(name: string, address: string, county?: string): string {
     return [
       name.toLowerCase().trim(),
       address.toLowerCase().trim(),
@@ -58,22 +117,72 @@ export class CSVImportService {
     ].join('|');
   }
   
+  /**
+   * Read the headers and first rows of an export so the columns can be mapped
+   * before importing. Picks the saved profile that covers the most headers,
+   * as long as every header it maps is still in the file.
+   */
+  readDodgeColumns(fileBuffer: Buffer, profiles: DodgeMappingProfile[] = []): DodgeColumnPreview {
+    const sheet = this.readFirstSheet(fileBuffer);
+    const headers = this.readHeaders(sheet);
+    const sampleRows = (XLSX.utils.sheet_to_json(sheet) as Record<string, unknown>[]).slice(0, PREVIEW_ROW_COUNT);
+
+    let profileId: string | null = null;
+    let bestCoverage = 0;
+    for (const profile of profiles) {
+      const mapped = Object.keys(profile.columns);
+      if (!mapped.every(header => headers.includes(header))) continue;
+      if (mapped.length > bestCoverage) {
+        bestCoverage = mapped.length;
+        profileId = profile.id;
+      }
+    }
+
+    return { headers, sampleRows, suggestedColumns: this.guessDodgeColumns(headers), profileId };
+  }
+
+  /**
+   * Suggest a mapping from the headers Dodge has used before. Matching
+   * ignores case and surrounding spaces.
+   */
+  guessDodgeColumns(headers: string[]): DodgeColumnMapping {
+    const columns: DodgeColumnMapping = {};
+    for (const [field, aliases] of Object.entries(DODGE_COLUMN_ALIASES) as [DodgeImportField, string[]][]) {
+      for (const alias of aliases) {
+        const header = headers.find(h => h.trim().toLowerCase() === alias.toLowerCase());
+        if (header && !columns[header]) columns[header] = field;
+      }
+    }
+    return columns;
+  }
+
   /**
    * Import jobs from Dodge Data CSV file with safe merging
-   * Respects locked fields and provides dry-run capability
+   * Respects locked fields and provides dry-run capability. Without a column
+   * mapping the suggested one is used. A real import is recorded as an import
+   * run so it can be reverted.
    */
   async importDodgeCSV(
     fileBuffer: Buffer, 
     userId?: string,
-    dryRun: boolean = false
+    dryRun: boolean = false,
+    columns?: DodgeColumnMapping,
+    fileName?: string
   ): Promise<ImportResult> {
+    const run = userId && !dryRun ? await startImportRun(userId, 'dodge', fileName) : null;
     try {
       const results: ImportResult = {
+        importRunId: run?.id ?? randomUUID(),
         imported: 0,
         updated: 0,
         skipped: 0,
         unchanged: 0,
+        conflicts: 0,
+        missing: 0,
         errors: [],
+        companiesCreated: 0,
+        contactsCreated: 0,
+        contactsLinked: 0,
         details: {
           inserted: [],
           updated_unlocked: [],
@@ -84,32 +193,38 @@ export class CSVImportService {
       };
 
       // Parse CSV file (works with both .csv and .xlsx)
-      const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
-      const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-      const rawData = XLSX.utils.sheet_to_json(firstSheet) as DodgeCSVRow[];
+      const firstSheet = this.readFirstSheet(fileBuffer);
+      const mapping = columns ?? this.guessDodgeColumns(this.readHeaders(firstSheet));
+      const rawData = (XLSX.utils.sheet_to_json(firstSheet) as Record<string, unknown>[])
+        .map(row => this.applyColumns(row, mapping));
 
       console.log(`Processing ${rawData.length} rows from Dodge CSV (dry-run: ${dryRun})`);
-      
-      // Debug: Check the first row to see column names
-      if (rawData.length > 0) {
-        console.log('First row columns:', Object.keys(rawData[0]));
-      }
+
+      // New or moved jobs are geocoded in the background once the rows are in
+      const geocodeJobIds: string[] = [];
+      // New jobs placed from the geocode cache are tagged here; the rest when the queue places them
+      const autoTagTerritories = userId && !dryRun ? await getAutoTagTerritories(userId) : [];
+      // Companies and contacts are per user, so imports without one leave the CRM alone
+      const crm = userId ? new DodgeCrmLinker(userId, dryRun, run) : null;
+      // The export covers the counties on its rows; jobs there that it leaves out are flagged after
+      const counties = new Set<string>();
+      const seenJobIds = new Set<string>();
 
       for (let i = 0; i < rawData.length; i++) {
         const row = rawData[i];
         
         try {
-          // Skip empty rows - check for various possible column names
-          const projectNameRaw = row['Project Name (Link)'] || row['Project Name'] || row['project name'] || row['Name'] || '';
-          if (!row || !projectNameRaw) {
+          // Skip empty rows
+          const projectNameRaw = row.name || '';
+          if (!projectNameRaw) {
             console.log(`Row ${i}: Skipped - no project name found`);
             results.skipped++;
             continue;
           }
           
           // Skip non-California jobs - check county for California locations
-          const state = this.cleanString(row['State'] || row['state'] || '');
-          const county = this.cleanString(row['County'] || row['COUNTY'] || row['county'] || '');
+          const state = this.cleanString(row.state);
+          const county = this.cleanString(row.county);
           
           // If we have a county but no state, assume it's California if county exists
           const isCaliforniaJob = (!state || state.toUpperCase() === 'CA' || state.toUpperCase() === 'CALIFORNIA') && county;
@@ -122,42 +237,70 @@ export class CSVImportService {
 
           // Extract and clean data
           const projectName = this.cleanString(projectNameRaw);
-          const description = this.cleanString(row['Comments'] || row['Project Description'] || '');
+          const description = this.cleanString(row.description);
           const fullAddress = this.buildFullAddress(row);
-          const projectValue = this.parseProjectValue(row['Valuation'] || row['Low Value'] || row['High Value']);
-          const projectType = this.normalizeProjectType(row['Primary Project Type'] || row['Project Type(s)']);
-          const dodgeProjectId = this.cleanString(row['Project ID'] || row['Dodge Report Number'] || '');
+          const projectValue = this.parseProjectValue(row.projectValue);
+          const projectType = this.normalizeProjectType(row.projectType);
+          const dodgeProjectId = this.cleanString(row.projectId);
+          if (county) counties.add(county.toLowerCase());
           
           // Generate dedupe key
           const dedupeKey = this.generateDedupeKey(projectName, fullAddress, county);
           const externalId = dodgeProjectId || null;
           
           // Find existing job
-          const existingJob = await this.findJobByDedupeKey(externalId, dedupeKey, userId);
+          const existingJob = await this.findJobByDedupeKey(externalId, dedupeKey, userId)
+            ?? await this.findJobByDedupeKey(null, this.generateLegacyDedupeKey(projectName, fullAddress, county), userId);
           
           if (existingJob) {
+            seenJobIds.add(existingJob.id);
             // Merge with existing job
             const mergeResult = await this.mergeJob(existingJob, row, projectName, description, fullAddress, 
-                                                   projectValue, projectType, dodgeProjectId, dedupeKey, dryRun);
+                                                   projectValue, projectType, dodgeProjectId, dedupeKey,
+                                                   results.importRunId, run, dryRun);
+            results.conflicts += mergeResult.conflicts.length;
+            const lockedConflicts = mergeResult.conflicts.filter(c => c.userEdited);
+            if (lockedConflicts.length > 0) {
+              results.details?.skipped_locked?.push({
+                jobId: existingJob.id,
+                jobName: existingJob.name,
+                fields: lockedConflicts.map(({ field, currentValue, incomingValue }) => ({
+                  field,
+                  currentValue: currentValue ?? null,
+                  incomingValue: incomingValue ?? null,
+                })),
+              });
+            }
+            results.details?.conflicts?.push(...mergeResult.conflicts.map(c => ({ ...c, jobName: existingJob.name })));
             
+            if (mergeResult.addressChanged && !dryRun) {
+              geocodeJobIds.push(existingJob.id);
+            }
+            await crm?.link(existingJob.id, this.dodgeParties(row));
+
             if (mergeResult.updated) {
               results.updated++;
               results.details?.updated_unlocked?.push(existingJob);
-            } else if (mergeResult.skippedLocked) {
+            } else if (mergeResult.conflicts.length > 0) {
               results.skipped++;
-              results.details?.skipped_locked?.push(existingJob);
             } else {
               results.unchanged++;
               results.details?.unchanged?.push(existingJob);
             }
           } else {
             // Create new job
+            let newJob: Job | null = null;
             if (!dryRun) {
-              const newJob = await this.createNewJobFromCSV(row, projectName, description, fullAddress, 
-                                                           projectValue, projectType, dodgeProjectId, 
-                                                           dedupeKey, externalId, userId);
+              newJob = await this.createNewJobFromCSV(row, projectName, description, fullAddress, 
+                                                      projectValue, projectType, dodgeProjectId, 
+                                                      dedupeKey, externalId, userId, autoTagTerritories);
               results.details?.inserted?.push(newJob);
+              await run?.created('job', newJob.id);
+              if (!newJob.latitude && !newJob.geocodeFailedReason) {
+                geocodeJobIds.push(newJob.id);
+              }
             }
+            await crm?.link(newJob?.id ?? null, this.dodgeParties(row));
             results.imported++;
             if (i < 5) {
               console.log(`${dryRun ? '[DRY-RUN] Would import' : 'Imported'}: ${projectName} at ${fullAddress}`);
@@ -171,11 +314,28 @@ export class CSVImportService {
         }
       }
 
-      console.log(`CSV Import completed: ${results.imported} imported, ${results.updated} updated, ${results.skipped} skipped, ${results.errors.length} errors`);
+      if (crm) {
+        Object.assign(results, crm.results);
+      }
+
+      if (userId) {
+        results.missing = await this.markMissingJobs(userId, counties, seenJobIds, run, dryRun);
+      }
+
+      if (geocodeJobIds.length > 0) {
+        const queued = geocodeQueue.enqueue(geocodeJobIds);
+        console.log(`Queued ${queued} imported jobs for geocoding`);
+      }
+
+      console.log(`CSV Import completed: ${results.imported} imported, ${results.updated} updated, ${results.skipped} skipped, ${results.missing} missing from export, ${results.errors.length} errors`);
+      console.log(`CRM: ${results.companiesCreated} companies and ${results.contactsCreated} contacts created, ${results.contactsLinked} linked to jobs`);
+      await run?.finish(results);
       return results;
 
     } catch (error) {
       console.error('Error importing Dodge CSV:', error);
+      // Whatever was written before the failure can still be reverted
+      await run?.finish({ errors: [error instanceof Error ? error.message : 'Unknown error'] }, 'failed');
       throw new Error(`CSV import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -211,11 +371,14 @@ export class CSVImportService {
   }
 
   /**
-   * Merge job data respecting locked fields
+   * Merge job data. Empty fields are filled in straight away; a value that
+   * differs from what the job already has is held as a conflict for review,
+   * whether or not the field was edited by hand. A value rejected before is
+   * not raised again, and a newer import replaces a conflict still pending.
    */
   private async mergeJob(
     existingJob: Job,
-    row: DodgeCSVRow,
+    row: DodgeRow,
     projectName: string,
     description: string,
     fullAddress: string,
@@ -223,55 +386,80 @@ export class CSVImportService {
     projectType: string,
     dodgeProjectId: string,
     dedupeKey: string,
+    importRunId: string,
+    run: ImportRunRecorder | null,
     dryRun: boolean
-  ): Promise<{ updated: boolean; skippedLocked: boolean }> {
+  ): Promise<{ updated: boolean; conflicts: InsertImportConflict[]; addressChanged: boolean }> {
     const updates: Partial<Job> = {};
     const lockedFields = existingJob.lockedFields || [];
+    const conflicts: InsertImportConflict[] = [];
+    // Fields where Dodge now has a different value, kept if this is a new version
+    const changedFields: ImportConflictField[] = [];
     let hasChanges = false;
-    let skippedLocked = false;
 
-    // Check each field and only update if not locked
-    if (!lockedFields.includes('name') && projectName !== existingJob.name) {
-      updates.name = projectName;
-      hasChanges = true;
-    }
+    const incoming: Record<ImportConflictField, string> = {
+      name: projectName,
+      description,
+      address: fullAddress,
+      projectValue: projectValue ? projectValue.toString() : '',
+      type: projectType,
+      contractor: this.cleanString(row.contractor),
+      owner: this.cleanString(row.owner),
+    };
 
-    if (!lockedFields.includes('description') && description !== existingJob.description) {
-      updates.description = description;
-      hasChanges = true;
-    }
+    const previous = await db
+      .select()
+      .from(importConflicts)
+      .where(and(
+        eq(importConflicts.jobId, existingJob.id),
+        inArray(importConflicts.status, ['pending', 'rejected'])
+      ));
 
-    if (!lockedFields.includes('address') && fullAddress !== existingJob.address) {
-      updates.address = fullAddress;
-      hasChanges = true;
-    }
+    for (const [field, incomingValue] of Object.entries(incoming) as [ImportConflictField, string][]) {
+      // The import never blanks a field
+      if (!incomingValue) continue;
+      const currentValue = stringifyValue(existingJob[field]);
+      if (this.sameImportValue(field, currentValue, incomingValue)) continue;
 
-    if (!lockedFields.includes('projectValue') && projectValue && 
-        projectValue.toString() !== existingJob.projectValue) {
-      updates.projectValue = projectValue.toString();
-      hasChanges = true;
-    }
+      const userEdited = lockedFields.includes(field);
+      if (currentValue === null && !userEdited) {
+        (updates as Record<string, unknown>)[field] = incomingValue;
+        changedFields.push(field);
+        hasChanges = true;
+        continue;
+      }
 
-    if (!lockedFields.includes('type') && projectType !== existingJob.type) {
-      updates.type = projectType as any;
-      hasChanges = true;
+      const rejectedBefore = previous.some(c =>
+        c.field === field && c.status === 'rejected' && c.incomingValue === incomingValue
+      );
+      if (rejectedBefore) continue;
+
+      changedFields.push(field);
+      conflicts.push({
+        userId: existingJob.userId,
+        jobId: existingJob.id,
+        importRunId,
+        field,
+        currentValue,
+        incomingValue,
+        userEdited,
+      });
     }
 
-    // Update team info if not locked
-    const contractor = this.cleanString(row['Contractor']);
-    if (contractor && !lockedFields.includes('contractor') && contractor !== existingJob.contractor) {
-      updates.contractor = contractor;
-      hasChanges = true;
+    // Always update lastImportedAt; a job back in the export is no longer missing
+    updates.lastImportedAt = new Date();
+    if (existingJob.missingFromDodgeAt) {
+      updates.missingFromDodgeAt = null;
     }
 
-    const owner = this.cleanString(row['Owner']);  
-    if (owner && !lockedFields.includes('owner') && owner !== existingJob.owner) {
-      updates.owner = owner;
+    // A new Dodge version notes when it came in and what changed with it
+    const versionNumber = this.cleanString(row.versionNumber);
+    if (versionNumber && versionNumber !== (existingJob.versionNumber || '') && !lockedFields.includes('versionNumber')) {
+      updates.versionNumber = versionNumber;
+      updates.dodgeVersionAt = new Date();
+      updates.dodgeChangedFields = existingJob.versionNumber ? changedFields : null;
       hasChanges = true;
     }
-
-    // Always update lastImportedAt
-    updates.lastImportedAt = new Date();
     
     // Update external ID if it wasn't set before
     if (!existingJob.externalId && dodgeProjectId) {
@@ -279,15 +467,82 @@ export class CSVImportService {
       hasChanges = true;
     }
 
-    // Apply updates if not dry-run
-    if (hasChanges && !dryRun) {
-      await db
-        .update(jobs)
-        .set(updates)
-        .where(eq(jobs.id, existingJob.id));
+    // Move jobs matched on an older key format over to the current one
+    if (existingJob.dedupeKey !== dedupeKey) {
+      updates.dedupeKey = dedupeKey;
+    }
+
+    if (dryRun) {
+      return { updated: hasChanges, conflicts, addressChanged: updates.address !== undefined };
+    }
+
+    await db
+      .update(jobs)
+      .set(updates)
+      .where(eq(jobs.id, existingJob.id));
+    await recordJobChange(existingJob, updates, {
+      userId: existingJob.userId,
+      source: 'dodge_import',
+      action: 'import_merge'
+    });
+    await run?.updated('job', existingJob, updates);
+
+    const supersededIds = previous
+      .filter(c => c.status === 'pending' && conflicts.some(conflict => conflict.field === c.field))
+      .map(c => c.id);
+    if (supersededIds.length > 0) {
+      await db.delete(importConflicts).where(inArray(importConflicts.id, supersededIds));
+    }
+    const saved = conflicts.length > 0
+      ? await db.insert(importConflicts).values(conflicts).returning()
+      : [];
+
+    return { updated: hasChanges, conflicts: saved, addressChanged: updates.address !== undefined };
+  }
+
+  /**
+   * Flag jobs from earlier imports in the counties this export covers that it
+   * no longer lists. Returns how many were newly flagged; a dry run only counts.
+   */
+  private async markMissingJobs(
+    userId: string,
+    counties: Set<string>,
+    seenJobIds: Set<string>,
+    run: ImportRunRecorder | null,
+    dryRun: boolean
+  ): Promise<number> {
+    if (counties.size === 0) return 0;
+
+    const candidates = await db
+      .select()
+      .from(jobs)
+      .where(and(
+        eq(jobs.userId, userId),
+        isNotNull(jobs.lastImportedAt),
+        isNull(jobs.missingFromDodgeAt),
+        inArray(sql`lower(trim(${jobs.county}))`, Array.from(counties))
+      ));
+    const missing = candidates.filter(job => !seenJobIds.has(job.id));
+    if (dryRun || missing.length === 0) return missing.length;
+
+    const missingFromDodgeAt = new Date();
+    const ids = missing.map(job => job.id);
+    for (let i = 0; i < ids.length; i += 500) {
+      await db.update(jobs).set({ missingFromDodgeAt }).where(inArray(jobs.id, ids.slice(i, i + 500)));
     }
+    await run?.updatedMany('job', missing, { missingFromDodgeAt });
+    return missing.length;
+  }
 
-    return { updated: hasChanges, skippedLocked };
+  /**
+   * Formatting-only differences ("St" vs "Street", "85000000.00" vs
+   * "85000000") aren't a change.
+   */
+  private sameImportValue(field: ImportConflictField, current: string | null, incoming: string): boolean {
+    if (current === null) return false;
+    if (field === 'address') return normalizeAddress(current) === normalizeAddress(incoming);
+    if (field === 'projectValue') return parseFloat(current) === parseFloat(incoming);
+    return current === incoming;
   }
 
   /**
@@ -358,7 +613,7 @@ export class CSVImportService {
    */
   private async updateExistingJobIfNeeded(
     existingJob: Job,
-    row: DodgeCSVRow,
+    row: DodgeRow,
     fullAddress: string,
     projectValue: number | null,
     projectType: string
@@ -380,31 +635,31 @@ export class CSVImportService {
     }
 
     // Update contact information if missing
-    if (row['Phone'] && !existingJob.phone) {
-      updates.phone = this.cleanString(row['Phone']);
+    if (row.phone && !existingJob.phone) {
+      updates.phone = this.cleanString(row.phone);
       hasChanges = true;
     }
 
-    if (row['Email'] && !existingJob.email) {
-      updates.email = this.cleanString(row['Email']);
+    if (row.email && !existingJob.email) {
+      updates.email = this.cleanString(row.email);
       hasChanges = true;
     }
 
     // Update contractor info if missing
-    if (row['Contractor'] && !existingJob.contractor) {
-      updates.contractor = this.cleanString(row['Contractor']);
+    if (row.contractor && !existingJob.contractor) {
+      updates.contractor = this.cleanString(row.contractor);
       hasChanges = true;
     }
 
     // Update status if it's more current
-    const newStatus = this.normalizeStatus(row['Status']);
+    const newStatus = this.normalizeStatus(row.status);
     if (newStatus && newStatus !== existingJob.status) {
       updates.status = newStatus as any;
       hasChanges = true;
     }
 
     // Ensure Dodge Project ID is set
-    const dodgeId = this.cleanString(row['Project ID'] || '');
+    const dodgeId = this.cleanString(row.projectId);
     if (dodgeId && !existingJob.dodgeJobId) {
       updates.dodgeJobId = dodgeId;
       hasChanges = true;
@@ -427,7 +682,7 @@ export class CSVImportService {
    * Create new job from CSV row
    */
   private async createNewJobFromCSV(
-    row: DodgeCSVRow,
+    row: DodgeRow,
     projectName: string,
     description: string,
     fullAddress: string,
@@ -436,46 +691,45 @@ export class CSVImportService {
     dodgeProjectId: string,
     dedupeKey: string,
     externalId: string | null,
-    userId?: string
+    userId?: string,
+    autoTagTerritories: Territory[] = []
   ): Promise<Job> {
     
-    // Attempt to geocode the address
-    let coordinates = null;
-    if (fullAddress) {
-      coordinates = await geocodeAddress(fullAddress);
-    }
-
-    // Extract additional info from new Dodge format columns
-    const ownerName = this.cleanString(row['Owner: Company Name'] || row['Owner Name (Link)'] || row['Owner'] || '');
-    const ownerPhone = this.cleanString(row['Owner: Company Phone'] || '');
-    const architectName = this.cleanString(row['Architect: Company Name'] || row['Architect Name (Link)'] || row['Architect'] || '');
-    const contractorName = this.cleanString(row['GC: Company Name'] || row['Contractor'] || '');
-    const contractorPhone = this.cleanString(row['GC: Company Phone'] || '');
-    const contractorAddress = this.cleanString(row['GC: Company Address'] || '');
-    const contractorCity = this.cleanString(row['GC: Company City'] || '');
-    const contractorCounty = this.cleanString(row['GC: Company County'] || '');
-    const contractorEmail = this.cleanString(row['GC: Company Email'] || row['Email'] || '');
-    const contractorWebsite = this.cleanString(row['GC: Company Website'] || '');
-    const contractorContact = this.cleanString(row['GC: Contact Name'] || '');
-    const constructionManager = this.cleanString(row['Construction Manager: Company Name'] || '');
-    const constructionManagerPhone = this.cleanString(row['Construction Manager: Company Phone'] || '');
-    const workType = this.cleanString(row['Work Type'] || '');
-    const status = this.cleanString(row['Status'] || '');
-    const deliverySystem = this.cleanString(row['Delivery System'] || '');
-    const tags = this.cleanString(row['Tags (Private)'] || row['Tags (Shared)'] || row['Tags'] || '');
-    const userNotes = this.cleanString(row['User Notes'] || '');
-    const specsAvailable = this.cleanString(row['Specs Available'] || '');
-    const projectUrl = this.cleanString(row['Project URL'] || '');
-    const versionNumber = this.cleanString(row['Version Number'] || '');
-    const projectNumber = this.cleanString(row['Project Number'] || '');
-    const additionalFeatures = this.cleanString(row['Additional Features'] || '');
-    // Look for date columns - Dodge uses different column names in different exports
-    const targetStartDate = row['Target Start Date'] || row['Start Date'] || row['Bid Date'] || '';
-    const targetEndDate = row['Target Completion Date'] || row['End Date'] || row['Completion Date'] || '';
+    // Use a cached location if this address has been seen; otherwise the job is queued after the import
+    const cachedGeocode = fullAddress ? await getCachedGeocode(fullAddress) : null;
+    const territory = cachedGeocode?.ok
+      ? findTerritoryAt(autoTagTerritories, cachedGeocode.result.lat, cachedGeocode.result.lng)
+      : undefined;
+
+    const ownerName = this.cleanString(row.owner);
+    const ownerPhone = this.cleanString(row.ownerPhone);
+    const architectName = this.cleanString(row.architect);
+    const contractorName = this.cleanString(row.contractor);
+    const contractorPhone = this.cleanString(row.contractorPhone);
+    const contractorAddress = this.cleanString(row.contractorAddress);
+    const contractorCity = this.cleanString(row.contractorCity);
+    const contractorCounty = this.cleanString(row.contractorCounty);
+    const contractorEmail = this.cleanString(row.contractorEmail || row.email);
+    const contractorWebsite = this.cleanString(row.contractorWebsite);
+    const contractorContact = this.cleanString(row.contractorContact);
+    const constructionManager = this.cleanString(row.constructionManager);
+    const constructionManagerPhone = this.cleanString(row.constructionManagerPhone);
+    const workType = this.cleanString(row.workType);
+    const status = this.cleanString(row.status);
+    const deliverySystem = this.cleanString(row.deliverySystem);
+    const tags = this.cleanString(row.tags);
+    const userNotes = this.cleanString(row.userNotes);
+    const specsAvailable = this.cleanString(row.specsAvailable);
+    const projectUrl = this.cleanString(row.projectUrl);
+    const versionNumber = this.cleanString(row.versionNumber);
+    const projectNumber = this.cleanString(row.projectNumber);
+    const additionalFeatures = this.cleanString(row.additionalFeatures);
+    const targetStartDate = row.startDate || '';
+    const targetEndDate = row.endDate || '';
     
     // Legacy phone and email fields for backward compatibility
-    const phone = contractorPhone || ownerPhone || this.cleanString(row['Phone'] || '');
-    const email = contractorEmail || this.cleanString(row['Email'] || '');
+    const phone = contractorPhone || ownerPhone || this.cleanString(row.phone);
+    const email = contractorEmail || this.cleanString(row.email);
     
     // Enhance description with Additional Features if available, otherwise build from other fields
     const enhancedDescription = additionalFeatures || [
@@ -509,14 +763,16 @@ export class CSVImportService {
       }
     }
 
-    const county = this.cleanString(row['County'] || row['COUNTY'] || '');
+    const county = this.cleanString(row.county);
     const newJob: any = {
       name: projectName,
       description: enhancedDescription,
       address: fullAddress,
       county: county,
-      latitude: coordinates?.lat?.toString() || null,
-      longitude: coordinates?.lng?.toString() || null,
+      latitude: null,
+      longitude: null,
+      ...(cachedGeocode ? geocodeFieldsFor(cachedGeocode) : {}),
+      territoryId: territory?.id ?? null,
       type: projectType as any,
       status: jobStatus as any,
       projectValue: projectValue?.toString() || null,
@@ -540,7 +796,7 @@ export class CSVImportService {
       officeContact: contractorContact || '',
       specialConditions: deliverySystem || '',
       notes: tags || '',
-      orderedBy: this.cleanString(row['Ordered By'] || ''),
+      orderedBy: this.cleanString(row.orderedBy),
       isCustom: false,
       dodgeJobId: dodgeProjectId,
       // New fields
@@ -560,27 +816,90 @@ export class CSVImportService {
       externalId,
       lockedFields: [],
       lastImportedAt: new Date(),
+      dodgeVersionAt: new Date(),
       userId: userId
     };
 
     const [created] = await db.insert(jobs).values(newJob).returning();
+    await recordJobCreated(created, { userId, source: 'dodge_import' });
     return created;
   }
 
+  /**
+   * The companies named on a row, with whatever contact details Dodge gives
+   * for each. Only the contractor comes with a person and an address.
+   */
+  private dodgeParties(row: DodgeRow): DodgeParty[] {
+    const parties: DodgeParty[] = [];
+    const contractor = this.cleanString(row.contractor);
+    if (contractor) {
+      parties.push({
+        role: 'contractor',
+        companyName: contractor,
+        contactName: this.cleanString(row.contractorContact),
+        phone: this.cleanString(row.contractorPhone),
+        email: this.cleanString(row.contractorEmail || row.email),
+        website: this.cleanString(row.contractorWebsite),
+        address: this.cleanString(row.contractorAddress),
+        city: this.cleanString(row.contractorCity),
+        county: this.cleanString(row.contractorCounty),
+      });
+    }
+    const owner = this.cleanString(row.owner);
+    if (owner) {
+      parties.push({ role: 'owner', companyName: owner, phone: this.cleanString(row.ownerPhone) });
+    }
+    const architect = this.cleanString(row.architect);
+    if (architect) {
+      parties.push({ role: 'architect', companyName: architect });
+    }
+    const constructionManager = this.cleanString(row.constructionManager);
+    if (constructionManager) {
+      parties.push({
+        role: 'construction_manager',
+        companyName: constructionManager,
+        phone: this.cleanString(row.constructionManagerPhone),
+      });
+    }
+    return parties;
+  }
+
   /**
    * Build full address from CSV components
    */
-  private buildFullAddress(row: DodgeCSVRow): string {
-    const parts = [
-      row['Address'],
-      row['City'],
-      row['State'],
-      row['Zip Code'] || row['ZIP']
-    ].filter(part => part && part.trim());
+  private buildFullAddress(row: DodgeRow): string {
+    const parts = [row.address, row.city, row.state, row.zip]
+      .map(part => this.cleanString(part))
+      .filter(Boolean);
     
     return parts.join(', ');
   }
 
+  private readFirstSheet(fileBuffer: Buffer): XLSX.WorkSheet {
+    const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
+    return workbook.Sheets[workbook.SheetNames[0]];
+  }
+
+  private readHeaders(sheet: XLSX.WorkSheet): string[] {
+    const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 });
+    // Kept as written; row objects from sheet_to_json use the same text as keys
+    return headerRow.map(header => String(header ?? '')).filter(header => header.trim());
+  }
+
+  /**
+   * Read a raw row through the column mapping. Blank cells don't count as a
+   * value, so a later header mapped to the same field can fill it.
+   */
+  private applyColumns(raw: Record<string, unknown>, columns: DodgeColumnMapping): DodgeRow {
+    const row: DodgeRow = {};
+    for (const [header, field] of Object.entries(columns)) {
+      const value = raw[header];
+      if (row[field] || value === undefined || value === null || this.cleanString(value) === '') continue;
+      row[field] = value;
+    }
+    return row;
+  }
+
   /**
    * Parse project value from string or number
    * Handles formats like "$ 85000000" or "$ 4500000 - $ 5000000"
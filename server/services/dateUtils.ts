@@ -0,0 +1,11 @@
+/**
+ * Date Utils - Calendar dates as the server's local day, for the daily rental
+ * report snapshots and the analytics read back from them.
+ */
+
+// YYYY-MM-DD in local time; toISOString would give the UTC day
+export function localDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -1,179 +1,311 @@
-import { type InsertDocument, type InsertJob, type InsertEquipment } from '@shared/schema';
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+import { randomUUID } from 'crypto';
+import { and, eq } from 'drizzle-orm';
+import {
+  documents,
+  equipment,
+  jobs,
+  type Document,
+  type DocumentExtraction,
+  type DocumentReview,
+  type ExtractedDate,
+  type ExtractedEquipment,
+  type ExtractedField,
+  type InsertJob,
+  type Job,
+} from '@shared/schema';
+import { db } from '../db';
 import { storage } from '../storage';
-import { geocodeAddress } from './geocodingService';
-
-interface ExtractedData {
-  addresses: string[];
-  equipment: {
-    equipmentNumber?: string;
-    attachmentType?: string;
-    attachmentNumber?: string;
-    status?: 'starting' | 'stopping';
-    instructions?: string;
-  }[];
-  contractors?: string[];
-  projectValues?: string[];
-  dates?: string[];
+import { lookupGeocode } from './geocodingService';
+import { geocodeFieldsFor, geocodeQueue } from './geocodeQueueService';
+import { recordJobCreated } from './jobHistoryService';
+import { fileStorage, attachmentKey } from './fileStorage';
+
+// Processed documents never create jobs on their own: what is found in the
+// text is staged on the document with a confidence for each value, and a job
+// is only made once someone has reviewed it (see acceptExtraction).
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const MAX_CANDIDATES = 10;
+const TEXT_PREVIEW_LENGTH = 2000;
+
+const STREET_SUFFIX = '(?:Street|St|Avenue|Ave|Road|Rd|Drive|Dr|Boulevard|Blvd|Lane|Ln|Way|Court|Ct|Circle|Cir|Plaza|Parkway|Pkwy|Highway|Hwy|Place|Pl|Terrace|Ter|Trail|Trl)';
+const STREET_PATTERN = new RegExp(`\\b\\d{1,6}\\s+(?:[NSEW]\\.?\\s+)?(?:[A-Za-z0-9.'-]+\\s+){0,4}?${STREET_SUFFIX}\\b\\.?(?:,?\\s+(?:Suite|Ste|Unit|#)\\s*[\\w-]+)?`, 'gi');
+const CITY_STATE_ZIP = /^,?\s*([A-Za-z .'-]+),\s*([A-Z]{2})\.?,?\s+(\d{5}(?:-\d{4})?)/;
+const ZIP_ONLY = /^,\s*(?:[A-Za-z .'-]+,?\s*)?(?:[A-Z]{2}\s+)?(\d{5}(?:-\d{4})?)\b/;
+const ADDRESS_LABEL = /\b(?:project|job|site|jobsite|address|location)\b/i;
+
+const CONTRACTOR_PATTERN = /\b(General Contractor|Contractor|GC|Builder)\b\s*[:\-–]\s*([^\n;|]+)/gi;
+const CONTRACTOR_CONFIDENCE: Record<string, number> = {
+  'general contractor': 0.85,
+  contractor: 0.75,
+  gc: 0.6,
+  builder: 0.6,
+};
+
+const VALUE_PATTERN = /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?\s*(million|mil|m|thousand|k)?\b/gi;
+const VALUE_LABEL = /\b(?:value|valuation|contract|amount|budget|estimate[d]?|cost|bid)\b/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DATE_PATTERN = /\b(?:(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})|(\d{4})-(\d{2})-(\d{2})|((?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?)\s+(\d{1,2}),?\s+(\d{4}))\b/gi;
+const DATE_LABEL = /\b(start|begin|bid|due|completion|complete|finish|end|delivery|pick\s?up|drop\s?off)\w*/gi;
+
+const EQUIPMENT_PATTERN = /\b(Equipment|Equip|Unit)\b\.?\s*(?:#|No\.?|Number)?\s*[:\-]?\s*([A-Z]{0,3}-?\d{2,})/gi;
+const ATTACHMENT_PATTERN = /\b(?:Attachment|Attach)\b\.?\s*(?:#|No\.?|Number)?\s*[:\-]?\s*([A-Z]{0,3}-?\d+)/i;
+const STOPPING_PATTERN = /\b(?:stopping|stop|pick\s?up|removal|remove|off\s?rent)\b/i;
+const STARTING_PATTERN = /\b(?:starting|start|drop\s?off|delivery|deliver|on\s?rent)\b/i;
+
+const roundConfidence = (value: number) => Math.round(Math.min(value, 0.95) * 100) / 100;
+
+/**
+ * Add a candidate, keeping the higher confidence when the same value turns up twice.
+ */
+function addCandidate<T extends { confidence: number }>(list: T[], candidate: T, keyOf: (item: T) => string) {
+  const key = keyOf(candidate).toLowerCase().replace(/\s+/g, ' ');
+  const existing = list.findIndex(item => keyOf(item).toLowerCase().replace(/\s+/g, ' ') === key);
+  if (existing === -1) list.push(candidate);
+  else if (list[existing].confidence < candidate.confidence) list[existing] = candidate;
+}
+
+function topCandidates<T extends { confidence: number }>(list: T[]): T[] {
+  return list.sort((a, b) => b.confidence - a.confidence).slice(0, MAX_CANDIDATES);
 }
 
 export class DocumentProcessor {
-  
+
+  /**
+   * Read a document and stage what it found for review. The file is kept in
+   * the file store so it can be attached to the job once accepted.
+   */
   async processDocument(file: {
     filename: string;
     originalName: string;
     mimeType: string;
     size: string;
     buffer: Buffer;
-  }): Promise<ExtractedData> {
-    
+    userId?: string;
+  }): Promise<Document> {
     try {
-      let extractedText = '';
-      
-      // Extract text based on file type
-      if (file.mimeType.includes('application/vnd.openxmlformats-officedocument.wordprocessingml.document') ||
-          file.mimeType.includes('application/msword')) {
-        // For Word documents, you would use mammoth.js in a real implementation
-        // This is a simplified version that extracts basic information
-        extractedText = await this.extractTextFromWord(file.buffer);
-      } else if (file.mimeType.includes('text/plain')) {
-        extractedText = file.buffer.toString('utf-8');
-      } else {
-        throw new Error(`Unsupported file type: ${file.mimeType}`);
+      const text = await this.extractText(file);
+      if (!text.trim()) {
+        throw new Error('No text found in this file. Scanned documents need OCR before they can be read.');
       }
-      
-      // Extract structured data from text
-      const extractedData = await this.extractDataFromText(extractedText);
-      
-      // Save document record
-      const documentRecord: InsertDocument = {
-        filename: file.filename,
+      const extractedData = this.extractDataFromText(text);
+
+      let storageKey: string | null = null;
+      if (file.userId) {
+        storageKey = attachmentKey(file.userId, randomUUID(), file.originalName);
+        await fileStorage.put(storageKey, file.buffer, file.mimeType);
+      }
+
+      return await storage.createDocument({
+        userId: file.userId,
+        filename: storageKey ? storageKey.split('/').pop()! : file.filename,
         originalName: file.originalName,
         mimeType: file.mimeType,
         size: file.size,
-        extractedData: extractedData as any
-      };
-      
-      await storage.createDocument(documentRecord);
-      
-      // Process extracted data to create jobs/equipment
-      await this.processExtractedData(extractedData);
-      
-      return extractedData;
-      
+        storageKey,
+        extractedData,
+        reviewStatus: 'pending',
+      });
     } catch (error) {
       console.error('Error processing document:', error);
       throw error;
     }
   }
 
-  private async extractTextFromWord(buffer: Buffer): Promise<string> {
-    // In a real implementation, you would use mammoth.js:
-    // const mammoth = require('mammoth');
-    // const result = await mammoth.extractRawText({ buffer });
-    // return result.value;
-    
-    // For now, return a placeholder that would be replaced with actual mammoth implementation
-    const mockText = buffer.toString('utf-8').substring(0, 1000);
-    return mockText || 'Document content would be extracted here using mammoth.js';
+  private async extractText(file: { originalName: string; mimeType: string; buffer: Buffer }): Promise<string> {
+    const name = file.originalName.toLowerCase();
+    if (file.mimeType === DOCX_MIME_TYPE || name.endsWith('.docx')) {
+      const result = await mammoth.extractRawText({ buffer: file.buffer });
+      return result.value;
+    }
+    if (file.mimeType === 'application/pdf' || name.endsWith('.pdf')) {
+      return this.extractTextFromPdf(file.buffer);
+    }
+    if (file.mimeType === 'text/plain' || name.endsWith('.txt')) {
+      return file.buffer.toString('utf-8');
+    }
+    if (file.mimeType === 'application/msword' || name.endsWith('.doc')) {
+      throw new Error('Older Word (.doc) files can\'t be read. Save it as .docx or PDF and upload again.');
+    }
+    throw new Error(`Unsupported file type: ${file.mimeType}`);
   }
 
-  private async extractDataFromText(text: string): Promise<ExtractedData> {
-    const extractedData: ExtractedData = {
-      addresses: [],
-      equipment: [],
-      contractors: [],
-      projectValues: [],
-      dates: []
-    };
+  private async extractTextFromPdf(buffer: Buffer): Promise<string> {
+    const parser = new PDFParse({ data: new Uint8Array(buffer) });
+    try {
+      const result = await parser.getText();
+      return result.text;
+    } finally {
+      await parser.destroy();
+    }
+  }
 
-    // Extract addresses - look for common address patterns
-    const addressRegex = /\b\d+\s+[A-Za-z\s]+(?:Street|St|Avenue|Ave|Road|Rd|Drive|Dr|Boulevard|Blvd|Lane|Ln|Way|Court|Ct|Circle|Cir|Plaza|Pl)\b[^\n,]*(?:,\s*[A-Za-z\s]+,?\s*\d{5})?/gi;
-    const addresses = text.match(addressRegex) || [];
-    extractedData.addresses = [...new Set(addresses.map(addr => addr.trim()))];
-
-    // Extract equipment information
-    const equipmentRegex = /(?:Equipment|Equip)[\s#:]*([A-Z]{1,3}[-]?\d+)/gi;
-    const equipmentMatches = text.match(equipmentRegex) || [];
-    
-    // Extract attachment information
-    const attachmentRegex = /(?:Attachment|Attach)[\s#:]*(\d+)/gi;
-    const attachmentMatches = text.match(attachmentRegex) || [];
-    
-    // Extract equipment status (starting/stopping)
-    const statusRegex = /(starting|stopping|drop\s+off|pick\s+up|delivery|removal)/gi;
-    const statusMatches = text.match(statusRegex) || [];
-    
-    // Combine equipment information
-    equipmentMatches.forEach((match, index) => {
-      const equipmentNumber = match.replace(/(?:Equipment|Equip)[\s#:]*/gi, '').trim();
-      const attachmentNumber = attachmentMatches[index]?.replace(/(?:Attachment|Attach)[\s#:]*/gi, '').trim();
-      const status = statusMatches[index]?.toLowerCase().includes('stop') || 
-                   statusMatches[index]?.toLowerCase().includes('pick') || 
-                   statusMatches[index]?.toLowerCase().includes('removal') ? 'stopping' : 'starting';
-      
-      extractedData.equipment.push({
-        equipmentNumber,
-        attachmentNumber,
-        status,
-        instructions: `Extracted from document: ${match}`
-      });
-    });
+  private extractDataFromText(text: string): DocumentExtraction {
+    const lines = text
+      .replace(/\r\n?/g, '\n')
+      .split('\n')
+      .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim());
 
-    // Extract contractor names
-    const contractorRegex = /(?:General Contractor|Contractor|GC)[\s:]*([A-Za-z\s&.,Inc]+)/gi;
-    const contractors = text.match(contractorRegex) || [];
-    extractedData.contractors = contractors.map(c => c.replace(/(?:General Contractor|Contractor|GC)[\s:]*/gi, '').trim());
+    const addresses: ExtractedField[] = [];
+    const contractors: ExtractedField[] = [];
+    const projectValues: ExtractedField[] = [];
+    const dates: ExtractedDate[] = [];
+    const equipment: ExtractedEquipment[] = [];
 
-    // Extract project values
-    const valueRegex = /\$[\d,]+(?:\.\d{2})?(?:\s*(?:million|M|thousand|K))?/gi;
-    extractedData.projectValues = text.match(valueRegex) || [];
+    lines.forEach((line, index) => {
+      if (!line) return;
+      const previousLine = lines[index - 1] ?? '';
 
-    // Extract dates
-    const dateRegex = /\b(?:\d{1,2}\/\d{1,2}\/\d{4}|\d{1,2}-\d{1,2}-\d{4}|(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{1,2},?\s+\d{4})/gi;
-    extractedData.dates = text.match(dateRegex) || [];
+      // Addresses: a street is a weak match on its own; city, state and ZIP make it one to trust
+      for (const match of Array.from(line.matchAll(STREET_PATTERN))) {
+        const rest = line.slice(match.index! + match[0].length);
+        const full = rest.match(CITY_STATE_ZIP) ?? (rest ? null : lines[index + 1]?.match(CITY_STATE_ZIP));
+        const zip = full ? null : rest.match(ZIP_ONLY);
+        let value = match[0].trim();
+        let confidence = 0.45;
+        if (full) {
+          value = `${value}, ${full[1].trim()}, ${full[2]} ${full[3]}`;
+          confidence = 0.85;
+        } else if (zip) {
+          value = `${value}${rest.slice(0, zip.index! + zip[0].length)}`.replace(/\s+/g, ' ').trim();
+          confidence = 0.7;
+        }
+        if (ADDRESS_LABEL.test(line.slice(0, match.index)) || ADDRESS_LABEL.test(previousLine)) confidence += 0.1;
+        addCandidate(addresses, { value, confidence: roundConfidence(confidence), context: line }, item => item.value);
+      }
 
-    return extractedData;
-  }
+      // Contractors: only labelled names; the label says how sure we can be
+      for (const match of Array.from(line.matchAll(CONTRACTOR_PATTERN))) {
+        const value = match[2].replace(/[\s,;:]+$/, '').trim();
+        if (value.length < 2 || value.length > 100) continue;
+        const confidence = CONTRACTOR_CONFIDENCE[match[1].toLowerCase()] ?? 0.6;
+        addCandidate(contractors, { value, confidence, context: line }, item => item.value);
+      }
+
+      // Project values: dollar amounts, trusted when the line says what they are
+      for (const match of Array.from(line.matchAll(VALUE_PATTERN))) {
+        const multiplier = /^m/i.test(match[3] ?? '') ? 1_000_000 : /^(k|thousand)/i.test(match[3] ?? '') ? 1_000 : 1;
+        const amount = parseFloat(`${match[1].replace(/,/g, '')}.${match[2] ?? '0'}`) * multiplier;
+        if (!amount) continue;
+        let confidence = VALUE_LABEL.test(line) ? 0.85 : 0.45;
+        // Small amounts are more often rates or fees than a project's value
+        if (amount < 10_000) confidence -= 0.25;
+        addCandidate(projectValues, {
+          value: amount.toFixed(2).replace(/\.00$/, ''),
+          confidence: roundConfidence(confidence),
+          context: line,
+        }, item => item.value);
+      }
 
-  private async processExtractedData(data: ExtractedData): Promise<void> {
-    // Process addresses to create job sites
-    for (const address of data.addresses) {
-      try {
-        const coordinates = await geocodeAddress(address);
-        
-        const job: InsertJob = {
-          name: `Equipment Job - ${address.split(',')[0]}`,
-          address,
-          latitude: coordinates?.lat.toString(),
-          longitude: coordinates?.lng.toString(),
-          contractor: data.contractors?.[0],
-          projectValue: data.projectValues?.[0]?.replace(/[^\d.,]/g, ''),
-          status: 'active',
-          type: 'equipment',
-          isCustom: false,
-          notes: 'Created from document processing'
-        };
-        
-        const createdJob = await storage.createJob(job);
-        
-        // Create equipment records for this job
-        for (const equipment of data.equipment) {
-          const equipmentRecord: InsertEquipment = {
-            jobId: createdJob.id,
-            equipmentNumber: equipment.equipmentNumber || 'Unknown',
-            attachmentType: equipment.attachmentType,
-            attachmentNumber: equipment.attachmentNumber,
-            status: equipment.status || 'starting',
-            instructions: equipment.instructions
-          };
-          
-          await storage.createEquipment(equipmentRecord);
+      // Dates, as YYYY-MM-DD, with the word before them as a label where there is one
+      for (const match of Array.from(line.matchAll(DATE_PATTERN))) {
+        let year: number, month: number, day: number;
+        if (match[1]) {
+          [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+        } else if (match[4]) {
+          [year, month, day] = [Number(match[4]), Number(match[5]), Number(match[6])];
+        } else {
+          month = MONTHS.indexOf(match[7].slice(0, 3).toLowerCase()) + 1;
+          [day, year] = [Number(match[8]), Number(match[9])];
         }
-        
-      } catch (error) {
-        console.error(`Error creating job from address ${address}:`, error);
+        if (month < 1 || month > 12 || day < 1 || day > 31) continue;
+        // The nearest label before the date, e.g. "Bid 3/1/2026, start 4/15/2026"
+        const labels = Array.from(line.slice(0, match.index).matchAll(DATE_LABEL));
+        const label = labels.length > 0 ? labels[labels.length - 1][1] : null;
+        addCandidate(dates, {
+          value: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+          label: label ? label.charAt(0).toUpperCase() + label.slice(1).toLowerCase() : null,
+          confidence: label ? 0.8 : 0.5,
+          context: line,
+        }, item => `${item.value} ${item.label}`);
       }
+
+      // Equipment numbers, with the attachment and start/stop found on the same line
+      for (const match of Array.from(line.matchAll(EQUIPMENT_PATTERN))) {
+        const stopping = STOPPING_PATTERN.test(line);
+        const hasStatus = stopping || STARTING_PATTERN.test(line);
+        // "Unit" numbers are as often apartments or suites as machines
+        const confidence = (match[1].toLowerCase() === 'unit' ? 0.5 : 0.65) + (hasStatus ? 0.15 : 0);
+        addCandidate(equipment, {
+          equipmentNumber: match[2].toUpperCase(),
+          attachmentNumber: line.match(ATTACHMENT_PATTERN)?.[1]?.toUpperCase() ?? null,
+          status: stopping ? 'stopping' : 'starting',
+          confidence: roundConfidence(confidence),
+          context: line,
+        }, item => item.equipmentNumber);
+      }
+    });
+
+    return {
+      addresses: topCandidates(addresses),
+      contractors: topCandidates(contractors),
+      projectValues: topCandidates(projectValues),
+      dates: topCandidates(dates),
+      equipment: topCandidates(equipment),
+      textPreview: text.trim().slice(0, TEXT_PREVIEW_LENGTH),
+    };
+  }
+
+  /**
+   * Turn a reviewed document into a job owned by the reviewer, with the
+   * equipment they kept. The document is attached to the new job. Returns
+   * undefined when the document was no longer pending, e.g. accepted by a
+   * request that got there first.
+   */
+  async acceptExtraction(document: Document, review: DocumentReview, userId: string): Promise<Job | undefined> {
+    const jobData: InsertJob = {
+      userId,
+      name: review.name,
+      address: review.address,
+      contractor: review.contractor || undefined,
+      projectValue: review.projectValue,
+      startDate: review.startDate,
+      status: 'active',
+      type: 'equipment',
+      isCustom: true,
+      notes: `Created from ${document.originalName}`,
+    };
+
+    // Rate-limited lookups are retried in the background, as for jobs added by hand
+    const outcome = await lookupGeocode(review.address);
+    const retryGeocode = !outcome.ok && outcome.retryable;
+    if (!retryGeocode) {
+      Object.assign(jobData, geocodeFieldsFor(outcome));
+    }
+
+    const job = await db.transaction(async (tx) => {
+      // Claiming the document first means only one request gets to make its job
+      const [claimed] = await tx
+        .update(documents)
+        .set({ reviewStatus: 'accepted' })
+        .where(and(eq(documents.id, document.id), eq(documents.userId, userId), eq(documents.reviewStatus, 'pending')))
+        .returning({ id: documents.id });
+      if (!claimed) return undefined;
+
+      const [created] = await tx.insert(jobs).values(jobData).returning();
+      if (review.equipment.length > 0) {
+        await tx.insert(equipment).values(review.equipment.map(item => ({
+          userId,
+          jobId: created.id,
+          equipmentNumber: item.equipmentNumber,
+          attachmentNumber: item.attachmentNumber || undefined,
+          status: item.status,
+          instructions: `From ${document.originalName}`,
+        })));
+      }
+      await tx.update(documents).set({ jobId: created.id }).where(eq(documents.id, document.id));
+      return created;
+    });
+    if (!job) return undefined;
+
+    await recordJobCreated(job, { userId, source: 'user' });
+    if (retryGeocode) {
+      geocodeQueue.enqueue([job.id]);
     }
+    return job;
   }
 
   async processEmailAttachment(emailData: {
@@ -185,30 +317,35 @@ export class DocumentProcessor {
       mimeType: string;
       content: Buffer;
     }>;
-  }): Promise<void> {
-    
+  }, userId?: string): Promise<void> {
+
     try {
-      // Process each attachment
+      // Each readable attachment is staged for review like an upload
       for (const attachment of emailData.attachments) {
-        if (attachment.mimeType.includes('application/vnd.openxmlformats-officedocument.wordprocessingml.document') ||
-            attachment.mimeType.includes('application/msword')) {
-          
+        if (attachment.mimeType === DOCX_MIME_TYPE || attachment.mimeType === 'application/pdf') {
           await this.processDocument({
             filename: `email-${Date.now()}-${attachment.filename}`,
             originalName: attachment.filename,
             mimeType: attachment.mimeType,
             size: attachment.content.length.toString(),
-            buffer: attachment.content
+            buffer: attachment.content,
+            userId
           });
         }
       }
-      
-      // Also process email body for addresses/equipment info
-      if (emailData.body) {
-        const extractedData = await this.extractDataFromText(emailData.body);
-        await this.processExtractedData(extractedData);
+
+      // The email body is staged too when it mentions an address
+      if (emailData.body && this.extractDataFromText(emailData.body).addresses.length > 0) {
+        await this.processDocument({
+          filename: `email-${Date.now()}.txt`,
+          originalName: `Email: ${emailData.subject || emailData.from}`,
+          mimeType: 'text/plain',
+          size: Buffer.byteLength(emailData.body).toString(),
+          buffer: Buffer.from(emailData.body, 'utf-8'),
+          userId
+        });
       }
-      
+
     } catch (error) {
       console.error('Error processing email attachment:', error);
       throw error;
@@ -0,0 +1,190 @@
+/**
+ * Dodge CRM linking - the contractor, owner, architect and construction manager
+ * on a Dodge row become CRM companies and contacts, linked to the job by role.
+ */
+
+import { storage } from "../storage";
+import type { Company, ContactJob, InsertCompany, InsertContact } from "@shared/schema";
+import { normalizeCompanyName } from "./kycImportService";
+import type { ImportRunRecorder } from "./importRunService";
+
+export type DodgePartyRole = "contractor" | "owner" | "architect" | "construction_manager";
+
+export interface DodgeParty {
+  role: DodgePartyRole;
+  companyName: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  website?: string;
+  address?: string;
+  city?: string;
+  county?: string;
+}
+
+export interface DodgeCrmResults {
+  companiesCreated: number;
+  contactsCreated: number;
+  contactsLinked: number;
+}
+
+// Dodge only names a person for the contractor; everyone else is reached on the company's main line
+const MAIN_LINE_CONTACT = "Main office";
+
+const COMPANY_TYPE_BY_ROLE: Record<DodgePartyRole, NonNullable<Company["type"]>> = {
+  contractor: "contractor",
+  owner: "owner",
+  architect: "architect",
+  construction_manager: "other",
+};
+
+const CONTACT_ROLE_LABELS: Record<DodgePartyRole, string> = {
+  contractor: "General contractor",
+  owner: "Owner",
+  architect: "Architect",
+  construction_manager: "Construction manager",
+};
+
+function nameKey(name: string): string {
+  return name.toLowerCase().replace(/\s/g, "");
+}
+
+// Values the CRM record is still missing; anything already entered is left alone
+function missingValues<T extends Record<string, unknown>>(existing: Record<string, unknown>, incoming: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(incoming).filter(([key, value]) => value && !existing[key])
+  ) as Partial<T>;
+}
+
+/**
+ * One linker per import run. Companies and contacts named on many rows are
+ * looked up once; a dry run only counts what would be created. Writes are
+ * recorded on the run so it can be reverted.
+ */
+export class DodgeCrmLinker {
+  private companyIds = new Map<string, string>(); // normalized name -> company id
+  private contactIds = new Map<string, string>(); // company id|name -> contact id
+  readonly results: DodgeCrmResults = { companiesCreated: 0, contactsCreated: 0, contactsLinked: 0 };
+
+  constructor(private userId: string, private dryRun: boolean, private run: ImportRunRecorder | null = null) {}
+
+  /**
+   * Upsert each party and link its contact to the job. Pass no job on a dry
+   * run for rows that would be new jobs.
+   */
+  async link(jobId: string | null, parties: DodgeParty[]): Promise<void> {
+    const existingLinks: ContactJob[] = jobId ? await storage.getJobContacts(jobId, this.userId) : [];
+
+    for (const party of parties) {
+      const companyId = await this.upsertCompany(party);
+      if (!companyId) continue;
+      const contactId = await this.upsertContact(companyId, party);
+
+      if (existingLinks.some((link) => link.contactId === contactId && link.role === party.role)) continue;
+      if (jobId && !this.dryRun) {
+        const link = await storage.assignContactToJob(contactId, jobId, party.role, this.userId);
+        existingLinks.push(link);
+        await this.run?.created("contact_job", link.id);
+      }
+      this.results.contactsLinked++;
+    }
+  }
+
+  private async upsertCompany(party: DodgeParty): Promise<string | null> {
+    const normalizedName = normalizeCompanyName(party.companyName);
+    if (!normalizedName) return null;
+    const cached = this.companyIds.get(normalizedName);
+    if (cached) return cached;
+
+    const details = {
+      phone: party.phone || null,
+      email: party.email || null,
+      website: party.website || null,
+      address: party.address || null,
+      city: party.city || null,
+      county: party.county || null,
+    };
+
+    let companyId: string;
+    const existing = await storage.getCompanyByNormalizedName(normalizedName, this.userId);
+    if (existing) {
+      companyId = existing.id;
+      const updates = missingValues(existing, details);
+      if (Object.keys(updates).length > 0 && !this.dryRun) {
+        await storage.updateCompany(existing.id, updates, this.userId);
+        await this.run?.updated("company", existing, updates);
+      }
+    } else if (this.dryRun) {
+      companyId = `dry-run-${normalizedName}`;
+      this.results.companiesCreated++;
+    } else {
+      const newCompany: InsertCompany = {
+        userId: this.userId,
+        name: party.companyName,
+        normalizedName,
+        type: COMPANY_TYPE_BY_ROLE[party.role],
+        tags: [],
+        ...details,
+      };
+      companyId = (await storage.createCompany(newCompany)).id;
+      await this.run?.created("company", companyId);
+      this.results.companiesCreated++;
+    }
+
+    this.companyIds.set(normalizedName, companyId);
+    return companyId;
+  }
+
+  private async upsertContact(companyId: string, party: DodgeParty): Promise<string> {
+    const fullName = party.contactName || MAIN_LINE_CONTACT;
+    const key = `${companyId}|${nameKey(fullName)}`;
+    const cached = this.contactIds.get(key);
+    if (cached) return cached;
+
+    const details = {
+      phonePrimary: party.phone || null,
+      emailPrimary: party.email || null,
+    };
+
+    let contactId: string;
+    // A company that would only be created by this dry run has no contacts yet
+    const existingContacts = companyId.startsWith("dry-run-")
+      ? []
+      : await storage.getContacts({ userId: this.userId, companyId });
+    const existing = existingContacts.find((c) =>
+      nameKey(c.fullName || "") === nameKey(fullName) ||
+      nameKey(`${c.firstName || ""}${c.lastName || ""}`) === nameKey(fullName)
+    );
+
+    if (existing) {
+      contactId = existing.id;
+      const updates = missingValues(existing, details);
+      if (Object.keys(updates).length > 0 && !this.dryRun) {
+        await storage.updateContact(existing.id, updates, this.userId);
+        await this.run?.updated("contact", existing, updates);
+      }
+    } else if (this.dryRun) {
+      contactId = `dry-run-${key}`;
+      this.results.contactsCreated++;
+    } else {
+      const nameParts = party.contactName ? party.contactName.split(/\s+/) : [];
+      const newContact: InsertContact = {
+        userId: this.userId,
+        companyId,
+        firstName: nameParts[0] || null,
+        lastName: nameParts.length > 1 ? nameParts.slice(1).join(" ") : null,
+        fullName,
+        role: CONTACT_ROLE_LABELS[party.role],
+        source: "dodge_import",
+        tags: [],
+        ...details,
+      };
+      contactId = (await storage.createContact(newContact)).id;
+      await this.run?.created("contact", contactId);
+      this.results.contactsCreated++;
+    }
+
+    this.contactIds.set(key, contactId);
+    return contactId;
+  }
+}
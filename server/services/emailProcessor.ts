@@ -1,6 +1,34 @@
 import { db } from "../db";
-import { rentalEquipment } from "@shared/schema";
+import {
+  companies,
+  jobs,
+  rentalEquipment,
+  rentalEquipmentSnapshots,
+  users,
+  DEFAULT_EQUIPMENT_REPORT_SETTINGS,
+  EQUIPMENT_REPORT_COLUMNS,
+  type EquipmentReportColumn,
+  type EquipmentReportSettings,
+  type RentalEquipmentChange,
+  type RentalEquipmentChanges,
+  type RentalEquipmentPin,
+  type RentalEquipmentSnapshot,
+  type RentalEquipmentWithLinks,
+} from "@shared/schema";
+import { and, desc, eq, or } from "drizzle-orm";
 import * as XLSX from "xlsx";
+import { linkRentalEquipment } from "./equipmentLinkService";
+import { localDateString } from "./dateUtils";
+
+type RentalStatus = "on_rent" | "off_rent" | "maintenance";
+
+/**
+ * The report's layout doesn't match what the rep's settings expect. The
+ * message says what to fix, so it is shown to them.
+ */
+export class ReportFormatError extends Error {
+  name = "ReportFormatError";
+}
 
 const SECTION_KEYWORDS = [
   "OFF RENT", "ON RENT", "DOWN", "READY", "NEEDS", "WELD SHOP",
@@ -9,6 +37,30 @@ const SECTION_KEYWORDS = [
   "TAILGATES", "SLOPE BOARDS", "WINCHES", "TRIMBLE", "MISC",
 ];
 
+// Header names each field is recognised by, and the column it sat in on the
+// original branch report for sheets whose header cell is blank or unfamiliar
+const COLUMN_HEADERS: Record<EquipmentReportColumn, { headers: string[]; fallbackIndex: number }> = {
+  equipmentNumber: { headers: ["EQ #", "EQ#", "EQ NO", "EQUIPMENT #", "UNIT #"], fallbackIndex: 1 },
+  model: { headers: ["MODEL"], fallbackIndex: 2 },
+  serialNumber: { headers: ["SERIAL #", "SERIAL", "SERIAL NO", "S/N"], fallbackIndex: 3 },
+  year: { headers: ["YEAR", "YR"], fallbackIndex: 5 },
+  specs: { headers: ["SPECS", "SPECIFICATIONS"], fallbackIndex: 7 },
+  additionalSpecs: { headers: ["ADD'L SPECS", "ADDITIONAL SPECS", "OPTIONS"], fallbackIndex: 8 },
+  customer: { headers: ["CUSTOMER", "CUSTOMER ON RENT", "CUST"], fallbackIndex: 10 },
+  acctMgr: { headers: ["ACCT MGR", "ACCT. MGR", "ACCOUNT MANAGER", "ACCT MANAGER", "SALESMAN"], fallbackIndex: 11 },
+  location: { headers: ["LOCATION", "JOB LOCATION", "JOBSITE"], fallbackIndex: 12 },
+  status: { headers: ["STATUS"], fallbackIndex: 13 },
+  dateOnOffRent: { headers: ["DATE ON/OFF RENT", "DATE ON/OFF", "DATE"], fallbackIndex: 14 },
+  daysOnOffRent: { headers: ["DAYS ON/OFF RENT", "DAYS ON/OFF", "DAYS"], fallbackIndex: 15 },
+  monthlyRate: { headers: ["MONTHLY RATE", "MONTH RATE", "MONTHLY", "RATE"], fallbackIndex: 17 },
+};
+
+const STATUS_LABELS: Record<RentalStatus, string> = {
+  on_rent: "On rent",
+  off_rent: "Off rent",
+  maintenance: "Down",
+};
+
 function isHeaderRow(row: any[]): boolean {
   const str = row.map(c => String(c ?? "").trim().toUpperCase()).join(" ");
   return str.includes("EQ #") && str.includes("MODEL");
@@ -20,12 +72,55 @@ function isSectionHeader(row: any[]): boolean {
   return SECTION_KEYWORDS.some(kw => first.includes(kw));
 }
 
-function isEquipmentRow(row: any[]): boolean {
-  const eqNum = String(row[1] ?? "").trim();
-  const model = String(row[2] ?? "").trim();
+function isEquipmentRow(row: any[], columns: Record<EquipmentReportColumn, number>): boolean {
+  const eqNum = String(row[columns.equipmentNumber] ?? "").trim();
+  const model = String(row[columns.model] ?? "").trim();
   return eqNum.length > 0 && model.length > 0 && /^[A-Z]{2}-/.test(eqNum);
 }
 
+function normalizeHeader(value: any): string {
+  return String(value ?? "").trim().toUpperCase().replace(/\s+/g, " ").replace(/[:.]$/, "");
+}
+
+/**
+ * Map each field to a column index by header name. A rep's own header name for
+ * a field must be present on the sheet; otherwise the known names are tried
+ * before falling back to the original fixed position.
+ */
+function resolveColumns(headerRow: any[], overrides: EquipmentReportSettings["columns"]): Record<EquipmentReportColumn, number> {
+  const headers = headerRow.map(normalizeHeader);
+  const columns = {} as Record<EquipmentReportColumn, number>;
+
+  for (const field of EQUIPMENT_REPORT_COLUMNS) {
+    const override = overrides[field];
+    if (override) {
+      const idx = headers.indexOf(normalizeHeader(override));
+      if (idx === -1) {
+        throw new ReportFormatError(`Column "${override}" not found in the spreadsheet header row`);
+      }
+      columns[field] = idx;
+      continue;
+    }
+    const known = COLUMN_HEADERS[field];
+    const idx = headers.findIndex(h => known.headers.includes(h));
+    columns[field] = idx !== -1 ? idx : known.fallbackIndex;
+  }
+
+  return columns;
+}
+
+function rentalStatusFor(statusText: string): RentalStatus {
+  const upper = statusText.toUpperCase();
+  if (upper.includes("ON-RENT") || upper.includes("ON RENT")) return "on_rent";
+  if (upper.includes("DOWN")) return "maintenance";
+  return "off_rent";
+}
+
+function matchesAny(value: string, needles: string[]): boolean {
+  const lower = value.toLowerCase();
+  return needles.some(needle => lower.includes(needle.toLowerCase()));
+}
+
 function excelDateToString(serial: any): string {
   if (!serial) return "";
   const num = Number(serial);
@@ -39,9 +134,71 @@ function cleanStr(val: any): string {
   return String(val ?? "").trim();
 }
 
+function formatRate(rate: number | null): string | null {
+  return rate != null ? `$${rate.toLocaleString()}/mo` : null;
+}
+
+function diffSnapshots(previous: RentalEquipmentSnapshot[], latest: RentalEquipmentSnapshot[]): RentalEquipmentChange[] {
+  const previousByNumber = new Map(previous.map(s => [s.equipmentNumber, s]));
+  const latestByNumber = new Map(latest.map(s => [s.equipmentNumber, s]));
+  const changes: RentalEquipmentChange[] = [];
+
+  for (const item of latest) {
+    const before = previousByNumber.get(item.equipmentNumber);
+    const base = { equipmentNumber: item.equipmentNumber, model: item.model, customer: item.customerOnRent };
+    const wasOnRent = before?.status === "on_rent";
+    if (item.status === "on_rent" && !wasOnRent) {
+      changes.push({ ...base, type: "on_rent", from: null, to: item.customerOnRent });
+      continue;
+    }
+    if (wasOnRent && item.status !== "on_rent") {
+      changes.push({ ...base, type: "off_rent", from: before!.customerOnRent, to: null });
+      continue;
+    }
+    if (!before) continue;
+    if (before.status !== item.status) {
+      changes.push({ ...base, type: "status_changed", from: STATUS_LABELS[before.status], to: STATUS_LABELS[item.status] });
+    }
+    if ((before.customerOnRent ?? "") !== (item.customerOnRent ?? "")) {
+      changes.push({ ...base, type: "customer_changed", from: before.customerOnRent, to: item.customerOnRent });
+    }
+    if (before.monthlyRate !== item.monthlyRate) {
+      changes.push({ ...base, type: "rate_changed", from: formatRate(before.monthlyRate), to: formatRate(item.monthlyRate) });
+    }
+  }
+
+  for (const item of previous) {
+    if (!latestByNumber.has(item.equipmentNumber) && item.status === "on_rent") {
+      changes.push({
+        type: "off_rent",
+        equipmentNumber: item.equipmentNumber,
+        model: item.model,
+        customer: item.customerOnRent,
+        from: item.customerOnRent,
+        to: null,
+      });
+    }
+  }
+
+  return changes;
+}
+
 export class EmailProcessor {
 
-  async processEquipmentStatusExcel(fileBuffer: Buffer): Promise<number> {
+  async getReportSettings(userId: string): Promise<EquipmentReportSettings> {
+    const [user] = await db
+      .select({ settings: users.equipmentReportSettings })
+      .from(users)
+      .where(eq(users.id, userId));
+    return user?.settings ?? DEFAULT_EQUIPMENT_REPORT_SETTINGS;
+  }
+
+  /**
+   * Parse the branch equipment report into one rep's fleet, using that rep's
+   * account managers, statuses and column names.
+   */
+  async processEquipmentStatusExcel(fileBuffer: Buffer, userId: string): Promise<number> {
+    const settings = await this.getReportSettings(userId);
     const workbook = XLSX.read(fileBuffer, { type: "buffer" });
     const sheet = workbook.Sheets[workbook.SheetNames[0]];
     const rows = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as any[][];
@@ -54,8 +211,9 @@ export class EmailProcessor {
       }
     }
     if (headerIdx === -1) {
-      throw new Error("Could not find header row (EQ # / MODEL) in spreadsheet");
+      throw new ReportFormatError("Could not find header row (EQ # / MODEL) in spreadsheet");
     }
+    const columns = resolveColumns(rows[headerIdx], settings.columns);
 
     const equipmentRows: Array<{
       equipmentNumber: string;
@@ -67,6 +225,7 @@ export class EmailProcessor {
       acctMgr: string;
       location: string;
       statusText: string;
+      status: RentalStatus;
       dateOnOffRent: string;
       daysOnOffRent: number | null;
       monthlyRate: number | null;
@@ -74,49 +233,56 @@ export class EmailProcessor {
 
     for (let i = headerIdx + 1; i < rows.length; i++) {
       const row = rows[i];
-      if (!row || row.length < 10) continue;
+      if (!row || row.length === 0) continue;
       if (isSectionHeader(row)) continue;
-      if (!isEquipmentRow(row)) continue;
+      if (!isEquipmentRow(row, columns)) continue;
 
-      const acctMgr = cleanStr(row[11]);
-      const statusText = cleanStr(row[13]);
+      const acctMgr = cleanStr(row[columns.acctMgr]);
+      const statusText = cleanStr(row[columns.status]);
 
-      if (!acctMgr.toLowerCase().includes("hudson")) continue;
-      if (!statusText.toUpperCase().includes("ON-RENT")) continue;
+      if (settings.accountManagers.length > 0 && !matchesAny(acctMgr, settings.accountManagers)) continue;
+      if (!matchesAny(statusText, settings.statuses)) continue;
 
-      const specsMain = cleanStr(row[7]);
-      const specsAdd = cleanStr(row[8]);
+      const specsMain = cleanStr(row[columns.specs]);
+      const specsAdd = cleanStr(row[columns.additionalSpecs]);
       const specs = [specsMain, specsAdd].filter(Boolean).join(", ");
 
-      const daysRaw = row[15];
+      const daysRaw = row[columns.daysOnOffRent];
       const daysOnOff = daysRaw != null && !isNaN(Number(daysRaw)) ? Number(daysRaw) : null;
 
-      const rateRaw = row[17];
+      const rateRaw = row[columns.monthlyRate];
       const monthlyRate = rateRaw != null && !isNaN(Number(rateRaw)) && Number(rateRaw) > 0
         ? Number(rateRaw)
         : null;
 
       equipmentRows.push({
-        equipmentNumber: cleanStr(row[1]),
-        model: cleanStr(row[2]),
-        serialNumber: cleanStr(row[3]),
-        year: cleanStr(row[5]),
+        equipmentNumber: cleanStr(row[columns.equipmentNumber]),
+        model: cleanStr(row[columns.model]),
+        serialNumber: cleanStr(row[columns.serialNumber]),
+        year: cleanStr(row[columns.year]),
         specs,
-        customerOnRent: cleanStr(row[10]),
+        customerOnRent: cleanStr(row[columns.customer]),
         acctMgr,
-        location: cleanStr(row[12]),
+        location: cleanStr(row[columns.location]),
         statusText,
-        dateOnOffRent: excelDateToString(row[14]),
+        status: rentalStatusFor(statusText),
+        dateOnOffRent: excelDateToString(row[columns.dateOnOffRent]),
         daysOnOffRent: daysOnOff,
         monthlyRate,
       });
     }
 
-    await db.delete(rentalEquipment);
+    // The same unit can be listed twice on a report; the last row wins
+    const rowsByNumber = new Map(equipmentRows.map(item => [item.equipmentNumber, item]));
+    const reportRows = Array.from(rowsByNumber.values());
+    const now = new Date();
+    const reportDate = localDateString(now);
 
-    for (const item of equipmentRows) {
-      await db.insert(rentalEquipment).values({
-        equipmentNumber: item.equipmentNumber,
+    const existing = await db.select().from(rentalEquipment).where(eq(rentalEquipment.userId, userId));
+    const existingByNumber = new Map(existing.map(e => [e.equipmentNumber, e]));
+
+    for (const item of reportRows) {
+      const values = {
         model: item.model,
         serialNumber: item.serialNumber || null,
         year: item.year || null,
@@ -125,24 +291,188 @@ export class EmailProcessor {
         customerOnRent: item.customerOnRent,
         acctMgr: item.acctMgr,
         location: item.location || null,
+        statusText: item.statusText || null,
+        inLatestReport: true,
         dateOnOffRent: item.dateOnOffRent || null,
         daysOnOffRent: item.daysOnOffRent,
         monthlyRate: item.monthlyRate,
-        status: "on_rent",
-        notes: null,
-      });
+        emailProcessedAt: now,
+        lastUpdated: now,
+      };
+
+      const current = existingByNumber.get(item.equipmentNumber);
+      if (current) {
+        // Notes and a status a rep set by hand survive the daily refresh; a "DOWN" from the report doesn't
+        const statusLocked = current.lockedFields?.includes("status");
+        await db
+          .update(rentalEquipment)
+          .set({ ...values, status: statusLocked ? current.status : item.status })
+          .where(eq(rentalEquipment.id, current.id));
+      } else {
+        await db.insert(rentalEquipment).values({
+          ...values,
+          userId,
+          equipmentNumber: item.equipmentNumber,
+          status: item.status,
+          notes: null,
+        });
+      }
+    }
+
+    // Units missing from today's report have come off rent (or left this rep's fleet)
+    for (const item of existing) {
+      if (!rowsByNumber.has(item.equipmentNumber) && item.inLatestReport) {
+        await db
+          .update(rentalEquipment)
+          .set({
+            status: item.status === "on_rent" ? "off_rent" : item.status,
+            inLatestReport: false,
+            lastUpdated: now,
+          })
+          .where(eq(rentalEquipment.id, item.id));
+      }
+    }
+
+    // Re-processing the same day replaces that day's snapshot
+    await db
+      .delete(rentalEquipmentSnapshots)
+      .where(and(eq(rentalEquipmentSnapshots.userId, userId), eq(rentalEquipmentSnapshots.reportDate, reportDate)));
+    if (reportRows.length > 0) {
+      await db.insert(rentalEquipmentSnapshots).values(
+        reportRows.map(item => ({
+          userId,
+          reportDate,
+          equipmentNumber: item.equipmentNumber,
+          model: item.model,
+          status: item.status,
+          customerOnRent: item.customerOnRent || null,
+          acctMgr: item.acctMgr || null,
+          location: item.location || null,
+          dateOnOffRent: item.dateOnOffRent || null,
+          daysOnOffRent: item.daysOnOffRent,
+          monthlyRate: item.monthlyRate,
+        }))
+      );
     }
 
-    console.log(`Processed ${equipmentRows.length} Hudson on-rent equipment records`);
-    return equipmentRows.length;
+    console.log(`Processed ${reportRows.length} equipment records for user ${userId}`);
+
+    // Linking geocodes new locations at a polite rate, so it finishes after the upload returns
+    linkRentalEquipment(userId).catch(error => {
+      console.error(`Error linking rental equipment for user ${userId}:`, error);
+    });
+    return reportRows.length;
+  }
+
+  /**
+   * A report that arrives by email has no uploader, so every rep gets their
+   * fleet refreshed from it. One rep's bad column setting doesn't block the rest.
+   */
+  async processEquipmentStatusExcelForAllUsers(fileBuffer: Buffer): Promise<number> {
+    const allUsers = await db.select({ id: users.id }).from(users);
+    let total = 0;
+    for (const user of allUsers) {
+      try {
+        total += await this.processEquipmentStatusExcel(fileBuffer, user.id);
+      } catch (error) {
+        console.error(`Error processing equipment report for user ${user.id}:`, error);
+      }
+    }
+    return total;
   }
 
   async simulateEmailReceived(attachmentData: Buffer): Promise<void> {
-    await this.processEquipmentStatusExcel(attachmentData);
+    await this.processEquipmentStatusExcelForAllUsers(attachmentData);
+  }
+
+  async getCurrentRentalStatus(userId: string): Promise<RentalEquipmentWithLinks[]> {
+    const rows = await db
+      .select({ unit: rentalEquipment, companyName: companies.name, jobName: jobs.name })
+      .from(rentalEquipment)
+      .leftJoin(companies, eq(rentalEquipment.companyId, companies.id))
+      .leftJoin(jobs, eq(rentalEquipment.jobId, jobs.id))
+      .where(and(
+        eq(rentalEquipment.userId, userId),
+        or(eq(rentalEquipment.inLatestReport, true), eq(rentalEquipment.status, "maintenance"))
+      ))
+      .orderBy(rentalEquipment.customerOnRent);
+    return rows.map(r => ({ ...r.unit, companyName: r.companyName, jobName: r.jobName }));
+  }
+
+  async getRentalEquipmentByJob(jobId: string, userId: string): Promise<RentalEquipmentWithLinks[]> {
+    const rows = await db
+      .select({ unit: rentalEquipment, companyName: companies.name })
+      .from(rentalEquipment)
+      .leftJoin(companies, eq(rentalEquipment.companyId, companies.id))
+      .where(and(
+        eq(rentalEquipment.userId, userId),
+        eq(rentalEquipment.jobId, jobId),
+        eq(rentalEquipment.inLatestReport, true)
+      ))
+      .orderBy(rentalEquipment.equipmentNumber);
+    return rows.map(r => ({ ...r.unit, companyName: r.companyName, jobName: null }));
+  }
+
+  /**
+   * Where the fleet is right now: each unit at its geocoded location, or at its
+   * linked job's pin when the report location couldn't be geocoded.
+   */
+  async getRentalEquipmentPins(userId: string): Promise<RentalEquipmentPin[]> {
+    const rows = await db
+      .select({ unit: rentalEquipment, jobName: jobs.name, jobLatitude: jobs.latitude, jobLongitude: jobs.longitude })
+      .from(rentalEquipment)
+      .leftJoin(jobs, eq(rentalEquipment.jobId, jobs.id))
+      .where(and(eq(rentalEquipment.userId, userId), eq(rentalEquipment.inLatestReport, true)));
+
+    const pins: RentalEquipmentPin[] = [];
+    for (const { unit, jobName, jobLatitude, jobLongitude } of rows) {
+      // A hand-picked job beats the report's location text
+      const preferJob = (unit.lockedFields || []).includes("jobId") && jobLatitude && jobLongitude;
+      const lat = parseFloat((preferJob ? jobLatitude : unit.latitude ?? jobLatitude) ?? "");
+      const lng = parseFloat((preferJob ? jobLongitude : unit.longitude ?? jobLongitude) ?? "");
+      if (isNaN(lat) || isNaN(lng)) continue;
+      pins.push({
+        id: unit.id,
+        equipmentNumber: unit.equipmentNumber,
+        model: unit.model,
+        customerOnRent: unit.customerOnRent,
+        status: unit.status,
+        jobId: unit.jobId,
+        jobName,
+        lat,
+        lng,
+      });
+    }
+    return pins;
   }
 
-  async getCurrentRentalStatus() {
-    return await db.select().from(rentalEquipment).orderBy(rentalEquipment.customerOnRent);
+  /**
+   * Compare the latest report snapshot with the one before it: units that went
+   * on or came off rent, changed status, moved to another customer, or changed monthly rate.
+   */
+  async getChangesSinceLastReport(userId: string): Promise<RentalEquipmentChanges> {
+    const dates = await db
+      .selectDistinct({ reportDate: rentalEquipmentSnapshots.reportDate })
+      .from(rentalEquipmentSnapshots)
+      .where(eq(rentalEquipmentSnapshots.userId, userId))
+      .orderBy(desc(rentalEquipmentSnapshots.reportDate))
+      .limit(2);
+    const [latest, previous] = dates.map(d => d.reportDate);
+    if (!latest || !previous) {
+      return { reportDate: latest ?? null, previousReportDate: null, changes: [] };
+    }
+
+    const snapshotFor = (reportDate: string) =>
+      db
+        .select()
+        .from(rentalEquipmentSnapshots)
+        .where(and(eq(rentalEquipmentSnapshots.userId, userId), eq(rentalEquipmentSnapshots.reportDate, reportDate)));
+    const [latestRows, previousRows] = await Promise.all([snapshotFor(latest), snapshotFor(previous)]);
+    return {
+      reportDate: latest,
+      previousReportDate: previous,
+      changes: diffSnapshots(previousRows, latestRows),
+    };
   }
 }
 
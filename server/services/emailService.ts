@@ -137,6 +137,26 @@ class EmailService {
     });
   }
 
+  async sendQuote(
+    pdfBuffer: Buffer,
+    to: string,
+    quoteNumber: string,
+    jobName: string
+  ): Promise<void> {
+    await this.sendEmail({
+      to,
+      subject: `Rental Quote ${quoteNumber} - ${jobName}`,
+      html: `<p>Please see the attached rental equipment quote for ${jobName}.</p>`,
+      attachments: [
+        {
+          filename: `Quote-${quoteNumber.replace(/\s+/g, '-')}.pdf`,
+          content: pdfBuffer,
+          contentType: 'application/pdf',
+        },
+      ],
+    });
+  }
+
   private async sendEmail(options: EmailOptions): Promise<void> {
     if (this.isProduction && this.transporter) {
       // Production: Send via configured provider
@@ -47,8 +47,8 @@ export class EmailWebhookService {
         // Convert base64 to buffer
         const fileBuffer = Buffer.from(attachment.content, 'base64');
         
-        // Process the Excel file
-        await emailProcessor.processEquipmentStatusExcel(fileBuffer);
+        // Process the Excel file for every rep's fleet
+        await emailProcessor.processEquipmentStatusExcelForAllUsers(fileBuffer);
         
         console.log(`Successfully processed ${attachment.filename}`);
       }
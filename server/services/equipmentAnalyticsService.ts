@@ -0,0 +1,113 @@
+/**
+ * Equipment Analytics Service - Revenue and utilization reporting for a rep's
+ * rental fleet. Current figures come from the units on the latest report; the
+ * revenue trend is rebuilt from the retained daily report snapshots.
+ */
+
+import { db } from "../db";
+import { rentalEquipment, rentalEquipmentSnapshots, type EquipmentAnalytics, type RentalEquipment } from "@shared/schema";
+import { and, asc, eq, gte, sql } from "drizzle-orm";
+import { localDateString } from "./dateUtils";
+
+// Days on rent at which a unit is worth a call (re-rate, swap or off-rent check)
+const LONG_RENT_THRESHOLDS = [90, 180, 365];
+// Units this many days short of a threshold are flagged as approaching it
+const LONG_RENT_WARNING_DAYS = 14;
+const TREND_DAYS = 180;
+const TOP_GROUPS = 10;
+
+/**
+ * Group models like "CAT 320GC", "320 GC" and "320F" under "320". Skips a
+ * leading make and keeps the letters and digits before the variant suffix.
+ */
+function modelFamily(model: string): string {
+  const tokens = model.trim().toUpperCase().split(/\s+/).filter(Boolean);
+  const token = tokens.find(t => /\d/.test(t)) ?? tokens[0];
+  if (!token) return "Unknown";
+  const match = token.match(/^[A-Z-]*\d+/);
+  return match ? match[0] : token;
+}
+
+function groupRevenue(units: RentalEquipment[], keyOf: (unit: RentalEquipment) => string) {
+  const groups = new Map<string, { name: string; revenue: number; units: number; totalDays: number; daysCount: number }>();
+  for (const unit of units) {
+    const name = keyOf(unit);
+    const group = groups.get(name) ?? { name, revenue: 0, units: 0, totalDays: 0, daysCount: 0 };
+    group.revenue += unit.monthlyRate ?? 0;
+    group.units += 1;
+    if (unit.daysOnOffRent != null) {
+      group.totalDays += unit.daysOnOffRent;
+      group.daysCount += 1;
+    }
+    groups.set(name, group);
+  }
+  return Array.from(groups.values())
+    .sort((a, b) => b.revenue - a.revenue || b.units - a.units)
+    .slice(0, TOP_GROUPS)
+    .map(({ name, revenue, units, totalDays, daysCount }) => ({
+      name,
+      revenue,
+      units,
+      avgDays: daysCount ? Math.round(totalDays / daysCount) : 0,
+    }));
+}
+
+export async function getEquipmentAnalytics(userId: string): Promise<EquipmentAnalytics> {
+  const onRent = await db
+    .select()
+    .from(rentalEquipment)
+    .where(and(
+      eq(rentalEquipment.userId, userId),
+      eq(rentalEquipment.inLatestReport, true),
+      eq(rentalEquipment.status, "on_rent")
+    ));
+
+  const days = onRent.map(u => u.daysOnOffRent).filter((d): d is number => d != null);
+
+  const longRentUnits = onRent
+    .filter(u => u.daysOnOffRent != null && u.daysOnOffRent >= LONG_RENT_THRESHOLDS[0] - LONG_RENT_WARNING_DAYS)
+    .map(u => {
+      const daysOnRent = u.daysOnOffRent!;
+      // The next threshold still ahead (within the warning window), else the last one passed
+      const threshold = LONG_RENT_THRESHOLDS.find(t => daysOnRent < t && t - daysOnRent <= LONG_RENT_WARNING_DAYS)
+        ?? [...LONG_RENT_THRESHOLDS].reverse().find(t => daysOnRent >= t)!;
+      return {
+        id: u.id,
+        equipmentNumber: u.equipmentNumber,
+        model: u.model,
+        customer: u.customerOnRent,
+        monthlyRate: u.monthlyRate,
+        daysOnRent,
+        threshold,
+        daysToThreshold: threshold - daysOnRent,
+      };
+    })
+    .sort((a, b) => b.daysOnRent - a.daysOnRent);
+
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - TREND_DAYS);
+  const revenueTrend = await db
+    .select({
+      date: rentalEquipmentSnapshots.reportDate,
+      revenue: sql<number>`coalesce(sum(${rentalEquipmentSnapshots.monthlyRate}), 0)::int`,
+      units: sql<number>`count(*)::int`,
+    })
+    .from(rentalEquipmentSnapshots)
+    .where(and(
+      eq(rentalEquipmentSnapshots.userId, userId),
+      eq(rentalEquipmentSnapshots.status, "on_rent"),
+      gte(rentalEquipmentSnapshots.reportDate, localDateString(cutoff))
+    ))
+    .groupBy(rentalEquipmentSnapshots.reportDate)
+    .orderBy(asc(rentalEquipmentSnapshots.reportDate));
+
+  return {
+    unitsOnRent: onRent.length,
+    monthlyRevenue: onRent.reduce((sum, u) => sum + (u.monthlyRate ?? 0), 0),
+    avgDaysOnRent: days.length ? Math.round(days.reduce((a, b) => a + b, 0) / days.length) : 0,
+    revenueByCustomer: groupRevenue(onRent, u => u.customerOnRent || "Unknown"),
+    revenueByModelFamily: groupRevenue(onRent, u => modelFamily(u.model)),
+    longRentUnits,
+    revenueTrend,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Equipment Link Service - Connects rental units to the company they are on
+ * rent to and the job site they are sitting on. Companies are matched on the
+ * normalized customer name, jobs on distance from the geocoded unit location.
+ * Links a rep has set by hand (listed in lockedFields) are left alone.
+ */
+
+import { db } from "../db";
+import { storage } from "../storage";
+import { jobs, rentalEquipment, type RentalEquipment } from "@shared/schema";
+import { and, eq, isNotNull } from "drizzle-orm";
+import { normalizeCompanyName } from "./kycImportService";
+import { lookupGeocode } from "./geocodingService";
+import { haversineMiles } from "./routePlannerService";
+
+// A unit within this distance of a job's pin is taken to be on that job
+const JOB_MATCH_RADIUS_MILES = 0.25;
+
+export interface EquipmentLinkResults {
+  companiesLinked: number;
+  jobsLinked: number;
+}
+
+/**
+ * Link every unit in the latest report, or only `unitId` when a rep has
+ * unlocked one of its links.
+ */
+export async function linkRentalEquipment(userId: string, unitId?: string): Promise<EquipmentLinkResults> {
+  const conditions = [eq(rentalEquipment.userId, userId), eq(rentalEquipment.inLatestReport, true)];
+  if (unitId) conditions.push(eq(rentalEquipment.id, unitId));
+  const units = await db
+    .select()
+    .from(rentalEquipment)
+    .where(and(...conditions));
+
+  const jobPins = (await db
+    .select({ id: jobs.id, latitude: jobs.latitude, longitude: jobs.longitude })
+    .from(jobs)
+    .where(and(eq(jobs.userId, userId), isNotNull(jobs.latitude), isNotNull(jobs.longitude))))
+    .map(j => ({ id: j.id, lat: parseFloat(j.latitude!), lng: parseFloat(j.longitude!) }))
+    .filter(j => !isNaN(j.lat) && !isNaN(j.lng));
+
+  const companyIdsByName = new Map<string, string | null>();
+  const results: EquipmentLinkResults = { companiesLinked: 0, jobsLinked: 0 };
+
+  for (const unit of units) {
+    const locked = unit.lockedFields || [];
+    const updates: Partial<RentalEquipment> = {};
+
+    if (!locked.includes("companyId")) {
+      const normalized = unit.customerOnRent ? normalizeCompanyName(unit.customerOnRent) : "";
+      let companyId: string | null = null;
+      if (normalized) {
+        if (!companyIdsByName.has(normalized)) {
+          const company = await storage.getCompanyByNormalizedName(normalized, userId);
+          companyIdsByName.set(normalized, company?.id ?? null);
+        }
+        companyId = companyIdsByName.get(normalized)!;
+      }
+      if (companyId !== unit.companyId) {
+        updates.companyId = companyId;
+        if (companyId) results.companiesLinked++;
+      }
+    }
+
+    // Only geocode when the report's location text has changed since the last lookup.
+    // lookupGeocode caches and throttles Nominatim, so no delay is needed here.
+    let lat = unit.latitude ? parseFloat(unit.latitude) : NaN;
+    let lng = unit.longitude ? parseFloat(unit.longitude) : NaN;
+    if (unit.location && unit.location !== unit.geocodedLocation) {
+      const outcome = await lookupGeocode(unit.location);
+      // A rate limit or outage leaves the location to be looked up on the next run
+      if (outcome.ok || !outcome.retryable) {
+        lat = outcome.ok ? outcome.result.lat : NaN;
+        lng = outcome.ok ? outcome.result.lng : NaN;
+        updates.latitude = outcome.ok ? outcome.result.lat.toString() : null;
+        updates.longitude = outcome.ok ? outcome.result.lng.toString() : null;
+        updates.geocodedLocation = unit.location;
+      }
+    }
+
+    if (!locked.includes("jobId")) {
+      let jobId: string | null = null;
+      if (!isNaN(lat) && !isNaN(lng)) {
+        let nearest = JOB_MATCH_RADIUS_MILES;
+        for (const job of jobPins) {
+          const distance = haversineMiles({ lat, lng }, job);
+          if (distance <= nearest) {
+            nearest = distance;
+            jobId = job.id;
+          }
+        }
+      }
+      if (jobId !== unit.jobId) {
+        updates.jobId = jobId;
+        if (jobId) results.jobsLinked++;
+      }
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await db.update(rentalEquipment).set(updates).where(eq(rentalEquipment.id, unit.id));
+    }
+  }
+
+  if (!unitId) {
+    console.log(`Linked rental equipment for user ${userId}: ${results.companiesLinked} companies, ${results.jobsLinked} jobs`);
+  }
+  return results;
+}
@@ -0,0 +1,146 @@
+import { createHash, createHmac } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Where uploaded files live. Keys are made by the server (see attachmentKey),
+ * so they are always plain path segments.
+ */
+export interface FileStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+class LocalFileStorage implements FileStorage {
+  constructor(private root: string) {}
+
+  private filePath(key: string): string {
+    return path.join(this.root, ...key.split('/'));
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.filePath(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.filePath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+}
+
+interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+/**
+ * S3 and S3-compatible stores (R2, MinIO, Spaces) over plain HTTPS with
+ * Signature V4. Path-style URLs, so any endpoint works without bucket DNS.
+ */
+class S3FileStorage implements FileStorage {
+  constructor(private config: S3Config) {}
+
+  private async send(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const url = new URL(`${this.config.endpoint.replace(/\/$/, '')}/${this.config.bucket}/${key}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) headers['content-type'] = contentType;
+
+    const headerNames = Object.keys(headers).sort();
+    const signedHeaders = headerNames.join(';');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      headerNames.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host: _host, ...requestHeaders } = headers;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+    // A missing object is already deleted
+    if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+      throw new Error(`File storage ${method} failed: ${response.status} ${await response.text()}`);
+    }
+    return response;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.send('PUT', key, data, contentType);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.send('GET', key);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.send('DELETE', key);
+  }
+}
+
+function createFileStorage(): FileStorage {
+  const provider = process.env.FILE_STORAGE_PROVIDER || 'local';
+
+  if (provider === 's3') {
+    const config = {
+      endpoint: process.env.S3_ENDPOINT || `https://s3.${process.env.S3_REGION || 'us-east-1'}.amazonaws.com`,
+      bucket: process.env.S3_BUCKET || '',
+      region: process.env.S3_REGION || 'us-east-1',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+    };
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new Error('FILE_STORAGE_PROVIDER=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    return new S3FileStorage(config);
+  }
+
+  return new LocalFileStorage(process.env.FILE_STORAGE_DIR || path.join(process.cwd(), 'uploads'));
+}
+
+export const fileStorage = createFileStorage();
+
+/**
+ * Storage key for an uploaded file, grouped by user. The original name is
+ * kept on the document row, not in the key.
+ */
+export function attachmentKey(userId: string, id: string, originalName: string, suffix = ''): string {
+  const ext = path.extname(originalName).toLowerCase().replace(/[^.a-z0-9]/g, '');
+  return `attachments/${userId}/${id}${suffix}${ext}`;
+}
@@ -0,0 +1,187 @@
+/**
+ * Geocode Queue Service - Places jobs on the map in the background so large
+ * imports don't wait on geocoding. Jobs are looked up one at a time (the
+ * geocoding service throttles Nominatim), and lookups that hit a rate limit or
+ * outage are retried with backoff before the job is marked as failed.
+ */
+
+import { db } from "../db";
+import { jobs, type GeocodeQueueStatus, type Job } from "@shared/schema";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { lookupGeocode, type GeocodeOutcome } from "./geocodingService";
+import { findTerritoryAt, getAutoTagTerritories } from "./territoryService";
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAYS_MS = [30 * 1000, 2 * 60 * 1000];
+
+/**
+ * Job columns for a geocode outcome. A failed lookup clears the coordinates so
+ * an old pin isn't left at the previous address.
+ */
+export function geocodeFieldsFor(outcome: GeocodeOutcome): Partial<Job> {
+  if (outcome.ok) {
+    return {
+      latitude: outcome.result.lat.toString(),
+      longitude: outcome.result.lng.toString(),
+      geocodeSource: outcome.result.source,
+      geocodePrecision: outcome.result.precision,
+      geocodeFailedReason: null,
+      geocodedAt: new Date(),
+    };
+  }
+  return {
+    latitude: null,
+    longitude: null,
+    geocodeSource: null,
+    geocodePrecision: null,
+    geocodeFailedReason: outcome.reason,
+    geocodedAt: new Date(),
+  };
+}
+
+export class GeocodeQueue {
+  private pending: string[] = [];
+  private queued = new Set<string>();
+  private attempts = new Map<string, number>();
+  private retryTimers = new Map<NodeJS.Timeout, string>(); // Timer -> job id
+  private draining = false;
+  private inFlightUserId: string | null = null;
+  private processed = 0;
+  private geocoded = 0;
+  private failed = 0;
+  // The same totals for each rep, so one rep's status doesn't show another's jobs
+  private userTotals = new Map<string, { processed: number; geocoded: number; failed: number }>();
+
+  constructor(private lookup: (address: string) => Promise<GeocodeOutcome> = lookupGeocode) {}
+
+  /**
+   * Add jobs to the queue; jobs already waiting are skipped. Returns how many
+   * were added.
+   */
+  enqueue(jobIds: string[]): number {
+    let added = 0;
+    for (const id of jobIds) {
+      if (this.queued.has(id)) continue;
+      this.queued.add(id);
+      this.pending.push(id);
+      added++;
+    }
+    if (added > 0) {
+      void this.drain();
+    }
+    return added;
+  }
+
+  getStatus(): GeocodeQueueStatus {
+    return {
+      pending: this.pending.length,
+      inFlight: this.draining,
+      processed: this.processed,
+      geocoded: this.geocoded,
+      failed: this.failed,
+      retrying: this.retryTimers.size,
+    };
+  }
+
+  /**
+   * The queue as one rep sees it: only their jobs are counted.
+   */
+  async getStatusFor(userId: string): Promise<GeocodeQueueStatus> {
+    const retryingIds = Array.from(this.retryTimers.values());
+    const waiting = [...this.pending, ...retryingIds];
+    const owned = new Set(
+      waiting.length === 0 ? [] : (await db
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(and(inArray(jobs.id, waiting), eq(jobs.userId, userId))))
+        .map(row => row.id)
+    );
+    const totals = this.userTotals.get(userId) ?? { processed: 0, geocoded: 0, failed: 0 };
+    return {
+      pending: this.pending.filter(id => owned.has(id)).length,
+      inFlight: this.inFlightUserId === userId,
+      ...totals,
+      retrying: retryingIds.filter(id => owned.has(id)).length,
+    };
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+    try {
+      while (this.pending.length > 0) {
+        const jobId = this.pending.shift()!;
+        this.queued.delete(jobId);
+        try {
+          await this.geocodeJob(jobId);
+        } catch (error) {
+          console.error(`Failed to geocode job ${jobId}:`, error);
+        }
+      }
+    } finally {
+      this.draining = false;
+      this.inFlightUserId = null;
+    }
+  }
+
+  private async geocodeJob(jobId: string): Promise<void> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId));
+    // Deleted, or placed by hand while it was waiting
+    if (!job || job.lockedFields?.includes('latitude')) {
+      this.attempts.delete(jobId);
+      return;
+    }
+    this.inFlightUserId = job.userId;
+
+    const outcome = await this.lookup(job.address);
+    if (!outcome.ok && outcome.retryable) {
+      const attempt = (this.attempts.get(jobId) ?? 0) + 1;
+      if (attempt < MAX_ATTEMPTS) {
+        this.attempts.set(jobId, attempt);
+        this.scheduleRetry(jobId, RETRY_DELAYS_MS[attempt - 1]);
+        return;
+      }
+    }
+
+    this.attempts.delete(jobId);
+    const updates = geocodeFieldsFor(outcome);
+    // Imports waiting on their first pin pick up an auto-tagging territory now
+    if (outcome.ok && job.lastImportedAt && !job.territoryId && job.userId) {
+      const territory = findTerritoryAt(await getAutoTagTerritories(job.userId), outcome.result.lat, outcome.result.lng);
+      if (territory) updates.territoryId = territory.id;
+    }
+    // A pin placed by hand during the lookup wins over the lookup
+    const [written] = await db
+      .update(jobs)
+      .set(updates)
+      .where(and(eq(jobs.id, jobId), sql`NOT (${jobs.lockedFields}::jsonb @> '["latitude"]'::jsonb)`))
+      .returning({ id: jobs.id });
+    if (!written) return;
+    this.processed++;
+    if (outcome.ok) {
+      this.geocoded++;
+    } else {
+      this.failed++;
+    }
+    if (job.userId) {
+      const totals = this.userTotals.get(job.userId) ?? { processed: 0, geocoded: 0, failed: 0 };
+      totals.processed++;
+      if (outcome.ok) {
+        totals.geocoded++;
+      } else {
+        totals.failed++;
+      }
+      this.userTotals.set(job.userId, totals);
+    }
+  }
+
+  private scheduleRetry(jobId: string, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer);
+      this.enqueue([jobId]);
+    }, delayMs);
+    this.retryTimers.set(timer, jobId);
+  }
+}
+
+export const geocodeQueue = new GeocodeQueue();
@@ -1,151 +1,265 @@
-interface GeocodeResult {
+import { db } from "../db";
+import { geocodeCache, type GeocodePrecision, type GeocodeSource } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { formatAddress, normalizeAddress, parseAddress } from "./addressParser";
+
+export interface GeocodeResult {
   lat: number;
   lng: number;
+  source: GeocodeSource;
+  precision: GeocodePrecision;
 }
 
-export async function geocodeAddress(address: string): Promise<GeocodeResult | null> {
-  if (!address || address.trim() === '') {
+// A lookup either places the address or says why not. Retryable failures (rate
+// limits, timeouts, provider outages) are never cached.
+export type GeocodeOutcome =
+  | { ok: true; result: GeocodeResult; cached: boolean }
+  | { ok: false; reason: string; retryable: boolean };
+
+type ProviderOutcome =
+  | { ok: true; result: GeocodeResult }
+  | { ok: false; reason: string; retryable: boolean };
+
+// Nominatim's usage policy allows one request per second per application
+const NOMINATIM_INTERVAL_MS = 1100;
+const REQUEST_TIMEOUT_MS = 10000;
+// Addresses nobody could place are looked up again after this long
+const FAILED_CACHE_DAYS = 30;
+
+let nextNominatimSlot = 0;
+
+/**
+ * Reserve the next Nominatim slot and wait for it. Slots are handed out
+ * synchronously, so concurrent callers queue up one interval apart.
+ */
+async function waitForNominatimSlot(): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, nextNominatimSlot);
+  nextNominatimSlot = slot + NOMINATIM_INTERVAL_MS;
+  if (slot > now) {
+    await new Promise(resolve => setTimeout(resolve, slot - now));
+  }
+}
+
+function googlePrecision(result: any): GeocodePrecision {
+  const locationType = result.geometry?.location_type;
+  const types: string[] = result.types || [];
+  if (locationType === 'ROOFTOP' && !result.partial_match) return 'rooftop';
+  if (locationType === 'RANGE_INTERPOLATED') return 'street';
+  if (types.some(t => ['street_address', 'premise', 'route', 'intersection'].includes(t))) return 'street';
+  return 'approximate';
+}
+
+function nominatimPrecision(result: any): GeocodePrecision {
+  const kind = result.addresstype || result.type;
+  if (result.class === 'building' || ['house', 'building'].includes(kind)) return 'rooftop';
+  if (result.class === 'highway' || kind === 'road') return 'street';
+  return 'approximate';
+}
+
+async function tryGoogle(address: string): Promise<ProviderOutcome | null> {
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY || process.env.GEOCODING_API_KEY || '';
+  if (!apiKey || apiKey === 'your-geocoding-api-key') {
     return null;
   }
 
+  const encodedAddress = encodeURIComponent(address);
+  const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodedAddress}&key=${apiKey}`;
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+  if (!response.ok) {
+    console.error(`Geocoding API error: ${response.status} ${response.statusText}`);
+    return { ok: false, reason: `Google returned ${response.status}`, retryable: response.status === 429 || response.status >= 500 };
+  }
+
+  const data = await response.json();
+  if (data.status === 'ZERO_RESULTS') {
+    return { ok: false, reason: 'No match found', retryable: false };
+  }
+  if (data.status !== 'OK' || !data.results || data.results.length === 0) {
+    console.warn(`Google geocoding status ${data.status} for address: ${address}`);
+    return { ok: false, reason: `Google status ${data.status}`, retryable: data.status === 'OVER_QUERY_LIMIT' || data.status === 'UNKNOWN_ERROR' };
+  }
+
+  const location = data.results[0].geometry.location;
+  return {
+    ok: true,
+    result: { lat: location.lat, lng: location.lng, source: 'google', precision: googlePrecision(data.results[0]) },
+  };
+}
+
+async function tryNominatim(address: string): Promise<ProviderOutcome> {
+  await waitForNominatimSlot();
+  const encodedAddress = encodeURIComponent(address);
+  const url = `https://nominatim.openstreetmap.org/search?q=${encodedAddress}&format=json&limit=1`;
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'construction-sales-tracker/1.0'
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    console.error(`Nominatim error: ${response.status} ${response.statusText}`);
+    return { ok: false, reason: `Nominatim returned ${response.status}`, retryable: response.status === 429 || response.status >= 500 };
+  }
+  const data = await response.json();
+  if (!Array.isArray(data) || data.length === 0) {
+    return { ok: false, reason: 'No match found', retryable: false };
+  }
+  return {
+    ok: true,
+    result: { lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon), source: 'nominatim', precision: nominatimPrecision(data[0]) },
+  };
+}
+
+async function callProvider(provider: () => Promise<ProviderOutcome | null>): Promise<ProviderOutcome | null> {
   try {
-    const apiKey = process.env.GOOGLE_MAPS_API_KEY || process.env.GEOCODING_API_KEY || '';
-    
-    // Improve address by adding common street suffixes if missing
-    let improvedAddress = address.trim();
-    
-    // Common abbreviations to expand
-    const streetAbbreviations: Record<string, string> = {
-      ' Ti': ' Street',
-      'Mcallister': 'McAllister',
-      'South Van Ness': 'South Van Ness Avenue',
-      'Sgt John V Young': 'Sergeant John V Young Lane',
-      'Portway': 'Portway Drive',
-      'Frida Kahlo': 'Frida Kahlo Way',
-      'Carroll': 'Carroll Avenue',
-      'Wallace': 'Wallace Avenue',
-      'Divisadero': 'Divisadero Street',
-      'California': 'California Street',
-      'Sacramento': 'Sacramento Street',
-      'Market': 'Market Street',
-      'Sutter': 'Sutter Street',
-      'Mariposa': 'Mariposa Street',
-      'Golden Gate': 'Golden Gate Avenue',
-      'Columbus': 'Columbus Avenue',
-      'Howard': 'Howard Street',
-      'Mission': 'Mission Street',
-      'Woolsey': 'Woolsey Street',
-      'Pacific': 'Pacific Avenue',
-      'Cesar Chavez': 'Cesar Chavez Street',
-      'Lane': 'Lane Street',
-      'Revere': 'Revere Avenue',
-      'Maryland': 'Maryland Street',
-      'Vidal': 'Vidal Drive',
-      'Pine': 'Pine Street',
-      'Arballo': 'Arballo Drive',
-      'Harriet': 'Harriet Street',
-      'Fulton': 'Fulton Street',
-      'Van Ness': 'Van Ness Avenue'
-    };
-    
-    // Apply improvements
-    for (const [abbr, full] of Object.entries(streetAbbreviations)) {
-      if (improvedAddress.includes(abbr) && !improvedAddress.includes(full)) {
-        improvedAddress = improvedAddress.replace(abbr, full);
-      }
-    }
-    
-    // Skip addresses that are clearly invalid
-    if (improvedAddress.includes('0 Situs To Be Assigned')) {
-      return null;
-    }
-    
-    const tryGoogle = async (): Promise<GeocodeResult | null> => {
-      if (!apiKey || apiKey === 'your-geocoding-api-key') {
-        return null;
-      }
+    return await provider();
+  } catch (error) {
+    // Network errors and timeouts
+    console.error('Geocoding request failed:', error);
+    return { ok: false, reason: 'Geocoding service unreachable', retryable: true };
+  }
+}
 
-      const encodedAddress = encodeURIComponent(improvedAddress);
-      const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodedAddress}&key=${apiKey}`;
-      
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        console.error(`Geocoding API error: ${response.status} ${response.statusText}`);
-        return null;
-      }
-      
-      const data = await response.json();
-      
-      if (data.status !== 'OK' || !data.results || data.results.length === 0) {
-        console.warn(`No geocoding results for address: ${improvedAddress} (original: ${address})`);
-        return null;
-      }
-      
-      const location = data.results[0].geometry.location;
-      return {
-        lat: location.lat,
-        lng: location.lng
-      };
+async function readCache(addressKey: string): Promise<GeocodeOutcome | null> {
+  const [entry] = await db.select().from(geocodeCache).where(eq(geocodeCache.addressKey, addressKey));
+  if (!entry) return null;
+
+  if (entry.latitude && entry.longitude && entry.source && entry.precision) {
+    return {
+      ok: true,
+      cached: true,
+      result: {
+        lat: parseFloat(entry.latitude),
+        lng: parseFloat(entry.longitude),
+        source: entry.source,
+        precision: entry.precision,
+      },
     };
+  }
 
-    const tryNominatim = async (): Promise<GeocodeResult | null> => {
-      const encodedAddress = encodeURIComponent(improvedAddress);
-      const url = `https://nominatim.openstreetmap.org/search?q=${encodedAddress}&format=json&limit=1`;
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'construction-sales-tracker/1.0'
-        }
-      });
-      if (!response.ok) {
-        console.error(`Nominatim error: ${response.status} ${response.statusText}`);
-        return null;
-      }
-      const data = await response.json();
-      if (!Array.isArray(data) || data.length === 0) {
-        console.warn(`No Nominatim results for address: ${improvedAddress} (original: ${address})`);
-        return null;
+  const failedAt = entry.updatedAt ?? entry.createdAt;
+  const expired = !failedAt || Date.now() - failedAt.getTime() > FAILED_CACHE_DAYS * 24 * 60 * 60 * 1000;
+  return expired ? null : { ok: false, reason: entry.failedReason || 'No match found', retryable: false };
+}
+
+async function writeCache(addressKey: string, address: string, outcome: ProviderOutcome): Promise<void> {
+  const values = outcome.ok
+    ? {
+        latitude: outcome.result.lat.toString(),
+        longitude: outcome.result.lng.toString(),
+        source: outcome.result.source,
+        precision: outcome.result.precision,
+        failedReason: null,
       }
-      return {
-        lat: parseFloat(data[0].lat),
-        lng: parseFloat(data[0].lon)
-      };
-    };
+    : { latitude: null, longitude: null, source: null, precision: null, failedReason: outcome.reason };
 
-    const googleResult = await tryGoogle();
-    if (googleResult) {
-      return googleResult;
-    }
+  await db
+    .insert(geocodeCache)
+    .values({ addressKey, address, ...values })
+    .onConflictDoUpdate({ target: geocodeCache.addressKey, set: { ...values, updatedAt: new Date() } });
+}
 
-    return await tryNominatim();
-    
+/**
+ * Cached-only lookup for bulk imports: places the address if it has been seen
+ * before, otherwise returns null so the caller can queue it.
+ */
+export async function getCachedGeocode(address: string): Promise<GeocodeOutcome | null> {
+  if (!address || address.trim() === '') return null;
+  try {
+    return await readCache(normalizeAddress(address));
   } catch (error) {
-    console.error('Error geocoding address:', error);
+    console.error('Error reading geocode cache:', error);
     return null;
   }
 }
 
+/**
+ * Geocode an address through the cache, then Google, then Nominatim.
+ * Definitive answers (a location, or no match anywhere) are cached.
+ */
+export async function lookupGeocode(address: string): Promise<GeocodeOutcome> {
+  if (!address || address.trim() === '') {
+    return { ok: false, reason: 'No address', retryable: false };
+  }
+
+  const parsed = parseAddress(address);
+
+  // Skip addresses that are clearly invalid
+  if (parsed.number === '0' && /situs to be assigned/i.test(parsed.street ?? '')) {
+    return { ok: false, reason: 'Address not assigned yet', retryable: false };
+  }
+
+  const improvedAddress = formatAddress(parsed);
+  const addressKey = normalizeAddress(address);
+  try {
+    const cached = await readCache(addressKey);
+    if (cached) return cached;
+  } catch (error) {
+    console.error('Error reading geocode cache:', error);
+  }
+
+  const google = await callProvider(() => tryGoogle(improvedAddress));
+  let outcome: ProviderOutcome = google?.ok ? google : await callProvider(() => tryNominatim(improvedAddress)) as ProviderOutcome;
+
+  // Nominatim finding nothing isn't definitive if Google was down
+  if (!outcome.ok && !outcome.retryable && google && !google.ok && google.retryable) {
+    outcome = google;
+  }
+
+  if (outcome.ok || !outcome.retryable) {
+    if (!outcome.ok) {
+      console.warn(`No geocoding results for address: ${improvedAddress} (original: ${address})`);
+    }
+    try {
+      await writeCache(addressKey, address.trim(), outcome);
+    } catch (error) {
+      console.error('Error writing geocode cache:', error);
+    }
+  }
+
+  return outcome.ok ? { ...outcome, cached: false } : outcome;
+}
+
+export async function geocodeAddress(address: string): Promise<GeocodeResult | null> {
+  const outcome = await lookupGeocode(address);
+  return outcome.ok ? outcome.result : null;
+}
+
 export async function reverseGeocode(lat: number, lng: number): Promise<string | null> {
   try {
-    const apiKey = process.env.GOOGLE_MAPS_API_KEY || process.env.GEOCODING_API_KEY || 'your-geocoding-api-key';
-    
-    const url = `https://maps.googleapis.com/maps/api/geocode/json?latlng=${lat},${lng}&key=${apiKey}`;
-    
-    const response = await fetch(url);
-    
+    const apiKey = process.env.GOOGLE_MAPS_API_KEY || process.env.GEOCODING_API_KEY || '';
+
+    if (apiKey && apiKey !== 'your-geocoding-api-key') {
+      const url = `https://maps.googleapis.com/maps/api/geocode/json?latlng=${lat},${lng}&key=${apiKey}`;
+      const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (data.status === 'OK' && data.results?.length > 0) {
+          return data.results[0].formatted_address;
+        }
+        console.warn(`No reverse geocoding results for coordinates: ${lat}, ${lng} (${data.status})`);
+      } else {
+        console.error(`Reverse geocoding API error: ${response.status} ${response.statusText}`);
+      }
+    }
+
+    await waitForNominatimSlot();
+    const url = `https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lng}&format=json&zoom=18`;
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'construction-sales-tracker/1.0'
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
     if (!response.ok) {
-      console.error(`Reverse geocoding API error: ${response.status} ${response.statusText}`);
+      console.error(`Nominatim reverse error: ${response.status} ${response.statusText}`);
       return null;
     }
-    
     const data = await response.json();
-    
-    if (data.status !== 'OK' || !data.results || data.results.length === 0) {
-      console.warn(`No reverse geocoding results for coordinates: ${lat}, ${lng}`);
-      return null;
-    }
-    
-    return data.results[0].formatted_address;
+    return data?.display_name || null;
     
   } catch (error) {
     console.error('Error reverse geocoding coordinates:', error);
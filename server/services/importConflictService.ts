@@ -0,0 +1,77 @@
+/**
+ * Import Conflict Service - Applies the decisions on field conflicts held back
+ * by Dodge re-imports. Accepting writes the incoming value to the job and
+ * hands the field back to future imports; rejecting keeps the job as it is.
+ */
+
+import { db } from "../db";
+import { importConflicts, jobs, IMPORT_CONFLICT_FIELDS, type ImportConflict, type ImportConflictResolution } from "@shared/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { geocodeQueue } from "./geocodeQueueService";
+import { recordJobChange } from "./jobHistoryService";
+
+export interface ImportConflictResolutionResult {
+  resolved: number;
+  jobIds: string[];
+}
+
+export async function resolveImportConflicts(
+  { ids, decision }: ImportConflictResolution,
+  userId: string
+): Promise<ImportConflictResolutionResult> {
+  // Already-resolved conflicts are left as they were decided
+  const pending = await db
+    .select()
+    .from(importConflicts)
+    .where(and(
+      inArray(importConflicts.id, ids),
+      eq(importConflicts.userId, userId),
+      eq(importConflicts.status, 'pending')
+    ));
+  if (pending.length === 0) return { resolved: 0, jobIds: [] };
+
+  const byJob = new Map<string, ImportConflict[]>();
+  for (const conflict of pending) {
+    byJob.set(conflict.jobId, [...(byJob.get(conflict.jobId) ?? []), conflict]);
+  }
+
+  if (decision === 'accept') {
+    for (const [jobId, conflicts] of Array.from(byJob)) {
+      await applyIncomingValues(jobId, conflicts, userId);
+    }
+  }
+
+  await db
+    .update(importConflicts)
+    .set({ status: decision === 'accept' ? 'accepted' : 'rejected', resolvedAt: new Date() })
+    .where(inArray(importConflicts.id, pending.map(c => c.id)));
+
+  return { resolved: pending.length, jobIds: Array.from(byJob.keys()) };
+}
+
+async function applyIncomingValues(jobId: string, conflicts: ImportConflict[], userId: string): Promise<void> {
+  const [job] = await db.select().from(jobs).where(and(eq(jobs.id, jobId), eq(jobs.userId, userId)));
+  if (!job) return;
+
+  const updates: Record<string, unknown> = {};
+  for (const conflict of conflicts) {
+    // Only fields an import writes can be taken from one
+    if (conflict.field in IMPORT_CONFLICT_FIELDS) {
+      updates[conflict.field] = conflict.incomingValue;
+    }
+  }
+  const accepted = Object.keys(updates);
+  if (accepted.length === 0) return;
+
+  const lockedFields = (job.lockedFields || []).filter(field => !accepted.includes(field));
+  await db
+    .update(jobs)
+    .set({ ...updates, lockedFields, lastUpdated: new Date() })
+    .where(eq(jobs.id, jobId));
+  await recordJobChange(job, { ...updates, lockedFields }, { userId, source: 'dodge_import', action: 'import_conflict' });
+
+  // A new address moves the pin, unless it was placed by hand
+  if (updates.address !== undefined && !job.lockedFields?.includes('latitude')) {
+    geocodeQueue.enqueue([jobId]);
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Import Run Service - Records what each Dodge, KYC and VCF import created or
+ * changed, and reverts a run: rows it created are deleted and fields it
+ * changed go back to their prior values, unless they've been edited since.
+ */
+
+import { db } from "../db";
+import { storage } from "../storage";
+import {
+  importRuns,
+  importRunRecords,
+  importConflicts,
+  jobs,
+  companies,
+  contacts,
+  contactJobs,
+  interactions,
+  type ImportRun,
+  type ImportRunCounts,
+  type ImportRunRecord,
+  type ImportRecordEntity,
+  type ImportSource,
+  type Job,
+  type InsertCompany,
+  type InsertContact,
+} from "@shared/schema";
+import { and, desc, eq, getTableColumns } from "drizzle-orm";
+import { geocodeQueue } from "./geocodeQueueService";
+import { recordJobChange, stringifyValue } from "./jobHistoryService";
+
+// Rows per insert when many records are written at once
+const RECORD_BATCH_SIZE = 500;
+
+export interface ImportRunRevertResult {
+  deleted: number; // Rows the run created
+  restored: number; // Fields put back to their prior value
+  kept: number; // Fields edited since the import, left as they are
+}
+
+/**
+ * Collects the records of one run as the importer goes. Each is written
+ * straight away so a run that stops halfway can still be reverted.
+ */
+export class ImportRunRecorder {
+  // Updates to rows this run created are undone by deleting the row
+  private createdKeys = new Set<string>();
+
+  constructor(readonly id: string) {}
+
+  async created(entityType: ImportRecordEntity, entityId: string): Promise<void> {
+    this.createdKeys.add(`${entityType}:${entityId}`);
+    await db.insert(importRunRecords).values({ importRunId: this.id, entityType, entityId, action: "created" });
+  }
+
+  /**
+   * Record an update with the values it replaced. Pass the row as it was
+   * before the write.
+   */
+  async updated(entityType: ImportRecordEntity, before: Record<string, unknown> & { id: string }, updates: Record<string, unknown>): Promise<void> {
+    await this.updatedMany(entityType, [before], updates);
+  }
+
+  /**
+   * Record the same update written to many rows at once.
+   */
+  async updatedMany(entityType: ImportRecordEntity, befores: (Record<string, unknown> & { id: string })[], updates: Record<string, unknown>): Promise<void> {
+    const fields = Object.keys(updates).filter((field) => updates[field] !== undefined);
+    if (fields.length === 0) return;
+    const importedValues = Object.fromEntries(fields.map((field) => [field, updates[field]]));
+
+    const records = befores
+      .filter((before) => !this.createdKeys.has(`${entityType}:${before.id}`))
+      .map((before) => ({
+        importRunId: this.id,
+        entityType,
+        entityId: before.id,
+        action: "updated" as const,
+        previousValues: Object.fromEntries(fields.map((field) => [field, before[field] ?? null])),
+        importedValues,
+      }));
+    for (let i = 0; i < records.length; i += RECORD_BATCH_SIZE) {
+      await db.insert(importRunRecords).values(records.slice(i, i + RECORD_BATCH_SIZE));
+    }
+  }
+
+  async finish(results: { errors: string[] }, status: "completed" | "failed" = "completed"): Promise<void> {
+    await db
+      .update(importRuns)
+      .set({ counts: countsFrom(results), status, finishedAt: new Date() })
+      .where(eq(importRuns.id, this.id));
+  }
+}
+
+export async function startImportRun(userId: string, source: ImportSource, fileName?: string): Promise<ImportRunRecorder> {
+  const [run] = await db.insert(importRuns).values({ userId, source, fileName: fileName || null }).returning();
+  return new ImportRunRecorder(run.id);
+}
+
+// The numeric totals of an importer's results, with its errors counted
+function countsFrom(results: { errors: string[] }): ImportRunCounts {
+  const counts: ImportRunCounts = {};
+  for (const [key, value] of Object.entries(results)) {
+    if (typeof value === "number") counts[key] = value;
+  }
+  counts.errors = results.errors.length;
+  return counts;
+}
+
+/**
+ * Undo a run, newest record first. Pending conflicts it raised are dropped;
+ * conflicts already accepted were a later decision and stay.
+ */
+export async function revertImportRun(run: ImportRun, userId: string): Promise<ImportRunRevertResult> {
+  const records = await db
+    .select()
+    .from(importRunRecords)
+    .where(eq(importRunRecords.importRunId, run.id))
+    .orderBy(desc(importRunRecords.createdAt));
+
+  const result: ImportRunRevertResult = { deleted: 0, restored: 0, kept: 0 };
+  for (const record of records) {
+    if (record.action === "created") {
+      if (await deleteEntity(record.entityType, record.entityId, userId)) result.deleted++;
+    } else {
+      const { restored, kept } = await restoreEntity(record, userId);
+      result.restored += restored;
+      result.kept += kept;
+    }
+  }
+
+  await db
+    .delete(importConflicts)
+    .where(and(eq(importConflicts.importRunId, run.id), eq(importConflicts.status, "pending")));
+  await db
+    .update(importRuns)
+    .set({ status: "reverted", revertedAt: new Date() })
+    .where(eq(importRuns.id, run.id));
+
+  return result;
+}
+
+async function deleteEntity(entityType: ImportRecordEntity, id: string, userId: string): Promise<boolean> {
+  switch (entityType) {
+    case "job":
+      return storage.deleteJob(id, userId);
+    case "company":
+      return storage.deleteCompany(id, userId);
+    case "contact":
+      return storage.deleteContact(id, userId);
+    case "interaction": {
+      const result = await db.delete(interactions).where(and(eq(interactions.id, id), eq(interactions.userId, userId)));
+      return (result.rowCount || 0) > 0;
+    }
+    case "contact_job": {
+      const result = await db.delete(contactJobs).where(eq(contactJobs.id, id));
+      return (result.rowCount || 0) > 0;
+    }
+  }
+}
+
+// Decimals come back from the database as "85000000.00" after "85000000" was written
+function sameValue(a: unknown, b: unknown): boolean {
+  const left = stringifyValue(a);
+  const right = stringifyValue(b);
+  if (left === right) return true;
+  const numeric = /^-?\d+(\.\d+)?$/;
+  return left !== null && right !== null && numeric.test(left) && numeric.test(right) && parseFloat(left) === parseFloat(right);
+}
+
+// Dates were stored as JSON strings
+function reviveDates(columns: Record<string, { columnType: string }>, values: Record<string, unknown>) {
+  for (const [field, value] of Object.entries(values)) {
+    if (typeof value === "string" && columns[field]?.columnType === "PgTimestamp") {
+      values[field] = new Date(value);
+    }
+  }
+}
+
+async function restoreEntity(record: ImportRunRecord, userId: string): Promise<{ restored: number; kept: number }> {
+  const current =
+    record.entityType === "job" ? await storage.getJobById(record.entityId, userId)
+    : record.entityType === "company" ? await storage.getCompanyById(record.entityId, userId)
+    : record.entityType === "contact" ? await storage.getContactById(record.entityId, userId)
+    : undefined;
+  if (!current) return { restored: 0, kept: 0 };
+
+  const restores: Record<string, unknown> = {};
+  let kept = 0;
+  for (const [field, previous] of Object.entries(record.previousValues ?? {})) {
+    if (sameValue((current as Record<string, unknown>)[field], record.importedValues?.[field])) {
+      restores[field] = previous;
+    } else {
+      kept++;
+    }
+  }
+  const restored = Object.keys(restores).length;
+  if (restored === 0) return { restored, kept };
+
+  if (record.entityType === "job") {
+    const job = current as Job;
+    reviveDates(getTableColumns(jobs), restores);
+    await db.update(jobs).set({ ...restores, lastUpdated: new Date() }).where(eq(jobs.id, job.id));
+    await recordJobChange(job, restores, { userId, source: "user", action: "import_revert" });
+    // The old address moves the pin back, unless it was placed by hand
+    if (restores.address !== undefined && !job.lockedFields?.includes("latitude")) {
+      geocodeQueue.enqueue([job.id]);
+    }
+  } else if (record.entityType === "company") {
+    reviveDates(getTableColumns(companies), restores);
+    await storage.updateCompany(record.entityId, restores as Partial<InsertCompany>, userId);
+  } else {
+    reviveDates(getTableColumns(contacts), restores);
+    await storage.updateContact(record.entityId, restores as Partial<InsertContact>, userId);
+  }
+
+  return { restored, kept };
+}
@@ -0,0 +1,81 @@
+/**
+ * Job History Service - Records field-level changes to jobs for the audit trail.
+ * Callers pass the job as it was before the write and the values being written;
+ * only fields whose value actually changes are recorded.
+ */
+
+import { db } from "../db";
+import { jobHistory, type Job, type JobFieldChange } from "@shared/schema";
+
+export type JobChangeSource = "user" | "dodge_import";
+
+interface RecordOptions {
+  userId?: string | null;
+  source: JobChangeSource;
+  action: string;
+}
+
+// Bookkeeping columns that change on every write and would only add noise
+const IGNORED_FIELDS = new Set([
+  "lastUpdated", "lastImportedAt", "dedupeKey", "geocodedAt",
+  "dodgeVersionAt", "dodgeChangedFields", "missingFromDodgeAt",
+]);
+
+export function stringifyValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function diffJobFields(before: Job, updates: Record<string, unknown>): JobFieldChange[] {
+  const changes: JobFieldChange[] = [];
+  for (const [field, value] of Object.entries(updates)) {
+    if (value === undefined || IGNORED_FIELDS.has(field)) continue;
+    const from = stringifyValue(before[field as keyof Job]);
+    const to = stringifyValue(value);
+    if (from !== to) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Record the difference between a job and the updates written to it.
+ * History is best-effort: a failure here is logged and never fails the job update.
+ */
+export async function recordJobChange(before: Job, updates: Record<string, unknown>, options: RecordOptions): Promise<void> {
+  const changes = diffJobFields(before, updates);
+  if (changes.length === 0) return;
+
+  try {
+    await db.insert(jobHistory).values({
+      jobId: before.id,
+      userId: options.userId ?? null,
+      source: options.source,
+      action: options.action,
+      changes,
+    });
+  } catch (error) {
+    console.error("Error recording job history:", error);
+  }
+}
+
+/**
+ * Record that a job was created, so the timeline has a starting point.
+ */
+export async function recordJobCreated(job: Job, options: Omit<RecordOptions, "action">): Promise<void> {
+  try {
+    await db.insert(jobHistory).values({
+      jobId: job.id,
+      userId: options.userId ?? null,
+      source: options.source,
+      action: "created",
+      changes: [],
+    });
+  } catch (error) {
+    console.error("Error recording job history:", error);
+  }
+}
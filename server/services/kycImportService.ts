@@ -4,7 +4,8 @@
 
 import * as XLSX from "xlsx";
 import { storage } from "../storage";
-import type { InsertCompany, InsertContact, InsertInteraction } from "@shared/schema";
+import type { Company, Contact, InsertCompany, InsertContact, InsertInteraction } from "@shared/schema";
+import { startImportRun } from "./importRunService";
 
 export interface KycImportResults {
   companiesCreated: number;
@@ -26,7 +27,7 @@ interface KycCSVRow {
 
 type InteractionType = "call" | "email" | "meeting" | "site_visit" | "text" | "note";
 
-function normalizeCompanyName(name: string): string {
+export function normalizeCompanyName(name: string): string {
   return name
     .replace(/^\(([^)]+)\)$/, "$1") // (ANVIL) -> ANVIL
     .replace(/\s*\([^)]+\)\s*/g, " ") // (Vulcan Materials) in middle -> space
@@ -105,10 +106,15 @@ function normalizeContactKey(fullName: string, companyNormalized: string): strin
   return `${companyNormalized}|${(fullName || "").toLowerCase().replace(/\s/g, "")}`;
 }
 
+/**
+ * Import a KYC sales log. A real import is recorded as an import run so it
+ * can be reverted.
+ */
 export async function importKycCsv(
   fileBuffer: Buffer,
   userId: string,
-  dryRun: boolean = false
+  dryRun: boolean = false,
+  fileName?: string
 ): Promise<KycImportResults> {
   const results: KycImportResults = {
     companiesCreated: 0,
@@ -122,12 +128,17 @@ export async function importKycCsv(
   const contactMap = new Map<string, string>(); // normalizedContactKey -> contactId
   const lastInteractionByContact = new Map<string, { at: Date; type: string }>();
   const lastInteractionByCompany = new Map<string, { at: Date; type: string }>();
+  // Records that were already there, kept so the last-interaction update can be reverted
+  const companiesBefore = new Map<string, Company>();
+  const contactsBefore = new Map<string, Contact>();
+  const run = dryRun ? null : await startImportRun(userId, "kyc", fileName);
 
   let workbook: XLSX.WorkBook;
   try {
     workbook = XLSX.read(fileBuffer, { type: "buffer" });
   } catch (err) {
     results.errors.push(`Failed to parse file: ${err instanceof Error ? err.message : String(err)}`);
+    await run?.finish(results, "failed");
     return results;
   }
 
@@ -158,6 +169,7 @@ export async function importKycCsv(
         if (existing) {
           companyId = existing.id;
           companyMap.set(normalizedCompany, companyId);
+          companiesBefore.set(companyId, existing);
         } else {
           if (!dryRun) {
             const newCompany: InsertCompany = {
@@ -170,6 +182,7 @@ export async function importKycCsv(
             const created = await storage.createCompany(newCompany);
             companyId = created.id;
             companyMap.set(normalizedCompany, companyId);
+            await run?.created("company", companyId);
             results.companiesCreated++;
           } else {
             companyId = `dry-run-${normalizedCompany}`;
@@ -200,6 +213,7 @@ export async function importKycCsv(
         if (existing) {
           contactId = existing.id;
           contactMap.set(contactKey, contactId);
+          contactsBefore.set(contactId, existing);
         } else {
           if (!dryRun) {
             const nameParts = fullName.split(/\s+/);
@@ -218,6 +232,7 @@ export async function importKycCsv(
             const created = await storage.createContact(newContact);
             contactId = created.id;
             contactMap.set(contactKey, contactId);
+            await run?.created("contact", contactId);
             results.contactsCreated++;
           } else {
             contactId = `dry-run-${contactKey}`;
@@ -245,7 +260,8 @@ export async function importKycCsv(
           notes: notes || null,
           occurredAt,
         };
-        await storage.createInteraction(interaction);
+        const createdInteraction = await storage.createInteraction(interaction);
+        await run?.created("interaction", createdInteraction.id);
         results.interactionsCreated++;
 
         const prevContact = lastInteractionByContact.get(contactId);
@@ -266,12 +282,19 @@ export async function importKycCsv(
 
   if (!dryRun) {
     for (const [contactId, { at, type }] of lastInteractionByContact) {
-      await storage.updateContact(contactId, { lastInteractionAt: at, lastInteractionType: type }, userId);
+      const updates = { lastInteractionAt: at, lastInteractionType: type };
+      await storage.updateContact(contactId, updates, userId);
+      const before = contactsBefore.get(contactId);
+      if (before) await run?.updated("contact", before, updates);
     }
     for (const [companyId, { at, type }] of lastInteractionByCompany) {
-      await storage.updateCompany(companyId, { lastInteractionAt: at, lastInteractionType: type }, userId);
+      const updates = { lastInteractionAt: at, lastInteractionType: type };
+      await storage.updateCompany(companyId, updates, userId);
+      const before = companiesBefore.get(companyId);
+      if (before) await run?.updated("company", before, updates);
     }
   }
 
+  await run?.finish(results);
   return results;
 }
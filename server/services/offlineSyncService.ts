@@ -0,0 +1,38 @@
+/**
+ * Offline Sync Service - Conflict checks for job changes made in field mode.
+ * A change queued while offline is replayed with `offlineBase`: the values the
+ * rep saw before editing. If a field has moved on since then to something other
+ * than what the rep is writing, the replay is a conflict and is not applied.
+ */
+
+import type { Job, JobFieldChange, OfflineConflict } from "@shared/schema";
+import { stringifyValue } from "./jobHistoryService";
+
+/**
+ * Fields changed by someone else since the rep's snapshot, as
+ * { field, from: value the rep saw, to: current value }. Empty when the
+ * change can be applied, including when no snapshot was sent.
+ */
+export function findOfflineConflicts(job: Job, base: unknown, updates: Record<string, unknown>): JobFieldChange[] {
+  if (!base || typeof base !== "object") return [];
+
+  const conflicts: JobFieldChange[] = [];
+  for (const [field, seen] of Object.entries(base as Record<string, unknown>)) {
+    if (!(field in updates)) continue;
+    const from = stringifyValue(seen);
+    const current = stringifyValue(job[field as keyof Job]);
+    if (current !== from && current !== stringifyValue(updates[field])) {
+      conflicts.push({ field, from, to: current });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * The 409 body for a replayed change, or null when it can be applied.
+ */
+export function checkOfflineConflict(job: Job, base: unknown, updates: Record<string, unknown>): OfflineConflict | null {
+  const changes = findOfflineConflicts(job, base, updates);
+  if (changes.length === 0) return null;
+  return { error: "This job was changed while you were offline", changes, job };
+}
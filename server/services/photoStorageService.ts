@@ -0,0 +1,41 @@
+import { sql } from "drizzle-orm";
+import { db } from "../db";
+import { fileStorage, attachmentKey } from "./fileStorage";
+
+interface DatabasePhotoRow extends Record<string, unknown> {
+  id: string;
+  user_id: string | null;
+  filename: string;
+  mime_type: string;
+  data: Buffer;
+}
+
+const BATCH_SIZE = 20;
+
+/**
+ * Site visit photos used to be kept in the database. Moves any that still are
+ * into the file store, one small batch at a time, and clears their bytes.
+ * Returns how many were moved.
+ */
+export async function moveSiteVisitPhotosToFileStorage(): Promise<number> {
+  let moved = 0;
+  while (true) {
+    const { rows } = await db.execute<DatabasePhotoRow>(sql`
+      SELECT "id", "user_id", "filename", "mime_type", "data"
+      FROM "site_visit_photos"
+      WHERE "storage_key" IS NULL AND "data" IS NOT NULL
+      LIMIT ${BATCH_SIZE}
+    `);
+    if (rows.length === 0) return moved;
+
+    for (const row of rows) {
+      const storageKey = attachmentKey(row.user_id ?? "unowned", row.id, row.filename);
+      await fileStorage.put(storageKey, Buffer.from(row.data), row.mime_type);
+      await db.execute(sql`
+        UPDATE "site_visit_photos" SET "storage_key" = ${storageKey}, "data" = NULL
+        WHERE "id" = ${row.id}
+      `);
+      moved++;
+    }
+  }
+}
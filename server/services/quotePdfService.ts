@@ -0,0 +1,139 @@
+import PDFDocument from "pdfkit";
+import { quoteLineItemTotal, quoteTotal, type QuoteLineItem } from "@shared/schema";
+
+export interface QuotePdfData {
+  quoteNumber: string;
+  date: Date;
+  validUntil: Date | null;
+  customerName: string;
+  companyName: string | null;
+  jobName: string;
+  jobAddress: string;
+  lineItems: QuoteLineItem[];
+  notes: string | null;
+}
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatPeriod(months: number): string {
+  return months === 1 ? "1 month" : `${months} months`;
+}
+
+// Column x positions and widths for the line item table
+const COLUMNS = [
+  { label: "Equipment", x: 50, width: 170, align: "left" as const },
+  { label: "Qty", x: 220, width: 35, align: "right" as const },
+  { label: "Period", x: 260, width: 60, align: "right" as const },
+  { label: "Monthly Rate", x: 325, width: 75, align: "right" as const },
+  { label: "Deliv./Pickup", x: 405, width: 70, align: "right" as const },
+  { label: "Total", x: 480, width: 82, align: "right" as const },
+];
+
+export async function generateQuotePdf(data: QuotePdfData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50, size: "letter" });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const lineHeight = 18;
+    const pageBottom = doc.page.height - 70;
+    let y = 50;
+
+    // Title and quote number
+    doc.fontSize(20).font("Helvetica-Bold").text("Equipment Rental Quote", 50, y);
+    doc.fontSize(11).font("Helvetica-Bold").text(data.quoteNumber, 350, y + 4, { width: 212, align: "right" });
+    y += 36;
+
+    doc.fontSize(10).font("Helvetica");
+    doc.text(`Date: ${data.date.toLocaleDateString("en-US")}`, 350, y, { width: 212, align: "right" });
+    if (data.validUntil) {
+      doc.text(`Valid until: ${data.validUntil.toLocaleDateString("en-US")}`, 350, y + lineHeight, { width: 212, align: "right" });
+    }
+
+    // Customer and job
+    doc.font("Helvetica-Bold").text("Prepared for:", 50, y);
+    doc.font("Helvetica").text(data.customerName, 50, y + lineHeight);
+    if (data.companyName) {
+      doc.text(data.companyName, 50, y + lineHeight * 2);
+    }
+    y += lineHeight * 4;
+
+    doc.font("Helvetica-Bold").text("Job site:", 50, y);
+    doc.font("Helvetica").text(`${data.jobName}`, 50, y + lineHeight, { width: 500 });
+    doc.text(data.jobAddress, 50, y + lineHeight * 2, { width: 500 });
+    y += lineHeight * 4;
+
+    const drawHeader = () => {
+      doc.font("Helvetica-Bold").fontSize(9);
+      for (const col of COLUMNS) {
+        doc.text(col.label, col.x, y, { width: col.width, align: col.align });
+      }
+      y += 14;
+      doc.moveTo(50, y).lineTo(562, y).stroke();
+      y += 6;
+      doc.font("Helvetica").fontSize(9);
+    };
+
+    drawHeader();
+
+    for (const item of data.lineItems) {
+      const description = item.attachments ? `${item.equipmentModel}\nAttachments: ${item.attachments}` : item.equipmentModel;
+      const rowHeight = Math.max(lineHeight, doc.heightOfString(description, { width: COLUMNS[0].width }) + 6);
+      if (y + rowHeight > pageBottom) {
+        doc.addPage();
+        y = 50;
+        drawHeader();
+      }
+
+      const fees = (item.deliveryFee ?? 0) + (item.pickupFee ?? 0);
+      const values = [
+        description,
+        String(item.quantity),
+        formatPeriod(item.rentalMonths),
+        formatMoney(item.monthlyRate),
+        fees > 0 ? formatMoney(fees) : "—",
+        formatMoney(quoteLineItemTotal(item)),
+      ];
+      values.forEach((value, i) => {
+        const col = COLUMNS[i];
+        doc.text(value, col.x, y, { width: col.width, align: col.align });
+      });
+      y += rowHeight;
+    }
+
+    // Total
+    doc.moveTo(325, y).lineTo(562, y).stroke();
+    y += 8;
+    doc.font("Helvetica-Bold").fontSize(11);
+    doc.text("Quote Total:", 325, y, { width: 150, align: "right" });
+    doc.text(formatMoney(quoteTotal(data.lineItems)), 480, y, { width: 82, align: "right" });
+    y += lineHeight * 2;
+
+    // Notes
+    if (data.notes) {
+      if (y + doc.heightOfString(data.notes, { width: 512 }) + 30 > pageBottom) {
+        doc.addPage();
+        y = 50;
+      }
+      doc.font("Helvetica-Bold").fontSize(10).text("Notes:", 50, y);
+      y += lineHeight;
+      doc.font("Helvetica").text(data.notes, 50, y, { width: 512 });
+      y += doc.heightOfString(data.notes, { width: 512 }) + lineHeight;
+    }
+
+    // Footer
+    doc.fontSize(8).font("Helvetica").fillColor("#666666").text(
+      "Rates are per unit per month. Delivery and pickup fees are per unit. Taxes, fuel and damage waiver are not included.",
+      50,
+      Math.min(y + 10, pageBottom),
+      { width: 512 }
+    );
+
+    doc.end();
+  });
+}
@@ -0,0 +1,191 @@
+/**
+ * Route Planner Service - Orders a set of job visits starting from the rep's position.
+ * Uses straight-line (Haversine) distance so it works without a routing API:
+ * nearest-neighbor for an initial tour, then 2-opt to remove crossings.
+ */
+
+import type { Job } from "@shared/schema";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteOptions {
+  startTime?: Date;
+  avgSpeedMph?: number;
+  minutesPerStop?: number;
+}
+
+export interface RouteStop {
+  jobId: string;
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  order: number;
+  legMiles: number;
+  cumulativeMiles: number;
+  eta: string;
+  departAt: string;
+}
+
+export interface PlannedRoute {
+  origin: LatLng;
+  stops: RouteStop[];
+  skipped: { jobId: string; name: string; reason: string }[];
+  totalMiles: number;
+  totalDriveMinutes: number;
+  finishAt: string | null;
+}
+
+const DEFAULT_SPEED_MPH = 30;
+const DEFAULT_MINUTES_PER_STOP = 20;
+const MAX_TWO_OPT_PASSES = 50;
+
+export function haversineMiles(a: LatLng, b: LatLng): number {
+  const toRad = (x: number) => x * Math.PI / 180;
+  const R = 3959; // Earth's radius in miles
+
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+
+  const h = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) *
+            Math.sin(dLng / 2) * Math.sin(dLng / 2);
+
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Total length of an open path that starts at the origin (index 0 in points)
+ * and visits the given order of point indexes.
+ */
+function pathLength(order: number[], dist: number[][]): number {
+  let total = dist[0][order[0]];
+  for (let i = 1; i < order.length; i++) {
+    total += dist[order[i - 1]][order[i]];
+  }
+  return total;
+}
+
+function nearestNeighborOrder(count: number, dist: number[][]): number[] {
+  const remaining = new Set<number>();
+  for (let i = 1; i <= count; i++) remaining.add(i);
+
+  const order: number[] = [];
+  let current = 0;
+  while (remaining.size > 0) {
+    let best = -1;
+    let bestDist = Infinity;
+    remaining.forEach((candidate) => {
+      if (dist[current][candidate] < bestDist) {
+        bestDist = dist[current][candidate];
+        best = candidate;
+      }
+    });
+    order.push(best);
+    remaining.delete(best);
+    current = best;
+  }
+  return order;
+}
+
+/**
+ * 2-opt improvement for an open path with a fixed start (the origin).
+ * Reverses segments while that shortens the route.
+ */
+function twoOpt(order: number[], dist: number[][]): number[] {
+  let best = order.slice();
+  let bestLength = pathLength(best, dist);
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let k = i + 1; k < best.length; k++) {
+        const candidate = best.slice(0, i)
+          .concat(best.slice(i, k + 1).reverse())
+          .concat(best.slice(k + 1));
+        const candidateLength = pathLength(candidate, dist);
+        if (candidateLength + 1e-9 < bestLength) {
+          best = candidate;
+          bestLength = candidateLength;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return best;
+}
+
+/**
+ * Order job visits from the origin and compute leg distances and per-stop ETAs.
+ */
+export function planRoute(origin: LatLng, jobList: Job[], options: RouteOptions = {}): PlannedRoute {
+  const speed = options.avgSpeedMph && options.avgSpeedMph > 0 ? options.avgSpeedMph : DEFAULT_SPEED_MPH;
+  const minutesPerStop = options.minutesPerStop !== undefined && options.minutesPerStop >= 0
+    ? options.minutesPerStop
+    : DEFAULT_MINUTES_PER_STOP;
+  const startTime = options.startTime ?? new Date();
+
+  const skipped: PlannedRoute["skipped"] = [];
+  const located: { job: Job; point: LatLng }[] = [];
+
+  for (const job of jobList) {
+    const lat = job.latitude ? parseFloat(job.latitude) : NaN;
+    const lng = job.longitude ? parseFloat(job.longitude) : NaN;
+    if (isNaN(lat) || isNaN(lng)) {
+      skipped.push({ jobId: job.id, name: job.name, reason: "Job has no coordinates" });
+      continue;
+    }
+    located.push({ job, point: { lat, lng } });
+  }
+
+  if (located.length === 0) {
+    return { origin, stops: [], skipped, totalMiles: 0, totalDriveMinutes: 0, finishAt: null };
+  }
+
+  // Distance matrix: index 0 is the origin, 1..n are the located jobs
+  const points = [origin, ...located.map((l) => l.point)];
+  const dist = points.map((a) => points.map((b) => haversineMiles(a, b)));
+
+  const order = twoOpt(nearestNeighborOrder(located.length, dist), dist);
+
+  const stops: RouteStop[] = [];
+  let previous = 0;
+  let cumulativeMiles = 0;
+  let clock = startTime.getTime();
+
+  order.forEach((pointIdx, i) => {
+    const legMiles = dist[previous][pointIdx];
+    cumulativeMiles += legMiles;
+    clock += (legMiles / speed) * 60 * 60 * 1000;
+    const eta = new Date(clock);
+    clock += minutesPerStop * 60 * 1000;
+
+    const { job, point } = located[pointIdx - 1];
+    stops.push({
+      jobId: job.id,
+      name: job.name,
+      address: job.address,
+      lat: point.lat,
+      lng: point.lng,
+      order: i + 1,
+      legMiles: Math.round(legMiles * 10) / 10,
+      cumulativeMiles: Math.round(cumulativeMiles * 10) / 10,
+      eta: eta.toISOString(),
+      departAt: new Date(clock).toISOString(),
+    });
+    previous = pointIdx;
+  });
+
+  return {
+    origin,
+    stops,
+    skipped,
+    totalMiles: Math.round(cumulativeMiles * 10) / 10,
+    totalDriveMinutes: Math.round((cumulativeMiles / speed) * 60),
+    finishAt: new Date(clock).toISOString(),
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Territory Service - Point-in-polygon checks for territories drawn on the map,
+ * used by analytics and to tag new Dodge imports with the territory their pin
+ * falls in.
+ */
+
+import { db } from "../db";
+import { territories, type Territory, type TerritoryPoint } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+
+/**
+ * Even-odd ray casting: count how many polygon edges a ray running east from
+ * the point crosses. Territories are a few miles across, so treating lat/lng
+ * as flat coordinates is accurate enough.
+ */
+export function pointInPolygon(lat: number, lng: number, polygon: TerritoryPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    if ((latI > lat) !== (latJ > lat) && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * The first territory (oldest first) containing the point. Overlapping
+ * territories resolve to whichever was drawn first.
+ */
+export function findTerritoryAt(list: Territory[], lat: number, lng: number): Territory | undefined {
+  return list.find(territory => pointInPolygon(lat, lng, territory.polygon));
+}
+
+export async function getAutoTagTerritories(userId: string): Promise<Territory[]> {
+  return await db
+    .select()
+    .from(territories)
+    .where(and(eq(territories.userId, userId), eq(territories.autoTagImports, true)))
+    .orderBy(territories.createdAt);
+}
@@ -5,6 +5,7 @@
 import { parsePhoneNumber } from "libphonenumber-js";
 import { storage } from "../storage";
 import type { InsertCompany, InsertContact } from "@shared/schema";
+import { startImportRun } from "./importRunService";
 
 export interface VcfImportResults {
   imported: number;
@@ -145,7 +146,8 @@ function getBestAdr(adrs: { value: string; type: string }[]): { street?: string;
 }
 
 export default {
-  async importVcf(buffer: Buffer, userId: string): Promise<VcfImportResults> {
+  // Recorded as an import run so the import can be reverted
+  async importVcf(buffer: Buffer, userId: string, fileName?: string): Promise<VcfImportResults> {
     const results: VcfImportResults = {
       imported: 0,
       companiesCreated: 0,
@@ -154,7 +156,15 @@ export default {
       errors: [],
     };
 
-    const cards = parseVcf(buffer);
+    const run = await startImportRun(userId, "vcf", fileName);
+    let cards: ParsedVcard[];
+    try {
+      cards = parseVcf(buffer);
+    } catch (err) {
+      results.errors.push(`Failed to parse file: ${err instanceof Error ? err.message : String(err)}`);
+      await run.finish(results, "failed");
+      return results;
+    }
     const seenKeys = new Set<string>();
     const companyMap = new Map<string, string>(); // normalizedName -> companyId
 
@@ -214,6 +224,7 @@ export default {
               };
               const created = await storage.createCompany(newCompany);
               companyId = created.id;
+              await run.created("company", companyId);
               companyMap.set(normalizedCompany, companyId);
               results.companiesCreated++;
             }
@@ -244,7 +255,8 @@ export default {
           notes: card.note || null,
         };
 
-        await storage.createContact(newContact);
+        const createdContact = await storage.createContact(newContact);
+        await run.created("contact", createdContact.id);
         results.contactsCreated++;
         results.imported++;
       } catch (err) {
@@ -252,6 +264,7 @@ export default {
       }
     }
 
+    await run.finish(results);
     return results;
   },
 };
@@ -1,8 +1,82 @@
-import { jobs, equipment, documents, users, emailVerifications, companies, contacts, contactJobs, interactions, type Job, type InsertJob, type Equipment, type InsertEquipment, type Document, type InsertDocument, type User, type InsertUser, type EmailVerification, type InsertEmailVerification, type FilterPreferences, type Company, type InsertCompany, type Contact, type InsertContact, type ContactJob, type InsertContactJob, type Interaction, type InsertInteraction } from "@shared/schema";
+import { jobs, equipment, documents, users, emailVerifications, companies, contacts, contactJobs, interactions, jobHistory, tasks, opportunities, quotes, type Job, type InsertJob, type Equipment, type InsertEquipment, type Document, type InsertDocument, type User, type InsertUser, type EmailVerification, type InsertEmailVerification, type FilterPreferences, type SavedView, type EquipmentReportSettings, type DodgeMappingProfile, type Company, type InsertCompany, type Contact, type InsertContact, type ContactJob, type InsertContactJob, type Interaction, type InsertInteraction, type JobHistory, type Task, type InsertTask, type TaskWithLinks, type Opportunity, type InsertOpportunity, type OpportunityWithJob, type Quote, type InsertQuote, type QuoteWithLinks, type JobCluster, type JobMapViewport, territories, type Territory, type InsertTerritory, type TerritoryPoint, type JobWithDistance, DEFAULT_NEAR_RADIUS_MILES, siteVisits, siteVisitPhotos, type SiteVisit, type InsertSiteVisit, type SiteVisitPhoto, type InsertSiteVisitPhoto, type SiteVisitPhotoInfo, type SiteVisitWithDetails, type AttachmentOwner, importConflicts, type ImportConflict, type ImportConflictWithJob, importRuns, importRunRecords, type ImportRun, type ImportRunRecordWithLabel, type ImportRecordEntity } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, desc, ilike, gte, lte, inArray, sql } from "drizzle-orm";
+import { eq, ne, and, or, desc, ilike, gte, lte, inArray, isNotNull, sql, getTableColumns, type SQL } from "drizzle-orm";
 import { randomUUID } from "crypto";
 
+// Map viewport: pins are grouped into clusters below this zoom level
+const CLUSTER_MAX_ZOOM = 14;
+const CLUSTER_CELL_PX = 60;
+const VIEWPORT_JOB_LIMIT = 2000;
+
+// Great-circle distance in miles from a point to each job's pin
+function distanceMilesSql(lat: number, lng: number): SQL<number> {
+  return sql<number>`3959 * 2 * asin(sqrt(
+    power(sin(radians(${jobs.latitude}::float8 - ${lat}) / 2), 2) +
+    cos(radians(${lat})) * cos(radians(${jobs.latitude}::float8)) *
+    power(sin(radians(${jobs.longitude}::float8 - ${lng}) / 2), 2)
+  ))`;
+}
+
+// Even-odd ray casting against each polygon edge, summed in SQL so territory
+// filtering works for the list and the clustered map alike. The bounding box
+// check rules out most jobs before the per-edge tests run.
+function insidePolygonSql(polygon: TerritoryPoint[]): SQL {
+  const lat = sql`${jobs.latitude}::float8`;
+  const lng = sql`${jobs.longitude}::float8`;
+  const lats = polygon.map(([pointLat]) => pointLat);
+  const lngs = polygon.map(([, pointLng]) => pointLng);
+  const crossings: SQL[] = [];
+  polygon.forEach(([latI, lngI], i) => {
+    const [latJ, lngJ] = polygon[(i + polygon.length - 1) % polygon.length];
+    if (latI === latJ) return; // A horizontal edge is never crossed
+    const slope = (lngJ - lngI) / (latJ - latI);
+    crossings.push(sql`case when (${lat} > ${latI}) <> (${lat} > ${latJ}) and ${lng} < ${slope}::float8 * (${lat} - ${latI}) + ${lngI} then 1 else 0 end`);
+  });
+  if (crossings.length === 0) return sql`false`;
+  return and(
+    isNotNull(jobs.latitude),
+    isNotNull(jobs.longitude),
+    sql`${lat} BETWEEN ${Math.min(...lats)} AND ${Math.max(...lats)}`,
+    sql`${lng} BETWEEN ${Math.min(...lngs)} AND ${Math.max(...lngs)}`,
+    sql`(${sql.join(crossings, sql` + `)}) % 2 = 1`
+  )!;
+}
+
+export interface JobSearchFilters {
+  search?: string;
+  status?: string[];
+  type?: string[];
+  temperature?: string[];
+  startDate?: Date;
+  endDate?: Date;
+  minValue?: number;
+  maxValue?: number;
+  cold?: boolean;
+  userId?: string;
+  county?: string;
+  company?: string;
+  nearLat?: number;
+  nearLng?: number;
+  radiusMiles?: number; // Around nearLat/nearLng; defaults to DEFAULT_NEAR_RADIUS_MILES
+  unvisited?: boolean;
+  offices?: boolean;
+  territoryPolygon?: TerritoryPoint[]; // Only jobs whose pin is inside
+  limit?: number; // Page of the list, in the list's order
+  offset?: number;
+}
+
+// Visible map area in degrees plus the Leaflet zoom level
+export interface MapViewport {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+  zoom: number;
+}
+
+// Attachments for one job, company or contact, or processed documents by review state
+export type DocumentFilters = Partial<AttachmentOwner> & { reviewStatus?: Document["reviewStatus"] };
+
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
@@ -22,24 +96,10 @@ export interface IStorage {
   createJob(job: InsertJob): Promise<Job>;
   updateJob(id: string, updates: Partial<InsertJob>, userId?: string): Promise<Job | undefined>;
   deleteJob(id: string, userId?: string): Promise<boolean>;
-  searchJobs(filters: {
-    search?: string;
-    status?: string[];
-    type?: string[];
-    temperature?: string[];
-    startDate?: Date;
-    endDate?: Date;
-    minValue?: number;
-    maxValue?: number;
-    cold?: boolean;
-    userId?: string;
-    county?: string;
-    company?: string;
-    nearLat?: number;
-    nearLng?: number;
-    unvisited?: boolean;
-  }): Promise<Job[]>;
+  searchJobs(filters: JobSearchFilters): Promise<JobWithDistance[]>;
+  getJobMapViewport(filters: JobSearchFilters, viewport: MapViewport): Promise<JobMapViewport>;
   getJobByDodgeId(dodgeId: string, userId?: string): Promise<Job | undefined>;
+  getJobsByIds(ids: string[], userId?: string): Promise<Job[]>;
 
   // Equipment methods
   getEquipmentByJobId(jobId: string, userId?: string): Promise<Equipment[]>;
@@ -47,13 +107,21 @@ export interface IStorage {
   updateEquipment(id: string, updates: Partial<InsertEquipment>, userId?: string): Promise<Equipment | undefined>;
 
   // Document methods
-  getAllDocuments(): Promise<Document[]>;
+  getAllDocuments(userId?: string, filters?: DocumentFilters): Promise<Document[]>;
   createDocument(document: InsertDocument): Promise<Document>;
-  getDocumentById(id: string): Promise<Document | undefined>;
+  getDocumentById(id: string, userId?: string): Promise<Document | undefined>;
+  updateDocument(id: string, updates: Partial<InsertDocument>, userId?: string): Promise<Document | undefined>;
+  deleteDocument(id: string, userId?: string): Promise<Document | undefined>;
 
   // Filter preferences methods
   getFilterPreferences(userId: string): Promise<FilterPreferences | null>;
   updateFilterPreferences(userId: string, preferences: FilterPreferences): Promise<void>;
+  getSavedViews(userId: string): Promise<SavedView[]>;
+  updateSavedViews(userId: string, views: SavedView[]): Promise<void>;
+  getEquipmentReportSettings(userId: string): Promise<EquipmentReportSettings | null>;
+  updateEquipmentReportSettings(userId: string, settings: EquipmentReportSettings): Promise<void>;
+  getDodgeMappingProfiles(userId: string): Promise<DodgeMappingProfile[]>;
+  updateDodgeMappingProfiles(userId: string, profiles: DodgeMappingProfile[]): Promise<void>;
 
   // Company methods
   getCompanies(userId?: string): Promise<Company[]>;
@@ -120,6 +188,61 @@ export interface IStorage {
     staleCount: number;
     totalPipelineValue: number;
   }>;
+
+  // Job history methods
+  getJobHistory(jobId: string, limit?: number): Promise<(JobHistory & { userEmail: string | null })[]>;
+  getImportConflicts(filters: { userId?: string; status?: ImportConflict["status"]; importRunId?: string; jobId?: string }): Promise<ImportConflictWithJob[]>;
+
+  // Import run methods
+  getImportRuns(userId: string, limit?: number): Promise<ImportRun[]>;
+  getImportRunById(id: string, userId?: string): Promise<ImportRun | undefined>;
+  getImportRunRecords(importRunId: string): Promise<ImportRunRecordWithLabel[]>;
+
+  // Task methods
+  getTasks(filters: {
+    userId?: string;
+    status?: "open" | "done" | "snoozed";
+    jobId?: string;
+    contactId?: string;
+    companyId?: string;
+    dueBefore?: Date;
+    limit?: number;
+  }): Promise<TaskWithLinks[]>;
+  getTaskById(id: string, userId?: string): Promise<Task | undefined>;
+  createTask(task: InsertTask & { userId?: string }): Promise<Task>;
+  updateTask(id: string, updates: Partial<Task>, userId?: string): Promise<Task | undefined>;
+  deleteTask(id: string, userId?: string): Promise<boolean>;
+
+  // Opportunity methods
+  getOpportunities(userId?: string): Promise<OpportunityWithJob[]>;
+  getOpportunityById(id: string, userId?: string): Promise<Opportunity | undefined>;
+  getOpportunityByJobId(jobId: string, userId?: string): Promise<Opportunity | undefined>;
+  createOpportunity(opportunity: InsertOpportunity & { jobId: string; userId?: string }): Promise<Opportunity>;
+  updateOpportunity(id: string, updates: Partial<Opportunity>, userId?: string): Promise<Opportunity | undefined>;
+  deleteOpportunity(id: string, userId?: string): Promise<boolean>;
+
+  // Quote methods
+  getQuotesByJob(jobId: string, userId?: string): Promise<QuoteWithLinks[]>;
+  getQuoteById(id: string, userId?: string): Promise<QuoteWithLinks | undefined>;
+  getNextQuoteNumber(userId?: string): Promise<number>;
+  createQuote(quote: InsertQuote & { userId?: string; quoteNumber: number; version?: number; total?: string | null }): Promise<Quote>;
+  updateQuote(id: string, updates: Partial<Quote>, userId?: string): Promise<Quote | undefined>;
+  deleteQuote(id: string, userId?: string): Promise<boolean>;
+
+  // Territory methods
+  getTerritories(userId?: string): Promise<Territory[]>;
+  getTerritoryById(id: string, userId?: string): Promise<Territory | undefined>;
+  createTerritory(territory: InsertTerritory & { userId?: string }): Promise<Territory>;
+  updateTerritory(id: string, updates: Partial<InsertTerritory>, userId?: string): Promise<Territory | undefined>;
+  deleteTerritory(id: string, userId?: string): Promise<boolean>;
+
+  // Site visit methods
+  getSiteVisits(jobId: string, userId?: string): Promise<SiteVisitWithDetails[]>;
+  getSiteVisitById(id: string, userId?: string): Promise<SiteVisit | undefined>;
+  createSiteVisit(visit: InsertSiteVisit): Promise<SiteVisit>;
+  updateSiteVisit(id: string, updates: Partial<InsertSiteVisit>, userId?: string): Promise<SiteVisit | undefined>;
+  addSiteVisitPhoto(photo: InsertSiteVisitPhoto): Promise<SiteVisitPhotoInfo>;
+  getSiteVisitPhoto(id: string, userId?: string): Promise<SiteVisitPhoto | undefined>;
 }
 
 export class MemStorage implements IStorage {
@@ -153,6 +276,10 @@ export class MemStorage implements IStorage {
       ...insertUser, 
       id, 
       verified: insertUser.verified ?? false,
+      filterPreferences: null,
+      savedViews: null,
+      equipmentReportSettings: null,
+      dodgeMappingProfiles: null,
       createdAt: new Date() 
     };
     this.users.set(id, user);
@@ -261,6 +388,8 @@ export class MemStorage implements IStorage {
     userId?: string;
     unvisited?: boolean;
     offices?: boolean;
+    limit?: number;
+    offset?: number;
   }): Promise<Job[]> {
     let result = Array.from(this.jobsMap.values());
     
@@ -344,9 +473,60 @@ export class MemStorage implements IStorage {
       });
     }
 
-    return result.sort(
+    result.sort(
       (a, b) => new Date(b.lastUpdated || b.createdAt!).getTime() - new Date(a.lastUpdated || a.createdAt!).getTime()
     );
+    const offset = filters.offset ?? 0;
+    return result.slice(offset, filters.limit ? offset + filters.limit : undefined);
+  }
+
+  async getJobMapViewport(filters: JobSearchFilters, viewport: MapViewport): Promise<JobMapViewport> {
+    const { limit, offset, ...matching } = filters;
+    const visible = (await this.searchJobs(matching)).filter(job => {
+      const lat = job.latitude ? parseFloat(job.latitude) : NaN;
+      const lng = job.longitude ? parseFloat(job.longitude) : NaN;
+      return lat >= viewport.south && lat <= viewport.north && lng >= viewport.west && lng <= viewport.east;
+    });
+    if (viewport.zoom >= CLUSTER_MAX_ZOOM) {
+      const shown = visible.slice(0, VIEWPORT_JOB_LIMIT);
+      return { zoom: viewport.zoom, clustered: false, total: shown.length, clusters: [], jobs: shown };
+    }
+
+    // Same grid as DatabaseStorage
+    const cellSize = (CLUSTER_CELL_PX * 360) / (256 * Math.pow(2, viewport.zoom));
+    const cells = new Map<string, Job[]>();
+    for (const job of visible) {
+      const key = `${Math.floor(parseFloat(job.longitude!) / cellSize)}:${Math.floor(parseFloat(job.latitude!) / cellSize)}`;
+      cells.set(key, [...(cells.get(key) ?? []), job]);
+    }
+
+    const clusters: JobCluster[] = [];
+    const singles: Job[] = [];
+    for (const [id, cellJobs] of Array.from(cells.entries())) {
+      if (cellJobs.length === 1) {
+        singles.push(cellJobs[0]);
+        continue;
+      }
+      const lats = cellJobs.map(job => parseFloat(job.latitude!));
+      const lngs = cellJobs.map(job => parseFloat(job.longitude!));
+      const temperatureCounts: Record<string, number> = {};
+      for (const job of cellJobs) {
+        const temperature = job.temperature ?? (job.isCold ? 'cold' : 'none');
+        temperatureCounts[temperature] = (temperatureCounts[temperature] ?? 0) + 1;
+      }
+      const [dominant] = Object.entries(temperatureCounts).sort((a, b) => b[1] - a[1]);
+      clusters.push({
+        id,
+        lat: lats.reduce((sum, lat) => sum + lat, 0) / cellJobs.length,
+        lng: lngs.reduce((sum, lng) => sum + lng, 0) / cellJobs.length,
+        count: cellJobs.length,
+        dominantTemperature: dominant[0] === 'none' ? null : dominant[0],
+        temperatureCounts,
+        bounds: [[Math.min(...lats), Math.min(...lngs)], [Math.max(...lats), Math.max(...lngs)]],
+      });
+    }
+
+    return { zoom: viewport.zoom, clustered: true, total: visible.length, clusters, jobs: singles };
   }
 
   async getJobByDodgeId(dodgeId: string, userId?: string): Promise<Job | undefined> {
@@ -355,6 +535,12 @@ export class MemStorage implements IStorage {
     return job;
   }
 
+  async getJobsByIds(ids: string[], userId?: string): Promise<Job[]> {
+    return ids
+      .map(id => this.jobsMap.get(id))
+      .filter((job): job is Job => !!job && (!userId || job.userId === userId));
+  }
+
   async getEquipmentByJobId(jobId: string, userId?: string): Promise<Equipment[]> {
     const equipment = Array.from(this.equipmentMap.values()).filter(eq => eq.jobId === jobId);
     if (userId) {
@@ -386,10 +572,14 @@ export class MemStorage implements IStorage {
     return updatedEquipment;
   }
 
-  async getAllDocuments(): Promise<Document[]> {
-    return Array.from(this.documentsMap.values()).sort(
-      (a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()
-    );
+  async getAllDocuments(userId?: string, filters?: DocumentFilters): Promise<Document[]> {
+    return Array.from(this.documentsMap.values())
+      .filter(doc => !userId || doc.userId === userId)
+      .filter(doc => !filters?.jobId || doc.jobId === filters.jobId)
+      .filter(doc => !filters?.companyId || doc.companyId === filters.companyId)
+      .filter(doc => !filters?.contactId || doc.contactId === filters.contactId)
+      .filter(doc => !filters?.reviewStatus || doc.reviewStatus === filters.reviewStatus)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
   }
 
   async createDocument(document: InsertDocument): Promise<Document> {
@@ -397,7 +587,14 @@ export class MemStorage implements IStorage {
     const now = new Date();
     const newDocument: Document = { 
       ...document,
+      userId: document.userId ?? null,
+      jobId: document.jobId ?? null,
+      companyId: document.companyId ?? null,
+      contactId: document.contactId ?? null,
+      storageKey: document.storageKey ?? null,
+      thumbnailKey: document.thumbnailKey ?? null,
       extractedData: document.extractedData || null,
+      reviewStatus: document.reviewStatus ?? null,
       id, 
       createdAt: now,
       processedAt: now 
@@ -406,8 +603,24 @@ export class MemStorage implements IStorage {
     return newDocument;
   }
 
-  async getDocumentById(id: string): Promise<Document | undefined> {
-    return this.documentsMap.get(id);
+  async getDocumentById(id: string, userId?: string): Promise<Document | undefined> {
+    const doc = this.documentsMap.get(id);
+    if (!doc || (userId && doc.userId !== userId)) return undefined;
+    return doc;
+  }
+
+  async updateDocument(id: string, updates: Partial<InsertDocument>, userId?: string): Promise<Document | undefined> {
+    const doc = await this.getDocumentById(id, userId);
+    if (!doc) return undefined;
+    const updated = { ...doc, ...updates } as Document;
+    this.documentsMap.set(id, updated);
+    return updated;
+  }
+
+  async deleteDocument(id: string, userId?: string): Promise<Document | undefined> {
+    const doc = await this.getDocumentById(id, userId);
+    if (doc) this.documentsMap.delete(id);
+    return doc;
   }
 
   async getFilterPreferences(userId: string): Promise<FilterPreferences | null> {
@@ -422,6 +635,42 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async getSavedViews(userId: string): Promise<SavedView[]> {
+    const user = this.users.get(userId);
+    return user?.savedViews || [];
+  }
+
+  async updateSavedViews(userId: string, views: SavedView[]): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.savedViews = views;
+    }
+  }
+
+  async getEquipmentReportSettings(userId: string): Promise<EquipmentReportSettings | null> {
+    const user = this.users.get(userId);
+    return user?.equipmentReportSettings || null;
+  }
+
+  async updateEquipmentReportSettings(userId: string, settings: EquipmentReportSettings): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.equipmentReportSettings = settings;
+    }
+  }
+
+  async getDodgeMappingProfiles(userId: string): Promise<DodgeMappingProfile[]> {
+    const user = this.users.get(userId);
+    return user?.dodgeMappingProfiles || [];
+  }
+
+  async updateDodgeMappingProfiles(userId: string, profiles: DodgeMappingProfile[]): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.dodgeMappingProfiles = profiles;
+    }
+  }
+
   async getCompanies(): Promise<Company[]> { return []; }
   async getCompanyById(): Promise<Company | undefined> { return undefined; }
   async createCompany(company: InsertCompany): Promise<Company> {
@@ -482,6 +731,50 @@ export class MemStorage implements IStorage {
       totalPipelineValue: 0,
     };
   }
+
+  async getJobHistory(): Promise<(JobHistory & { userEmail: string | null })[]> { return []; }
+  async getImportConflicts(): Promise<ImportConflictWithJob[]> { return []; }
+
+  async getImportRuns(): Promise<ImportRun[]> { return []; }
+  async getImportRunById(): Promise<ImportRun | undefined> { return undefined; }
+  async getImportRunRecords(): Promise<ImportRunRecordWithLabel[]> { return []; }
+
+  async getTasks(): Promise<TaskWithLinks[]> { return []; }
+  async getTaskById(): Promise<Task | undefined> { return undefined; }
+  async createTask(): Promise<Task> { throw new Error("MemStorage: createTask not implemented"); }
+  async updateTask(): Promise<Task | undefined> { return undefined; }
+  async deleteTask(): Promise<boolean> { return false; }
+
+  // Opportunity methods - not implemented for MemStorage
+  async getOpportunities(): Promise<OpportunityWithJob[]> { return []; }
+  async getOpportunityById(): Promise<Opportunity | undefined> { return undefined; }
+  async getOpportunityByJobId(): Promise<Opportunity | undefined> { return undefined; }
+  async createOpportunity(): Promise<Opportunity> { throw new Error("MemStorage: createOpportunity not implemented"); }
+  async updateOpportunity(): Promise<Opportunity | undefined> { return undefined; }
+  async deleteOpportunity(): Promise<boolean> { return false; }
+
+  // Quote methods - not implemented for MemStorage
+  async getQuotesByJob(): Promise<QuoteWithLinks[]> { return []; }
+  async getQuoteById(): Promise<QuoteWithLinks | undefined> { return undefined; }
+  async getNextQuoteNumber(): Promise<number> { return 1; }
+  async createQuote(): Promise<Quote> { throw new Error("MemStorage: createQuote not implemented"); }
+  async updateQuote(): Promise<Quote | undefined> { return undefined; }
+  async deleteQuote(): Promise<boolean> { return false; }
+
+  // Territory methods - not implemented for MemStorage
+  async getTerritories(): Promise<Territory[]> { return []; }
+  async getTerritoryById(): Promise<Territory | undefined> { return undefined; }
+  async createTerritory(): Promise<Territory> { throw new Error("MemStorage: createTerritory not implemented"); }
+  async updateTerritory(): Promise<Territory | undefined> { return undefined; }
+  async deleteTerritory(): Promise<boolean> { return false; }
+
+  // Site visit methods - not implemented for MemStorage
+  async getSiteVisits(): Promise<SiteVisitWithDetails[]> { return []; }
+  async getSiteVisitById(): Promise<SiteVisit | undefined> { return undefined; }
+  async createSiteVisit(): Promise<SiteVisit> { throw new Error("MemStorage: createSiteVisit not implemented"); }
+  async updateSiteVisit(): Promise<SiteVisit | undefined> { return undefined; }
+  async addSiteVisitPhoto(): Promise<SiteVisitPhotoInfo> { throw new Error("MemStorage: addSiteVisitPhoto not implemented"); }
+  async getSiteVisitPhoto(): Promise<SiteVisitPhoto | undefined> { return undefined; }
 }
 
 export class DatabaseStorage implements IStorage {
@@ -578,25 +871,12 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
-  async searchJobs(filters: {
-    search?: string;
-    status?: string[];
-    type?: string[];
-    temperature?: string[];
-    startDate?: Date;
-    endDate?: Date;
-    minValue?: number;
-    maxValue?: number;
-    viewStatus?: string;
-    userId?: string;
-    county?: string;
-    company?: string;
-    nearLat?: number;
-    nearLng?: number;
-    unvisited?: boolean;
-  }): Promise<Job[]> {
-    let query = db.select().from(jobs);
-    const conditions = [];
+  /**
+   * SQL conditions for the job filters, shared by the job list and the map
+   * viewport so both show the same jobs.
+   */
+  private jobFilterConditions(filters: JobSearchFilters): SQL[] {
+    const conditions: SQL[] = [];
     
     if (filters.userId) {
       conditions.push(eq(jobs.userId, filters.userId));
@@ -625,8 +905,15 @@ export class DatabaseStorage implements IStorage {
       conditions.push(ilike(jobs.contractor, filters.company));
     }
 
+    // Status as the map shows it: planning jobs whose start date has passed count as active.
+    // Offices are shown or hidden as a group, whatever their status
     if (filters.status && filters.status.length > 0) {
-      conditions.push(inArray(jobs.status, filters.status as any));
+      const effectiveStatus = sql`case when ${jobs.status} = 'planning' and ${jobs.startDate}::date <= current_date then 'active' else ${jobs.status}::text end`;
+      conditions.push(or(eq(jobs.type, 'office'), inArray(effectiveStatus, filters.status))!);
+    }
+
+    if (filters.offices === false) {
+      conditions.push(ne(jobs.type, 'office'));
     }
 
     // Legacy type filter - ignored for backward compatibility with old URLs
@@ -653,7 +940,7 @@ export class DatabaseStorage implements IStorage {
         conditions.push(temperatureOrUnvisitedConditions[0]);
       } else {
         // Both conditions present: show jobs that are unvisited OR match temperature filters
-        conditions.push(or(...temperatureOrUnvisitedConditions));
+        conditions.push(or(...temperatureOrUnvisitedConditions)!);
       }
     }
     // If neither condition is present, don't filter by temperature/visited (show all jobs)
@@ -670,63 +957,158 @@ export class DatabaseStorage implements IStorage {
       conditions.push(lte(jobs.endDate, filters.endDate));
     }
 
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+    // Jobs without a project value never match a value filter
+    if (filters.minValue !== undefined || filters.maxValue !== undefined) {
+      conditions.push(isNotNull(jobs.projectValue));
+      if (filters.minValue !== undefined) {
+        conditions.push(gte(jobs.projectValue, filters.minValue.toString()));
+      }
+      // If maxValue is 100M, treat as unbounded (no upper limit)
+      if (filters.maxValue !== undefined && filters.maxValue !== 100000000) {
+        conditions.push(lte(jobs.projectValue, filters.maxValue.toString()));
+      }
     }
 
-    let result = await query.orderBy(desc(jobs.lastUpdated));
-    
-    // Apply value filtering on the result set since projectValue is a string
-    if (filters.minValue !== undefined || filters.maxValue !== undefined) {
-      result = result.filter(job => {
-        // Handle null/undefined projectValue
-        if (!job.projectValue) return false;
-        
-        // Remove non-numeric characters and parse value
-        const cleanValue = job.projectValue.replace(/[^0-9.]/g, '');
-        const value = parseFloat(cleanValue);
-        if (isNaN(value)) return false;
-        
-        const minCheck = filters.minValue === undefined || value >= filters.minValue;
-        // If maxValue is 100M, treat as unbounded (no upper limit)
-        const maxCheck = filters.maxValue === undefined || 
-                        filters.maxValue === 100000000 || 
-                        value <= filters.maxValue;
-        
-        return minCheck && maxCheck;
-      });
+    // Location-based filtering if nearLat and nearLng are provided
+    if (filters.nearLat !== undefined && filters.nearLng !== undefined) {
+      const radius = filters.radiusMiles ?? DEFAULT_NEAR_RADIUS_MILES;
+      conditions.push(sql`${distanceMilesSql(filters.nearLat, filters.nearLng)} <= ${radius}`);
     }
-    
-    // Apply location-based filtering if nearLat and nearLng are provided
+
+    if (filters.territoryPolygon) {
+      conditions.push(insidePolygonSql(filters.territoryPolygon));
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Jobs matching the filters, most recently updated first. With a "near"
+   * point the closest come first and each job carries its distance.
+   */
+  async searchJobs(filters: JobSearchFilters): Promise<JobWithDistance[]> {
+    const conditions = this.jobFilterConditions(filters);
     if (filters.nearLat !== undefined && filters.nearLng !== undefined) {
-      const radiusMiles = 25; // 25 mile radius
-      result = result.filter(job => {
-        if (!job.latitude || !job.longitude) return false;
-        
-        const jobLat = parseFloat(job.latitude);
-        const jobLng = parseFloat(job.longitude);
-        
-        if (isNaN(jobLat) || isNaN(jobLng)) return false;
-        
-        // Calculate distance using Haversine formula
-        const toRad = (x: number) => x * Math.PI / 180;
-        const R = 3959; // Earth's radius in miles
-        
-        const dLat = toRad(jobLat - filters.nearLat!);
-        const dLng = toRad(jobLng - filters.nearLng!);
-        
-        const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-                  Math.cos(toRad(filters.nearLat!)) * Math.cos(toRad(jobLat)) *
-                  Math.sin(dLng/2) * Math.sin(dLng/2);
-        
-        const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-        const distance = R * c;
-        
-        return distance <= radiusMiles;
+      const distance = distanceMilesSql(filters.nearLat, filters.nearLng);
+      let query = db
+        .select({ job: jobs, distanceMiles: distance })
+        .from(jobs)
+        .where(and(...conditions))
+        .orderBy(distance, desc(jobs.lastUpdated))
+        .$dynamic();
+      if (filters.limit) query = query.limit(filters.limit);
+      if (filters.offset) query = query.offset(filters.offset);
+      const rows = await query;
+      return rows.map(row => ({ ...row.job, distanceMiles: Number(row.distanceMiles) }));
+    }
+    let query = db
+      .select()
+      .from(jobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.lastUpdated))
+      .$dynamic();
+    if (filters.limit) query = query.limit(filters.limit);
+    if (filters.offset) query = query.offset(filters.offset);
+    return await query;
+  }
+
+  /**
+   * Jobs in the visible map area. Below CLUSTER_MAX_ZOOM pins are grouped on a
+   * grid of roughly CLUSTER_CELL_PX screen pixels; cells holding a single job
+   * come back as that job. At street level every job in view is returned.
+   */
+  async getJobMapViewport(filters: JobSearchFilters, viewport: MapViewport): Promise<JobMapViewport> {
+    const lat = sql`${jobs.latitude}::float8`;
+    const lng = sql`${jobs.longitude}::float8`;
+    const conditions = [
+      ...this.jobFilterConditions(filters),
+      isNotNull(jobs.latitude),
+      isNotNull(jobs.longitude),
+      sql`${lat} BETWEEN ${viewport.south} AND ${viewport.north}`,
+      sql`${lng} BETWEEN ${viewport.west} AND ${viewport.east}`,
+    ];
+
+    if (viewport.zoom >= CLUSTER_MAX_ZOOM) {
+      const visible = await db
+        .select()
+        .from(jobs)
+        .where(and(...conditions))
+        .orderBy(desc(jobs.lastUpdated))
+        .limit(VIEWPORT_JOB_LIMIT);
+      return { zoom: viewport.zoom, clustered: false, total: visible.length, clusters: [], jobs: visible };
+    }
+
+    // Degrees per grid cell at this zoom (256px tiles, 360 degrees at zoom 0)
+    const cellSize = (CLUSTER_CELL_PX * 360) / (256 * Math.pow(2, viewport.zoom));
+    const cellX = sql<number>`floor(${lng} / ${cellSize})::int`;
+    const cellY = sql<number>`floor(${lat} / ${cellSize})::int`;
+    // Cold-marked jobs without a temperature still count toward cold
+    const bucket = sql<string | null>`coalesce(${jobs.temperature}, case when ${jobs.isCold} then 'cold' end)`;
+
+    const rows = await db
+      .select({
+        cellX,
+        cellY,
+        bucket,
+        count: sql<number>`count(*)::int`,
+        sumLat: sql<number>`sum(${lat})`,
+        sumLng: sql<number>`sum(${lng})`,
+        south: sql<number>`min(${lat})`,
+        north: sql<number>`max(${lat})`,
+        west: sql<number>`min(${lng})`,
+        east: sql<number>`max(${lng})`,
+        sampleId: sql<string>`min(${jobs.id})`,
+      })
+      .from(jobs)
+      .where(and(...conditions))
+      .groupBy(cellX, cellY, bucket);
+
+    const cells = new Map<string, JobCluster & { sumLat: number; sumLng: number; sampleId: string }>();
+    for (const row of rows) {
+      const key = `${row.cellX}:${row.cellY}`;
+      const cell = cells.get(key) ?? {
+        id: key,
+        lat: 0,
+        lng: 0,
+        count: 0,
+        dominantTemperature: null,
+        temperatureCounts: {},
+        bounds: [[row.south, row.west], [row.north, row.east]],
+        sumLat: 0,
+        sumLng: 0,
+        sampleId: row.sampleId,
+      };
+      cell.count += row.count;
+      cell.sumLat += Number(row.sumLat);
+      cell.sumLng += Number(row.sumLng);
+      cell.bounds = [
+        [Math.min(cell.bounds[0][0], row.south), Math.min(cell.bounds[0][1], row.west)],
+        [Math.max(cell.bounds[1][0], row.north), Math.max(cell.bounds[1][1], row.east)],
+      ];
+      const temperature = row.bucket ?? 'none';
+      cell.temperatureCounts[temperature] = (cell.temperatureCounts[temperature] ?? 0) + row.count;
+      cells.set(key, cell);
+    }
+
+    const clusters: JobCluster[] = [];
+    const singleIds: string[] = [];
+    for (const { sumLat, sumLng, sampleId, ...cell } of Array.from(cells.values())) {
+      if (cell.count === 1) {
+        singleIds.push(sampleId);
+        continue;
+      }
+      const [dominant] = Object.entries(cell.temperatureCounts).sort((a, b) => b[1] - a[1]);
+      clusters.push({
+        ...cell,
+        lat: sumLat / cell.count,
+        lng: sumLng / cell.count,
+        dominantTemperature: dominant[0] === 'none' ? null : dominant[0],
       });
     }
-    
-    return result;
+
+    const singles = singleIds.length > 0 ? await this.getJobsByIds(singleIds, filters.userId) : [];
+    const total = clusters.reduce((sum, cluster) => sum + cluster.count, 0) + singles.length;
+    return { zoom: viewport.zoom, clustered: true, total, clusters, jobs: singles };
   }
 
   async getJobByDodgeId(dodgeId: string, userId?: string): Promise<Job | undefined> {
@@ -738,6 +1120,15 @@ export class DatabaseStorage implements IStorage {
     return job || undefined;
   }
 
+  async getJobsByIds(ids: string[], userId?: string): Promise<Job[]> {
+    if (ids.length === 0) return [];
+    const conditions = [inArray(jobs.id, ids)];
+    if (userId) {
+      conditions.push(eq(jobs.userId, userId));
+    }
+    return await db.select().from(jobs).where(and(...conditions));
+  }
+
   async getEquipmentByJobId(jobId: string, userId?: string): Promise<Equipment[]> {
     const conditions = [eq(equipment.jobId, jobId)];
     if (userId) {
@@ -767,8 +1158,18 @@ export class DatabaseStorage implements IStorage {
     return updatedEquipment || undefined;
   }
 
-  async getAllDocuments(): Promise<Document[]> {
-    return await db.select().from(documents).orderBy(desc(documents.createdAt));
+  async getAllDocuments(userId?: string, filters?: DocumentFilters): Promise<Document[]> {
+    const conditions = [];
+    if (userId) conditions.push(eq(documents.userId, userId));
+    if (filters?.jobId) conditions.push(eq(documents.jobId, filters.jobId));
+    if (filters?.companyId) conditions.push(eq(documents.companyId, filters.companyId));
+    if (filters?.contactId) conditions.push(eq(documents.contactId, filters.contactId));
+    if (filters?.reviewStatus) conditions.push(eq(documents.reviewStatus, filters.reviewStatus));
+    return await db
+      .select()
+      .from(documents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(documents.createdAt));
   }
 
   async createDocument(document: InsertDocument): Promise<Document> {
@@ -779,11 +1180,27 @@ export class DatabaseStorage implements IStorage {
     return createdDocument;
   }
 
-  async getDocumentById(id: string): Promise<Document | undefined> {
-    const [document] = await db.select().from(documents).where(eq(documents.id, id));
+  async getDocumentById(id: string, userId?: string): Promise<Document | undefined> {
+    const conditions = [eq(documents.id, id)];
+    if (userId) conditions.push(eq(documents.userId, userId));
+    const [document] = await db.select().from(documents).where(and(...conditions));
     return document || undefined;
   }
 
+  async updateDocument(id: string, updates: Partial<InsertDocument>, userId?: string): Promise<Document | undefined> {
+    const conditions = [eq(documents.id, id)];
+    if (userId) conditions.push(eq(documents.userId, userId));
+    const [updated] = await db.update(documents).set(updates).where(and(...conditions)).returning();
+    return updated || undefined;
+  }
+
+  async deleteDocument(id: string, userId?: string): Promise<Document | undefined> {
+    const conditions = [eq(documents.id, id)];
+    if (userId) conditions.push(eq(documents.userId, userId));
+    const [deleted] = await db.delete(documents).where(and(...conditions)).returning();
+    return deleted || undefined;
+  }
+
   async getFilterPreferences(userId: string): Promise<FilterPreferences | null> {
     const [user] = await db.select().from(users).where(eq(users.id, userId));
     return user?.filterPreferences || null;
@@ -795,6 +1212,39 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, userId));
   }
 
+  async getSavedViews(userId: string): Promise<SavedView[]> {
+    const [user] = await db.select({ savedViews: users.savedViews }).from(users).where(eq(users.id, userId));
+    return user?.savedViews || [];
+  }
+
+  async updateSavedViews(userId: string, views: SavedView[]): Promise<void> {
+    await db.update(users)
+      .set({ savedViews: views })
+      .where(eq(users.id, userId));
+  }
+
+  async getEquipmentReportSettings(userId: string): Promise<EquipmentReportSettings | null> {
+    const [user] = await db.select({ settings: users.equipmentReportSettings }).from(users).where(eq(users.id, userId));
+    return user?.settings || null;
+  }
+
+  async updateEquipmentReportSettings(userId: string, settings: EquipmentReportSettings): Promise<void> {
+    await db.update(users)
+      .set({ equipmentReportSettings: settings })
+      .where(eq(users.id, userId));
+  }
+
+  async getDodgeMappingProfiles(userId: string): Promise<DodgeMappingProfile[]> {
+    const [user] = await db.select({ profiles: users.dodgeMappingProfiles }).from(users).where(eq(users.id, userId));
+    return user?.profiles || [];
+  }
+
+  async updateDodgeMappingProfiles(userId: string, profiles: DodgeMappingProfile[]): Promise<void> {
+    await db.update(users)
+      .set({ dodgeMappingProfiles: profiles })
+      .where(eq(users.id, userId));
+  }
+
   async getCompanies(userId?: string): Promise<Company[]> {
     if (userId) {
       return await db.select().from(companies).where(eq(companies.userId, userId)).orderBy(desc(companies.name));
@@ -1008,6 +1458,7 @@ export class DatabaseStorage implements IStorage {
         direction: interactions.direction,
         summary: interactions.summary,
         notes: interactions.notes,
+        siteVisitId: interactions.siteVisitId,
         occurredAt: interactions.occurredAt,
         createdAt: interactions.createdAt,
         contactName: contacts.fullName,
@@ -1033,6 +1484,7 @@ export class DatabaseStorage implements IStorage {
       direction: r.direction,
       summary: r.summary,
       notes: r.notes,
+      siteVisitId: r.siteVisitId,
       occurredAt: r.occurredAt,
       createdAt: r.createdAt,
       contactName: r.contactName,
@@ -1096,21 +1548,13 @@ export class DatabaseStorage implements IStorage {
           }, null as Date | null)
         : null;
 
-      const linkedViaContacts = new Set<string>();
+      // Jobs reach a company through its contacts; Dodge imports link them by role
+      const linkedJobIds = new Set<string>();
       for (const c of companyContacts) {
         for (const cj of contactJobRows) {
-          if (cj.contactId === c.id) linkedViaContacts.add(cj.jobId);
+          if (cj.contactId === c.id) linkedJobIds.add(cj.jobId);
         }
       }
-      const linkedViaText = allJobs.filter(
-        (j) =>
-          (company.name && (
-            (j.contractor && j.contractor.toLowerCase().includes(company.name.toLowerCase())) ||
-            (j.owner && j.owner.toLowerCase().includes(company.name.toLowerCase())) ||
-            (j.architect && j.architect.toLowerCase().includes(company.name.toLowerCase()))
-          ))
-      ).map((j) => j.id);
-      const linkedJobIds = new Set([...linkedViaContacts, ...linkedViaText]);
       const linkedJobsList = allJobs.filter((j) => linkedJobIds.has(j.id));
       const pipelineValue = linkedJobsList.reduce((sum, j) => {
         const v = j.projectValue ? parseFloat(String(j.projectValue)) : 0;
@@ -1154,6 +1598,417 @@ export class DatabaseStorage implements IStorage {
       totalPipelineValue,
     };
   }
+
+  async getJobHistory(jobId: string, limit = 200): Promise<(JobHistory & { userEmail: string | null })[]> {
+    const rows = await db
+      .select({ entry: jobHistory, userEmail: users.email })
+      .from(jobHistory)
+      .leftJoin(users, eq(jobHistory.userId, users.id))
+      .where(eq(jobHistory.jobId, jobId))
+      .orderBy(desc(jobHistory.changedAt))
+      .limit(limit);
+    return rows.map((r) => ({ ...r.entry, userEmail: r.userEmail }));
+  }
+
+  async getImportConflicts(filters: { userId?: string; status?: ImportConflict["status"]; importRunId?: string; jobId?: string }): Promise<ImportConflictWithJob[]> {
+    const conditions = [];
+    if (filters.userId) conditions.push(eq(importConflicts.userId, filters.userId));
+    if (filters.status) conditions.push(eq(importConflicts.status, filters.status));
+    if (filters.importRunId) conditions.push(eq(importConflicts.importRunId, filters.importRunId));
+    if (filters.jobId) conditions.push(eq(importConflicts.jobId, filters.jobId));
+    const rows = await db
+      .select({ conflict: importConflicts, jobName: jobs.name })
+      .from(importConflicts)
+      .innerJoin(jobs, eq(importConflicts.jobId, jobs.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(jobs.name, importConflicts.field);
+    return rows.map((r) => ({ ...r.conflict, jobName: r.jobName }));
+  }
+
+  async getImportRuns(userId: string, limit = 100): Promise<ImportRun[]> {
+    return await db
+      .select()
+      .from(importRuns)
+      .where(eq(importRuns.userId, userId))
+      .orderBy(desc(importRuns.createdAt))
+      .limit(limit);
+  }
+
+  async getImportRunById(id: string, userId?: string): Promise<ImportRun | undefined> {
+    const conditions = [eq(importRuns.id, id)];
+    if (userId) conditions.push(eq(importRuns.userId, userId));
+    const [run] = await db.select().from(importRuns).where(and(...conditions));
+    return run || undefined;
+  }
+
+  async getImportRunRecords(importRunId: string): Promise<ImportRunRecordWithLabel[]> {
+    const records = await db
+      .select()
+      .from(importRunRecords)
+      .where(eq(importRunRecords.importRunId, importRunId))
+      .orderBy(importRunRecords.createdAt);
+
+    // Look up each kind of row once; rows deleted since get no label
+    const idsOf = (entityType: ImportRecordEntity) =>
+      Array.from(new Set(records.filter((r) => r.entityType === entityType).map((r) => r.entityId)));
+    const labels = new Map<string, string>();
+    const addLabels = (entityType: ImportRecordEntity, rows: { id: string; label: string | null }[]) => {
+      for (const row of rows) {
+        if (row.label) labels.set(`${entityType}:${row.id}`, row.label);
+      }
+    };
+
+    const jobIds = idsOf("job");
+    if (jobIds.length > 0) {
+      addLabels("job", await db.select({ id: jobs.id, label: jobs.name }).from(jobs).where(inArray(jobs.id, jobIds)));
+    }
+    const companyIds = idsOf("company");
+    if (companyIds.length > 0) {
+      addLabels("company", await db.select({ id: companies.id, label: companies.name }).from(companies).where(inArray(companies.id, companyIds)));
+    }
+    const contactIds = idsOf("contact");
+    if (contactIds.length > 0) {
+      addLabels("contact", await db.select({ id: contacts.id, label: contacts.fullName }).from(contacts).where(inArray(contacts.id, contactIds)));
+    }
+    const interactionIds = idsOf("interaction");
+    if (interactionIds.length > 0) {
+      addLabels("interaction", await db
+        .select({ id: interactions.id, label: sql<string>`coalesce(${interactions.summary}, ${interactions.type}::text)` })
+        .from(interactions)
+        .where(inArray(interactions.id, interactionIds)));
+    }
+    const linkIds = idsOf("contact_job");
+    if (linkIds.length > 0) {
+      addLabels("contact_job", await db
+        .select({ id: contactJobs.id, label: sql<string>`${contacts.fullName} || ' on ' || ${jobs.name}` })
+        .from(contactJobs)
+        .innerJoin(contacts, eq(contactJobs.contactId, contacts.id))
+        .innerJoin(jobs, eq(contactJobs.jobId, jobs.id))
+        .where(inArray(contactJobs.id, linkIds)));
+    }
+
+    return records.map((record) => ({ ...record, label: labels.get(`${record.entityType}:${record.entityId}`) ?? null }));
+  }
+
+
+  async getTasks(filters: {
+    userId?: string;
+    status?: "open" | "done" | "snoozed";
+    jobId?: string;
+    contactId?: string;
+    companyId?: string;
+    dueBefore?: Date;
+    limit?: number;
+  }): Promise<TaskWithLinks[]> {
+    const now = new Date();
+    const conditions = [];
+    if (filters.userId) conditions.push(eq(tasks.userId, filters.userId));
+    if (filters.jobId) conditions.push(eq(tasks.jobId, filters.jobId));
+    if (filters.contactId) conditions.push(eq(tasks.contactId, filters.contactId));
+    if (filters.companyId) conditions.push(eq(tasks.companyId, filters.companyId));
+    if (filters.dueBefore) conditions.push(lte(tasks.dueDate, filters.dueBefore));
+    if (filters.status === "open") {
+      // A snoozed task comes back once its snooze expires
+      conditions.push(or(
+        eq(tasks.status, "open"),
+        and(eq(tasks.status, "snoozed"), lte(tasks.snoozedUntil, now))
+      )!);
+    } else if (filters.status === "snoozed") {
+      conditions.push(and(eq(tasks.status, "snoozed"), gte(tasks.snoozedUntil, now))!);
+    } else if (filters.status === "done") {
+      conditions.push(eq(tasks.status, "done"));
+    }
+
+    let query = db
+      .select({
+        task: tasks,
+        jobName: jobs.name,
+        contactName: contacts.fullName,
+        companyName: companies.name,
+      })
+      .from(tasks)
+      .leftJoin(jobs, eq(tasks.jobId, jobs.id))
+      .leftJoin(contacts, eq(tasks.contactId, contacts.id))
+      .leftJoin(companies, eq(tasks.companyId, companies.id))
+      .$dynamic();
+    if (conditions.length > 0) query = query.where(and(...conditions));
+    query = query.orderBy(tasks.dueDate);
+    if (filters.limit) query = query.limit(filters.limit);
+
+    const rows = await query;
+    return rows.map((r) => ({
+      ...r.task,
+      jobName: r.jobName,
+      contactName: r.contactName,
+      companyName: r.companyName,
+    }));
+  }
+
+  async getTaskById(id: string, userId?: string): Promise<Task | undefined> {
+    const conditions = [eq(tasks.id, id)];
+    if (userId) conditions.push(eq(tasks.userId, userId));
+    const [task] = await db.select().from(tasks).where(and(...conditions));
+    return task || undefined;
+  }
+
+  async createTask(task: InsertTask & { userId?: string }): Promise<Task> {
+    const [created] = await db.insert(tasks).values(task).returning();
+    return created;
+  }
+
+  async updateTask(id: string, updates: Partial<Task>, userId?: string): Promise<Task | undefined> {
+    const conditions = [eq(tasks.id, id)];
+    if (userId) conditions.push(eq(tasks.userId, userId));
+    const [updated] = await db
+      .update(tasks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteTask(id: string, userId?: string): Promise<boolean> {
+    const conditions = [eq(tasks.id, id)];
+    if (userId) conditions.push(eq(tasks.userId, userId));
+    const result = await db.delete(tasks).where(and(...conditions));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getOpportunities(userId?: string): Promise<OpportunityWithJob[]> {
+    let query = db
+      .select({
+        opportunity: opportunities,
+        jobName: jobs.name,
+        jobAddress: jobs.address,
+        projectValue: jobs.projectValue,
+        temperature: jobs.temperature,
+        contractor: jobs.contractor,
+      })
+      .from(opportunities)
+      .innerJoin(jobs, eq(opportunities.jobId, jobs.id))
+      .$dynamic();
+    if (userId) query = query.where(eq(opportunities.userId, userId));
+
+    const rows = await query.orderBy(desc(opportunities.updatedAt));
+    return rows.map((r) => ({
+      ...r.opportunity,
+      jobName: r.jobName,
+      jobAddress: r.jobAddress,
+      projectValue: r.projectValue,
+      temperature: r.temperature,
+      contractor: r.contractor,
+    }));
+  }
+
+  async getOpportunityById(id: string, userId?: string): Promise<Opportunity | undefined> {
+    const conditions = [eq(opportunities.id, id)];
+    if (userId) conditions.push(eq(opportunities.userId, userId));
+    const [opportunity] = await db.select().from(opportunities).where(and(...conditions));
+    return opportunity || undefined;
+  }
+
+  async getOpportunityByJobId(jobId: string, userId?: string): Promise<Opportunity | undefined> {
+    const conditions = [eq(opportunities.jobId, jobId)];
+    if (userId) conditions.push(eq(opportunities.userId, userId));
+    const [opportunity] = await db.select().from(opportunities).where(and(...conditions));
+    return opportunity || undefined;
+  }
+
+  async createOpportunity(opportunity: InsertOpportunity & { jobId: string; userId?: string }): Promise<Opportunity> {
+    const [created] = await db.insert(opportunities).values(opportunity).returning();
+    return created;
+  }
+
+  async updateOpportunity(id: string, updates: Partial<Opportunity>, userId?: string): Promise<Opportunity | undefined> {
+    const conditions = [eq(opportunities.id, id)];
+    if (userId) conditions.push(eq(opportunities.userId, userId));
+    const [updated] = await db
+      .update(opportunities)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteOpportunity(id: string, userId?: string): Promise<boolean> {
+    const conditions = [eq(opportunities.id, id)];
+    if (userId) conditions.push(eq(opportunities.userId, userId));
+    const result = await db.delete(opportunities).where(and(...conditions));
+    return (result.rowCount || 0) > 0;
+  }
+
+  private quotesWithLinksQuery() {
+    return db
+      .select({
+        quote: quotes,
+        jobName: jobs.name,
+        contactName: contacts.fullName,
+        contactEmail: contacts.emailPrimary,
+      })
+      .from(quotes)
+      .innerJoin(jobs, eq(quotes.jobId, jobs.id))
+      .leftJoin(contacts, eq(quotes.contactId, contacts.id))
+      .$dynamic();
+  }
+
+  async getQuotesByJob(jobId: string, userId?: string): Promise<QuoteWithLinks[]> {
+    const conditions = [eq(quotes.jobId, jobId)];
+    if (userId) conditions.push(eq(quotes.userId, userId));
+    const rows = await this.quotesWithLinksQuery()
+      .where(and(...conditions))
+      .orderBy(desc(quotes.quoteNumber), desc(quotes.version));
+    return rows.map((r) => ({ ...r.quote, jobName: r.jobName, contactName: r.contactName, contactEmail: r.contactEmail }));
+  }
+
+  async getQuoteById(id: string, userId?: string): Promise<QuoteWithLinks | undefined> {
+    const conditions = [eq(quotes.id, id)];
+    if (userId) conditions.push(eq(quotes.userId, userId));
+    const [row] = await this.quotesWithLinksQuery().where(and(...conditions));
+    return row ? { ...row.quote, jobName: row.jobName, contactName: row.contactName, contactEmail: row.contactEmail } : undefined;
+  }
+
+  async getNextQuoteNumber(userId?: string): Promise<number> {
+    const [row] = await db
+      .select({ max: sql<number>`coalesce(max(${quotes.quoteNumber}), 1000)` })
+      .from(quotes)
+      .where(userId ? eq(quotes.userId, userId) : undefined);
+    return Number(row?.max ?? 1000) + 1;
+  }
+
+  async createQuote(quote: InsertQuote & { userId?: string; quoteNumber: number; version?: number; total?: string | null }): Promise<Quote> {
+    const [created] = await db.insert(quotes).values(quote).returning();
+    return created;
+  }
+
+  async updateQuote(id: string, updates: Partial<Quote>, userId?: string): Promise<Quote | undefined> {
+    const conditions = [eq(quotes.id, id)];
+    if (userId) conditions.push(eq(quotes.userId, userId));
+    const [updated] = await db
+      .update(quotes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteQuote(id: string, userId?: string): Promise<boolean> {
+    const conditions = [eq(quotes.id, id)];
+    if (userId) conditions.push(eq(quotes.userId, userId));
+    const result = await db.delete(quotes).where(and(...conditions));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getTerritories(userId?: string): Promise<Territory[]> {
+    let query = db.select().from(territories).$dynamic();
+    if (userId) query = query.where(eq(territories.userId, userId));
+    return await query.orderBy(territories.createdAt);
+  }
+
+  async getTerritoryById(id: string, userId?: string): Promise<Territory | undefined> {
+    const conditions = [eq(territories.id, id)];
+    if (userId) conditions.push(eq(territories.userId, userId));
+    const [territory] = await db.select().from(territories).where(and(...conditions));
+    return territory || undefined;
+  }
+
+  async createTerritory(territory: InsertTerritory & { userId?: string }): Promise<Territory> {
+    const [created] = await db.insert(territories).values(territory).returning();
+    return created;
+  }
+
+  async updateTerritory(id: string, updates: Partial<InsertTerritory>, userId?: string): Promise<Territory | undefined> {
+    const conditions = [eq(territories.id, id)];
+    if (userId) conditions.push(eq(territories.userId, userId));
+    const [updated] = await db
+      .update(territories)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteTerritory(id: string, userId?: string): Promise<boolean> {
+    const conditions = [eq(territories.id, id)];
+    if (userId) conditions.push(eq(territories.userId, userId));
+    const result = await db.delete(territories).where(and(...conditions));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getSiteVisits(jobId: string, userId?: string): Promise<SiteVisitWithDetails[]> {
+    const conditions = [eq(siteVisits.jobId, jobId)];
+    if (userId) conditions.push(eq(siteVisits.userId, userId));
+    const rows = await db
+      .select({ visit: siteVisits, userEmail: users.email })
+      .from(siteVisits)
+      .leftJoin(users, eq(siteVisits.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(siteVisits.checkedInAt));
+    if (rows.length === 0) return [];
+
+    const visitIds = rows.map(row => row.visit.id);
+    const { storageKey: _storageKey, ...photoColumns } = getTableColumns(siteVisitPhotos);
+    const photos = await db
+      .select(photoColumns)
+      .from(siteVisitPhotos)
+      .where(inArray(siteVisitPhotos.siteVisitId, visitIds))
+      .orderBy(siteVisitPhotos.createdAt);
+    // Contacts met are the ones a site_visit interaction was logged for
+    const met = await db
+      .select({
+        siteVisitId: interactions.siteVisitId,
+        id: contacts.id,
+        fullName: contacts.fullName,
+        firstName: contacts.firstName,
+        lastName: contacts.lastName,
+      })
+      .from(interactions)
+      .innerJoin(contacts, eq(interactions.contactId, contacts.id))
+      .where(inArray(interactions.siteVisitId, visitIds));
+
+    return rows.map(row => ({
+      ...row.visit,
+      userEmail: row.userEmail,
+      photos: photos.filter(photo => photo.siteVisitId === row.visit.id),
+      contacts: met
+        .filter(contact => contact.siteVisitId === row.visit.id)
+        .map(contact => ({
+          id: contact.id,
+          name: contact.fullName || `${contact.firstName ?? ""} ${contact.lastName ?? ""}`.trim() || "Contact",
+        })),
+    }));
+  }
+
+  async getSiteVisitById(id: string, userId?: string): Promise<SiteVisit | undefined> {
+    const conditions = [eq(siteVisits.id, id)];
+    if (userId) conditions.push(eq(siteVisits.userId, userId));
+    const [visit] = await db.select().from(siteVisits).where(and(...conditions));
+    return visit || undefined;
+  }
+
+  async createSiteVisit(visit: InsertSiteVisit): Promise<SiteVisit> {
+    const [created] = await db.insert(siteVisits).values(visit).returning();
+    return created;
+  }
+
+  async updateSiteVisit(id: string, updates: Partial<InsertSiteVisit>, userId?: string): Promise<SiteVisit | undefined> {
+    const conditions = [eq(siteVisits.id, id)];
+    if (userId) conditions.push(eq(siteVisits.userId, userId));
+    const [updated] = await db.update(siteVisits).set(updates).where(and(...conditions)).returning();
+    return updated || undefined;
+  }
+
+  async addSiteVisitPhoto(photo: InsertSiteVisitPhoto): Promise<SiteVisitPhotoInfo> {
+    const { storageKey: _storageKey, ...photoColumns } = getTableColumns(siteVisitPhotos);
+    const [created] = await db.insert(siteVisitPhotos).values(photo).returning(photoColumns);
+    return created;
+  }
+
+  async getSiteVisitPhoto(id: string, userId?: string): Promise<SiteVisitPhoto | undefined> {
+    const conditions = [eq(siteVisitPhotos.id, id)];
+    if (userId) conditions.push(eq(siteVisitPhotos.userId, userId));
+    const [photo] = await db.select().from(siteVisitPhotos).where(and(...conditions));
+    return photo || undefined;
+  }
 }
 
 export const storage = new DatabaseStorage();
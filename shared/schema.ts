@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, timestamp, boolean, json, pgEnum, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, timestamp, boolean, json, pgEnum, integer, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -14,6 +14,19 @@ export const contactSourceEnum = pgEnum("contact_source", ["vcf_import", "manual
 export const contactJobRoleEnum = pgEnum("contact_job_role", ["contractor", "owner", "architect", "construction_manager", "ordered_by", "office_contact", "other"]);
 export const interactionTypeEnum = pgEnum("interaction_type", ["call", "email", "meeting", "site_visit", "text", "note"]);
 export const interactionDirectionEnum = pgEnum("interaction_direction", ["inbound", "outbound"]);
+export const jobChangeSourceEnum = pgEnum("job_change_source", ["user", "dodge_import"]);
+export const taskPriorityEnum = pgEnum("task_priority", ["low", "medium", "high"]);
+export const taskStatusEnum = pgEnum("task_status", ["open", "done", "snoozed"]);
+export const opportunityStageEnum = pgEnum("opportunity_stage", ["prospect", "quoted", "negotiating", "won", "lost"]);
+export const quoteStatusEnum = pgEnum("quote_status", ["draft", "sent", "accepted", "declined"]);
+export const geocodeSourceEnum = pgEnum("geocode_source", ["google", "nominatim", "manual"]);
+export const geocodePrecisionEnum = pgEnum("geocode_precision", ["rooftop", "street", "approximate"]);
+export const documentReviewStatusEnum = pgEnum("document_review_status", ["pending", "accepted"]);
+export const importConflictStatusEnum = pgEnum("import_conflict_status", ["pending", "accepted", "rejected"]);
+export const importSourceEnum = pgEnum("import_source", ["dodge", "kyc", "vcf"]);
+export const importRunStatusEnum = pgEnum("import_run_status", ["running", "completed", "failed", "reverted"]);
+export const importRecordEntityEnum = pgEnum("import_record_entity", ["job", "company", "contact", "interaction", "contact_job"]);
+export const importRecordActionEnum = pgEnum("import_record_action", ["created", "updated"]);
 
 export const jobs = pgTable("jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -23,6 +36,12 @@ export const jobs = pgTable("jobs", {
   county: text("county"), // County information from Dodge Data
   latitude: decimal("latitude", { precision: 10, scale: 8 }),
   longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  // How the pin was placed; approximate pins are city or postcode centroids
+  geocodeSource: geocodeSourceEnum("geocode_source"),
+  geocodePrecision: geocodePrecisionEnum("geocode_precision"),
+  geocodeFailedReason: text("geocode_failed_reason"), // Set when the address could not be placed
+  geocodedAt: timestamp("geocoded_at"),
+  territoryId: varchar("territory_id").references(() => territories.id, { onDelete: "set null" }), // Set when an auto-tagging territory picks up an import
   contractor: text("contractor"),
   contractorPhone: text("contractor_phone"),
   contractorAddress: text("contractor_address"),
@@ -74,7 +93,11 @@ export const jobs = pgTable("jobs", {
   externalId: text("external_id"), // External ID from CSV
   dedupeKey: text("dedupe_key"), // Normalized key for deduplication
   lockedFields: json("locked_fields").$type<string[]>().default([]).notNull(), // Fields edited by user
-  lastImportedAt: timestamp("last_imported_at") // Last time this job was imported/updated
+  lastImportedAt: timestamp("last_imported_at"), // Last time this job was imported/updated
+  // Dodge update tracking
+  dodgeVersionAt: timestamp("dodge_version_at"), // When the job's current Dodge version number first came in
+  dodgeChangedFields: json("dodge_changed_fields").$type<string[]>(), // Fields that differed when that version came in; null for a job's first version
+  missingFromDodgeAt: timestamp("missing_from_dodge_at"), // Set when an export covering the job's county left it out
 });
 
 export const equipment = pgTable("equipment", {
@@ -91,11 +114,19 @@ export const equipment = pgTable("equipment", {
 
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // User who uploaded the file
+  // Attachments belong to one job, company or contact; processed imports belong to none
+  jobId: varchar("job_id").references(() => jobs.id, { onDelete: "cascade" }),
+  companyId: varchar("company_id").references(() => companies.id, { onDelete: "cascade" }),
+  contactId: varchar("contact_id").references(() => contacts.id, { onDelete: "cascade" }),
   filename: text("filename").notNull(),
   originalName: text("original_name").notNull(),
   mimeType: text("mime_type").notNull(),
   size: text("size").notNull(),
-  extractedData: json("extracted_data"), // Addresses and equipment info
+  storageKey: text("storage_key"), // Where the file lives in the file store; null for processed-only documents
+  thumbnailKey: text("thumbnail_key"), // Small JPEG preview for images
+  extractedData: json("extracted_data").$type<DocumentExtraction>(), // Candidates found in the text, staged for review
+  reviewStatus: documentReviewStatusEnum("review_status"), // Set for processed documents; null for plain attachments
   processedAt: timestamp("processed_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -106,6 +137,9 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   verified: boolean("verified").default(false).notNull(),
   filterPreferences: json("filter_preferences").$type<Record<string, FilterPreference>>(),
+  savedViews: json("saved_views").$type<SavedView[]>(),
+  equipmentReportSettings: json("equipment_report_settings").$type<EquipmentReportSettings>(),
+  dodgeMappingProfiles: json("dodge_mapping_profiles").$type<DodgeMappingProfile[]>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -120,7 +154,8 @@ export const emailVerifications = pgTable("email_verifications", {
 // Equipment rental tracking table for daily email processing
 export const rentalEquipment = pgTable("rental_equipment", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  equipmentNumber: text("equipment_number").notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // Rep whose report settings selected this unit
+  equipmentNumber: text("equipment_number").notNull(), // Upserted per rep by equipment number on each daily report
   model: text("model").notNull(),
   serialNumber: text("serial_number"),
   year: text("year"),
@@ -133,9 +168,36 @@ export const rentalEquipment = pgTable("rental_equipment", {
   daysOnOffRent: integer("days_on_off_rent"),
   monthlyRate: integer("monthly_rate"),
   status: rentalStatusEnum("status").notNull().default("on_rent"),
+  statusText: text("status_text"), // Status as written on the report, e.g. "ON-RENT", "DOWN"
+  inLatestReport: boolean("in_latest_report").notNull().default(true),
+  companyId: varchar("company_id").references(() => companies.id, { onDelete: "set null" }), // Matched from customerOnRent
+  jobId: varchar("job_id").references(() => jobs.id, { onDelete: "set null" }), // Nearest job to the geocoded location
+  latitude: decimal("latitude", { precision: 10, scale: 8 }),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  geocodedLocation: text("geocoded_location"), // The location text latitude/longitude were geocoded from
+  lockedFields: json("locked_fields").$type<string[]>().default([]).notNull(), // Set by hand ("companyId", "jobId", or "status" for maintenance)
   notes: text("notes"),
-  emailProcessedAt: timestamp("email_processed_at").defaultNow(),
+  emailProcessedAt: timestamp("email_processed_at").defaultNow(), // Last report the unit appeared on
   lastUpdated: timestamp("last_updated").defaultNow().notNull()
+}, (table) => [
+  unique("rental_equipment_user_number_unique").on(table.userId, table.equipmentNumber),
+]);
+
+// Rental equipment snapshots - one row per unit per daily report, for history and day-over-day diffs
+export const rentalEquipmentSnapshots = pgTable("rental_equipment_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  reportDate: text("report_date").notNull(), // YYYY-MM-DD the report was processed
+  equipmentNumber: text("equipment_number").notNull(),
+  model: text("model").notNull(),
+  status: rentalStatusEnum("status").notNull().default("on_rent"),
+  customerOnRent: text("customer_on_rent"),
+  acctMgr: text("acct_mgr"),
+  location: text("location"),
+  dateOnOffRent: text("date_on_off_rent"),
+  daysOnOffRent: integer("days_on_off_rent"),
+  monthlyRate: integer("monthly_rate"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Companies table - canonical company records, deduplicated
@@ -211,13 +273,222 @@ export const interactions = pgTable("interactions", {
   direction: interactionDirectionEnum("direction").default("outbound"),
   summary: text("summary"),
   notes: text("notes"),
+  siteVisitId: varchar("site_visit_id").references(() => siteVisits.id, { onDelete: "set null" }),
   occurredAt: timestamp("occurred_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const jobsRelations = relations(jobs, ({ many }) => ({
+// Job history table - audit trail of field changes to jobs
+export const jobHistory = pgTable("job_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => jobs.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  source: jobChangeSourceEnum("source").notNull().default("user"),
+  action: text("action").notNull(), // e.g. update, notes, team, temperature, import_merge
+  changes: json("changes").$type<JobFieldChange[]>().default([]).notNull(),
+  changedAt: timestamp("changed_at").defaultNow(),
+});
+
+// Tasks table - follow-ups and reminders, optionally tied to a job, contact or company
+export const tasks = pgTable("tasks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  notes: text("notes"),
+  dueDate: timestamp("due_date").notNull(),
+  priority: taskPriorityEnum("priority").default("medium").notNull(),
+  status: taskStatusEnum("status").default("open").notNull(),
+  snoozedUntil: timestamp("snoozed_until"),
+  completedAt: timestamp("completed_at"),
+  jobId: varchar("job_id").references(() => jobs.id, { onDelete: "set null" }),
+  contactId: varchar("contact_id").references(() => contacts.id, { onDelete: "set null" }),
+  companyId: varchar("company_id").references(() => companies.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Opportunities table - our own sales deal on a job, one per job
+export const opportunities = pgTable("opportunities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().unique().references(() => jobs.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  stage: opportunityStageEnum("stage").default("prospect").notNull(),
+  estimatedRevenue: decimal("estimated_revenue", { precision: 12, scale: 2 }), // Our expected rental revenue, not the Dodge project value
+  probability: integer("probability").default(10).notNull(), // Win probability, 0-100
+  expectedCloseDate: timestamp("expected_close_date"),
+  lostReason: text("lost_reason"),
+  stageChangedAt: timestamp("stage_changed_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Quotes table - rental equipment quotes on a job. Each revision is its own row
+// sharing the quote number, so sent versions are kept as they were sent.
+export const quotes = pgTable("quotes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  jobId: varchar("job_id").notNull().references(() => jobs.id, { onDelete: "cascade" }),
+  contactId: varchar("contact_id").references(() => contacts.id, { onDelete: "set null" }),
+  quoteNumber: integer("quote_number").notNull(), // Sequential per user
+  version: integer("version").default(1).notNull(),
+  status: quoteStatusEnum("status").default("draft").notNull(),
+  lineItems: json("line_items").$type<QuoteLineItem[]>().default([]).notNull(),
+  notes: text("notes"),
+  validUntil: timestamp("valid_until"),
+  total: decimal("total", { precision: 12, scale: 2 }),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Geocode cache - one row per normalized address, including addresses no provider could place
+export const geocodeCache = pgTable("geocode_cache", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  addressKey: text("address_key").notNull().unique(),
+  address: text("address").notNull(), // Address as first looked up
+  latitude: decimal("latitude", { precision: 10, scale: 8 }),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  source: geocodeSourceEnum("source"),
+  precision: geocodePrecisionEnum("precision"),
+  failedReason: text("failed_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Territories - named areas drawn on the map. The polygon is a ring of [lat, lng]
+// points; the last point joins back to the first.
+export const territories = pgTable("territories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  color: text("color").default("#2563eb").notNull(),
+  polygon: json("polygon").$type<TerritoryPoint[]>().notNull(),
+  autoTagImports: boolean("auto_tag_imports").default(false).notNull(), // Tag new Dodge imports whose pin falls inside
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Site visit check-ins - the device position at check-in is the proof the rep was there
+export const siteVisits = pgTable("site_visits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  jobId: varchar("job_id").notNull().references(() => jobs.id, { onDelete: "cascade" }),
+  checkedInAt: timestamp("checked_in_at").defaultNow().notNull(),
+  checkedOutAt: timestamp("checked_out_at"), // Null while the rep is still on site
+  latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
+  accuracyMeters: integer("accuracy_meters"), // As reported by the device
+  distanceMeters: integer("distance_meters"), // From the job's pin; null when the job isn't on the map
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const siteVisitPhotos = pgTable("site_visit_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  siteVisitId: varchar("site_visit_id").notNull().references(() => siteVisits.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  filename: text("filename").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key"), // Where the photo lives in the file store; older photos get one at startup
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Import conflicts - a Dodge value that differs from what the job already has,
+// held back until someone picks which one to keep
+export const importConflicts = pgTable("import_conflicts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  jobId: varchar("job_id").notNull().references(() => jobs.id, { onDelete: "cascade" }),
+  importRunId: varchar("import_run_id").notNull(), // The import run that raised it; dry runs aren't saved
+  field: text("field").notNull(),
+  currentValue: text("current_value"),
+  incomingValue: text("incoming_value"),
+  userEdited: boolean("user_edited").default(false).notNull(), // The field was locked by a hand edit
+  status: importConflictStatusEnum("status").default("pending").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// Import runs - one per Dodge, KYC or VCF file imported, so a bad file can be reverted
+export const importRuns = pgTable("import_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  source: importSourceEnum("source").notNull(),
+  fileName: text("file_name"),
+  counts: json("counts").$type<ImportRunCounts>().default({}).notNull(),
+  status: importRunStatusEnum("status").default("running").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  revertedAt: timestamp("reverted_at"),
+});
+
+// Each row an import run created or changed, with the values it replaced
+export const importRunRecords = pgTable("import_run_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  importRunId: varchar("import_run_id").notNull().references(() => importRuns.id, { onDelete: "cascade" }),
+  entityType: importRecordEntityEnum("entity_type").notNull(),
+  entityId: varchar("entity_id").notNull(),
+  action: importRecordActionEnum("action").notNull(),
+  // Updates only: the fields written, before and after. Revert restores a field only while it still holds the imported value
+  previousValues: json("previous_values").$type<Record<string, unknown>>(),
+  importedValues: json("imported_values").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const jobsRelations = relations(jobs, ({ one, many }) => ({
   equipment: many(equipment),
   contactJobs: many(contactJobs),
+  history: many(jobHistory),
+  importConflicts: many(importConflicts),
+  siteVisits: many(siteVisits),
+  documents: many(documents),
+  opportunity: one(opportunities),
+  quotes: many(quotes),
+  territory: one(territories, {
+    fields: [jobs.territoryId],
+    references: [territories.id],
+  }),
+}));
+
+export const quotesRelations = relations(quotes, ({ one }) => ({
+  job: one(jobs, {
+    fields: [quotes.jobId],
+    references: [jobs.id],
+  }),
+  contact: one(contacts, {
+    fields: [quotes.contactId],
+    references: [contacts.id],
+  }),
+}));
+
+export const opportunitiesRelations = relations(opportunities, ({ one }) => ({
+  job: one(jobs, {
+    fields: [opportunities.jobId],
+    references: [jobs.id],
+  }),
+}));
+
+export const tasksRelations = relations(tasks, ({ one }) => ({
+  job: one(jobs, {
+    fields: [tasks.jobId],
+    references: [jobs.id],
+  }),
+  contact: one(contacts, {
+    fields: [tasks.contactId],
+    references: [contacts.id],
+  }),
+  company: one(companies, {
+    fields: [tasks.companyId],
+    references: [companies.id],
+  }),
+}));
+
+export const jobHistoryRelations = relations(jobHistory, ({ one }) => ({
+  job: one(jobs, {
+    fields: [jobHistory.jobId],
+    references: [jobs.id],
+  }),
 }));
 
 export const equipmentRelations = relations(equipment, ({ one }) => ({
@@ -227,8 +498,24 @@ export const equipmentRelations = relations(equipment, ({ one }) => ({
   }),
 }));
 
+export const documentsRelations = relations(documents, ({ one }) => ({
+  job: one(jobs, {
+    fields: [documents.jobId],
+    references: [jobs.id],
+  }),
+  company: one(companies, {
+    fields: [documents.companyId],
+    references: [companies.id],
+  }),
+  contact: one(contacts, {
+    fields: [documents.contactId],
+    references: [contacts.id],
+  }),
+}));
+
 export const companiesRelations = relations(companies, ({ many }) => ({
   contacts: many(contacts),
+  documents: many(documents),
 }));
 
 export const contactsRelations = relations(contacts, ({ one, many }) => ({
@@ -238,6 +525,7 @@ export const contactsRelations = relations(contacts, ({ one, many }) => ({
   }),
   contactJobs: many(contactJobs),
   interactions: many(interactions),
+  documents: many(documents),
 }));
 
 export const contactJobsRelations = relations(contactJobs, ({ one }) => ({
@@ -251,6 +539,40 @@ export const contactJobsRelations = relations(contactJobs, ({ one }) => ({
   }),
 }));
 
+export const siteVisitsRelations = relations(siteVisits, ({ one, many }) => ({
+  job: one(jobs, {
+    fields: [siteVisits.jobId],
+    references: [jobs.id],
+  }),
+  photos: many(siteVisitPhotos),
+  interactions: many(interactions),
+}));
+
+export const siteVisitPhotosRelations = relations(siteVisitPhotos, ({ one }) => ({
+  siteVisit: one(siteVisits, {
+    fields: [siteVisitPhotos.siteVisitId],
+    references: [siteVisits.id],
+  }),
+}));
+
+export const importConflictsRelations = relations(importConflicts, ({ one }) => ({
+  job: one(jobs, {
+    fields: [importConflicts.jobId],
+    references: [jobs.id],
+  }),
+}));
+
+export const importRunsRelations = relations(importRuns, ({ many }) => ({
+  records: many(importRunRecords),
+}));
+
+export const importRunRecordsRelations = relations(importRunRecords, ({ one }) => ({
+  importRun: one(importRuns, {
+    fields: [importRunRecords.importRunId],
+    references: [importRuns.id],
+  }),
+}));
+
 export const interactionsRelations = relations(interactions, ({ one }) => ({
   contact: one(contacts, {
     fields: [interactions.contactId],
@@ -264,6 +586,10 @@ export const interactionsRelations = relations(interactions, ({ one }) => ({
     fields: [interactions.jobId],
     references: [jobs.id],
   }),
+  siteVisit: one(siteVisits, {
+    fields: [interactions.siteVisitId],
+    references: [siteVisits.id],
+  }),
 }));
 
 export const insertJobSchema = createInsertSchema(jobs).omit({
@@ -316,9 +642,96 @@ export const insertContactJobSchema = createInsertSchema(contactJobs).omit({
   createdAt: true,
 });
 
-export const insertInteractionSchema = createInsertSchema(interactions).omit({
+export const insertTaskSchema = createInsertSchema(tasks, {
+  dueDate: z.coerce.date(),
+  snoozedUntil: z.coerce.date().nullable().optional(),
+}).omit({
   id: true,
+  userId: true,
+  completedAt: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+// Probability applied when an opportunity moves to a stage without an explicit value
+export const DEFAULT_STAGE_PROBABILITY: Record<Opportunity["stage"], number> = {
+  prospect: 10,
+  quoted: 30,
+  negotiating: 60,
+  won: 100,
+  lost: 0,
+};
+
+export const insertOpportunitySchema = createInsertSchema(opportunities, {
+  // A cleared field comes back as "", which the decimal column can't store
+  estimatedRevenue: z.preprocess(
+    (value) => (value === "" ? null : value),
+    z.coerce.string().regex(/^\d+(\.\d+)?$/, "Must be a number").nullable()
+  ).optional(),
+  probability: z.number().int().min(0).max(100).optional(),
+  expectedCloseDate: z.coerce.date().nullable().optional(),
+}).omit({
+  id: true,
+  jobId: true,
+  userId: true,
+  stageChangedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const quoteLineItemSchema = z.object({
+  equipmentModel: z.string().min(1),
+  quantity: z.number().int().min(1),
+  rentalMonths: z.number().positive(), // Rental period, in months (0.5 = two weeks)
+  monthlyRate: z.number().min(0),
+  deliveryFee: z.number().min(0).default(0),
+  pickupFee: z.number().min(0).default(0),
+  attachments: z.string().optional(), // e.g. "forks, 1 yd bucket"
+});
+
+export const insertQuoteSchema = createInsertSchema(quotes, {
+  lineItems: z.array(quoteLineItemSchema),
+  validUntil: z.coerce.date().nullable().optional(),
+}).omit({
+  id: true,
+  userId: true,
+  quoteNumber: true,
+  version: true,
+  status: true,
+  total: true,
+  sentAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertJobHistorySchema = createInsertSchema(jobHistory).omit({
+  id: true,
+  changedAt: true,
+});
+
+export const insertInteractionSchema = createInsertSchema(interactions, {
+  // Interactions logged in field mode arrive after the fact with the time they happened
+  occurredAt: z.coerce.date().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Corners are [lat, lng]; the ring is closed implicitly, so the first point isn't repeated
+export const territoryPolygonSchema = z
+  .array(z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)]))
+  .min(3, "A territory needs at least 3 corners")
+  .max(500);
+
+export const insertTerritorySchema = createInsertSchema(territories, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #2563eb").optional(),
+  polygon: territoryPolygonSchema,
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 export type Job = typeof jobs.$inferSelect;
@@ -332,7 +745,18 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type EmailVerification = typeof emailVerifications.$inferSelect;
 export type InsertEmailVerification = z.infer<typeof insertEmailVerificationSchema>;
 export type RentalEquipment = typeof rentalEquipment.$inferSelect;
+export type RentalEquipmentSnapshot = typeof rentalEquipmentSnapshots.$inferSelect;
 export type InsertRentalEquipment = z.infer<typeof insertRentalEquipmentSchema>;
+export type RentalEquipmentWithLinks = RentalEquipment & {
+  companyName: string | null;
+  jobName: string | null;
+};
+// A unit placed on the map, at its geocoded location or else at its linked job
+export type RentalEquipmentPin = Pick<RentalEquipment, "id" | "equipmentNumber" | "model" | "customerOnRent" | "status" | "jobId"> & {
+  jobName: string | null;
+  lat: number;
+  lng: number;
+};
 export type Company = typeof companies.$inferSelect;
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
 export type Contact = typeof contacts.$inferSelect;
@@ -341,6 +765,474 @@ export type ContactJob = typeof contactJobs.$inferSelect;
 export type InsertContactJob = z.infer<typeof insertContactJobSchema>;
 export type Interaction = typeof interactions.$inferSelect;
 export type InsertInteraction = z.infer<typeof insertInteractionSchema>;
+export type Task = typeof tasks.$inferSelect;
+export type InsertTask = z.infer<typeof insertTaskSchema>;
+export type TaskWithLinks = Task & {
+  jobName: string | null;
+  contactName: string | null;
+  companyName: string | null;
+};
+export type Opportunity = typeof opportunities.$inferSelect;
+export type InsertOpportunity = z.infer<typeof insertOpportunitySchema>;
+export type OpportunityWithJob = Opportunity & {
+  jobName: string;
+  jobAddress: string;
+  projectValue: string | null;
+  temperature: string | null;
+  contractor: string | null;
+};
+export type Quote = typeof quotes.$inferSelect;
+export type InsertQuote = z.infer<typeof insertQuoteSchema>;
+export type QuoteLineItem = z.infer<typeof quoteLineItemSchema>;
+export type QuoteWithLinks = Quote & {
+  jobName: string;
+  contactName: string | null;
+  contactEmail: string | null;
+};
+export type GeocodeCacheEntry = typeof geocodeCache.$inferSelect;
+export type GeocodeSource = typeof geocodeSourceEnum.enumValues[number];
+export type GeocodePrecision = typeof geocodePrecisionEnum.enumValues[number];
+export type Territory = typeof territories.$inferSelect;
+export type InsertTerritory = z.infer<typeof insertTerritorySchema>;
+export type TerritoryPoint = [lat: number, lng: number];
+export type SiteVisit = typeof siteVisits.$inferSelect;
+export type InsertSiteVisit = typeof siteVisits.$inferInsert;
+export type SiteVisitPhoto = typeof siteVisitPhotos.$inferSelect;
+export type InsertSiteVisitPhoto = typeof siteVisitPhotos.$inferInsert;
+// Photo details without the storage key, for listing
+export type SiteVisitPhotoInfo = Omit<SiteVisitPhoto, "storageKey">;
+// Search results carry the distance from the "near" point when one was given
+export type JobWithDistance = Job & { distanceMiles?: number };
+export type JobHistory = typeof jobHistory.$inferSelect;
+export type InsertJobHistory = z.infer<typeof insertJobHistorySchema>;
+export type ImportConflict = typeof importConflicts.$inferSelect;
+export type InsertImportConflict = typeof importConflicts.$inferInsert;
+export type ImportConflictWithJob = ImportConflict & { jobName: string };
+export type ImportRun = typeof importRuns.$inferSelect;
+export type ImportSource = typeof importSourceEnum.enumValues[number];
+export type ImportRunRecord = typeof importRunRecords.$inferSelect;
+export type InsertImportRunRecord = typeof importRunRecords.$inferInsert;
+export type ImportRecordEntity = typeof importRecordEntityEnum.enumValues[number];
+// Records carry the name of the job, company or contact they point at; null once it's gone
+export type ImportRunRecordWithLabel = ImportRunRecord & { label: string | null };
+export type ImportRunWithRecords = ImportRun & { records: ImportRunRecordWithLabel[] };
+
+// Totals an importer reported for a run, e.g. { imported: 12, updated: 3, errors: 0 }
+export type ImportRunCounts = Record<string, number>;
+
+// A single field change recorded in job history (values stringified for display)
+export interface JobFieldChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+// A re-imported job that kept hand-edited values, with what the import wanted to write
+export interface SkippedLockedJob {
+  jobId: string;
+  jobName: string;
+  fields: Pick<ImportConflict, "field" | "currentValue" | "incomingValue">[];
+}
+
+// 409 body when a change queued offline touches fields someone else changed in the meantime
+export interface OfflineConflict {
+  error: string;
+  changes: JobFieldChange[];
+  job: Job;
+}
+
+// Day-over-day change between two rental equipment reports
+export interface RentalEquipmentChange {
+  type: "on_rent" | "off_rent" | "status_changed" | "customer_changed" | "rate_changed";
+  equipmentNumber: string;
+  model: string;
+  customer: string | null;
+  from: string | null;
+  to: string | null;
+}
+
+export interface RentalEquipmentChanges {
+  reportDate: string | null;
+  previousReportDate: string | null;
+  changes: RentalEquipmentChange[];
+}
+
+// Map viewport query result: clusters at low zoom, individual jobs otherwise
+export interface JobCluster {
+  id: string;
+  lat: number;
+  lng: number;
+  count: number;
+  dominantTemperature: string | null;
+  temperatureCounts: Record<string, number>; // "none" counts jobs without a temperature
+  bounds: [[number, number], [number, number]]; // [[south, west], [north, east]]
+}
+
+export interface JobMapViewport {
+  zoom: number;
+  clustered: boolean;
+  total: number;
+  clusters: JobCluster[];
+  jobs: Job[];
+}
+
+// Background geocoding progress for the current server process
+export interface GeocodeQueueStatus {
+  pending: number;
+  inFlight: boolean;
+  processed: number;
+  geocoded: number;
+  failed: number;
+  retrying: number;
+}
+
+// Fleet revenue and utilization for the equipment analytics view
+export interface EquipmentRevenueGroup {
+  name: string;
+  revenue: number;
+  units: number;
+  avgDays: number;
+}
+
+export interface EquipmentAnalytics {
+  unitsOnRent: number;
+  monthlyRevenue: number;
+  avgDaysOnRent: number;
+  revenueByCustomer: EquipmentRevenueGroup[];
+  revenueByModelFamily: EquipmentRevenueGroup[];
+  // Units nearing or past a long-rent mark (90/180/365 days); daysToThreshold is negative once passed
+  longRentUnits: {
+    id: string;
+    equipmentNumber: string;
+    model: string;
+    customer: string | null;
+    monthlyRate: number | null;
+    daysOnRent: number;
+    threshold: number;
+    daysToThreshold: number;
+  }[];
+  revenueTrend: { date: string; revenue: number; units: number }[];
+}
+
+// Per-territory job counts and project value for the analytics dashboard
+export interface TerritoryStats {
+  id: string;
+  name: string;
+  color: string;
+  jobCount: number;
+  activeCount: number;
+  pipelineValue: number; // Sum of Dodge project values, excluding completed jobs
+}
+
+// A check-in with its photos, the contacts met and who made it
+export interface SiteVisitWithDetails extends SiteVisit {
+  userEmail: string | null;
+  photos: SiteVisitPhotoInfo[];
+  contacts: { id: string; name: string }[];
+}
+
+// A value found in a processed document. Confidence runs 0-1: labelled,
+// complete values score high, bare pattern matches low.
+export interface ExtractedField {
+  value: string;
+  confidence: number;
+  context: string; // The line it was found on
+}
+
+export interface ExtractedDate extends ExtractedField {
+  label: string | null; // e.g. "Start", "Bid", taken from the text before the date
+}
+
+export interface ExtractedEquipment {
+  equipmentNumber: string;
+  attachmentNumber: string | null;
+  status: "starting" | "stopping";
+  confidence: number;
+  context: string;
+}
+
+export interface DocumentExtraction {
+  addresses: ExtractedField[];
+  contractors: ExtractedField[];
+  projectValues: ExtractedField[];
+  dates: ExtractedDate[];
+  equipment: ExtractedEquipment[];
+  textPreview: string; // Start of the extracted text, so the reviewer can check what was read
+}
+
+// "Near me" / "near this job" search radius, in miles
+export const DEFAULT_NEAR_RADIUS_MILES = 25;
+export const MAX_NEAR_RADIUS_MILES = 250;
+
+// A check-in within this distance of the job's pin counts as on site
+export const SITE_VISIT_ON_SITE_METERS = 400;
+export const MAX_SITE_VISIT_PHOTOS = 10;
+
+export const siteVisitCheckInSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative().optional(),
+});
+
+export const siteVisitCheckOutSchema = z.object({
+  notes: z.string().max(5000).optional(),
+  contactIds: z.array(z.string()).max(20).default([]), // Each gets a site_visit interaction
+});
+
+export const MAX_ATTACHMENT_SIZE_MB = 25;
+
+// An attachment hangs off exactly one job, company or contact
+export const attachmentOwnerSchema = z.object({
+  jobId: z.string().optional(),
+  companyId: z.string().optional(),
+  contactId: z.string().optional(),
+}).refine(
+  (owner) => [owner.jobId, owner.companyId, owner.contactId].filter(Boolean).length === 1,
+  { message: "Attach the file to one job, company or contact" }
+);
+
+export type AttachmentOwner = z.infer<typeof attachmentOwnerSchema>;
+
+// What the reviewer kept from a processed document; becomes one job
+export const documentReviewSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  address: z.string().trim().min(1).max(500),
+  contractor: z.string().trim().max(200).optional(),
+  projectValue: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
+  startDate: z.coerce.date().optional(),
+  equipment: z.array(z.object({
+    equipmentNumber: z.string().trim().min(1).max(50),
+    attachmentNumber: z.string().trim().max(50).optional(),
+    status: z.enum(["starting", "stopping"]),
+  })).max(50).default([]),
+});
+
+export type DocumentReview = z.infer<typeof documentReviewSchema>;
+
+// Job fields a Dodge re-import can change; anything else it only fills in when empty
+export const IMPORT_CONFLICT_FIELDS = {
+  name: "Name",
+  description: "Description",
+  address: "Address",
+  projectValue: "Project value",
+  type: "Type",
+  contractor: "Contractor",
+  owner: "Owner",
+} as const;
+
+export type ImportConflictField = keyof typeof IMPORT_CONFLICT_FIELDS;
+
+// A Dodge job counts as recently changed for this long after a new version comes in
+export const DODGE_RECENT_CHANGE_DAYS = 14;
+// ...and as stale once its version hasn't changed for this long
+export const DODGE_STALE_VERSION_DAYS = 180;
+
+// Accept writes the incoming value over the job's; reject keeps the job as it is
+export const importConflictResolutionSchema = z.object({
+  ids: z.array(z.string()).min(1).max(1000),
+  decision: z.enum(["accept", "reject"]),
+});
+
+export type ImportConflictResolution = z.infer<typeof importConflictResolutionSchema>;
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  dodge: "Dodge export",
+  kyc: "KYC sales log",
+  vcf: "VCF contacts",
+};
+
+// Labels for the counts the importers report; anything else shows its key
+export const IMPORT_RUN_COUNT_LABELS: Record<string, string> = {
+  imported: "Jobs imported",
+  updated: "Jobs updated",
+  unchanged: "Unchanged",
+  skipped: "Skipped",
+  conflicts: "Changes to review",
+  companiesCreated: "Companies created",
+  contactsCreated: "Contacts created",
+  contactsLinked: "Contacts linked",
+  interactionsCreated: "Interactions",
+  duplicatesSkipped: "Duplicates skipped",
+  missing: "Not in this export",
+  errors: "Errors",
+};
+
+// Hand-placed job pin
+export const jobLocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+// Manual link override for a rental unit; null clears the link, listing a field in unlock returns it to auto-matching
+export const rentalEquipmentLinksSchema = z.object({
+  companyId: z.string().nullable().optional(),
+  jobId: z.string().nullable().optional(),
+  unlock: z.array(z.enum(["companyId", "jobId"])).optional(),
+});
+
+// Equipment report parsing settings - each rep picks their own fleet out of the shared branch report
+export const EQUIPMENT_REPORT_COLUMNS = [
+  "equipmentNumber",
+  "model",
+  "serialNumber",
+  "year",
+  "specs",
+  "additionalSpecs",
+  "customer",
+  "acctMgr",
+  "location",
+  "status",
+  "dateOnOffRent",
+  "daysOnOffRent",
+  "monthlyRate",
+] as const;
+
+export type EquipmentReportColumn = typeof EQUIPMENT_REPORT_COLUMNS[number];
+
+export const equipmentReportSettingsSchema = z.object({
+  // Case-insensitive substrings of the ACCT MGR column; empty keeps every account manager
+  accountManagers: z.array(z.string().trim().min(1)).max(20),
+  // Case-insensitive substrings of the STATUS column, e.g. "ON-RENT", "OFF-RENT", "DOWN"
+  statuses: z.array(z.string().trim().min(1)).min(1, "Keep at least one status").max(20),
+  // Header text to read each field from when the report uses a non-standard name
+  columns: z.partialRecord(z.enum(EQUIPMENT_REPORT_COLUMNS), z.string().trim().min(1)).default({}),
+});
+
+export type EquipmentReportSettings = z.infer<typeof equipmentReportSettingsSchema>;
+
+export const DEFAULT_EQUIPMENT_REPORT_SETTINGS: EquipmentReportSettings = {
+  accountManagers: ["hudson"],
+  statuses: ["ON-RENT"],
+  columns: {},
+};
+
+// Dodge import column mapping - Dodge reshuffles its export every few months, so each
+// header is mapped to a job field and the mapping is kept as a named profile
+export const DODGE_IMPORT_FIELDS = [
+  "name",
+  "description",
+  "address",
+  "city",
+  "state",
+  "zip",
+  "county",
+  "projectId",
+  "projectValue",
+  "projectType",
+  "status",
+  "workType",
+  "startDate",
+  "endDate",
+  "contractor",
+  "contractorPhone",
+  "contractorAddress",
+  "contractorCity",
+  "contractorCounty",
+  "contractorEmail",
+  "contractorWebsite",
+  "contractorContact",
+  "owner",
+  "ownerPhone",
+  "architect",
+  "constructionManager",
+  "constructionManagerPhone",
+  "phone",
+  "email",
+  "orderedBy",
+  "deliverySystem",
+  "specsAvailable",
+  "projectUrl",
+  "versionNumber",
+  "projectNumber",
+  "additionalFeatures",
+  "tags",
+  "userNotes",
+] as const;
+
+export type DodgeImportField = typeof DODGE_IMPORT_FIELDS[number];
+
+export const DODGE_IMPORT_FIELD_LABELS: Record<DodgeImportField, string> = {
+  name: "Project name",
+  description: "Description",
+  address: "Street address",
+  city: "City",
+  state: "State",
+  zip: "ZIP",
+  county: "County",
+  projectId: "Dodge project ID",
+  projectValue: "Project value",
+  projectType: "Project type",
+  status: "Status",
+  workType: "Work type",
+  startDate: "Start date",
+  endDate: "End date",
+  contractor: "Contractor",
+  contractorPhone: "Contractor phone",
+  contractorAddress: "Contractor address",
+  contractorCity: "Contractor city",
+  contractorCounty: "Contractor county",
+  contractorEmail: "Contractor email",
+  contractorWebsite: "Contractor website",
+  contractorContact: "Contractor contact",
+  owner: "Owner",
+  ownerPhone: "Owner phone",
+  architect: "Architect",
+  constructionManager: "Construction manager",
+  constructionManagerPhone: "Construction manager phone",
+  phone: "Phone",
+  email: "Email",
+  orderedBy: "Ordered by",
+  deliverySystem: "Delivery system",
+  specsAvailable: "Specs available",
+  projectUrl: "Project URL",
+  versionNumber: "Version number",
+  projectNumber: "Project number",
+  additionalFeatures: "Additional features",
+  tags: "Tags",
+  userNotes: "User notes",
+};
+
+// Header text -> job field. Headers left out are ignored; when several headers feed
+// one field the first with a value wins.
+export const dodgeColumnMappingSchema = z
+  .record(z.string(), z.enum(DODGE_IMPORT_FIELDS))
+  .refine((columns) => Object.values(columns).includes("name"), "Map a column to Project name");
+
+export type DodgeColumnMapping = z.infer<typeof dodgeColumnMappingSchema>;
+
+export const insertDodgeMappingProfileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  columns: dodgeColumnMappingSchema,
+});
+
+export type InsertDodgeMappingProfile = z.infer<typeof insertDodgeMappingProfileSchema>;
+export interface DodgeMappingProfile extends InsertDodgeMappingProfile {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What the import page needs to build the mapping before anything is written
+export interface DodgeColumnPreview {
+  headers: string[];
+  sampleRows: Record<string, unknown>[];
+  suggestedColumns: DodgeColumnMapping;
+  profileId: string | null; // Saved profile that fits these headers, if any
+}
+
+// Quote totals - shared so the builder preview matches the stored total and PDF
+export function quoteLineItemTotal(item: QuoteLineItem): number {
+  return item.quantity * (item.monthlyRate * item.rentalMonths + (item.deliveryFee ?? 0) + (item.pickupFee ?? 0));
+}
+
+export function quoteTotal(items: QuoteLineItem[]): number {
+  return items.reduce((sum, item) => sum + quoteLineItemTotal(item), 0);
+}
+
+export function formatQuoteNumber(quote: Pick<Quote, "quoteNumber" | "version">): string {
+  const number = `Q-${String(quote.quoteNumber).padStart(5, "0")}`;
+  return quote.version > 1 ? `${number} rev ${quote.version}` : number;
+}
 
 // Filter preferences types
 export interface FilterPreference {
@@ -351,6 +1243,46 @@ export interface FilterPreference {
 
 export type FilterPreferences = Record<string, FilterPreference>;
 
+// Saved dashboard views: a named snapshot of the dashboard filters plus search text
+export const savedViewFiltersSchema = z.object({
+  status: z.array(z.string()),
+  startDate: z.string(),
+  minValue: z.string(),
+  maxValue: z.string(),
+  temperature: z.array(z.string()).optional(),
+  hideCold: z.boolean().optional(),
+  county: z.string().optional(),
+  nearMe: z.boolean().optional(),
+  company: z.string().optional(),
+  showUnvisited: z.boolean().optional(),
+  showOffices: z.boolean().optional(),
+  territory: z.string().optional(),
+  nearJob: z.string().optional(),
+  radius: z.number().optional(),
+});
+
+export const insertSavedViewSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  filters: savedViewFiltersSchema,
+  search: z.string().default(""),
+  isDefault: z.boolean().default(false),
+});
+
+// No defaults: a rename mustn't reset the search or the default flag
+export const updateSavedViewSchema = z.object({
+  name: insertSavedViewSchema.shape.name,
+  filters: savedViewFiltersSchema,
+  search: z.string(),
+  isDefault: z.boolean(),
+}).partial();
+
+export type SavedViewFilters = z.infer<typeof savedViewFiltersSchema>;
+export type InsertSavedView = z.infer<typeof insertSavedViewSchema>;
+export interface SavedView extends InsertSavedView {
+  id: string;
+  createdAt: string;
+}
+
 // Default filter preferences
 export const DEFAULT_FILTER_PREFERENCES: FilterPreferences = {
   hot: {